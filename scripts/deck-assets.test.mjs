@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const deckAssetsPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'deck-assets.ts');
+
+const source = await readFile(deckAssetsPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const deckAssetsModule = await import(moduleUrl);
+const {
+  IMAGE_PLACEHOLDER_ATTRIBUTE,
+  buildAssetManifestPrompt,
+  deckAssetPublicUrl,
+  deckAssetStoragePath,
+  markdownImageReference,
+  referencedAssetUrls,
+  toAssetManifest,
+} = deckAssetsModule;
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const BASE = 'http://localhost:54321/storage/v1/object/public/deck-assets/u1/d1/';
+const manifest = toAssetManifest([
+  { url: `${BASE}a-team.jpg`, alt_text: ' Team on stage ', width: 1600, height: 900 },
+  { url: `${BASE}b-logo.png`, alt_text: 'Company "Acme" logo', width: 512, height: 512 },
+  { url: `${BASE}c-scan.avif`, alt_text: '', width: null, height: null },
+]);
+
+test('deckAssetStoragePath keeps the owner folder first and a safe file name', () => {
+  assert.equal(deckAssetStoragePath('u1', 'd1', 'a', 'Équipe Photo (1).JPG'), 'u1/d1/a-equipe-photo-1.jpg');
+  assert.equal(deckAssetStoragePath('u1', 'd1', 'a', '../..'), 'u1/d1/a-image');
+});
+
+test('deckAssetPublicUrl builds the bucket URL from the storage path, as getPublicUrl does', () => {
+  assert.equal(deckAssetPublicUrl('http://localhost:54321/', 'u1/d1/a-team.jpg'), `${BASE}a-team.jpg`);
+  assert.equal(deckAssetPublicUrl('http://localhost:54321', ''), 'http://localhost:54321/storage/v1/object/public/deck-assets/');
+});
+
+test('markdownImageReference uses the alt text, or the file name without brackets', () => {
+  assert.equal(markdownImageReference({ url: 'https://x/a.png', alt_text: 'Chart', file_name: 'a.png' }), '![Chart](https://x/a.png)');
+  assert.equal(markdownImageReference({ url: 'https://x/a.png', alt_text: ' ', file_name: '[draft].png' }), '![draft.png](https://x/a.png)');
+});
+
+test('referencedAssetUrls only returns manifest images, once, in order', () => {
+  const markdown = `Intro ![logo](${BASE}b-logo.png "Logo")\n![](<${BASE}a-team.jpg>)\n![x](https://images.pexels.com/1.jpg)\n![again](${BASE}b-logo.png)`;
+  assert.deepEqual(referencedAssetUrls(markdown, manifest), [`${BASE}b-logo.png`, `${BASE}a-team.jpg`]);
+  assert.deepEqual(referencedAssetUrls(`[link](${BASE}a-team.jpg)`, manifest), []);
+});
+
+test('buildAssetManifestPrompt lists every image with its shape and marks referenced ones', () => {
+  const prompt = buildAssetManifestPrompt(manifest, `![](${BASE}a-team.jpg)`);
+  assert.match(prompt, /1\. \S+a-team\.jpg \| alt: "Team on stage" \| 1600×900 \(landscape\) \| referenced in the content/);
+  assert.match(prompt, /2\. \S+b-logo\.png \| alt: "Company 'Acme' logo" \| 512×512 \(square\)$/m);
+  assert.match(prompt, /3\. \S+c-scan\.avif \| no alt text .* \| unknown size$/m);
+  assert.ok(prompt.includes(IMAGE_PLACEHOLDER_ATTRIBUTE));
+});
+
+test('buildAssetManifestPrompt forbids images when the deck has none', () => {
+  const prompt = buildAssetManifestPrompt([]);
+  assert.match(prompt, /No image has been uploaded/);
+  assert.ok(prompt.includes(IMAGE_PLACEHOLDER_ATTRIBUTE));
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll deck asset tests passed.');
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const tokensPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'design-tokens.ts');
+
+const source = await readFile(tokensPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const tokensModule = await import(moduleUrl);
+const { extractDesignTokens, summarizeDesignTokens, formatDesignTokenSummary, buildDeckOutline } = tokensModule;
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const slide = (accent, footer) => `<!DOCTYPE html>
+<html><head>
+<link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;700&display=swap" rel="stylesheet">
+<style>body { font-family: 'Inter', sans-serif; color: #1E293B; } .accent { color: ${accent}; }</style>
+</head><body>
+<header class="flex items-center  bg-indigo-600 text-white"><h1>Title</h1></header>
+<main class="rounded-xl bg-slate-50"><p class="text-indigo-600">Body</p></main>
+<footer class="text-xs text-slate-500"><p>${footer}</p></footer>
+</body></html>`;
+
+test('extracts colours, fonts, header and footer from one slide', () => {
+  const tokens = extractDesignTokens(slide('#f59e0b', 'Made by Acme'));
+  assert.equal(tokens.colors.get('#1e293b'), 1);
+  assert.equal(tokens.colors.get('#f59e0b'), 1);
+  assert.equal(tokens.tailwindColors.get('text-indigo-600'), 1);
+  assert.equal(tokens.fonts.get('Inter'), 2);
+  assert.equal(tokens.radii.get('rounded-xl'), 1);
+  assert.equal(tokens.headerClass, 'flex items-center bg-indigo-600 text-white');
+  assert.equal(tokens.footerText, 'Made by Acme');
+});
+
+test('summary keeps the most frequent tokens across slides', () => {
+  const summary = summarizeDesignTokens([
+    slide('#f59e0b', 'Made by Acme'),
+    slide('#f59e0b', 'Made by Acme'),
+    slide('#10b981', 'Other footer'),
+  ]);
+  assert.equal(summary.sampleCount, 3);
+  assert.deepEqual(summary.colors.slice(0, 2), ['#1e293b', '#f59e0b']);
+  assert.equal(summary.fonts[0], 'Inter');
+  assert.equal(summary.footerText, 'Made by Acme');
+  assert.match(formatDesignTokenSummary(summary), /Derived from 3 already generated slide\(s\)/);
+});
+
+test('summary is null when no sibling has generated HTML', () => {
+  assert.equal(summarizeDesignTokens(['', '   ']), null);
+});
+
+test('outline follows page_order and marks the current slide', () => {
+  const outline = buildDeckOutline(
+    [
+      { id: 'b', title: 'Results', page_order: 2 },
+      { id: 'a', title: 'Intro', page_order: 0 },
+      { id: 'c', title: 'Method', page_order: 1 },
+    ],
+    'c',
+  );
+  assert.equal(outline, '1. Intro\n2. Method   <- this slide\n3. Results');
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll design token tests passed.');
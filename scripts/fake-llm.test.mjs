@@ -0,0 +1,204 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const sharedDir = path.join(repoRoot, 'supabase', 'functions', '_shared');
+
+// fake-llm.ts imports sibling modules, so transpile the whole chain into a temp dir
+const outDir = await mkdtemp(path.join(tmpdir(), 'fake-llm-test-'));
+for (const name of ['fake-llm', 'llm-json', 'llm-types', 'json-schema', 'slide-lint', 'html-validator']) {
+  const source = await readFile(path.join(sharedDir, `${name}.ts`), 'utf8');
+  const compiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ES2020,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  await writeFile(path.join(outDir, `${name}.mjs`), compiled.outputText.replace(/from '(\.\/[\w-]+)\.ts'/g, "from '$1.mjs'"));
+}
+const { FakeLLMProvider } = await import(pathToFileURL(path.join(outDir, 'fake-llm.mjs')).href);
+const { LLMSchemaError } = await import(pathToFileURL(path.join(outDir, 'llm-types.mjs')).href);
+const { lintSlideHtml } = await import(pathToFileURL(path.join(outDir, 'slide-lint.mjs')).href);
+const { validateHtmlLocally } = await import(pathToFileURL(path.join(outDir, 'html-validator.mjs')).href);
+await rm(outDir, { recursive: true, force: true });
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const hintSchema = {
+  type: 'object',
+  properties: {
+    hints: {
+      type: 'array',
+      maxItems: 5,
+      items: {
+        type: 'object',
+        properties: {
+          value: { type: 'string', enum: ['introduction', 'agenda'] },
+          rationale: { type: 'string' },
+          confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+        },
+        required: ['value', 'rationale', 'confidence'],
+      },
+    },
+  },
+  required: ['hints'],
+};
+
+test('synthesises values that follow the schema', async () => {
+  const llm = new FakeLLMProvider();
+  const { data: result, diagnostics } = await llm.generateJSON({ schemaName: 'hint_suggestions', schema: hintSchema, user: 'Slide about onboarding' });
+  assert.deepEqual(diagnostics, { validatedWith: 'json-schema', attempts: 1, repaired: false, issuesByAttempt: [[]] });
+  assert.equal(result.hints.length, 1);
+  assert.equal(result.hints[0].value, 'introduction');
+  assert.equal(result.hints[0].confidence, 'high');
+  assert.match(result.hints[0].rationale, /^fake rationale [0-9a-f]{8}$/);
+});
+
+test('is deterministic for the same prompt and differs across prompts', async () => {
+  const schema = { type: 'object', properties: { generatedHtml: { type: 'string' } } };
+  const llm = new FakeLLMProvider();
+  const { data: a } = await llm.generateJSON({ schemaName: 'infographic_html', schema, user: 'Quarterly results' });
+  const { data: b } = await llm.generateJSON({ schemaName: 'infographic_html', schema, user: 'Quarterly results' });
+  const { data: c } = await llm.generateJSON({ schemaName: 'infographic_html', schema, user: 'Roadmap' });
+  assert.equal(a.generatedHtml, b.generatedHtml);
+  assert.notEqual(a.generatedHtml, c.generatedHtml);
+  assert.match(a.generatedHtml, /^<!DOCTYPE html>/);
+  assert.match(a.generatedHtml, /Quarterly results/);
+});
+
+test('escapes the prompt excerpt inside fake HTML', async () => {
+  const schema = { type: 'object', properties: { fixedHtml: { type: 'string' } } };
+  const { data: result } = await new FakeLLMProvider().generateJSON({ schemaName: 'fix', schema, user: '<script>alert(1)</script>' });
+  assert.doesNotMatch(result.fixedHtml, /<script>/);
+});
+
+test('fake pages pass the markup validator and slide lint', async () => {
+  const schema = { type: 'object', properties: { generatedHtml: { type: 'string', description: 'Complete HTML page' } } };
+  const { data } = await new FakeLLMProvider().generateJSON({ schemaName: 'infographic_html', schema, user: 'Quarterly <results> & "plans"' });
+  assert.deepEqual(validateHtmlLocally(data.generatedHtml).errors, []);
+  assert.deepEqual(lintSlideHtml(data.generatedHtml).errors, []);
+});
+
+test('the fake fixer returns the same valid page for the same input', async () => {
+  const schema = { type: 'object', properties: { fixedHtml: { type: 'string', description: 'The minimally fixed HTML string' } } };
+  const llm = new FakeLLMProvider();
+  const fix = async (html, errors) =>
+    (await llm.generateJSON({ schemaName: 'html_fix', schema, user: `Here is the current HTML to fix:\n---HTML START---\n${html}\n---HTML END---\n\n${errors}` })).data.fixedHtml;
+  const broken = '<!DOCTYPE html><html><body><h2>Roadmap & goals</h2><button>Next</button></body></html>';
+  const first = await fix(broken, '[{"message":"no buttons"}]');
+  assert.equal(await fix(broken, '[{"message":"other wording"}]'), first);
+  assert.deepEqual(lintSlideHtml(first).errors, []);
+  assert.match(first, /Roadmap &amp; goals Next/);
+  // Fixing the fixed page again changes nothing, whatever the errors say
+  assert.equal(await fix(first, '[{"message":"runtime error"}]'), first);
+});
+
+test('uses hex colours for colour fields and canned responses when provided', async () => {
+  const schema = { type: 'object', properties: { primary: { type: 'string', description: 'Primary colour as a hex code' } } };
+  const llm = new FakeLLMProvider({ responses: { page_rewrite: { rewrittenMarkdown: '# Hi', summary: 'none' } } });
+  const { data: colour } = await llm.generateJSON({ schemaName: 'palette', schema, user: 'x' });
+  assert.match(colour.primary, /^#[0-9a-f]{6}$/);
+  const { data: canned } = await llm.generateJSON({ schemaName: 'page_rewrite', schema: {}, user: 'x' });
+  assert.deepEqual(canned, { rewrittenMarkdown: '# Hi', summary: 'none' });
+  assert.equal(llm.calls.length, 2);
+  assert.equal(llm.calls[1].schemaName, 'page_rewrite');
+});
+
+test('re-asks the model with the validation errors and gives up after maxRepairAttempts', async () => {
+  const schema = {
+    type: 'object',
+    properties: { rewrittenMarkdown: { type: 'string' }, summary: { type: 'string' } },
+    required: ['rewrittenMarkdown', 'summary'],
+    additionalProperties: false,
+  };
+  const llm = new FakeLLMProvider({ responses: { page_rewrite: { rewrittenMarkdown: 42, extra: true } } });
+  await assert.rejects(
+    llm.generateJSON({ schemaName: 'page_rewrite', schema, user: 'Rewrite this', maxRepairAttempts: 1 }),
+    (error) => {
+      assert.ok(error instanceof LLMSchemaError);
+      assert.equal(error.diagnostics.attempts, 2);
+      assert.deepEqual(
+        error.diagnostics.issuesByAttempt[0].map((issue) => issue.path).sort(),
+        ['extra', 'rewrittenMarkdown', 'summary'],
+      );
+      return true;
+    },
+  );
+  assert.equal(llm.calls.length, 2);
+  assert.match(llm.calls[1].prompt, /^Rewrite this\n/m);
+  assert.match(llm.calls[1].prompt, /- rewrittenMarkdown: expected string, got integer/);
+  assert.match(llm.calls[1].prompt, /- extra: is not allowed/);
+});
+
+test('uses a zod-like validator and returns its parsed data', async () => {
+  const validator = {
+    safeParse: (value) =>
+      value.count > 0
+        ? { success: true, data: { count: value.count * 10 } }
+        : { success: false, error: { issues: [{ path: ['count'], message: 'must be positive' }] } },
+  };
+  const schema = { type: 'object', properties: { count: { type: 'integer', minimum: 3 } } };
+  const { data, diagnostics } = await new FakeLLMProvider().generateJSON({ schemaName: 'counter', schema, user: 'x', validator });
+  assert.equal(data.count, 30);
+  assert.equal(diagnostics.validatedWith, 'validator');
+});
+
+test('reports usage for every call, repair attempts included', async () => {
+  const usages = [];
+  const schema = { type: 'object', properties: { count: { type: 'integer', minimum: 3 } }, required: ['count'] };
+  const llm = new FakeLLMProvider({
+    defaultModel: 'fake-small',
+    responses: { counter: { count: 1 } },
+    onCall: (usage) => { usages.push(usage); },
+  });
+  await assert.rejects(llm.generateJSON({ schemaName: 'counter', schema, user: 'Count', maxRepairAttempts: 1 }), LLMSchemaError);
+  await llm.generateText({ messages: [{ role: 'user', text: 'Hello' }] });
+
+  assert.equal(usages.length, 3);
+  usages.forEach((usage) => {
+    assert.equal(usage.provider, 'fake');
+    assert.equal(usage.model, 'fake-small');
+    assert.equal(usage.error, null);
+    assert.ok(usage.inputTokens > 0 && usage.outputTokens > 0);
+    assert.ok(usage.latencyMs >= 0);
+  });
+  // The repair prompt echoes the first answer, so it is longer
+  assert.ok(usages[1].inputTokens > usages[0].inputTokens);
+});
+
+test('a failing usage observer never fails the call', async () => {
+  const error = console.error;
+  console.error = () => {};
+  try {
+    const llm = new FakeLLMProvider({ onCall: () => { throw new Error('database down'); } });
+    assert.match(await llm.generateText({ messages: [{ role: 'user', text: 'Hi' }] }), /^Fake answer /);
+  } finally {
+    console.error = error;
+  }
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll fake LLM provider tests passed.');
@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const generationHintsPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'generation-hints.ts');
+
+const source = await readFile(generationHintsPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const {
+  GENERATION_HINTS,
+  GENERATION_HINT_LOCALES,
+  sanitizeGenerationHints,
+  generationHintLabel,
+  generationHintDescription,
+  buildGenerationHintLines,
+  buildGenerationHintCatalogue,
+  customHintSlug,
+  validateCustomGenerationHint,
+  readCustomGenerationHints,
+} = await import(moduleUrl);
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+test('every hint has a unique snake_case value, both locales and a prompt', () => {
+  const values = new Set();
+  for (const hint of GENERATION_HINTS) {
+    assert.match(hint.value, /^[a-z]+(?:_[a-z]+)*$/);
+    assert.ok(!values.has(hint.value), `duplicate hint ${hint.value}`);
+    values.add(hint.value);
+    for (const locale of GENERATION_HINT_LOCALES) {
+      assert.ok(hint.labels[locale]?.trim(), `${hint.value} has no ${locale} label`);
+      assert.ok(hint.descriptions[locale]?.trim(), `${hint.value} has no ${locale} description`);
+    }
+    assert.ok(hint.prompt.trim(), `${hint.value} has no prompt`);
+  }
+});
+
+test('sanitizeGenerationHints keeps known hints once, normalised, in order', () => {
+  assert.deepEqual(sanitizeGenerationHints(['Timeline', ' swot ', 'unknown', 'timeline', 42, null]), ['timeline', 'swot']);
+  assert.deepEqual(sanitizeGenerationHints(['custom:pricing_table', 'Custom:Pricing_Table', 'custom:', 'custom:bad slug']), [
+    'custom:pricing_table',
+  ]);
+  assert.deepEqual(sanitizeGenerationHints('timeline'), []);
+  assert.deepEqual(sanitizeGenerationHints(undefined), []);
+});
+
+test('labels and descriptions are localised', () => {
+  assert.equal(generationHintLabel('agenda', 'en'), 'Agenda');
+  assert.equal(generationHintLabel('agenda', 'fr'), 'Sommaire');
+  assert.equal(generationHintLabel('some_theme'), 'Some Theme');
+  assert.ok(generationHintDescription('swot', 'fr').includes('forces'));
+  assert.equal(generationHintDescription('some_theme'), undefined);
+});
+
+test('buildGenerationHintLines uses the registry prompt and falls back for unknown hints', () => {
+  const swot = GENERATION_HINTS.find((hint) => hint.value === 'swot');
+  const lines = buildGenerationHintLines(['SWOT', '  ', 'brand_story']);
+  assert.deepEqual(lines, [
+    `- SWOT: ${swot.prompt}`,
+    '- Brand Story: Emphasize this theme prominently in the layout and narrative.',
+  ]);
+});
+
+test('buildGenerationHintCatalogue lists every hint', () => {
+  const catalogue = buildGenerationHintCatalogue('en').split('\n');
+  assert.equal(catalogue.length, GENERATION_HINTS.length);
+  assert.ok(catalogue[0].startsWith(`- ${GENERATION_HINTS[0].value}: `));
+});
+
+const customRows = [
+  { id: 'a', slug: 'pricing_table', label: 'Pricing table', description: '', prompt: 'Three tiers.', infographic_id: null },
+  { id: 'b', slug: 'pricing_table', label: 'Grille tarifaire', description: 'Offres', prompt: 'Deux offres.', infographic_id: 'deck-1' },
+  { id: 'c', slug: 'kpi_scorecard', label: 'KPI scorecard', description: 'Scores', prompt: 'Traffic lights.', infographic_id: null },
+  { id: 'd', slug: 'Not A Slug', label: 'Broken', prompt: 'x', infographic_id: null },
+];
+
+test('customHintSlug derives a snake_case slug from the label', () => {
+  assert.equal(customHintSlug('  Grille tarifaire — Été 2025! '), 'grille_tarifaire_ete_2025');
+  assert.equal(customHintSlug('!!!'), '');
+  assert.ok(customHintSlug('x'.repeat(80)).length <= 40);
+});
+
+test('validateCustomGenerationHint requires a label and a prompt', () => {
+  const result = validateCustomGenerationHint({ label: ' Team photo wall ', description: '', prompt: ' Grid of portraits. ' });
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.value, { slug: 'team_photo_wall', label: 'Team photo wall', description: '', prompt: 'Grid of portraits.' });
+
+  const invalid = validateCustomGenerationHint({ label: '???', prompt: '' });
+  assert.equal(invalid.valid, false);
+  assert.equal(invalid.errors.length, 2);
+});
+
+test('readCustomGenerationHints lets a deck-level hint override the user-level one', () => {
+  const hints = readCustomGenerationHints(customRows);
+  assert.deepEqual(hints.map((hint) => hint.value), ['custom:pricing_table', 'custom:kpi_scorecard']);
+  assert.equal(hints[0].label, 'Grille tarifaire');
+  assert.equal(hints[0].infographicId, 'deck-1');
+  assert.equal(hints[0].id, 'b');
+  assert.deepEqual(readCustomGenerationHints(null), []);
+});
+
+test('custom hints feed labels, prompt lines and the suggestion catalogue', () => {
+  const custom = readCustomGenerationHints(customRows);
+  assert.equal(generationHintLabel('custom:kpi_scorecard', 'fr', custom), 'KPI scorecard');
+  assert.equal(generationHintLabel('custom:team_wall', 'fr'), 'Team Wall');
+  assert.deepEqual(buildGenerationHintLines(['custom:kpi_scorecard'], custom), ['- KPI scorecard: Traffic lights.']);
+  assert.ok(
+    buildGenerationHintCatalogue('en', custom).endsWith('- custom:kpi_scorecard: KPI scorecard (Scores)'),
+  );
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll generation hint tests passed.');
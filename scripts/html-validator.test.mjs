@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const validatorPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'html-validator.ts');
+
+const source = await readFile(validatorPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const { validateHtmlLocally } = await import(moduleUrl);
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const page = (body, head = '<title>Slide</title>') =>
+  `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n${head}\n</head>\n<body>\n${body}\n</body>\n</html>\n`;
+const messages = (html) => validateHtmlLocally(html).errors.map((error) => error.message);
+
+test('accepts a well-formed slide', () => {
+  const html = page(`<main class="p-8">
+  <h1 id="title">Q3 <em>results</em></h1>
+  <p>Revenue grew<br>by 12%<p>Second paragraph
+  <ul><li>One<li>Two</ul>
+  <table><tr><td>A<td>B</tr></table>
+  <svg viewBox="0 0 10 10"><circle cx="5" cy="5" r="4"/><path d="M0 0L10 10"/></svg>
+  <img src="chart.png" alt="">
+</main>
+<script>if (1 < 2 && "</div>") { document.title = '<b>'; }</script>`, '<title>A < B</title><style>p > span { color: red }</style>');
+  const result = validateHtmlLocally(html);
+  assert.deepEqual(result.errors, []);
+  assert.equal(result.valid, true);
+});
+
+test('reports a missing doctype once', () => {
+  assert.deepEqual(messages('<html><body><p>Hi</p></body></html>'), [
+    'Start tag seen without seeing a doctype first. Expected “<!DOCTYPE html>”.',
+  ]);
+});
+
+test('reports duplicate ids and attributes', () => {
+  assert.deepEqual(messages(page('<div id="a"></div><span id="a" class="x" class="y"></span>')), [
+    'Duplicate attribute “class”.',
+    'Duplicate ID “a”.',
+  ]);
+});
+
+test('reports unclosed and stray elements', () => {
+  assert.deepEqual(messages(page('<section><div><span>Text</div></section></em>')), [
+    'End tag “div” seen, but there were open elements.',
+    'Unclosed element “span”.',
+    'Stray end tag “em”.',
+  ]);
+  assert.deepEqual(messages('<!DOCTYPE html><div><section>'), [
+    'End of file seen and there were open elements.',
+    'Unclosed element “div”.',
+    'Unclosed element “section”.',
+  ]);
+});
+
+test('reports invalid nesting', () => {
+  assert.deepEqual(messages(page('<span><div>Block</div></span>')), [
+    'Element “div” not allowed as child of element “span” in this context.',
+  ]);
+  assert.deepEqual(messages(page('<div><li>Item</li></div>')), [
+    'Element “li” not allowed as child of element “div” in this context.',
+  ]);
+  assert.deepEqual(messages(page('<a href="#"><button>Go</button></a>')), [
+    'The element “button” must not appear as a descendant of the “a” element.',
+  ]);
+  assert.deepEqual(messages(page('<td>Cell</td>')), ['Stray start tag “td”.']);
+});
+
+test('reports a paragraph implicitly closed by a block element', () => {
+  assert.deepEqual(messages(page('<p><span>Text<div>Block</div></span></p>')), [
+    'End tag “p” implied, but there were open elements.',
+    'Stray end tag “span”.',
+    'No “p” element in scope but a “p” end tag seen.',
+  ]);
+});
+
+test('reports parse errors with Nu validator positions', () => {
+  const [error] = validateHtmlLocally('<!DOCTYPE html>\n<div>\n  <div/>\n</div>\n</div>').errors;
+  assert.equal(error.type, 'error');
+  assert.equal(error.message, 'Self-closing syntax (“/>”) used on a non-void HTML element. Ignoring the slash and treating as a start tag.');
+  assert.equal(error.lastLine, 3);
+  assert.equal(error.firstColumn, 3);
+  assert.equal(error.lastColumn, 8);
+  assert.equal(error.extract.slice(error.hiliteStart, error.hiliteStart + error.hiliteLength), '<div/>');
+  assert.deepEqual(messages(page('<p>1 < 2</p><!-- open')), [
+    'Bad character after “<”. Probable cause: Unescaped “<”. Try escaping it as “&lt;”.',
+    'End of file inside comment.',
+  ]);
+});
+
+test('stops at maxErrors', () => {
+  const html = page('<span id="x"></span>'.repeat(10));
+  assert.equal(validateHtmlLocally(html, { maxErrors: 3 }).errors.length, 3);
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll HTML validator tests passed.');
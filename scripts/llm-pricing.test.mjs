@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const pricingPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'llm-pricing.ts');
+
+const source = await readFile(pricingPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const { estimateLLMCostUsd, findLLMModelPrice, parseLLMPriceOverrides } = await import(moduleUrl);
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+test('dated snapshots use the family price', () => {
+  assert.deepEqual(findLLMModelPrice('gpt-4o-2024-08-06'), { input: 2.5, output: 10 });
+});
+
+test('the longest matching prefix wins', () => {
+  assert.deepEqual(findLLMModelPrice('gpt-4o-mini-2024-07-18'), { input: 0.15, output: 0.6 });
+  assert.deepEqual(findLLMModelPrice('o3-mini'), { input: 1.1, output: 4.4 });
+});
+
+test('prefixes only match on a dash boundary', () => {
+  assert.equal(findLLMModelPrice('gpt-4omega'), null);
+  assert.equal(findLLMModelPrice('llama-3.1-8b-instruct'), null);
+});
+
+test('costs are computed per million tokens', () => {
+  assert.equal(estimateLLMCostUsd('openai', 'gpt-4o', 1_000_000, 100_000), 3.5);
+  assert.equal(estimateLLMCostUsd('openai', 'gpt-4o-mini', 1200, 800), 0.00066);
+});
+
+test('missing counts or prices give an unknown cost', () => {
+  assert.equal(estimateLLMCostUsd('openai', 'gpt-4o', null, null), null);
+  assert.equal(estimateLLMCostUsd('openai-compatible', 'qwen2.5-7b', 500, 500), null);
+});
+
+test('the fake provider is always free', () => {
+  assert.equal(estimateLLMCostUsd('fake', 'gpt-4o', 5000, 5000), 0);
+});
+
+test('overrides price local models and replace defaults', () => {
+  const overrides = parseLLMPriceOverrides(JSON.stringify({
+    'Qwen2.5-7B': { input: 0, output: 0 },
+    'gpt-4o': { input: 5, output: 15 },
+  }));
+  assert.equal(estimateLLMCostUsd('openai-compatible', 'qwen2.5-7b', 500, 500, overrides), 0);
+  assert.equal(estimateLLMCostUsd('openai', 'gpt-4o-2024-08-06', 1_000_000, 0, overrides), 5);
+});
+
+test('malformed overrides are ignored', () => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    assert.deepEqual(parseLLMPriceOverrides('not json'), {});
+    assert.deepEqual(parseLLMPriceOverrides('[1, 2]'), {});
+    assert.deepEqual(
+      parseLLMPriceOverrides(JSON.stringify({ a: { input: -1, output: 1 }, b: { input: 1 }, c: { input: 1, output: 2 } })),
+      { c: { input: 1, output: 2 } },
+    );
+  } finally {
+    console.warn = warn;
+  }
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll LLM pricing tests passed.');
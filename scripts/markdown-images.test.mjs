@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const sharedDir = path.join(repoRoot, 'supabase', 'functions', '_shared');
+
+// markdown-images.ts imports deck-assets.ts, so transpile both into a temp dir
+const outDir = await mkdtemp(path.join(tmpdir(), 'markdown-images-test-'));
+for (const name of ['markdown-images', 'deck-assets']) {
+  const source = await readFile(path.join(sharedDir, `${name}.ts`), 'utf8');
+  const compiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ES2020,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  await writeFile(path.join(outDir, `${name}.mjs`), compiled.outputText.replace(/from '(\.\/[\w-]+)\.ts'/g, "from '$1.mjs'"));
+}
+const { MAX_MARKDOWN_IMAGES, buildUnreachableImagesPrompt, readImageSize, resolveMarkdownImages } = await import(
+  pathToFileURL(path.join(outDir, 'markdown-images.mjs')).href
+);
+const { buildAssetManifestPrompt } = await import(pathToFileURL(path.join(outDir, 'deck-assets.mjs')).href);
+await rm(outDir, { recursive: true, force: true });
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const bytes = (...parts) =>
+  Uint8Array.from(parts.flatMap((part) => (typeof part === 'string' ? [...part].map((c) => c.charCodeAt(0)) : part)));
+
+const PNG = bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13], 'IHDR', [0, 0, 0x07, 0x80, 0, 0, 0x04, 0x38]);
+const GIF = bytes('GIF89a', [0x20, 0x03, 0x58, 0x02]);
+// SOI, an APP0 segment to skip, then SOF2 with height 600 and width 800
+const JPEG = bytes([0xff, 0xd8, 0xff, 0xe0, 0, 6, 0, 0, 0, 0, 0xff, 0xc2, 0, 11, 8, 0x02, 0x58, 0x03, 0x20, 3, 0, 0]);
+const WEBP_VP8X = bytes('RIFF', [0, 0, 0, 0], 'WEBP', 'VP8X', [10, 0, 0, 0, 0, 0, 0, 0], [0x3f, 0x01, 0], [0xef, 0, 0], [0, 0]);
+
+test('readImageSize reads PNG, GIF, JPEG and WebP headers', () => {
+  assert.deepEqual(readImageSize(PNG), { width: 1920, height: 1080 });
+  assert.deepEqual(readImageSize(GIF), { width: 800, height: 600 });
+  assert.deepEqual(readImageSize(JPEG), { width: 800, height: 600 });
+  assert.deepEqual(readImageSize(WEBP_VP8X), { width: 320, height: 240 });
+  assert.equal(readImageSize(bytes('<svg xmlns="http://www.w3.org/2000/svg"/>')), null);
+  assert.equal(readImageSize(PNG.subarray(0, 20)), null);
+});
+
+const ASSET = 'http://localhost:54321/storage/v1/object/public/deck-assets/u1/d1/a-logo.png';
+const deckManifest = [
+  { url: ASSET, alt: '', width: 512, height: 512 },
+  { url: 'http://localhost:54321/storage/v1/object/public/deck-assets/u1/d1/b-team.jpg', alt: 'Team', width: 1600, height: 900 },
+];
+
+const probeFrom = (responses) => async (url) => {
+  const response = responses[url];
+  if (!response) throw new Error('HTTP 404');
+  return response;
+};
+
+test('resolveMarkdownImages marks deck assets and reachable images as required', async () => {
+  const markdown = `![Acme logo](${ASSET})\n\n![Growth chart](https://cdn.example.com/chart.png "Q3")\n![chart again](https://cdn.example.com/chart.png)`;
+  const probed = [];
+  const result = await resolveMarkdownImages(markdown, deckManifest, async (url) => {
+    probed.push(url);
+    return { contentType: 'image/png', bytes: PNG };
+  });
+  assert.deepEqual(probed, ['https://cdn.example.com/chart.png']);
+  assert.deepEqual(result.unreachable, []);
+  assert.deepEqual(result.manifest, [
+    { url: ASSET, alt: 'Acme logo', width: 512, height: 512, required: true },
+    deckManifest[1],
+    { url: 'https://cdn.example.com/chart.png', alt: 'Growth chart', width: 1920, height: 1080, required: true },
+  ]);
+  assert.match(buildAssetManifestPrompt(result.manifest), /3\. https:\/\/cdn\.example\.com\/chart\.png \| alt: "Growth chart" \| 1920×1080 \(landscape\) \| referenced in the content/);
+});
+
+test('resolveMarkdownImages reports images that cannot be shown', async () => {
+  const markdown = [
+    '![Missing](https://cdn.example.com/missing.png)',
+    '![Page](https://example.com/page.html)',
+    '![Local](./diagram.png)',
+    '![Inline](data:image/png;base64,AAAA)',
+  ].join('\n');
+  const result = await resolveMarkdownImages(markdown, [], probeFrom({
+    'https://example.com/page.html': { contentType: 'text/html; charset=utf-8', bytes: bytes('<html>') },
+  }));
+  assert.deepEqual(result.manifest, []);
+  assert.deepEqual(result.unreachable.map((image) => `${image.alt}: ${image.reason}`), [
+    'Local: not an http(s) URL',
+    'Inline: not an http(s) URL',
+    'Missing: HTTP 404',
+    'Page: not an image (text/html; charset=utf-8)',
+  ]);
+  const prompt = buildUnreachableImagesPrompt(result.unreachable);
+  assert.match(prompt, /1\. "Local" \(\.\/diagram\.png\): not an http\(s\) URL/);
+  assert.ok(prompt.includes('data-image-placeholder'));
+  assert.equal(buildUnreachableImagesPrompt([]), '');
+});
+
+test('resolveMarkdownImages bounds the number of probed images', async () => {
+  const markdown = Array.from({ length: MAX_MARKDOWN_IMAGES + 2 }, (_, i) => `![img ${i}](https://cdn.example.com/${i}.gif)`).join('\n');
+  let probes = 0;
+  const result = await resolveMarkdownImages(`${markdown}\n![logo](${ASSET})`, deckManifest, async () => {
+    probes += 1;
+    return { contentType: 'image/gif', bytes: GIF };
+  });
+  assert.equal(probes, MAX_MARKDOWN_IMAGES);
+  assert.equal(result.unreachable.length, 2);
+  assert.match(result.unreachable[0].reason, /more than \d+ images/);
+  assert.equal(result.manifest[0].required, true);
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll markdown image tests passed.');
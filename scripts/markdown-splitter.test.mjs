@@ -8,17 +8,20 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const repoRoot = path.resolve(__dirname, '..');
 const splitterPath = path.join(repoRoot, 'src', 'lib', 'markdownSplit.ts');
-
-const source = await readFile(splitterPath, 'utf8');
-const compiled = ts.transpileModule(source, {
-  compilerOptions: {
-    module: ts.ModuleKind.ES2020,
-    target: ts.ScriptTarget.ES2020,
-  },
-});
-const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
-const splitterModule = await import(moduleUrl);
-const { splitMarkdown } = splitterModule;
+const markdownPath = path.join(repoRoot, 'src', 'lib', 'markdown.ts');
+
+const importTs = async (filePath) => {
+  const source = await readFile(filePath, 'utf8');
+  const compiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ES2020,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  return import(`data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`);
+};
+const { splitMarkdown } = await importTs(splitterPath);
+const { stripMarkdown } = await importTs(markdownPath);
 
 const tests = [];
 const test = (name, fn) => tests.push({ name, fn });
@@ -146,6 +149,12 @@ test('returns a single segment when no headings at target level exist', () => {
   assertNoLoss(input, segments);
 });
 
+test('stripMarkdown drops images instead of leaving their alt text', () => {
+  assert.equal(stripMarkdown('![Company logo](https://example.com/logo.png) **Q3** results'), 'Q3 results');
+  assert.equal(stripMarkdown('Intro ![Team](<https://example.com/team.jpg>) and ![Chart](https://example.com/c.png "Revenue")'), 'Intro and');
+  assert.equal(stripMarkdown('See [the report](https://example.com/report)'), 'See the report');
+});
+
 let failures = 0;
 for (const { name, fn } of tests) {
   try {
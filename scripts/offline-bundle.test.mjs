@@ -0,0 +1,198 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const sharedDir = path.join(repoRoot, 'supabase', 'functions', '_shared');
+
+// offline-bundle.ts imports the slide lint allow-list, so transpile the whole chain into a temp dir
+const outDir = await mkdtemp(path.join(tmpdir(), 'offline-bundle-test-'));
+for (const name of ['offline-bundle', 'slide-lint', 'html-validator']) {
+  const source = await readFile(path.join(sharedDir, `${name}.ts`), 'utf8');
+  const compiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ES2020,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  await writeFile(path.join(outDir, `${name}.mjs`), compiled.outputText.replace(/from '(\.\/[\w-]+)\.ts'/g, "from '$1.mjs'"));
+}
+const { bundleSlideOffline, pinCdnUrl, PINNED_CDN_VERSIONS, readAssetBytes } = await import(pathToFileURL(path.join(outDir, 'offline-bundle.mjs')).href);
+await rm(outDir, { recursive: true, force: true });
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const text = (contentType, body) => ({ contentType, bytes: new TextEncoder().encode(body) });
+
+// Fetcher answering from a fixed table, recording what was asked
+const createFetcher = (assets) => {
+  const requested = [];
+  const fetchAsset = async (url) => {
+    requested.push(url);
+    if (!(url in assets)) throw new Error('HTTP 404');
+    return assets[url];
+  };
+  return { fetchAsset, requested };
+};
+
+test('pins jsDelivr and unpkg packages, latest or not', () => {
+  assert.equal(
+    pinCdnUrl('https://cdn.jsdelivr.net/npm/chart.js@latest/dist/chart.umd.min.js'),
+    `https://cdn.jsdelivr.net/npm/chart.js@${PINNED_CDN_VERSIONS['chart.js']}/dist/chart.umd.min.js`,
+  );
+  assert.equal(
+    pinCdnUrl('https://unpkg.com/vis-timeline/standalone/umd/vis-timeline-graph2d.min.js'),
+    `https://unpkg.com/vis-timeline@${PINNED_CDN_VERSIONS['vis-timeline']}/standalone/umd/vis-timeline-graph2d.min.js`,
+  );
+  assert.equal(pinCdnUrl('//unpkg.com/moment@2/moment.js'), `https://unpkg.com/moment@${PINNED_CDN_VERSIONS.moment}/moment.js`);
+});
+
+test('pins the Tailwind Play CDN and keeps its query', () => {
+  assert.equal(pinCdnUrl('https://cdn.tailwindcss.com'), `https://cdn.tailwindcss.com/${PINNED_CDN_VERSIONS.tailwindcss}`);
+  assert.equal(
+    pinCdnUrl('https://cdn.tailwindcss.com?plugins=forms'),
+    `https://cdn.tailwindcss.com/${PINNED_CDN_VERSIONS.tailwindcss}?plugins=forms`,
+  );
+});
+
+test('switches MathJax to the SVG output that needs no web fonts', () => {
+  assert.equal(
+    pinCdnUrl('https://cdn.jsdelivr.net/npm/mathjax@3/es5/tex-mml-chtml.js'),
+    `https://cdn.jsdelivr.net/npm/mathjax@${PINNED_CDN_VERSIONS.mathjax}/es5/tex-mml-svg.js`,
+  );
+});
+
+test('leaves unknown packages and other hosts alone', () => {
+  assert.equal(pinCdnUrl('https://cdn.jsdelivr.net/npm/leaflet@1/dist/leaflet.js'), 'https://cdn.jsdelivr.net/npm/leaflet@1/dist/leaflet.js');
+  assert.equal(pinCdnUrl('https://images.pexels.com/photos/1/a.jpeg'), 'https://images.pexels.com/photos/1/a.jpeg');
+});
+
+test('inlines scripts and escapes closing script tags', async () => {
+  const url = pinCdnUrl('https://cdn.jsdelivr.net/npm/chart.js@latest/dist/chart.umd.min.js');
+  const { fetchAsset } = createFetcher({ [url]: text('application/javascript', 'var s = "</script>"; window.Chart = 1;') });
+  const html = '<script defer src="https://cdn.jsdelivr.net/npm/chart.js@latest/dist/chart.umd.min.js"></script><script>new Chart()</script>';
+  const result = await bundleSlideOffline(html, fetchAsset);
+  assert.equal(result.html, '<script>var s = "<\\/script>"; window.Chart = 1;</script><script>new Chart()</script>');
+  assert.deepEqual(result.inlined, [url]);
+  assert.deepEqual(result.failed, []);
+});
+
+test('inlines stylesheets with the fonts they reference', async () => {
+  const cssUrl = `https://unpkg.com/vis-timeline@${PINNED_CDN_VERSIONS['vis-timeline']}/styles/vis-timeline-graph2d.min.css`;
+  const fontUrl = `https://unpkg.com/vis-timeline@${PINNED_CDN_VERSIONS['vis-timeline']}/fonts/icons.woff2`;
+  const { fetchAsset } = createFetcher({
+    [cssUrl]: text('text/css', '@font-face{src:url(../fonts/icons.woff2)}.vis{color:red}'),
+    [fontUrl]: { contentType: 'font/woff2', bytes: new Uint8Array([1, 2, 3]) },
+  });
+  const html = '<link rel="stylesheet" href="https://unpkg.com/vis-timeline/styles/vis-timeline-graph2d.min.css" />';
+  const result = await bundleSlideOffline(html, fetchAsset);
+  assert.equal(result.html, '<style>@font-face{src:url("data:font/woff2;base64,AQID")}.vis{color:red}</style>');
+  assert.deepEqual(result.inlined.sort(), [cssUrl, fontUrl].sort());
+});
+
+const ASSETS = 'http://localhost:54321/storage/v1/object/public/deck-assets/';
+
+test('embeds deck asset images and CSS backgrounds as data URLs', async () => {
+  const image = `${ASSETS}u/d/1-a.jpeg`;
+  const { fetchAsset } = createFetcher({ [image]: { contentType: 'image/jpeg; charset=binary', bytes: new Uint8Array([255, 216]) } });
+  const html = [
+    `<img src="${image}" srcset="${image}?w=2 2x" alt="A">`,
+    `<div style="background-image: url('${image}')"></div>`,
+    `<style>.hero{background:url(${image})}</style>`,
+  ].join('');
+  const result = await bundleSlideOffline(html, fetchAsset, { resourcePrefixes: [ASSETS] });
+  assert.equal(
+    result.html,
+    [
+      '<img src="data:image/jpeg;base64,/9g=" alt="A">',
+      '<div style="background-image: url(&quot;data:image/jpeg;base64,/9g=&quot;)"></div>',
+      '<style>.hero{background:url("data:image/jpeg;base64,/9g=")}</style>',
+    ].join(''),
+  );
+});
+
+test('never fetches resources outside the allow-list', async () => {
+  const { fetchAsset, requested } = createFetcher({});
+  const html = '<script src="https://evil.example/x.js"></script><img src="https://images.pexels.com/a.png"><img src="data:image/png;base64,AA==">';
+  const result = await bundleSlideOffline(html, fetchAsset);
+  assert.equal(result.html, html);
+  assert.deepEqual(requested, []);
+});
+
+test('keeps failed assets online on their pinned URL and reports them', async () => {
+  const { fetchAsset } = createFetcher({});
+  const html = '<script src="https://cdn.tailwindcss.com"></script><link rel="stylesheet" href="https://unpkg.com/vis-timeline@latest/a.css">';
+  const result = await bundleSlideOffline(html, fetchAsset);
+  assert.equal(
+    result.html,
+    `<script src="https://cdn.tailwindcss.com/${PINNED_CDN_VERSIONS.tailwindcss}"></script>` +
+      `<link rel="stylesheet" href="https://unpkg.com/vis-timeline@${PINNED_CDN_VERSIONS['vis-timeline']}/a.css">`,
+  );
+  assert.deepEqual(result.failed[0], { url: `https://cdn.tailwindcss.com/${PINNED_CDN_VERSIONS.tailwindcss}`, reason: 'HTTP 404' });
+  assert.equal(result.failed.length, 2);
+});
+
+test('fetches an asset used several times once', async () => {
+  const image = `${ASSETS}u/d/2-b.png`;
+  const { fetchAsset, requested } = createFetcher({ [image]: { contentType: 'image/png', bytes: new Uint8Array([0]) } });
+  await bundleSlideOffline(`<img src="${image}"><img src="${image}">`, fetchAsset, { resourcePrefixes: [ASSETS] });
+  assert.deepEqual(requested, [image]);
+});
+
+test('embeds resourceUrls only on an exact match', async () => {
+  const image = 'https://images.example.com/a.png';
+  const longer = `${image}.evil/b.png`;
+  const { fetchAsset, requested } = createFetcher({ [image]: { contentType: 'image/png', bytes: new Uint8Array([0]) } });
+  const result = await bundleSlideOffline(`<img src="${image}"><img src="${longer}">`, fetchAsset, { resourceUrls: [image] });
+  assert.equal(result.html, `<img src="data:image/png;base64,AA=="><img src="${longer}">`);
+  assert.deepEqual(requested, [image]);
+});
+
+test('readAssetBytes stops reading a response past the byte cap', async () => {
+  assert.deepEqual([...(await readAssetBytes(new Response(new Uint8Array([1, 2, 3])), 3))], [1, 2, 3]);
+  await assert.rejects(
+    readAssetBytes(new Response('x', { headers: { 'content-length': '4096' } }), 1024),
+    /larger than 1024 bytes/,
+  );
+
+  // An endless body without Content-Length is cancelled once the cap is passed
+  let pulled = 0;
+  let cancelled = false;
+  const endless = new ReadableStream({
+    pull(controller) {
+      pulled += 1;
+      controller.enqueue(new Uint8Array(400));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  await assert.rejects(readAssetBytes(new Response(endless), 1024), /larger than 1024 bytes/);
+  assert.equal(cancelled, true);
+  assert.ok(pulled <= 4, `pulled ${pulled} chunks`);
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll offline bundle tests passed.');
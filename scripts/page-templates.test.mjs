@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const pageTemplatesPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'page-templates.ts');
+
+const source = await readFile(pageTemplatesPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const { extractTemplateSlots, annotateTemplateSlots, validatePageTemplate, buildTemplatePrompt, readPageTemplate } =
+  await import(moduleUrl);
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const generatedPage = `<!DOCTYPE html><html><body>
+<header><h1 class="text-4xl">Weekly KPIs</h1><p>Week 32</p></header>
+<main><ul><li>Revenue</li><li data-slot="churn">Churn</li></ul>
+<table><tr><th>KPI</th><td>42</td></tr></table>
+<svg><path d="M0 0"/></svg><pre>raw</pre></main>
+</body></html>`;
+
+test('extractTemplateSlots lists slot names once, in document order', () => {
+  const html = `<h1 data-slot="title">T</h1><p data-slot='body'>B</p><p data-slot="title">again</p>`;
+  assert.deepEqual(extractTemplateSlots(html), ['title', 'body']);
+  assert.deepEqual(extractTemplateSlots('<p>No slots</p>'), []);
+});
+
+test('annotateTemplateSlots marks text elements and keeps existing slots', () => {
+  const annotated = annotateTemplateSlots(generatedPage);
+  assert.deepEqual(extractTemplateSlots(annotated), ['title', 'p_1', 'li_1', 'churn', 'th_1', 'td_1']);
+  assert.ok(annotated.includes('<h1 class="text-4xl" data-slot="title">'));
+  assert.ok(annotated.includes('<path d="M0 0"/>'));
+  assert.ok(annotated.includes('<pre>raw</pre>'));
+  assert.equal(annotateTemplateSlots(annotated), annotated);
+});
+
+test('validatePageTemplate requires a name and at least one valid slot', () => {
+  const result = validatePageTemplate({ name: ' KPI review ', html: annotateTemplateSlots(generatedPage) });
+  assert.equal(result.valid, true);
+  assert.equal(result.value.name, 'KPI review');
+  assert.equal(result.value.slots.length, 6);
+
+  const invalid = validatePageTemplate({ name: '', html: '<p>No slots</p>' });
+  assert.equal(invalid.valid, false);
+  assert.equal(invalid.errors.length, 2);
+
+  const badSlot = validatePageTemplate({ name: 'x', html: '<p data-slot="Bad Name">x</p>' });
+  assert.equal(badSlot.valid, false);
+  assert.ok(badSlot.errors[0].includes('Bad Name'));
+});
+
+test('buildTemplatePrompt embeds the skeleton and its slots', () => {
+  const prompt = buildTemplatePrompt({ name: 'KPI review', html: '<h1 data-slot="title">T</h1>', slots: [] });
+  assert.ok(prompt.startsWith('Layout Template "KPI review"'));
+  assert.ok(prompt.includes('<h1 data-slot="title">T</h1>'));
+  assert.ok(prompt.includes('Content slots: title'));
+});
+
+test('readPageTemplate rejects incomplete rows', () => {
+  assert.equal(readPageTemplate(null), null);
+  assert.equal(readPageTemplate({ id: 'a', name: 'x' }), null);
+  const template = readPageTemplate({ id: 'a', name: 'x', html: '<p data-slot="body">b</p>', slots: null });
+  assert.deepEqual(template, { id: 'a', name: 'x', description: '', html: '<p data-slot="body">b</p>', slots: ['body'] });
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll page template tests passed.');
@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const libDir = path.join(repoRoot, 'src', 'lib');
+
+// pptx.ts imports zip.ts and markdown.ts (extensionless, Vite style), so transpile them into a temp dir
+const outDir = await mkdtemp(path.join(tmpdir(), 'pptx-test-'));
+for (const name of ['pptx', 'zip', 'markdown']) {
+  const source = await readFile(path.join(libDir, `${name}.ts`), 'utf8');
+  const compiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ES2020,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  await writeFile(path.join(outDir, `${name}.mjs`), compiled.outputText.replace(/from '(\.\/[\w-]+)'/g, "from '$1.mjs'"));
+}
+const { buildPptx, markdownToSpeakerNotes } = await import(pathToFileURL(path.join(outDir, 'pptx.mjs')).href);
+const { crc32, createZip } = await import(pathToFileURL(path.join(outDir, 'zip.mjs')).href);
+await rm(outDir, { recursive: true, force: true });
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+// Reads a stored-only archive through its central directory, checking every CRC
+const readZip = (archive) => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const end = archive.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  const files = new Map();
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(at, true), 0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(archive.subarray(at + 46, at + 46 + nameLength));
+    assert.equal(view.getUint32(offset, true), 0x04034b50);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    const data = archive.subarray(start, start + size);
+    assert.equal(crc32(data), crc, `CRC of ${name}`);
+    files.set(name, data);
+    at += 46 + nameLength;
+  }
+  return files;
+};
+const text = (files, name) => new TextDecoder().decode(files.get(name));
+
+const PNG_A = Buffer.from('first screenshot').toString('base64');
+const PNG_B = Buffer.from('text hidden').toString('base64');
+
+const heading = {
+  kind: 'heading',
+  x: 80,
+  y: 60,
+  width: 600,
+  height: 48,
+  marker: 'none',
+  indent: 0,
+  align: 'left',
+  fontFamily: 'Inter',
+  lineHeight: 1.2,
+  paragraphs: [{ runs: [{ text: 'Q3 <Results> & plans', bold: true, italic: false, color: '#1f2937', fontSize: 40 }], spaceBefore: 0 }],
+};
+const list = {
+  kind: 'list',
+  x: 80,
+  y: 140,
+  width: 500,
+  height: 120,
+  marker: 'number',
+  indent: 24,
+  align: 'left',
+  fontFamily: null,
+  lineHeight: 1.5,
+  paragraphs: [
+    { runs: [{ text: 'Revenue ', bold: false, italic: false, color: '#374151', fontSize: 20 }, { text: 'up 12%', bold: true, italic: false, color: '#059669', fontSize: 20 }], spaceBefore: 0 },
+    { runs: [{ text: 'Churn\u0007 down', bold: false, italic: true, color: '#374151', fontSize: 20 }], spaceBefore: 8 },
+  ],
+};
+
+const editableRender = { width: 1280, height: 720, image: PNG_A, background: PNG_B, blocks: [heading, list] };
+const pictureRender = { width: 1280, height: 2000, image: PNG_A, background: null, blocks: [] };
+
+test('createZip stores entries with valid CRCs', () => {
+  assert.equal(crc32(new TextEncoder().encode('123456789')), 0xcbf43926);
+  const files = readZip(createZip([{ path: 'a.txt', data: 'héllo' }, { path: 'dir/b.bin', data: Uint8Array.of(0, 1, 2) }]));
+  assert.deepEqual([...files.keys()], ['a.txt', 'dir/b.bin']);
+  assert.equal(text(files, 'a.txt'), 'héllo');
+  assert.deepEqual([...files.get('dir/b.bin')], [0, 1, 2]);
+});
+
+test('buildPptx writes one slide, image and notes part per slide in order', () => {
+  const files = readZip(
+    buildPptx({
+      title: 'Deck & Co',
+      createdAt: new Date('2026-01-02T03:04:05.678Z'),
+      slides: [
+        { title: 'One', render: editableRender, notes: 'First' },
+        { title: 'Two', render: pictureRender, notes: 'Second' },
+      ],
+    }),
+  );
+  assert.equal([...files.keys()][0], '[Content_Types].xml');
+  for (const part of ['ppt/presentation.xml', 'ppt/slideMasters/slideMaster1.xml', 'ppt/notesMasters/notesMaster1.xml', 'ppt/theme/theme2.xml']) {
+    assert.ok(files.has(part), part);
+  }
+  const presentation = text(files, 'ppt/presentation.xml');
+  assert.match(presentation, /<p:sldId id="256" r:id="rId10"\/><p:sldId id="257" r:id="rId11"\/>/);
+  assert.match(text(files, 'ppt/_rels/presentation.xml.rels'), /Id="rId11" [^>]+Target="slides\/slide2.xml"/);
+  assert.match(text(files, '[Content_Types].xml'), /PartName="\/ppt\/notesSlides\/notesSlide2.xml"/);
+  assert.match(text(files, 'docProps/core.xml'), /<dc:title>Deck &amp; Co<\/dc:title>.*2026-01-02T03:04:05Z/);
+  assert.match(text(files, 'ppt/notesSlides/notesSlide1.xml'), /<a:t>First<\/a:t>/);
+  assert.match(text(files, 'ppt/notesSlides/notesSlide2.xml'), /<a:t>Second<\/a:t>/);
+  assert.match(text(files, 'ppt/slides/_rels/slide2.xml.rels'), /Target="..\/notesSlides\/notesSlide2.xml"/);
+});
+
+test('buildPptx keeps headings and lists editable over the text-less screenshot', () => {
+  const files = readZip(buildPptx({ title: 'Deck', slides: [{ title: 'One', render: editableRender, notes: '' }] }));
+  assert.equal(Buffer.from(files.get('ppt/media/image1.png')).toString('base64'), PNG_B);
+  const slide = text(files, 'ppt/slides/slide1.xml');
+  assert.equal(slide.match(/txBox="1"/g).length, 2);
+  assert.match(slide, /<a:t>Q3 &lt;Results&gt; &amp; plans<\/a:t>/);
+  // 40px at 96 dpi is 30pt
+  assert.match(slide, /sz="3000" b="1"[^>]*><a:solidFill><a:srgbClr val="1F2937"\/><\/a:solidFill><a:latin typeface="Inter"\/>/);
+  assert.match(slide, /<a:buAutoNum type="arabicPeriod"\/>/);
+  assert.match(slide, /<a:lnSpc><a:spcPct val="125000"\/><\/a:lnSpc><a:spcBef><a:spcPts val="600"\/><\/a:spcBef>/);
+  assert.match(slide, /<a:t>Churn down<\/a:t>/);
+  assert.doesNotMatch(slide, /\u0007/);
+  // The heading box sits at 80px, i.e. 80 * 9525 EMU on a slide that exactly fits 1280x720
+  assert.match(slide, /<a:off x="762000" y="571500"\/>/);
+});
+
+test('buildPptx falls back to the full screenshot, fitted and centred', () => {
+  const files = readZip(buildPptx({ title: 'Deck', slides: [{ title: 'Tall', render: pictureRender, notes: '' }] }));
+  assert.equal(Buffer.from(files.get('ppt/media/image1.png')).toString('base64'), PNG_A);
+  const slide = text(files, 'ppt/slides/slide1.xml');
+  assert.doesNotMatch(slide, /txBox/);
+  // 1280x2000 scaled to the slide height: 6858000 EMU tall, 4389120 wide, centred horizontally
+  assert.match(slide, /<a:off x="3901440" y="0"\/><a:ext cx="4389120" cy="6858000"\/>/);
+});
+
+test('markdownToSpeakerNotes keeps the text of headings, paragraphs and list items', () => {
+  const notes = markdownToSpeakerNotes(
+    [
+      '# Quarterly **review**',
+      '',
+      'Numbers from the [finance deck](https://example.com).',
+      '- Revenue *up*',
+      '* Churn `down`',
+      '2. Hire',
+      '',
+      '---',
+      '```js',
+      'const x = 1;',
+      '```',
+      '![Chart](https://example.com/chart.png)',
+    ].join('\r\n'),
+  );
+  assert.equal(
+    notes,
+    ['Quarterly review', '', 'Numbers from the finance deck.', '• Revenue up', '• Churn down', '2. Hire', '', 'const x = 1;'].join('\n'),
+  );
+  assert.equal(markdownToSpeakerNotes(''), '');
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll PPTX export tests passed.');
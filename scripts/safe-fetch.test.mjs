@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const safeFetchPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'safe-fetch.ts');
+
+const source = await readFile(safeFetchPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const { UnsafeUrlError, assertPublicUrl, fetchPublicUrl, isPrivateAddress } = await import(moduleUrl);
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const dns = {
+  'images.example.com': ['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946'],
+  'rebind.example.com': ['93.184.216.34', '10.0.0.5'],
+  'metadata.example.com': ['169.254.169.254'],
+};
+const resolveHost = async (hostname) => dns[hostname] ?? [];
+
+test('isPrivateAddress flags non-public IPv4 and IPv6 ranges', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['::1', '::', 'fe80::1', 'fd00:ec2::254', 'ff02::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::a00:1', '2002:c0a8:101::1']) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:2800:220:1:248:1893:25c8:1946', '::ffff:8.8.8.8']) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+  assert.equal(isPrivateAddress('not-an-ip'), true);
+});
+
+test('assertPublicUrl accepts public hosts and rejects internal ones', async () => {
+  assert.equal((await assertPublicUrl('https://images.example.com/a.png', resolveHost)).hostname, 'images.example.com');
+  const rejected = [
+    'http://169.254.169.254/latest/meta-data/',
+    'http://2130706433/',
+    'http://[::1]:8080/',
+    'http://localhost:54321/storage/v1/object/public/x.png',
+    'http://db.internal/',
+    'https://rebind.example.com/a.png',
+    'https://metadata.example.com/',
+    'https://unknown.example.com/',
+    'file:///etc/passwd',
+  ];
+  for (const url of rejected) {
+    await assert.rejects(assertPublicUrl(url, resolveHost), UnsafeUrlError, url);
+  }
+});
+
+test('fetchPublicUrl checks every redirect target', async () => {
+  const originalFetch = globalThis.fetch;
+  const requested = [];
+  globalThis.fetch = async (url, init) => {
+    requested.push(String(url));
+    assert.equal(init.redirect, 'manual');
+    if (String(url).endsWith('/hop')) return new Response(null, { status: 302, headers: { location: '/image.png' } });
+    if (String(url).endsWith('/evil')) {
+      return new Response(null, { status: 301, headers: { location: 'http://169.254.169.254/latest/meta-data/' } });
+    }
+    return new Response('png', { status: 200 });
+  };
+  try {
+    const response = await fetchPublicUrl('https://images.example.com/hop', {}, resolveHost);
+    assert.equal(await response.text(), 'png');
+    assert.deepEqual(requested, ['https://images.example.com/hop', 'https://images.example.com/image.png']);
+    await assert.rejects(fetchPublicUrl('https://images.example.com/evil', {}, resolveHost), UnsafeUrlError);
+    assert.equal(requested.includes('http://169.254.169.254/latest/meta-data/'), false);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll safe fetch tests passed.');
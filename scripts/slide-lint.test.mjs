@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const sharedDir = path.join(repoRoot, 'supabase', 'functions', '_shared');
+
+// slide-lint.ts imports the HTML validator, so transpile both into a temp dir
+const outDir = await mkdtemp(path.join(tmpdir(), 'slide-lint-test-'));
+for (const name of ['slide-lint', 'html-validator']) {
+  const source = await readFile(path.join(sharedDir, `${name}.ts`), 'utf8');
+  const compiled = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.ES2020,
+      target: ts.ScriptTarget.ES2020,
+    },
+  });
+  await writeFile(path.join(outDir, `${name}.mjs`), compiled.outputText.replace(/from '(\.\/[\w-]+)\.ts'/g, "from '$1.mjs'"));
+}
+const { COPYRIGHT_NOTICE, SLIDE_LINT_RULE_IDS, lintSlideHtml } = await import(pathToFileURL(path.join(outDir, 'slide-lint.mjs')).href);
+await rm(outDir, { recursive: true, force: true });
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const footer = `<footer class="text-xs">${COPYRIGHT_NOTICE}</footer>`;
+const page = (body, head = '<script src="https://cdn.tailwindcss.com"></script>') =>
+  `<!DOCTYPE html>\n<html>\n<head>\n${head}\n</head>\n<body>\n${body}\n</body>\n</html>`;
+const rulesOf = (html) => lintSlideHtml(html).errors.map((error) => error.rule);
+const ASSETS = 'http://localhost:54321/storage/v1/object/public/deck-assets/';
+
+test('accepts a slide that follows the contracts', () => {
+  const html = page(`<main>
+  <img src="${ASSETS}user/deck/1-team.jpeg" alt="Team">
+  <a href="#details" class="underline">Details</a>
+  <div class="chartjs-box"><canvas id="sales"></canvas></div>
+</main>
+${footer}
+<script>new Chart(document.getElementById('sales'), {});</script>`,
+  `<script src="https://cdn.tailwindcss.com"></script>
+<script src="https://cdn.jsdelivr.net/npm/chart.js@latest/dist/chart.umd.min.js"></script>
+<style>.hero { background: url(data:image/png;base64,AAAA) }</style>`);
+  assert.deepEqual(lintSlideHtml(html, { resourcePrefixes: [ASSETS] }), { valid: true, errors: [], rules: SLIDE_LINT_RULE_IDS });
+});
+
+test('only accepts images from the deck assets', () => {
+  const html = page(`<img src="https://images.pexels.com/photos/1/a.jpeg" alt="Team">\n<img src="${ASSETS}u/d/2-b.png" alt="">\n${footer}`);
+  assert.deepEqual(rulesOf(html), ['allowed-cdn', 'allowed-cdn']);
+  const errors = lintSlideHtml(html, { resourcePrefixes: [`${ASSETS}u/d/2-b.png`] }).errors;
+  assert.equal(errors.length, 1);
+  assert.match(errors[0].message, /not one of the deck assets/);
+});
+
+test('reports buttons and button-styled links', () => {
+  const html = page(`<button>Buy</button>
+<div role="button">Go</div>
+<input type="submit" value="Send">
+<a href="#" class="bg-blue-600 px-4 py-2 rounded-lg text-white">Start</a>
+<a href="#" class="btn-primary">More</a>
+${footer}`);
+  assert.deepEqual(rulesOf(html), ['no-buttons', 'no-buttons', 'no-buttons', 'no-buttons', 'no-buttons']);
+});
+
+test('reports resources outside the allowed CDNs', () => {
+  const html = page(
+    `<img src="https://example.com/a.png" srcset="${ASSETS}a.jpg 1x, //evil.test/b.jpg 2x" alt="">
+<div style="background-image: url('https://example.com/bg.jpg')"></div>
+<img src="local.png" alt="">
+${footer}`,
+    `<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter">
+<script src="http://cdn.tailwindcss.com"></script>
+<style>@import "https://example.com/theme.css";</style>`,
+  );
+  const errors = lintSlideHtml(html, { resourcePrefixes: [ASSETS] }).errors;
+  assert.deepEqual(errors.map((error) => error.rule), Array(5).fill('allowed-cdn'));
+  assert.match(errors[0].message, /fonts\.googleapis\.com/);
+  assert.match(errors[1].message, /theme\.css/);
+  assert.match(errors[4].message, /bg\.jpg/);
+});
+
+test('requires Chart.js canvases inside .chartjs-box', () => {
+  const chart = '<script src="https://cdn.jsdelivr.net/npm/chart.js@latest/dist/chart.umd.min.js"></script>';
+  const html = page(`<div class="h-64"><canvas id="a"></canvas></div><div class="chartjs-box"><canvas id="b"></canvas></div>${footer}`, chart);
+  const errors = lintSlideHtml(html).errors;
+  assert.deepEqual(errors.map((error) => error.rule), ['chartjs-box']);
+  assert.equal(errors[0].extract.slice(errors[0].hiliteStart, errors[0].hiliteStart + errors[0].hiliteLength), '<canvas id="a">');
+  // A canvas drawn by hand is none of the rule's business
+  assert.deepEqual(rulesOf(page(`<canvas id="sketch"></canvas>${footer}`)), []);
+});
+
+test('requires the copyright footer', () => {
+  assert.deepEqual(rulesOf(page('<main>Slide</main>')), ['copyright-footer']);
+  assert.deepEqual(rulesOf(page('<footer>© 2025 Someone</footer>')), ['copyright-footer']);
+  assert.deepEqual(
+    rulesOf(page('<footer><p>Presentation made by <b>InfogrAIphics</b> by P2Enjoy&nbsp;SAS – Copyright 2025</p></footer>')),
+    [],
+  );
+});
+
+test('reports external links', () => {
+  const html = page(`<a href="https://example.com">Source</a><a href="#local">Local</a><a href="mailto:a@b.c">Mail</a>${footer}`);
+  const errors = lintSlideHtml(html).errors;
+  assert.deepEqual(errors.map((error) => error.rule), ['no-external-links']);
+  assert.equal(errors[0].lastLine, 7);
+});
+
+test('runs only the requested rules', () => {
+  const html = page('<button>Buy</button>');
+  const report = lintSlideHtml(html, { rules: ['no-buttons'] });
+  assert.deepEqual(report.errors.map((error) => error.rule), ['no-buttons']);
+  assert.deepEqual(report.rules, ['no-buttons']);
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll slide lint tests passed.');
@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+
+// Stub CDN/asset server for the queue worker's runtime validation (RUNTIME_ASSET_BASE_URL).
+// The worker asks for `/<host>/<path>` and this serves `<dir>/<host>/<path>`, so slides can be checked
+// without reaching the real CDNs or image hosts.
+//
+//   --record              fetch missing files from https://<host>/<path> once and keep them in <dir>
+//   --placeholder-images  answer missing images with a 1x1 PNG instead of a 404
+//   STUB_ASSETS_PORT      defaults to 4599
+//   STUB_ASSETS_DIR       defaults to .stub-assets at the project root
+
+import { createServer } from 'http';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, extname, join, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+
+const args = new Set(process.argv.slice(2));
+const record = args.has('--record');
+const placeholderImages = args.has('--placeholder-images');
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = resolve(__dirname, '..');
+const port = Number(process.env.STUB_ASSETS_PORT || 4599);
+const assetsDir = resolve(projectRoot, process.env.STUB_ASSETS_DIR || '.stub-assets');
+
+const CONTENT_TYPES = {
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.gif', '.svg']);
+const PLACEHOLDER_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64',
+);
+
+// Files without an extension (cdn.tailwindcss.com, lucide@latest) get the stored type next to them
+const contentTypeOf = (filePath) => {
+  const stored = `${filePath}.content-type`;
+  if (existsSync(stored)) return readFileSync(stored, 'utf8').trim();
+  return CONTENT_TYPES[extname(filePath).toLowerCase()] || 'application/octet-stream';
+};
+
+const toFilePath = (url) => {
+  const pathname = decodeURIComponent(url.pathname);
+  const filePath = resolve(assetsDir, `.${pathname.endsWith('/') ? `${pathname}index` : pathname}`);
+  // Keep requests inside the assets directory
+  return filePath.startsWith(`${assetsDir}${sep}`) ? filePath : null;
+};
+
+const recordAsset = async (url, filePath) => {
+  const upstream = `https://${url.pathname.slice(1)}${url.search}`;
+  const res = await fetch(upstream);
+  if (!res.ok) return false;
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, Buffer.from(await res.arrayBuffer()));
+  const contentType = res.headers.get('content-type');
+  if (contentType) writeFileSync(`${filePath}.content-type`, contentType);
+  console.log(`recorded ${upstream}`);
+  return true;
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  const filePath = toFilePath(url);
+  const headers = { 'access-control-allow-origin': '*' };
+  if (!filePath) {
+    res.writeHead(400, headers).end('Bad path');
+    return;
+  }
+
+  try {
+    const exists = existsSync(filePath) && statSync(filePath).isFile();
+    if (exists || (record && (await recordAsset(url, filePath)))) {
+      res.writeHead(200, { ...headers, 'content-type': contentTypeOf(filePath) }).end(readFileSync(filePath));
+      return;
+    }
+    if (placeholderImages && IMAGE_EXTENSIONS.has(extname(filePath).toLowerCase())) {
+      res.writeHead(200, { ...headers, 'content-type': 'image/png' }).end(PLACEHOLDER_PNG);
+      return;
+    }
+    console.warn(`404 ${url.pathname}`);
+    res.writeHead(404, headers).end('Not found');
+  } catch (error) {
+    console.error(`500 ${url.pathname}:`, error);
+    res.writeHead(500, headers).end('Stub asset server error');
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Stub asset server on http://localhost:${port} serving ${assetsDir}${record ? ' (recording)' : ''}`);
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const styleGuidePath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'style-guide.ts');
+
+const source = await readFile(styleGuidePath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const styleGuideModule = await import(moduleUrl);
+const { validateStyleGuide, readStyleGuide, isStyleGuideEmpty, buildStylePrompt, emptyStyleGuide } = styleGuideModule;
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const sampleGuide = () => ({
+  palette: { primary: '#1E40AF', secondary: '#64748b', accent: '#f59e0b', neutral: '', background: '#fff', text: '#0f172a' },
+  typography: { headingFont: ' Playfair Display ', bodyFont: 'Inter', sizes: { h1: '3rem', h2: '2rem', h3: '', body: '1rem' } },
+  spacing: { density: 'airy', baseUnit: '8px', sectionGap: '' },
+  imagery: ['Flat line icons', '  '],
+  dos: ['One key message per slide'],
+  donts: ['No gradients on text'],
+});
+
+test('validateStyleGuide accepts a partial guide and normalises it', () => {
+  const result = validateStyleGuide(sampleGuide());
+  assert.equal(result.valid, true);
+  assert.equal(result.value.palette.primary, '#1e40af');
+  assert.equal(result.value.typography.headingFont, 'Playfair Display');
+  assert.deepEqual(result.value.imagery, ['Flat line icons']);
+});
+
+test('validateStyleGuide reports every invalid field', () => {
+  const guide = sampleGuide();
+  guide.palette.accent = 'orange';
+  guide.spacing.density = 'cramped';
+  guide.dos = 'be nice';
+  const result = validateStyleGuide(guide);
+  assert.equal(result.valid, false);
+  assert.equal(result.errors.length, 3);
+  assert.ok(result.errors.some((error) => error.startsWith('palette.accent')));
+  assert.ok(result.errors.some((error) => error.startsWith('spacing.density')));
+  assert.ok(result.errors.some((error) => error.startsWith('dos')));
+});
+
+test('validateStyleGuide rejects non-objects', () => {
+  assert.equal(validateStyleGuide(null).valid, false);
+  assert.equal(validateStyleGuide(['#fff']).valid, false);
+});
+
+test('readStyleGuide treats invalid and empty guides as missing', () => {
+  assert.equal(readStyleGuide({ palette: { primary: 'blue' } }), null);
+  assert.equal(readStyleGuide(emptyStyleGuide()), null);
+  assert.equal(isStyleGuideEmpty(readStyleGuide(sampleGuide())), false);
+});
+
+test('buildStylePrompt lists filled fields and appends the override last', () => {
+  const prompt = buildStylePrompt(readStyleGuide(sampleGuide()), 'Use French typography rules');
+  assert.match(prompt, /- primary: #1e40af/);
+  assert.doesNotMatch(prompt, /- neutral:/);
+  assert.match(prompt, /- H1 size: 3rem/);
+  assert.match(prompt, /- Density: airy/);
+  assert.match(prompt, /Don't:\n- No gradients on text/);
+  assert.ok(prompt.trimEnd().endsWith('Use French typography rules'));
+  assert.ok(prompt.indexOf('Additional instructions') > prompt.indexOf('Colour palette'));
+});
+
+test('buildStylePrompt falls back to the free text alone', () => {
+  assert.equal(buildStylePrompt(null, '  Minimal, lots of whitespace  '), 'Minimal, lots of whitespace');
+  assert.equal(buildStylePrompt(null, ''), '');
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll style guide tests passed.');
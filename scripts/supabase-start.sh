@@ -268,6 +268,8 @@ fi
 value="$(get_value "api_url" "API_URL" "SUPABASE_URL")"
 if [[ -n "$value" ]]; then
   update_env_file "$FUNCTIONS_ENV_FILE" "SUPABASE_URL" "$value"
+  # Inside the functions container SUPABASE_URL points at the internal gateway; deck image URLs need this one
+  update_env_file "$FUNCTIONS_ENV_FILE" "PUBLIC_SUPABASE_URL" "$value"
   mark_file_updated "$FUNCTIONS_ENV_FILE"
 fi
 value="$(get_value "publishable_key" "ANON_KEY" "SUPABASE_ANON_KEY")"
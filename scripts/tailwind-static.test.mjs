@@ -0,0 +1,149 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const tailwindStaticPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'tailwind-static.ts');
+
+const source = await readFile(tailwindStaticPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const tailwindStaticModule = await import(moduleUrl);
+const { parseObjectLiteral, readTailwindSetup, applyCompiledTailwind, restoreTailwindCdn, hasCompiledTailwind } = tailwindStaticModule;
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const page = (head, body = '<p class="text-lg">Hi</p>') =>
+  `<!DOCTYPE html>\n<html>\n<head>\n${head}\n</head>\n<body>${body}</body>\n</html>`;
+
+test('parses data-only object literals', () => {
+  assert.deepEqual(
+    parseObjectLiteral(`{
+      // brand colours
+      theme: { extend: { colors: { brand: '#123456', 'brand-dark': "#000" } } },
+      darkMode: 'class', /* unused */
+      safelist: ['a', \`b\`,],
+      important: true, prefix: null, spacing: -1.5e1,
+    }`),
+    {
+      theme: { extend: { colors: { brand: '#123456', 'brand-dark': '#000' } } },
+      darkMode: 'class',
+      safelist: ['a', 'b'],
+      important: true,
+      prefix: null,
+      spacing: -15,
+    },
+  );
+});
+
+test('rejects literals that would need to run code', () => {
+  assert.equal(parseObjectLiteral('{ plugins: [require("x")] }'), null);
+  assert.equal(parseObjectLiteral('{ ...base }'), null);
+  assert.equal(parseObjectLiteral('{ a: `${x}` }'), null);
+  assert.equal(parseObjectLiteral('{ a: 1 } + alert(1)'), null);
+  assert.equal(parseObjectLiteral('[1, 2]'), null);
+});
+
+test('reads plugins, config and text/tailwindcss blocks', () => {
+  const result = readTailwindSetup(page([
+    '<script src="https://cdn.tailwindcss.com?plugins=forms,typography@0.5.15"></script>',
+    "<script>tailwind.config = { theme: { extend: { colors: { brand: '#123456' } } } };</script>",
+    '<style type="text/tailwindcss">.card { @apply rounded-xl p-4; }</style>',
+    '<style>body { margin: 0; }</style>',
+  ].join('\n')));
+  assert.deepEqual(result.setup, {
+    cdnUrl: 'https://cdn.tailwindcss.com?plugins=forms,typography@0.5.15',
+    plugins: ['forms', 'typography'],
+    config: { theme: { extend: { colors: { brand: '#123456' } } } },
+    customCss: '.card { @apply rounded-xl p-4; }',
+  });
+});
+
+test('skips pages it cannot compile ahead of time', () => {
+  assert.equal(readTailwindSetup(page('<style>p { color: red; }</style>')).skipped, 'no Tailwind CDN script');
+  assert.equal(
+    readTailwindSetup(page('<script src="https://cdn.tailwindcss.com?plugins=magic"></script>')).skipped,
+    'unknown Tailwind plugin "magic"',
+  );
+  assert.equal(
+    readTailwindSetup(page([
+      '<script src="https://cdn.tailwindcss.com"></script>',
+      '<script>tailwind.config = { theme: window.theme }</script>',
+    ].join('\n'))).skipped,
+    'tailwind.config is not a plain object literal',
+  );
+  assert.equal(
+    readTailwindSetup(page([
+      '<script src="https://cdn.tailwindcss.com"></script>',
+      '<script>tailwind.config.theme.extend.colors = {}</script>',
+    ].join('\n'))).skipped,
+    'tailwind.config is not a plain object literal',
+  );
+});
+
+test('swaps the CDN for the compiled stylesheet at the end of head', () => {
+  const html = page([
+    '<script src="https://cdn.tailwindcss.com"></script>',
+    '<script>tailwind.config = { darkMode: "class" }</script>',
+    '<style>body { margin: 0; }</style>',
+  ].join('\n'));
+  const { setup } = readTailwindSetup(html);
+  const result = applyCompiledTailwind(html, '.text-lg{font-size:1.125rem}', setup);
+  assert.ok(!result.includes('cdn.tailwindcss.com"></script>'));
+  assert.ok(result.includes('<script type="text/tailwind-config">tailwind.config = { darkMode: "class" }</script>'));
+  assert.match(
+    result,
+    /<style>body \{ margin: 0; \}<\/style>\n<style data-tailwind-compiled="https:\/\/cdn\.tailwindcss\.com">\.text-lg\{font-size:1\.125rem\}<\/style>\n<\/head>/,
+  );
+  assert.equal(hasCompiledTailwind(result), true);
+  assert.equal(readTailwindSetup(result).skipped, 'no Tailwind CDN script');
+});
+
+test('restores the CDN before the config script that needs it', () => {
+  const cdn = 'https://cdn.tailwindcss.com?plugins=forms';
+  const html = page([`<script src="${cdn}"></script>`, '<script>tailwind.config = {}</script>'].join('\n'));
+  const restored = restoreTailwindCdn(applyCompiledTailwind(html, '.a{}', readTailwindSetup(html).setup));
+  assert.equal(hasCompiledTailwind(restored), false);
+  assert.ok(restored.indexOf(`<script src="${cdn}"></script>`) < restored.indexOf('<script>tailwind.config = {}</script>'));
+  assert.deepEqual(readTailwindSetup(restored).setup, readTailwindSetup(html).setup);
+});
+
+test('restores the CDN in place of the stylesheet without a config script', () => {
+  const html = page('<script src="https://cdn.tailwindcss.com"></script>');
+  const restored = restoreTailwindCdn(applyCompiledTailwind(html, '.a{}', readTailwindSetup(html).setup));
+  assert.equal(restored, page('\n<script src="https://cdn.tailwindcss.com"></script>'));
+});
+
+test('leaves pages without a compiled stylesheet untouched', () => {
+  const html = page('<script src="https://cdn.tailwindcss.com"></script>');
+  assert.equal(restoreTailwindCdn(html), html);
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll Tailwind static tests passed.');
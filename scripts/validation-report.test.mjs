@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import * as ts from 'typescript';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const repoRoot = path.resolve(__dirname, '..');
+const reportPath = path.join(repoRoot, 'supabase', 'functions', '_shared', 'validation-report.ts');
+
+const source = await readFile(reportPath, 'utf8');
+const compiled = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.ES2020,
+    target: ts.ScriptTarget.ES2020,
+  },
+});
+const moduleUrl = `data:text/javascript;base64,${Buffer.from(compiled.outputText).toString('base64')}`;
+const { createUnifiedDiff, readValidationReport, toValidationReportMessage } = await import(moduleUrl);
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const lines = (count, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+test('createUnifiedDiff returns nothing for identical HTML', () => {
+  assert.equal(createUnifiedDiff('<p>a</p>', '<p>a</p>'), '');
+});
+
+test('createUnifiedDiff shows a replaced line with its context', () => {
+  const before = lines(10);
+  const after = [...before];
+  after[4] = 'changed 5';
+  assert.equal(
+    createUnifiedDiff(before.join('\n'), after.join('\n')),
+    ['@@ -3,5 +3,5 @@', ' line 3', ' line 4', '-line 5', '+changed 5', ' line 6', ' line 7'].join('\n'),
+  );
+});
+
+test('createUnifiedDiff keeps distant changes in separate hunks and merges close ones', () => {
+  const before = lines(20);
+  const after = [...before];
+  after.splice(1, 1);
+  after.splice(15, 0, 'inserted');
+  after[16] = 'changed 17';
+  assert.equal(
+    createUnifiedDiff(before.join('\n'), after.join('\n')),
+    [
+      '@@ -1,4 +1,3 @@', ' line 1', '-line 2', ' line 3', ' line 4',
+      '@@ -15,5 +14,6 @@', ' line 15', ' line 16', '-line 17', '+inserted', '+changed 17', ' line 18', ' line 19',
+    ].join('\n'),
+  );
+});
+
+test('createUnifiedDiff truncates long diffs', () => {
+  const diff = createUnifiedDiff(lines(50).join('\n'), lines(50, 'other').join('\n'), { maxChars: 100 });
+  assert.ok(diff.length < 200);
+  assert.match(diff, /diff truncated/);
+});
+
+test('toValidationReportMessage keeps the useful fields of every validator', () => {
+  assert.deepEqual(
+    toValidationReportMessage('lint', { type: 'error', rule: 'no-buttons', message: 'No buttons', lastLine: 12, extract: 'x'.repeat(300) }),
+    { source: 'lint', message: 'No buttons', rule: 'no-buttons', line: 12, extract: 'x'.repeat(200) },
+  );
+  assert.deepEqual(
+    toValidationReportMessage('runtime', { type: 'error', subType: 'loading', message: 'Failed to load resource', extract: 'URL: https://a.b/c.png' }),
+    { source: 'runtime', message: 'Failed to load resource', sub_type: 'loading', extract: 'URL: https://a.b/c.png' },
+  );
+});
+
+test('readValidationReport ignores missing or foreign values', () => {
+  assert.equal(readValidationReport(null), null);
+  assert.equal(readValidationReport({ outcome: 'passed' }), null);
+  assert.deepEqual(readValidationReport({ outcome: 'passed', iterations: [] }), { outcome: 'passed', iterations: [], remaining_errors: [] });
+});
+
+let failures = 0;
+for (const { name, fn } of tests) {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (err) {
+    failures += 1;
+    console.error(`✗ ${name}`);
+    console.error(err instanceof Error ? err.message : err);
+  }
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} test(s) failed.`);
+  process.exit(1);
+}
+
+console.log('\nAll validation report tests passed.');
@@ -122,6 +122,7 @@ function App() {
             infographic={appState.infographic}
             onBack={handleBackToList}
             onEdit={() => handleEditInfographic(appState.infographic)}
+            onInfographicUpdated={handleSaveInfographic}
           />
         )}
       </div>
@@ -1,16 +1,35 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ArrowLeft, Plus, Play, Settings, Zap, FileDown, Sparkles, Download } from 'lucide-react';
-import { infographicsService, Infographic, InfographicPage } from '../lib/supabase';
+import { ArrowLeft, Plus, Play, Settings, Zap, FileDown, Sparkles, Download, Palette, WifiOff, Images, Presentation } from 'lucide-react';
+import {
+  infographicsService,
+  Infographic,
+  InfographicPage,
+  GenerationQueueItem,
+  GenerationBatch,
+  GenerationEvent,
+  GENERATION_PRIORITY_MAX,
+  isQueueItemStalled,
+} from '../lib/supabase';
 import { InfographicSlideshow } from './InfographicSlideshow';
 import { MarkdownImporter } from './InfographicEditor/MarkdownImporter';
 import { PagesSidebar } from './InfographicEditor/PagesSidebar';
 import { PageEditor } from './InfographicEditor/PageEditor';
 import { PageFormModal } from './InfographicEditor/PageFormModal';
+import { ThemePanel } from './InfographicEditor/ThemePanel';
+import { AssetLibraryPanel } from './InfographicEditor/AssetLibraryPanel';
+import { BatchProgressBar, BatchFailure } from './InfographicEditor/BatchProgressBar';
+import { isTerminalGenerationStage } from '../lib/generationStages';
+import type { LLMUsageSummary } from '../lib/llmUsage';
+import { QuotaExceededError } from '../lib/quota';
+import { buildOfflineDeckHtml } from '../lib/offlineDeck';
+import { PPTX_MIME_TYPE, buildPptx, markdownToSpeakerNotes } from '../lib/pptx';
+import { LLMCostBadge } from './LLMCostBadge';
 
 interface InfographicEditorProps {
   infographic: Infographic;
   onBack: () => void;
   onEdit: () => void;
+  onInfographicUpdated: (infographic: Infographic) => void;
 }
 
 const escapeHtml = (value: string) =>
@@ -237,7 +256,32 @@ const waitForFrames = async (frames: HTMLIFrameElement[]) => {
   );
 };
 
-export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEditorProps) {
+// Generated pages in slide order, as the exports present them
+const getGeneratedPagesInOrder = (pages: InfographicPage[]) =>
+  [...pages]
+    .sort((a, b) => (a.page_order ?? 0) - (b.page_order ?? 0))
+    .filter((page) => page.generated_html?.trim());
+
+// Saves an exported deck as `<deck name>.<extension>`, with the characters file systems reject replaced
+const downloadDeckFile = (deckName: string, extension: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${deckName.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'presentation'}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Finished batches stay on screen for a while so their summary can be read, then disappear on their own
+const FINISHED_BATCH_VISIBLE_MS = 60 * 60 * 1000;
+
+const isBatchWorthShowing = (batch: GenerationBatch) =>
+  batch.status === 'running' ||
+  (batch.finished_at !== null && Date.now() - new Date(batch.finished_at).getTime() < FINISHED_BATCH_VISIBLE_MS);
+
+export function InfographicEditor({ infographic, onBack, onEdit, onInfographicUpdated }: InfographicEditorProps) {
   const [pages, setPages] = useState<InfographicPage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -247,12 +291,27 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
   const [selectedPageIds, setSelectedPageIds] = useState<Set<string>>(new Set());
   const [pageRecentStatusMap, setPageRecentStatusMap] = useState<Map<string, string>>(new Map());
   const pageStatusRef = useRef<Map<string, string>>(new Map());
+  const [pageQueueItemMap, setPageQueueItemMap] = useState<Map<string, GenerationQueueItem>>(new Map());
+  const pageQueueItemRef = useRef<Map<string, GenerationQueueItem>>(new Map());
   const pagesRef = useRef<InfographicPage[]>([]);
   const selectedPageRef = useRef<InfographicPage | null>(null);
   const [activeQueueCount, setActiveQueueCount] = useState(0);
+  const [activeBatch, setActiveBatch] = useState<GenerationBatch | null>(null);
+  const [batchFailures, setBatchFailures] = useState<BatchFailure[]>([]);
+  const batchFailuresIdRef = useRef<string | null>(null);
+  const [dismissedBatchId, setDismissedBatchId] = useState<string | null>(null);
+  const [cancellingBatch, setCancellingBatch] = useState(false);
+  const [stageEventsByQueue, setStageEventsByQueue] = useState<Map<string, GenerationEvent[]>>(new Map());
+  const backfilledQueueIdsRef = useRef<Set<string>>(new Set());
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
   const [triggeringWorker, setTriggeringWorker] = useState(false);
   const [exportingPdf, setExportingPdf] = useState(false);
+  const [exportingOffline, setExportingOffline] = useState(false);
+  const [exportingPptx, setExportingPptx] = useState(false);
   const [showMarkdownImporter, setShowMarkdownImporter] = useState(false);
+  const [showThemePanel, setShowThemePanel] = useState(false);
+  const [showAssetLibrary, setShowAssetLibrary] = useState(false);
+  const [llmUsage, setLLMUsage] = useState<LLMUsageSummary | null>(null);
   const pollingIntervalRef = useRef<number | null>(null);
   const [pageFilter, setPageFilter] = useState<'all' | 'draft' | 'processing' | 'generated'>('all');
 
@@ -264,7 +323,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
 
     pages.forEach((page) => {
       const status = pageRecentStatusMap.get(page.id);
-      if (status === 'pending' || status === 'processing') {
+      if (status === 'pending' || status === 'processing' || status === 'stalled') {
         processing++;
       } else if (page.generated_html) {
         generated++;
@@ -282,7 +341,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
     if (pageFilter === 'all') return pages;
     return pages.filter((page) => {
       const status = pageRecentStatusMap.get(page.id);
-      const isProcessing = status === 'pending' || status === 'processing';
+      const isProcessing = status === 'pending' || status === 'processing' || status === 'stalled';
       if (pageFilter === 'processing') {
         return isProcessing;
       }
@@ -344,6 +403,8 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
       if (currentPages.length === 0) {
         pageStatusRef.current = new Map();
         setPageRecentStatusMap(new Map());
+        pageQueueItemRef.current = new Map();
+        setPageQueueItemMap(new Map());
         setActiveQueueCount(prev => (prev === 0 ? prev : 0));
         return 0;
       }
@@ -353,14 +414,18 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
       console.log('Queue items found:', queueItems);
       
       const recentStatusMap = new Map<string, string>();
+      const recentItemMap = new Map<string, GenerationQueueItem>();
       let pendingCount = 0;
       const completedPageIds = new Set<string>();
       const previousMap = pageStatusRef.current;
       
+      const now = Date.now();
       queueItems.forEach(item => {
         // Only set the status if we haven't seen this page yet (most recent due to ordering)
         if (!recentStatusMap.has(item.infographic_page_id)) {
-          recentStatusMap.set(item.infographic_page_id, item.status);
+          // 'stalled' is derived client-side: still processing in the table, but the lease has expired
+          recentStatusMap.set(item.infographic_page_id, isQueueItemStalled(item, now) ? 'stalled' : item.status);
+          recentItemMap.set(item.infographic_page_id, item);
         }
         
         // Count jobs still waiting to be processed
@@ -389,6 +454,20 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
         setPageRecentStatusMap(recentStatusMap);
       }
 
+      // Retries keep the same status but bump attempt_count, so compare a richer signature for items
+      const itemSignature = (item?: GenerationQueueItem) =>
+        item ? `${item.id}:${item.status}:${item.attempt_count}:${item.next_attempt_at}` : '';
+      const previousItems = pageQueueItemRef.current;
+      const itemsChanged =
+        recentItemMap.size !== previousItems.size ||
+        Array.from(recentItemMap.entries()).some(
+          ([pageId, item]) => itemSignature(item) !== itemSignature(previousItems.get(pageId)),
+        );
+      if (itemsChanged) {
+        pageQueueItemRef.current = recentItemMap;
+        setPageQueueItemMap(recentItemMap);
+      }
+
       setActiveQueueCount(prev => (prev === pendingCount ? prev : pendingCount));
       console.log('Updated queue status:', {
         recentStatusMap: Object.fromEntries(recentStatusMap),
@@ -457,7 +536,99 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
     }
   }, []);
 
-  // Poll for queue status changes using HTTP requests instead of WebSockets
+  const refreshBatch = useCallback(async () => {
+    const batch = await infographicsService.getLatestGenerationBatch(infographic.id);
+    setActiveBatch(batch);
+
+    // Load the failure summary once, when a batch with failures has finished
+    if (batch && batch.status !== 'running' && batch.failed_count > 0 && batchFailuresIdRef.current !== batch.id) {
+      batchFailuresIdRef.current = batch.id;
+      const failedItems = await infographicsService.getGenerationBatchFailures(batch.id);
+      setBatchFailures(
+        failedItems.map((item) => ({
+          pageId: item.infographic_page_id,
+          title: pagesRef.current.find((page) => page.id === item.infographic_page_id)?.title ?? 'Untitled page',
+          message: item.error_message ?? 'Unknown error',
+        })),
+      );
+    } else if (!batch || batch.id !== batchFailuresIdRef.current) {
+      setBatchFailures((prev) => (prev.length === 0 ? prev : []));
+    }
+  }, [infographic.id]);
+
+  // Cost is informational only; a failed fetch just hides the badge
+  const refreshLLMUsage = useCallback(async () => {
+    try {
+      setLLMUsage(await infographicsService.getInfographicLLMUsage(infographic.id));
+    } catch (err) {
+      console.error('Failed to load LLM usage:', err);
+    }
+  }, [infographic.id]);
+
+  useEffect(() => {
+    void refreshLLMUsage();
+  }, [refreshLLMUsage]);
+
+  const mergeStageEvents = useCallback((events: GenerationEvent[]) => {
+    if (events.length === 0) return;
+    setStageEventsByQueue((prev) => {
+      const next = new Map(prev);
+      let changed = false;
+      events.forEach((event) => {
+        const list = next.get(event.queue_id) ?? [];
+        if (list.some((existing) => existing.id === event.id)) return;
+        next.set(
+          event.queue_id,
+          [...list, event].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+        );
+        changed = true;
+      });
+      return changed ? next : prev;
+    });
+  }, []);
+
+  // Live stage events from the worker; terminal stages refresh statuses right away instead of waiting for a poll
+  useEffect(() => {
+    const unsubscribe = infographicsService.subscribeToGenerationEvents(
+      infographic.id,
+      (event) => {
+        mergeStageEvents([event]);
+        if (isTerminalGenerationStage(event.stage)) {
+          void pollQueueStatus();
+          void refreshBatch();
+          void refreshLLMUsage();
+        }
+      },
+      setRealtimeConnected,
+    );
+    return () => {
+      unsubscribe();
+      setRealtimeConnected(false);
+    };
+  }, [infographic.id, mergeStageEvents, pollQueueStatus, refreshBatch, refreshLLMUsage]);
+
+  // Backfill the timeline of jobs that were already running before the subscription started
+  useEffect(() => {
+    const missing = Array.from(pageQueueItemMap.values())
+      .filter((item) => item.status === 'processing' && !backfilledQueueIdsRef.current.has(item.id))
+      .map((item) => item.id);
+    if (missing.length === 0) return;
+    missing.forEach((id) => backfilledQueueIdsRef.current.add(id));
+    void infographicsService.getGenerationEvents(missing).then(mergeStageEvents);
+  }, [pageQueueItemMap, mergeStageEvents]);
+
+  const pageStageEvents = React.useMemo(() => {
+    const map = new Map<string, GenerationEvent[]>();
+    pageQueueItemMap.forEach((item, pageId) => {
+      const events = stageEventsByQueue.get(item.id);
+      if (events && events.length > 0) {
+        map.set(pageId, events);
+      }
+    });
+    return map;
+  }, [pageQueueItemMap, stageEventsByQueue]);
+
+  // Poll for queue status changes; once the realtime channel is up this is only a slow safety net
   useEffect(() => {
     if (pages.length === 0) {
       return;
@@ -465,10 +636,12 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
 
     // Kick off an immediate poll so the UI is current
     void pollQueueStatus();
+    void refreshBatch();
 
-    const POLL_INTERVAL_MS = 5000;
+    const POLL_INTERVAL_MS = realtimeConnected ? 30000 : 5000;
     const intervalId = window.setInterval(() => {
       void pollQueueStatus();
+      void refreshBatch();
     }, POLL_INTERVAL_MS);
 
     pollingIntervalRef.current = intervalId;
@@ -479,7 +652,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
         pollingIntervalRef.current = null;
       }
     };
-  }, [pages.length, infographic.id, pollQueueStatus]);
+  }, [pages.length, infographic.id, pollQueueStatus, refreshBatch, realtimeConnected]);
 
   const handleTriggerWorker = async () => {
     try {
@@ -488,7 +661,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
       
       console.log('Triggering queue worker to process all pending items...');
       
-      // Process items one by one until queue is empty
+      // Each trigger lets the worker claim a batch of items in parallel; repeat until the queue is empty
       let processed = 0;
       const maxAttempts = 10; // Prevent infinite loops
       let pending = activeQueueCount > 0 ? activeQueueCount : await pollQueueStatus();
@@ -530,7 +703,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
     }
   };
 
-  const handleGenerateHtml = async (pageId: string, userComment?: string) => {
+  const handleGenerateHtml = async (pageId: string, userComment?: string, options?: { priority?: number }) => {
     try {
       console.log('=== handleGenerateHtml Start ===');
       console.log('Generating HTML for page:', pageId, 'with comment:', userComment);
@@ -539,7 +712,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
       // Ensure userComment is actually a string to prevent circular reference errors
       const safeUserComment = typeof userComment === 'string' ? userComment : undefined;
       
-      const result = await infographicsService.generatePageHtml(pageId, safeUserComment);
+      const result = await infographicsService.generatePageHtml(pageId, safeUserComment, options);
       console.log('HTML generation completed successfully');
       
       // Real-time subscription will handle the updates automatically,
@@ -558,7 +731,9 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
       
       const errorMessage = err instanceof Error ? err.message : 'Failed to generate HTML';
       // Show user-friendly error message
-      if (errorMessage.includes('Network error')) {
+      if (err instanceof QuotaExceededError) {
+        setError(err.message);
+      } else if (errorMessage.includes('Network error')) {
         setError('HTML generation is currently unavailable due to network issues. Please try again later.');
       } else {
         setError(`HTML Generation Error: ${errorMessage.split('\n')[0]}`);
@@ -566,6 +741,31 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
     }
   };
 
+  const handleCancelGeneration = async (pageId: string) => {
+    const queueItem = pageQueueItemMap.get(pageId);
+    if (!queueItem) return;
+
+    try {
+      setError(null);
+      await infographicsService.cancelGeneration(queueItem.id);
+    } catch (err) {
+      console.error('Error cancelling generation:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel generation';
+      setError(errorMessage.split('\n')[0]);
+    } finally {
+      void pollQueueStatus();
+    }
+  };
+
+  // Queue the page (or bump its pending job) above everything currently waiting in this deck
+  const handleGenerateNext = async (pageId: string) => {
+    const pendingPriorities = Array.from(pageQueueItemMap.values())
+      .filter((item) => item.status === 'pending' && item.infographic_page_id !== pageId)
+      .map((item) => item.priority ?? 0);
+    const priority = Math.min(GENERATION_PRIORITY_MAX, Math.max(0, ...pendingPriorities) + 1);
+    await handleGenerateHtml(pageId, undefined, { priority });
+  };
+
   const handleGenerateAllHtml = async () => {
     const pagesToGenerate = selectedPageIds.size > 0 
       ? pages.filter(page => selectedPageIds.has(page.id))
@@ -579,15 +779,41 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
     try {
       setError(null);
       
-      // Start all generations concurrently
-      const promises = pagesToGenerate.map(page => handleGenerateHtml(page.id));
-      
-      // Wait for all to complete
-      await Promise.allSettled(promises);
+      // Enqueue every page as one batch so progress can be tracked (and cancelled) as a whole
+      const batch = await infographicsService.generatePagesHtmlBatch(
+        infographic.id,
+        pagesToGenerate.map(page => page.id),
+      );
+      if (!batch) {
+        setError('All selected pages are already queued or processing');
+        return;
+      }
+      setActiveBatch(batch);
+      setDismissedBatchId(null);
+      void pollQueueStatus();
       
     } catch (err) {
       console.error('Error in batch generation:', err);
-      setError('Some pages failed to generate. Check individual page status.');
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start batch generation';
+      setError(errorMessage.split('\n')[0]);
+    }
+  };
+
+  const handleCancelBatch = async () => {
+    if (!activeBatch) return;
+
+    try {
+      setCancellingBatch(true);
+      setError(null);
+      const batch = await infographicsService.cancelGenerationBatch(activeBatch.id);
+      setActiveBatch(batch);
+    } catch (err) {
+      console.error('Error cancelling batch:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel batch';
+      setError(errorMessage.split('\n')[0]);
+    } finally {
+      setCancellingBatch(false);
+      void pollQueueStatus();
     }
   };
 
@@ -646,6 +872,66 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
     }
   };
 
+  // Downloads the deck as one HTML file that presents without network access
+  const handleExportOffline = async () => {
+    const generatedPages = getGeneratedPagesInOrder(pages);
+
+    if (generatedPages.length === 0) {
+      setError('No generated pages available to export yet.');
+      return;
+    }
+
+    setError(null);
+    setExportingOffline(true);
+    try {
+      // One page at a time: each bundle can pull several megabytes of assets through the edge function
+      const slides = [];
+      let assetsLeftOnline = 0;
+      for (const page of generatedPages) {
+        const bundle = await infographicsService.bundlePageOffline(page.id);
+        assetsLeftOnline += bundle.failed.length;
+        slides.push({ title: page.title, html: bundle.html });
+      }
+
+      downloadDeckFile(infographic.name, 'html', new Blob([buildOfflineDeckHtml(infographic.name, slides)], { type: 'text/html' }));
+
+      if (assetsLeftOnline > 0) {
+        setError(`Offline export saved, but ${assetsLeftOnline} asset(s) could not be embedded and still load from the network.`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the offline deck.');
+    } finally {
+      setExportingOffline(false);
+    }
+  };
+
+  // Downloads the deck as a PowerPoint file, one slide per generated page
+  const handleExportPptx = async () => {
+    const generatedPages = getGeneratedPagesInOrder(pages);
+
+    if (generatedPages.length === 0) {
+      setError('No generated pages available to export yet.');
+      return;
+    }
+
+    setError(null);
+    setExportingPptx(true);
+    try {
+      // One page at a time: every render holds a tab of the shared headless browser
+      const slides = [];
+      for (const page of generatedPages) {
+        const render = await infographicsService.renderSlide(page.id);
+        slides.push({ title: page.title, render, notes: markdownToSpeakerNotes(page.content_markdown) });
+      }
+
+      downloadDeckFile(infographic.name, 'pptx', new Blob([buildPptx({ title: infographic.name, slides })], { type: PPTX_MIME_TYPE }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export the PowerPoint deck.');
+    } finally {
+      setExportingPptx(false);
+    }
+  };
+
   const handleSelectPageId = (pageId: string, selected: boolean) => {
     setSelectedPageIds(prev => {
       const newSet = new Set(prev);
@@ -740,6 +1026,7 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
                     <div className="w-2 h-2 bg-green-400 rounded-full"></div>
                     <span className="text-gray-600">{pageStatusCounts.generated} ready</span>
                   </div>
+                  <LLMCostBadge usage={llmUsage} />
                 </div>
               )}
             </div>
@@ -754,6 +1041,28 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
                 Edit Project
               </span>
             </button>
+            <button
+              onClick={() => setShowThemePanel(true)}
+              className={`group inline-flex items-center justify-center px-3 py-2.5 h-10 rounded-xl transition-all duration-300 font-medium overflow-hidden ${
+                infographic.design_system
+                  ? 'text-indigo-700 bg-indigo-50 hover:bg-indigo-100 ring-1 ring-indigo-200'
+                  : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+              }`}
+            >
+              <Palette className="w-4 h-4" />
+              <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
+                Theme
+              </span>
+            </button>
+            <button
+              onClick={() => setShowAssetLibrary(true)}
+              className="group inline-flex items-center justify-center px-3 py-2.5 h-10 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 transition-all duration-300 font-medium overflow-hidden"
+            >
+              <Images className="w-4 h-4" />
+              <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
+                Images
+              </span>
+            </button>
             <button
               onClick={() => setShowSlideshow(true)}
               className={`group inline-flex items-center justify-center px-3 py-2.5 h-10 text-white rounded-xl transition-all duration-300 font-medium overflow-hidden ${
@@ -781,6 +1090,34 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
                 Export PDF
               </span>
             </button>
+            <button
+              onClick={handleExportOffline}
+              disabled={exportingOffline}
+              className="group inline-flex items-center justify-center px-3 py-2.5 h-10 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 disabled:opacity-50 transition-all duration-300 font-medium overflow-hidden"
+            >
+              {exportingOffline ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+              ) : (
+                <WifiOff className="w-4 h-4" />
+              )}
+              <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
+                Export Offline
+              </span>
+            </button>
+            <button
+              onClick={handleExportPptx}
+              disabled={exportingPptx}
+              className="group inline-flex items-center justify-center px-3 py-2.5 h-10 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 disabled:opacity-50 transition-all duration-300 font-medium overflow-hidden"
+            >
+              {exportingPptx ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
+              ) : (
+                <Presentation className="w-4 h-4" />
+              )}
+              <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
+                Export PPTX
+              </span>
+            </button>
             {activeQueueCount > 0 && (
               <button
                 onClick={handleTriggerWorker}
@@ -828,6 +1165,16 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
         </div>
       </div>
 
+      {activeBatch && activeBatch.id !== dismissedBatchId && isBatchWorthShowing(activeBatch) && (
+        <BatchProgressBar
+          batch={activeBatch}
+          failures={batchFailures}
+          cancelling={cancellingBatch}
+          onCancel={handleCancelBatch}
+          onDismiss={() => setDismissedBatchId(activeBatch.id)}
+        />
+      )}
+
       {error && (
         <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-xl p-4 shadow-sm">
           <p className="text-red-800">{error}</p>
@@ -842,6 +1189,8 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
           selectedPage={selectedPage}
           selectedPageIds={selectedPageIds}
           pageRecentStatusMap={pageRecentStatusMap}
+          pageQueueItemMap={pageQueueItemMap}
+          pageStageEvents={pageStageEvents}
           activeQueueCount={activeQueueCount}
           pageFilter={pageFilter}
           onFilterChange={setPageFilter}
@@ -851,6 +1200,8 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
           onSelectAll={handleSelectAll}
           onDeletePage={handleDeletePage}
           onGenerateAllHtml={handleGenerateAllHtml}
+          onCancelGeneration={handleCancelGeneration}
+          onGenerateNext={handleGenerateNext}
           onUpdatePages={handleUpdatePages}
           onShowMarkdownImporter={() => setShowMarkdownImporter(true)}
         />
@@ -868,6 +1219,8 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
                   : handleGenerateHtml(selectedPage.id)
               }
               queueStatus={pageRecentStatusMap.get(selectedPage.id)}
+              queueItem={pageQueueItemMap.get(selectedPage.id)}
+              stageEvents={pageStageEvents.get(selectedPage.id)}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-gray-500 overflow-hidden">
@@ -920,6 +1273,22 @@ export function InfographicEditor({ infographic, onBack, onEdit }: InfographicEd
           onCancel={() => setShowMarkdownImporter(false)}
         />
       )}
+
+      {showThemePanel && (
+        <ThemePanel
+          infographic={infographic}
+          pages={pages}
+          onClose={() => setShowThemePanel(false)}
+          onSaved={(updated) => {
+            setShowThemePanel(false);
+            onInfographicUpdated(updated);
+          }}
+        />
+      )}
+
+      {showAssetLibrary && (
+        <AssetLibraryPanel infographicId={infographic.id} onClose={() => setShowAssetLibrary(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,229 @@
+import { useEffect, useRef, useState } from 'react';
+import { Check, Copy, ImagePlus, Images, Trash2, Upload, X } from 'lucide-react';
+import { infographicsService } from '../../lib/supabase';
+import {
+  DECK_ASSET_MIME_TYPES,
+  MAX_ALT_TEXT_CHARS,
+  MAX_DECK_ASSET_BYTES,
+  DeckAsset,
+  markdownImageReference,
+} from '../../lib/deckAssets';
+
+interface AssetLibraryPanelProps {
+  infographicId: string;
+  onClose: () => void;
+  // When set, each image gets an "Insert" action (page editor); otherwise its markdown can be copied
+  onInsert?: (asset: DeckAsset) => void;
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white text-sm';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Images of the deck: the only images the generator may put on its slides
+export function AssetLibraryPanel({ infographicId, onClose, onInsert }: AssetLibraryPanelProps) {
+  const [assets, setAssets] = useState<DeckAsset[]>([]);
+  const [altDrafts, setAltDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    infographicsService
+      .getDeckAssets(infographicId)
+      .then((loaded) => {
+        if (!cancelled) setAssets(loaded);
+      })
+      .catch((err) => {
+        console.error('Failed to load images:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load images');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [infographicId]);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    try {
+      setUploading(true);
+      setError(null);
+      for (const file of Array.from(files)) {
+        // The file name is the best default description until the user writes one
+        const altText = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+        const asset = await infographicsService.uploadDeckAsset(infographicId, file, altText);
+        setAssets((prev) => [...prev, asset]);
+      }
+    } catch (err) {
+      console.error('Failed to upload image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleAltBlur = async (asset: DeckAsset) => {
+    const draft = altDrafts[asset.id];
+    if (draft === undefined || draft.trim() === asset.alt_text) return;
+    try {
+      const updated = await infographicsService.updateDeckAssetAltText(asset.id, draft);
+      setAssets((prev) => prev.map((existing) => (existing.id === updated.id ? updated : existing)));
+      setAltDrafts((prev) => {
+        const next = { ...prev };
+        delete next[asset.id];
+        return next;
+      });
+    } catch (err) {
+      console.error('Failed to update image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update image');
+    }
+  };
+
+  const handleDelete = async (asset: DeckAsset) => {
+    if (!confirm(`Delete "${asset.file_name}"? Slides already showing it will display a broken image until regenerated.`)) return;
+    try {
+      await infographicsService.deleteDeckAsset(asset);
+      setAssets((prev) => prev.filter((existing) => existing.id !== asset.id));
+    } catch (err) {
+      console.error('Failed to delete image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete image');
+    }
+  };
+
+  const handleCopy = async (asset: DeckAsset) => {
+    try {
+      await navigator.clipboard.writeText(markdownImageReference(asset));
+      setCopiedId(asset.id);
+      setTimeout(() => setCopiedId((current) => (current === asset.id ? null : current)), 1500);
+    } catch (err) {
+      console.error('Failed to copy markdown:', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto shadow-2xl border border-gray-100">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <div className="p-3 bg-gradient-to-r from-indigo-100 to-purple-100 rounded-xl mr-4">
+              <Images className="w-6 h-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Deck Images</h2>
+              <p className="text-sm text-gray-500">
+                The only images the generator may use. Reference one from the content to put it on that slide.
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 rounded-lg" aria-label="Close image library">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="flex items-center justify-between mb-5">
+          <p className="text-xs text-gray-500">
+            PNG, JPEG, WebP, GIF or AVIF, up to {Math.round(MAX_DECK_ASSET_BYTES / 1024 / 1024)} MB each.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={DECK_ASSET_MIME_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={(e) => void handleUpload(e.target.files)}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            className="inline-flex items-center px-3 py-2 text-sm text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            {uploading ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-1.5" />
+            ) : (
+              <Upload className="w-4 h-4 mr-1.5" />
+            )}
+            {uploading ? 'Uploading…' : 'Upload images'}
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-500" />
+          </div>
+        ) : assets.length === 0 ? (
+          <div className="text-center py-12 border-2 border-dashed border-gray-200 rounded-xl text-sm text-gray-500">
+            No image yet. Slides that would need one get a placeholder block instead.
+          </div>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {assets.map((asset) => (
+              <li key={asset.id} className="border border-gray-100 rounded-xl overflow-hidden bg-gray-50">
+                <div className="h-36 bg-white flex items-center justify-center">
+                  <img src={asset.url} alt={asset.alt_text} className="max-h-full max-w-full object-contain" />
+                </div>
+                <div className="p-3 space-y-2">
+                  <div className="text-xs text-gray-500 truncate" title={asset.file_name}>
+                    {asset.file_name}
+                    {asset.width && asset.height ? ` · ${asset.width}×${asset.height}` : ''} · {formatSize(asset.size_bytes)}
+                  </div>
+                  <input
+                    type="text"
+                    value={altDrafts[asset.id] ?? asset.alt_text}
+                    onChange={(e) => setAltDrafts((prev) => ({ ...prev, [asset.id]: e.target.value }))}
+                    onBlur={() => void handleAltBlur(asset)}
+                    maxLength={MAX_ALT_TEXT_CHARS}
+                    className={INPUT_CLASS}
+                    placeholder="Describe the image (alt text)"
+                  />
+                  <div className="flex items-center justify-end space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => void handleDelete(asset)}
+                      className="p-2 text-gray-400 hover:text-rose-600 transition-colors"
+                      title="Delete this image"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                    {onInsert ? (
+                      <button
+                        type="button"
+                        onClick={() => onInsert(asset)}
+                        className="inline-flex items-center px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+                      >
+                        <ImagePlus className="w-4 h-4 mr-1.5" />
+                        Insert
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => void handleCopy(asset)}
+                        className="inline-flex items-center px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+                      >
+                        {copiedId === asset.id ? <Check className="w-4 h-4 mr-1.5" /> : <Copy className="w-4 h-4 mr-1.5" />}
+                        {copiedId === asset.id ? 'Copied' : 'Copy markdown'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Layers, X, XCircle, AlertTriangle } from 'lucide-react';
+import { GenerationBatch } from '../../lib/supabase';
+
+export interface BatchFailure {
+  pageId: string;
+  title: string;
+  message: string;
+}
+
+interface BatchProgressBarProps {
+  batch: GenerationBatch;
+  failures: BatchFailure[];
+  cancelling: boolean;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds} s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Average time per finished page so far, extrapolated to the pages still waiting
+const estimateRemainingMs = (batch: GenerationBatch, done: number, now: number) => {
+  if (done === 0 || done >= batch.total_count) return null;
+  const elapsed = now - new Date(batch.started_at).getTime();
+  return (elapsed / done) * (batch.total_count - done);
+};
+
+export function BatchProgressBar({ batch, failures, cancelling, onCancel, onDismiss }: BatchProgressBarProps) {
+  const done = batch.completed_count + batch.failed_count + batch.cancelled_count;
+  const total = Math.max(batch.total_count, 1);
+  const isRunning = batch.status === 'running';
+  const now = Date.now();
+  const remainingMs = isRunning ? estimateRemainingMs(batch, done, now) : null;
+  const finishedIn = batch.finished_at
+    ? new Date(batch.finished_at).getTime() - new Date(batch.started_at).getTime()
+    : null;
+
+  const segment = (count: number) => `${(count / total) * 100}%`;
+
+  return (
+    <div className="mx-6 mt-4 bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-sm font-semibold text-gray-800">
+          <Layers className="w-4 h-4 mr-2 text-indigo-600" />
+          {isRunning
+            ? `Generating ${done}/${batch.total_count} pages`
+            : batch.status === 'cancelled'
+              ? `Batch cancelled after ${done - batch.cancelled_count}/${batch.total_count} pages`
+              : `Batch finished: ${batch.completed_count}/${batch.total_count} pages generated`}
+          <span className="ml-3 text-xs font-normal text-gray-500">
+            {isRunning
+              ? remainingMs !== null
+                ? `about ${formatDuration(remainingMs)} left`
+                : 'estimating time left…'
+              : finishedIn !== null
+                ? `in ${formatDuration(finishedIn)}`
+                : ''}
+          </span>
+        </div>
+        {isRunning ? (
+          <button
+            onClick={onCancel}
+            disabled={cancelling}
+            className="group inline-flex items-center p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all duration-300 disabled:opacity-50 overflow-hidden"
+          >
+            <XCircle className="w-4 h-4" />
+            <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-1 text-xs">
+              {cancelling ? 'Cancelling…' : 'Cancel batch'}
+            </span>
+          </button>
+        ) : (
+          <button
+            onClick={onDismiss}
+            className="p-1.5 text-gray-400 hover:text-gray-700 rounded-lg"
+            aria-label="Dismiss batch summary"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="mt-3 h-2 w-full bg-gray-100 rounded-full overflow-hidden flex">
+        <div className="h-full bg-green-500 transition-all duration-500" style={{ width: segment(batch.completed_count) }} />
+        <div className="h-full bg-red-500 transition-all duration-500" style={{ width: segment(batch.failed_count) }} />
+        <div className="h-full bg-gray-400 transition-all duration-500" style={{ width: segment(batch.cancelled_count) }} />
+      </div>
+
+      {!isRunning && failures.length > 0 && (
+        <div className="mt-3 text-rose-800">
+          <div className="flex items-center text-xs font-semibold">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {failures.length} page{failures.length > 1 ? 's' : ''} failed
+          </div>
+          <ul className="mt-1 space-y-1 text-xs">
+            {failures.map((failure) => (
+              <li key={failure.pageId} className="truncate" title={failure.message}>
+                <span className="font-semibold">{failure.title}</span> — {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
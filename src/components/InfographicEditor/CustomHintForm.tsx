@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { infographicsService } from '../../lib/supabase';
+import { CUSTOM_HINT_LIMITS, CustomGenerationHint } from '../../lib/generationHints';
+
+interface CustomHintFormProps {
+  infographicId: string;
+  onCreated: (hint: CustomGenerationHint) => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-white';
+
+export function CustomHintForm({ infographicId, onCreated, onCancel }: CustomHintFormProps) {
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [allDecks, setAllDecks] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const hint = await infographicsService.createCustomGenerationHint({
+        infographicId: allDecks ? null : infographicId,
+        label,
+        description,
+        prompt,
+      });
+      onCreated(hint);
+    } catch (err) {
+      console.error('Failed to create custom hint:', err);
+      setError(err instanceof Error ? err.message : 'Impossible de créer ce hint.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="rounded-xl border border-dashed border-indigo-200 bg-white/80 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold tracking-wide uppercase text-indigo-600">Nouveau hint personnalisé</span>
+        <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-700 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <input
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        maxLength={CUSTOM_HINT_LIMITS.label}
+        placeholder="Nom (ex. Grille tarifaire)"
+        className={inputClassName}
+        required
+      />
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={CUSTOM_HINT_LIMITS.description}
+        placeholder="Description affichée dans l'éditeur et pour les suggestions IA"
+        className={inputClassName}
+      />
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        maxLength={CUSTOM_HINT_LIMITS.prompt}
+        rows={3}
+        placeholder="Instruction pour la génération (ex. Present three pricing tiers side by side, highlight the recommended one...)"
+        className={inputClassName}
+        required
+      />
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={allDecks}
+          onChange={(e) => setAllDecks(e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Disponible dans tous mes decks
+      </label>
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving || !label.trim() || !prompt.trim()}
+          className="inline-flex items-center px-3 py-1.5 rounded-full text-xs font-semibold bg-indigo-600 text-white hover:bg-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Création...' : 'Créer le hint'}
+        </button>
+      </div>
+    </form>
+  );
+}
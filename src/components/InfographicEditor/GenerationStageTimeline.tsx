@@ -0,0 +1,45 @@
+import { Check, Circle, Loader2, XCircle } from 'lucide-react';
+import { GenerationEvent } from '../../lib/supabase';
+import { describeGenerationStage, isTerminalGenerationStage } from '../../lib/generationStages';
+
+interface GenerationStageTimelineProps {
+  events: GenerationEvent[];
+}
+
+export function GenerationStageTimeline({ events }: GenerationStageTimelineProps) {
+  if (events.length === 0) return null;
+
+  const startedAt = new Date(events[0].created_at).getTime();
+
+  return (
+    <ol className="space-y-1.5">
+      {events.map((event, index) => {
+        const isLast = index === events.length - 1;
+        const isRunning = isLast && !isTerminalGenerationStage(event.stage);
+        const elapsed = Math.round((new Date(event.created_at).getTime() - startedAt) / 1000);
+        return (
+          <li key={event.id} className="flex items-center text-xs text-gray-700">
+            {event.stage === 'failed' || event.stage === 'cancelled' ? (
+              <XCircle className="w-3.5 h-3.5 mr-2 text-red-500 flex-shrink-0" />
+            ) : isRunning ? (
+              <Loader2 className="w-3.5 h-3.5 mr-2 text-indigo-500 animate-spin flex-shrink-0" />
+            ) : event.stage === 'completed' ? (
+              <Check className="w-3.5 h-3.5 mr-2 text-green-600 flex-shrink-0" />
+            ) : (
+              <Circle className="w-3.5 h-3.5 mr-2 text-gray-300 flex-shrink-0" />
+            )}
+            <span className={isRunning ? 'font-semibold text-indigo-700' : ''}>
+              {describeGenerationStage(event)}
+            </span>
+            {event.detail.message && (
+              <span className="ml-2 truncate text-red-600" title={event.detail.message}>
+                {event.detail.message}
+              </span>
+            )}
+            <span className="ml-auto pl-3 text-gray-400 tabular-nums">+{elapsed}s</span>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -21,6 +21,11 @@ const INLINE_CODE_CLASS =
 const LINK_CLASS = 'text-indigo-600 underline underline-offset-2';
 const IMAGE_CLASS =
   'inline-flex items-center px-2 py-0.5 text-[11px] font-medium bg-gray-100 border border-gray-200 rounded';
+const IMAGE_THUMBNAIL_CLASS =
+  'inline-block align-middle max-h-40 max-w-full my-1 rounded border border-gray-200 bg-gray-50 object-contain';
+
+// Only web and pasted data images are previewed; anything else stays a label
+const isPreviewableImageUrl = (url: string) => /^(https?:)?\/\//i.test(url) || /^data:image\//i.test(url);
 const PARAGRAPH_CLASS = 'text-sm text-gray-700 leading-relaxed mb-3';
 const UL_CLASS = 'list-disc pl-6 space-y-1 text-sm text-gray-700 mb-3';
 const OL_CLASS = 'list-decimal pl-6 space-y-1 text-sm text-gray-700 mb-3';
@@ -40,6 +45,7 @@ const HEADING_CLASSES: Record<number, string> = {
 
 const renderInline = (text: string) => {
   const codeSpans: string[] = [];
+  const images: string[] = [];
   let output = escapeHtml(text);
 
   output = output.replace(/`([^`]+)`/g, (_match, code) => {
@@ -48,9 +54,14 @@ const renderInline = (text: string) => {
     return `{{CODE_${index}}}`;
   });
 
-  output = output.replace(/!\[([^\]]*)\]\([^)]+\)/g, (_match, alt) => {
+  // Same syntax as the generator reads (`![alt](url "title")`); text is already escaped, so attributes are safe
+  output = output.replace(/!\[([^\]]*)\]\(\s*(?:&lt;)?([^)\s]+?)(?:&gt;)?(?:\s+(?:&quot;.*?&quot;|&#39;.*?&#39;))?\s*\)/g, (_match, alt, url) => {
     const label = alt ? alt : 'image';
-    return `<span class="${IMAGE_CLASS}">${label}</span>`;
+    if (!isPreviewableImageUrl(url)) return `<span class="${IMAGE_CLASS}">${label}</span>`;
+    // Kept aside like code spans so emphasis rules never touch the URL
+    const index = images.length;
+    images.push(`<img src="${url}" alt="${alt}" title="${label}" loading="lazy" class="${IMAGE_THUMBNAIL_CLASS}" />`);
+    return `{{IMAGE_${index}}}`;
   });
   output = output.replace(/\[([^\]]+)\]\([^)]+\)/g, (_match, label) => {
     return `<span class="${LINK_CLASS}">${label}</span>`;
@@ -65,6 +76,7 @@ const renderInline = (text: string) => {
     const code = codeSpans[Number(index)] ?? '';
     return `<code class="${INLINE_CODE_CLASS}">${code}</code>`;
   });
+  output = output.replace(/\{\{IMAGE_(\d+)\}\}/g, (_match, index) => images[Number(index)] ?? '');
 
   return output;
 };
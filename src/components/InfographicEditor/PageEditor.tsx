@@ -1,9 +1,26 @@
 import React, { useState, useEffect } from 'react';
-import { Code, Eye, Save, Sparkles, History, ChevronDown, MessageSquare, RotateCcw, Plus, X, Wand2 } from 'lucide-react';
-import { infographicsService, Infographic, InfographicPage, InfographicPageHistory } from '../../lib/supabase';
+import { Code, Eye, ShieldCheck, Save, Sparkles, History, ChevronDown, MessageSquare, RotateCcw, Plus, X, Wand2, AlertTriangle, Trash2, LayoutTemplate, ImagePlus } from 'lucide-react';
+import {
+  infographicsService,
+  Infographic,
+  InfographicPage,
+  InfographicPageHistory,
+  GenerationQueueItem,
+  GenerationEvent,
+} from '../../lib/supabase';
+import { describeStyle } from '../../lib/styleGuide';
 import { MarkdownEditor } from './MarkdownEditor';
+import { GenerationStageTimeline } from './GenerationStageTimeline';
+import { CustomHintForm } from './CustomHintForm';
+import { SaveTemplateModal } from './SaveTemplateModal';
+import { AssetLibraryPanel } from './AssetLibraryPanel';
+import { extractMarkdownImages, markdownImageReference } from '../../lib/deckAssets';
+import type { PageTemplate } from '../../lib/pageTemplates';
+import { lintSlideHtml } from '../../lib/slideLint';
+import { QualityReportPanel } from './QualityReportPanel';
 import {
-  GENERATION_HINT_OPTIONS,
+  buildGenerationHintOptions,
+  CustomGenerationHint,
   GenerationHintValue,
   sanitizeHints,
   getGenerationHintDetails,
@@ -22,6 +39,8 @@ interface PageEditorProps {
   page: InfographicPage;
   infographic: Infographic;
   queueStatus?: string;
+  queueItem?: GenerationQueueItem;
+  stageEvents?: GenerationEvent[];
   onUpdate: (pageId: string) => Promise<void>;
   onGenerateHtml: (userComment?: string) => void;
 }
@@ -30,6 +49,7 @@ type PageFormState = {
   title: string;
   content_markdown: string;
   generation_hints: GenerationHintValue[];
+  template_id: string | null;
 };
 
 export function PageEditor({ 
@@ -37,13 +57,16 @@ export function PageEditor({
   infographic, 
   onUpdate, 
   onGenerateHtml, 
-  queueStatus
+  queueStatus,
+  queueItem,
+  stageEvents,
 }: PageEditorProps) {
-  const [activeTab, setActiveTab] = useState<'edit' | 'preview'>('edit');
+  const [activeTab, setActiveTab] = useState<'edit' | 'preview' | 'quality'>('edit');
   const [formData, setFormData] = useState<PageFormState>({
     title: page.title,
     content_markdown: page.content_markdown,
     generation_hints: sanitizeHints(page.generation_hints),
+    template_id: page.template_id,
   });
   const [saving, setSaving] = useState(false);
   const [pageHistory, setPageHistory] = useState<InfographicPageHistory[]>([]);
@@ -57,14 +80,24 @@ export function PageEditor({
   const [hintSuggestions, setHintSuggestions] = useState<GenerationHintSuggestion[]>([]);
   const [isSuggestingHints, setIsSuggestingHints] = useState(false);
   const [hintSuggestionError, setHintSuggestionError] = useState<string | null>(null);
+  const [customHints, setCustomHints] = useState<CustomGenerationHint[]>([]);
+  const [showCustomHintForm, setShowCustomHintForm] = useState(false);
+  const [templates, setTemplates] = useState<PageTemplate[]>([]);
+  const [showSaveTemplateModal, setShowSaveTemplateModal] = useState(false);
+  const [showAssetLibrary, setShowAssetLibrary] = useState(false);
   const [showRewriteModal, setShowRewriteModal] = useState(false);
   const [rewriteUseWebSearch, setRewriteUseWebSearch] = useState(false);
   const [isRewriting, setIsRewriting] = useState(false);
   const [rewriteError, setRewriteError] = useState<string | null>(null);
   const [rewriteSummary, setRewriteSummary] = useState<string | null>(null);
 
-  // Check if current page has active queue jobs
+  // Check if current page has active queue jobs (a stalled job can be restarted)
   const hasActiveQueueJob = queueStatus === 'pending' || queueStatus === 'processing';
+  const isStalled = queueStatus === 'stalled';
+  const attemptErrors = queueItem?.error_history ?? [];
+  const showAttemptErrors =
+    attemptErrors.length > 0 &&
+    (queueStatus === 'failed' || queueStatus === 'dead_letter' || queueStatus === 'pending');
   const pageHints = React.useMemo(() => sanitizeHints(page.generation_hints), [page.generation_hints]);
   const pageHintsSet = React.useMemo(() => new Set(pageHints), [pageHints]);
   const hintsAreEqual = React.useMemo(() => {
@@ -80,11 +113,13 @@ export function PageEditor({
   const hasUnsavedChanges =
     formData.title !== page.title ||
     formData.content_markdown !== page.content_markdown ||
+    formData.template_id !== page.template_id ||
     !hintsAreEqual;
   const removedHints = React.useMemo(
     () => pageHints.filter((hint) => !formData.generation_hints.includes(hint)),
     [pageHints, formData.generation_hints],
   );
+  const hintOptions = React.useMemo(() => buildGenerationHintOptions(customHints), [customHints]);
   const unappliedSuggestions = React.useMemo(
     () => hintSuggestions.filter((hint) => !formData.generation_hints.includes(hint.value)),
     [hintSuggestions, formData.generation_hints],
@@ -129,13 +164,15 @@ export function PageEditor({
       const suggestions = await infographicsService.suggestGenerationHints({
         projectName: infographic.name,
         projectDescription: infographic.description,
-        styleDescription: infographic.style_description,
+        styleDescription: describeStyle(infographic.style_guide, infographic.style_description),
         pageTitle: formData.title,
         pageContentMarkdown: formData.content_markdown?.trim().length
           ? formData.content_markdown
           : page.content_markdown ?? '',
         existingHints: formData.generation_hints,
         maxSuggestions: 4,
+        infographicId: infographic.id,
+        pageId: page.id,
       });
 
       setHintSuggestions(suggestions);
@@ -172,12 +209,57 @@ export function PageEditor({
     }));
   };
 
+  // A deck-level hint hides a user-level one with the same name, so reload rather than patch the list
+  const refreshCustomHints = async () => {
+    try {
+      setCustomHints(await infographicsService.getCustomGenerationHints(infographic.id));
+    } catch (err) {
+      console.error('Failed to load custom hints:', err);
+    }
+  };
+
+  const handleCustomHintCreated = async (hint: CustomGenerationHint) => {
+    setShowCustomHintForm(false);
+    addHint(hint.value);
+    await refreshCustomHints();
+  };
+
+  const handleDeleteCustomHint = async (hint: CustomGenerationHint) => {
+    if (!hint.id || !confirm(`Supprimer le hint "${hint.label}" ?`)) return;
+    try {
+      await infographicsService.deleteCustomGenerationHint(hint.id);
+      await refreshCustomHints();
+    } catch (err) {
+      console.error('Failed to delete custom hint:', err);
+    }
+  };
+
+  const handleTemplateSaved = (template: PageTemplate) => {
+    setTemplates((prev) => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+    setShowSaveTemplateModal(false);
+  };
+
+  const handleDeleteTemplate = async (template: PageTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Pages using it will go back to a free layout.`)) return;
+    try {
+      await infographicsService.deletePageTemplate(template.id);
+      setTemplates((prev) => prev.filter((existing) => existing.id !== template.id));
+      setFormData((prev) => (prev.template_id === template.id ? { ...prev, template_id: null } : prev));
+      await onUpdate(page.id);
+    } catch (err) {
+      console.error('Failed to delete template:', err);
+    }
+  };
+
+  const selectedTemplate = templates.find((template) => template.id === formData.template_id) ?? null;
+
   const handleRewriteContent = async () => {
     try {
       setIsRewriting(true);
       setRewriteError(null);
       const result = await infographicsService.rewritePageContent({
         pageId: page.id,
+        infographicId: infographic.id,
         pageTitle: formData.title || page.title,
         projectName: infographic.name,
         projectDescription: infographic.description,
@@ -210,11 +292,34 @@ export function PageEditor({
       title: page.title,
       content_markdown: page.content_markdown,
       generation_hints: sanitizeHints(page.generation_hints),
+      template_id: page.template_id,
     });
     setHintSuggestions([]);
     setHintSuggestionError(null);
     setIsSuggestingHints(false);
-  }, [page.id, page.title, page.content_markdown, page.generation_hints]);
+  }, [page.id, page.title, page.content_markdown, page.generation_hints, page.template_id]);
+
+  // Templates are shared by all decks of the user
+  useEffect(() => {
+    infographicsService
+      .getPageTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error('Failed to load templates:', err));
+  }, []);
+
+  // Custom hints belong to the deck (or to every deck of the user), not to the page
+  useEffect(() => {
+    let cancelled = false;
+    infographicsService
+      .getCustomGenerationHints(infographic.id)
+      .then((hints) => {
+        if (!cancelled) setCustomHints(hints);
+      })
+      .catch((err) => console.error('Failed to load custom hints:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [infographic.id]);
 
   // Load page history when page changes
   useEffect(() => {
@@ -239,6 +344,13 @@ export function PageEditor({
     return historyItem?.generated_html || '';
   };
 
+  const getSelectedValidationReport = () => {
+    if (selectedHistoryId === 'current') {
+      return page.validation_report;
+    }
+    return pageHistory.find(h => h.id === selectedHistoryId)?.validation_report ?? null;
+  };
+
   const getSelectedComment = () => {
     if (selectedHistoryId === 'current') {
       return page.last_generation_comment || 'Latest generated version';
@@ -269,12 +381,20 @@ export function PageEditor({
           infographic_page_id: page.id,
           generated_html: page.generated_html,
           user_comment: page.last_generation_comment || 'Version before restore',
+          validation_report: page.validation_report,
         });
       }
       
       // Update page with restored HTML
       await infographicsService.updatePage(page.id, {
         generated_html: historyItem.generated_html,
+        lint_report: lintSlideHtml(historyItem.generated_html, {
+          resourcePrefixes: [
+            infographicsService.getDeckAssetsUrlPrefix(),
+            ...extractMarkdownImages(page.content_markdown).map((image) => image.url),
+          ],
+        }),
+        validation_report: historyItem.validation_report,
         last_generation_comment: `Restored from ${new Date(historyItem.created_at).toLocaleDateString()}: ${historyItem.user_comment}`
       });
       
@@ -340,9 +460,33 @@ export function PageEditor({
                   Preview Page
                 </span>
               </button>
+              <button
+                onClick={() => setActiveTab('quality')}
+                className={`group inline-flex items-center p-3 rounded-lg transition-all duration-300 overflow-hidden ${
+                  activeTab === 'quality'
+                    ? 'bg-amber-500 text-white shadow-md'
+                    : 'text-gray-600 hover:text-amber-600 hover:bg-amber-50'
+                }`}
+              >
+                <ShieldCheck className="w-5 h-5" />
+                <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
+                  Quality Report
+                </span>
+              </button>
             </div>
           </div>
           <div className="flex items-center space-x-3">
+            {activeTab === 'preview' && page.generated_html && (
+              <button
+                onClick={() => setShowSaveTemplateModal(true)}
+                className="group inline-flex items-center p-3 text-indigo-600 bg-white border border-indigo-200 hover:bg-indigo-50 rounded-lg transition-all duration-300 shadow-sm"
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-2">
+                  Save as Template
+                </span>
+              </button>
+            )}
             {activeTab === 'edit' && (
               <>
                 <button
@@ -387,7 +531,7 @@ export function PageEditor({
               >
                 <Sparkles className="w-5 h-5" />
                 <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
-                  {queueStatus === 'pending' ? 'Queued' : queueStatus === 'processing' ? 'Processing...' : 'Generate HTML'}
+                  {queueStatus === 'pending' ? 'Queued' : queueStatus === 'processing' ? 'Processing...' : isStalled ? 'Restart stalled job' : 'Generate HTML'}
                 </span>
               </button>
         </div>
@@ -407,6 +551,52 @@ export function PageEditor({
           </button>
         </div>
       )}
+      {queueStatus === 'processing' && stageEvents && stageEvents.length > 0 && (
+        <div className="mt-4 px-4 py-3 rounded-lg border bg-indigo-50/60 border-indigo-100">
+          <div className="text-xs font-semibold tracking-wide uppercase text-indigo-700 mb-2">
+            Generation in progress
+          </div>
+          <GenerationStageTimeline events={stageEvents} />
+        </div>
+      )}
+      {isStalled && (
+        <div className="mt-4 px-4 py-3 rounded-lg border bg-orange-50 border-orange-200 text-orange-800">
+          <div className="flex items-center text-sm font-semibold">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Generation stalled: the worker stopped responding
+            {queueItem?.heartbeat_at ? ` (last heartbeat ${new Date(queueItem.heartbeat_at).toLocaleTimeString()})` : ''}
+          </div>
+          <p className="mt-1 text-xs">
+            The job will be requeued automatically by the next worker run, or right away if you generate again.
+          </p>
+        </div>
+      )}
+      {showAttemptErrors && queueItem && (
+        <div
+          className={`mt-4 px-4 py-3 rounded-lg border ${
+            queueStatus === 'pending'
+              ? 'bg-amber-50 border-amber-200 text-amber-800'
+              : 'bg-rose-50 border-rose-200 text-rose-800'
+          }`}
+        >
+          <div className="flex items-center text-sm font-semibold">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            {queueStatus === 'pending'
+              ? `Generation failed, retrying (attempt ${queueItem.attempt_count + 1} of ${queueItem.max_attempts}) at ${new Date(queueItem.next_attempt_at).toLocaleTimeString()}`
+              : queueStatus === 'dead_letter'
+                ? `Generation gave up after ${queueItem.attempt_count} attempts`
+                : 'Generation failed'}
+          </div>
+          <ul className="mt-2 space-y-1 text-xs">
+            {attemptErrors.map((entry) => (
+              <li key={`${entry.attempt}-${entry.failed_at}`} className="truncate" title={entry.message}>
+                <span className="font-semibold">#{entry.attempt}</span>{' '}
+                {new Date(entry.failed_at).toLocaleTimeString()} — {entry.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       <div className="mt-4">
           <div className="flex items-center justify-between">
             <span className="text-xs font-semibold tracking-wide uppercase text-gray-500">
@@ -426,7 +616,7 @@ export function PageEditor({
           <div className="mt-2 flex flex-wrap gap-2">
             {formData.generation_hints.length > 0 ? (
               formData.generation_hints.map((value) => {
-                const option = getGenerationHintDetails(value);
+                const option = getGenerationHintDetails(value, customHints);
                 const isPersisted = pageHintsSet.has(value);
                 return (
                   <span
@@ -448,7 +638,7 @@ export function PageEditor({
           {removedHints.length > 0 && (
             <div className="mt-2 flex flex-wrap gap-2">
               {removedHints.map((value) => {
-                const option = getGenerationHintDetails(value);
+                const option = getGenerationHintDetails(value, customHints);
                 return (
                   <span
                     key={`removed-${value}`}
@@ -492,7 +682,7 @@ export function PageEditor({
               </div>
               <div className="space-y-3">
                 {hintSuggestions.map((suggestion) => {
-                  const option = getGenerationHintDetails(suggestion.value);
+                  const option = getGenerationHintDetails(suggestion.value, customHints);
                   const isSelected = formData.generation_hints.includes(suggestion.value);
                   return (
                     <div
@@ -588,7 +778,7 @@ export function PageEditor({
                 </div>
               </div>
               <div className="flex flex-wrap gap-2">
-                {GENERATION_HINT_OPTIONS.map((option) => {
+                {hintOptions.map((option) => {
                   const isActive = formData.generation_hints.includes(option.value);
                   return (
                     <button
@@ -599,7 +789,7 @@ export function PageEditor({
                         isActive
                           ? 'bg-indigo-600 text-white border-indigo-600 shadow-sm'
                           : 'bg-white text-gray-600 border-gray-200 hover:border-indigo-300 hover:text-indigo-600 hover:bg-indigo-50'
-                      }`}
+                      } ${option.custom ? 'border-dashed' : ''}`}
                       title={option.description}
                     >
                       {option.label}
@@ -609,7 +799,7 @@ export function PageEditor({
               </div>
               {hintPanelExpanded && (
                 <div className="mt-4 grid gap-3 sm:grid-cols-2">
-                  {GENERATION_HINT_OPTIONS.map((option) => {
+                  {hintOptions.map((option) => {
                     const isActive = formData.generation_hints.includes(option.value);
                     return (
                       <div
@@ -620,11 +810,28 @@ export function PageEditor({
                       >
                         <div className="font-semibold text-gray-800 flex items-center justify-between">
                           <span>{option.label}</span>
-                          {isActive && (
-                            <span className="text-[10px] uppercase tracking-wide text-indigo-500">
-                              sélectionné
-                            </span>
-                          )}
+                          <div className="flex items-center gap-2">
+                            {isActive && (
+                              <span className="text-[10px] uppercase tracking-wide text-indigo-500">
+                                sélectionné
+                              </span>
+                            )}
+                            {option.custom && (
+                              <>
+                                <span className="text-[10px] uppercase tracking-wide text-gray-400">
+                                  {option.custom.infographicId ? 'ce deck' : 'tous mes decks'}
+                                </span>
+                                <button
+                                  type="button"
+                                  onClick={() => option.custom && handleDeleteCustomHint(option.custom)}
+                                  className="text-gray-400 hover:text-rose-600 transition-colors"
+                                  title="Supprimer ce hint personnalisé"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                              </>
+                            )}
+                          </div>
                         </div>
                         <p className="mt-2 text-gray-600 text-sm leading-relaxed">
                           {option.description}
@@ -632,13 +839,75 @@ export function PageEditor({
                       </div>
                     );
                   })}
+                  <div className="sm:col-span-2">
+                    {showCustomHintForm ? (
+                      <CustomHintForm
+                        infographicId={infographic.id}
+                        onCreated={handleCustomHintCreated}
+                        onCancel={() => setShowCustomHintForm(false)}
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setShowCustomHintForm(true)}
+                        className="inline-flex items-center px-3 py-2 rounded-full text-xs font-medium border border-dashed border-indigo-300 text-indigo-600 hover:bg-indigo-50 transition-all"
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Hint personnalisé
+                      </button>
+                    )}
+                  </div>
                 </div>
               )}
             </div>
-            <div className="flex-1 flex flex-col mt-6 min-h-0 overflow-hidden">
+            <div className="mt-6">
               <label className="block text-sm font-semibold text-gray-800 mb-3">
-                Content (Markdown)
+                Layout template
               </label>
+              <div className="flex items-center gap-2">
+                <select
+                  value={formData.template_id ?? ''}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, template_id: e.target.value || null }))}
+                  className="flex-1 px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-white shadow-sm text-sm"
+                >
+                  <option value="">No template (free layout)</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteTemplate(selectedTemplate)}
+                    className="p-3 text-gray-400 hover:text-rose-600 transition-colors"
+                    title="Delete this template"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {selectedTemplate
+                  ? `${selectedTemplate.description ? `${selectedTemplate.description} · ` : ''}The generator fills ${selectedTemplate.slots.length} slot${selectedTemplate.slots.length === 1 ? '' : 's'} from the content below.`
+                  : 'Save any generated page as a template from the preview tab.'}
+              </p>
+            </div>
+            <div className="flex-1 flex flex-col mt-6 min-h-0 overflow-hidden">
+              <div className="flex items-center justify-between mb-3">
+                <label className="block text-sm font-semibold text-gray-800">
+                  Content (Markdown)
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setShowAssetLibrary(true)}
+                  className="inline-flex items-center px-3 py-1.5 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100"
+                >
+                  <ImagePlus className="w-4 h-4 mr-1.5" />
+                  Insert image
+                </button>
+              </div>
               <MarkdownEditor
                 value={formData.content_markdown}
                 onChange={(value) => setFormData((prev) => ({ ...prev, content_markdown: value }))}
@@ -647,6 +916,22 @@ export function PageEditor({
               />
             </div>
           </div>
+        ) : activeTab === 'quality' ? (
+          <div className="flex-1 overflow-y-auto p-6 bg-gradient-to-br from-gray-50 to-white">
+            {page.generated_html ? (
+              <>
+                <div className="text-sm text-gray-600 mb-4">
+                  {selectedHistoryId === 'current' ? 'Current Version' : 'Version selected in the preview'}: {getSelectedComment()}
+                </div>
+                <QualityReportPanel
+                  report={getSelectedValidationReport()}
+                  lintReport={selectedHistoryId === 'current' ? page.lint_report : null}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Generate the page to get a quality report.</p>
+            )}
+          </div>
         ) : (
           <div className="h-full overflow-hidden">
             {page.generated_html ? (
@@ -712,6 +997,19 @@ export function PageEditor({
                     <div className="text-sm text-gray-600">
                       {getSelectedComment()}
                     </div>
+
+                    {/* Slide rules the saved HTML still breaks after the repair loop */}
+                    {selectedHistoryId === 'current' && page.lint_report && !page.lint_report.valid && (
+                      <div
+                        className="flex items-center space-x-1 px-2 py-1 bg-amber-50 border border-amber-200 text-amber-700 rounded-lg text-xs font-medium"
+                        title={page.lint_report.errors.map((error) => `[${error.rule}] ${error.message}`).join('\n')}
+                      >
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        <span>
+                          {page.lint_report.errors.length} slide rule violation{page.lint_report.errors.length === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                    )}
                   </div>
                   
                   {/* Regenerate Button */}
@@ -801,7 +1099,7 @@ export function PageEditor({
                   >
                     <Sparkles className="w-5 h-5 mr-2" />
                     <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap">
-                      {queueStatus === 'pending' ? 'Queued' : queueStatus === 'processing' ? 'Processing...' : 'Generate HTML'}
+                      {queueStatus === 'pending' ? 'Queued' : queueStatus === 'processing' ? 'Processing...' : isStalled ? 'Restart stalled job' : 'Generate HTML'}
                     </span>
                   </button>
                 </div>
@@ -935,6 +1233,26 @@ export function PageEditor({
             </div>
           </div>
         )}
+        {showSaveTemplateModal && (
+          <SaveTemplateModal
+            page={page}
+            onSaved={handleTemplateSaved}
+            onCancel={() => setShowSaveTemplateModal(false)}
+          />
+        )}
+        {showAssetLibrary && (
+          <AssetLibraryPanel
+            infographicId={infographic.id}
+            onClose={() => setShowAssetLibrary(false)}
+            onInsert={(asset) => {
+              setFormData((prev) => ({
+                ...prev,
+                content_markdown: `${prev.content_markdown.trimEnd()}${prev.content_markdown.trim() ? '\n\n' : ''}${markdownImageReference(asset)}\n`,
+              }));
+              setShowAssetLibrary(false);
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -15,7 +15,7 @@ import {
   sortableKeyboardCoordinates,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
-import { InfographicPage, infographicsService } from '../../lib/supabase';
+import { InfographicPage, GenerationQueueItem, GenerationEvent, infographicsService } from '../../lib/supabase';
 import { SortablePageItem } from './SortablePageItem';
 
 interface PagesSidebarProps {
@@ -24,6 +24,8 @@ interface PagesSidebarProps {
   selectedPage: InfographicPage | null;
   selectedPageIds: Set<string>;
   pageRecentStatusMap: Map<string, string>;
+  pageQueueItemMap: Map<string, GenerationQueueItem>;
+  pageStageEvents: Map<string, GenerationEvent[]>;
   activeQueueCount: number;
   pageFilter: 'all' | 'draft' | 'processing' | 'generated';
   onFilterChange: (value: 'all' | 'draft' | 'processing' | 'generated') => void;
@@ -33,6 +35,8 @@ interface PagesSidebarProps {
   onSelectAll: () => void;
   onDeletePage: (pageId: string) => void;
   onGenerateAllHtml: () => void;
+  onCancelGeneration: (pageId: string) => void;
+  onGenerateNext: (pageId: string) => void;
   onUpdatePages: () => void;
   onShowMarkdownImporter: () => void;
 }
@@ -43,6 +47,8 @@ export function PagesSidebar({
   selectedPage,
   selectedPageIds,
   pageRecentStatusMap,
+  pageQueueItemMap,
+  pageStageEvents,
   activeQueueCount,
   pageFilter,
   onFilterChange,
@@ -52,6 +58,8 @@ export function PagesSidebar({
   onSelectAll,
   onDeletePage,
   onGenerateAllHtml,
+  onCancelGeneration,
+  onGenerateNext,
   onUpdatePages,
   onShowMarkdownImporter,
 }: PagesSidebarProps) {
@@ -245,6 +253,8 @@ export function PagesSidebar({
                     isSelected={selectedPage?.id === page.id}
                     isChecked={selectedPageIds.has(page.id)}
                     queueStatus={pageRecentStatusMap.get(page.id)}
+                    queueItem={pageQueueItemMap.get(page.id)}
+                    stageEvents={pageStageEvents.get(page.id)}
                     isEditingOrder={isEditingOrder}
                     hasGeneratedHtml={!!page.generated_html}
                     onSelect={() => !isEditingOrder && onSelectPage(page)}
@@ -253,6 +263,14 @@ export function PagesSidebar({
                       e.stopPropagation();
                       onDeletePage(page.id);
                     }}
+                    onCancelGeneration={(e) => {
+                      e.stopPropagation();
+                      onCancelGeneration(page.id);
+                    }}
+                    onGenerateNext={(e) => {
+                      e.stopPropagation();
+                      onGenerateNext(page.id);
+                    }}
                   />
                 ))}
               </SortableContext>
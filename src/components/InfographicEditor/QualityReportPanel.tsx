@@ -0,0 +1,153 @@
+import { AlertTriangle, CheckCircle2, MinusCircle } from 'lucide-react';
+import type { SlideLintReport } from '../../lib/slideLint';
+import type { ValidationOutcome, ValidationReport, ValidationReportMessage, ValidationSource } from '../../lib/validationReport';
+
+interface QualityReportPanelProps {
+  report: ValidationReport | null;
+  // Lint report of the current HTML, shown for versions generated before validation reports existed
+  lintReport?: SlideLintReport | null;
+}
+
+const SOURCE_LABELS: Record<ValidationSource, string> = {
+  markup: 'HTML',
+  lint: 'Slide rules',
+  runtime: 'Runtime',
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeOutcome = (report: ValidationReport) => {
+  const remaining = report.remaining_errors.length;
+  const repairs = report.iterations.filter((iteration) => iteration.diff).length;
+  const descriptions: Record<ValidationOutcome, string> = {
+    passed: 'Passed every enabled check on the first pass.',
+    repaired: `Clean after ${plural(repairs, 'repair')}.`,
+    max_iterations: `Still has ${plural(remaining, 'known issue')} after ${plural(report.max_iterations, 'repair')}.`,
+    stalled: `The fixer could not change the HTML any further; ${plural(remaining, 'known issue')} left.`,
+    skipped: 'Validation was disabled for this generation.',
+  };
+  return descriptions[report.outcome];
+};
+
+function MessageList({ messages }: { messages: ValidationReportMessage[] }) {
+  return (
+    <ul className="space-y-2">
+      {messages.map((message, index) => (
+        <li key={index} className="text-sm text-gray-700">
+          <span className="inline-block px-2 py-0.5 mr-2 rounded bg-gray-100 text-gray-600 text-xs font-medium">
+            {SOURCE_LABELS[message.source]}
+            {message.rule ? ` · ${message.rule}` : ''}
+            {message.line ? ` · line ${message.line}` : ''}
+          </span>
+          {message.message}
+          {message.extract && (
+            <code className="block mt-1 px-2 py-1 bg-gray-50 border border-gray-100 rounded text-xs text-gray-500 whitespace-pre-wrap break-all">
+              {message.extract}
+            </code>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function DiffView({ diff }: { diff: string }) {
+  return (
+    <pre className="mt-2 p-3 bg-gray-900 rounded-lg text-xs overflow-x-auto max-h-96">
+      {diff.split('\n').map((line, index) => (
+        <div
+          key={index}
+          className={
+            line.startsWith('+') ? 'text-green-300' : line.startsWith('-') ? 'text-red-300' : line.startsWith('@@') ? 'text-indigo-300' : 'text-gray-400'
+          }
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+// What the repair loop found and changed for one version of a page
+export function QualityReportPanel({ report, lintReport }: QualityReportPanelProps) {
+  if (!report) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">
+          No quality report for this version: it was generated before validation reports were recorded.
+        </p>
+        {lintReport && !lintReport.valid && (
+          <div>
+            <h3 className="text-sm font-semibold text-gray-800 mb-2">Slide rule violations</h3>
+            <MessageList messages={lintReport.errors.map((error) => ({ source: 'lint', message: error.message, rule: error.rule, line: error.lastLine }))} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const clean = report.outcome === 'passed' || report.outcome === 'repaired';
+  const runtimeSkipped = report.iterations.find((iteration) => iteration.runtime_skipped)?.runtime_skipped;
+
+  return (
+    <div className="space-y-6">
+      <div
+        className={`flex items-start p-4 rounded-xl border ${
+          report.outcome === 'skipped'
+            ? 'bg-gray-50 border-gray-200 text-gray-700'
+            : clean
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : 'bg-amber-50 border-amber-200 text-amber-800'
+        }`}
+      >
+        {report.outcome === 'skipped' ? (
+          <MinusCircle className="w-5 h-5 mr-3 flex-shrink-0" />
+        ) : clean ? (
+          <CheckCircle2 className="w-5 h-5 mr-3 flex-shrink-0" />
+        ) : (
+          <AlertTriangle className="w-5 h-5 mr-3 flex-shrink-0" />
+        )}
+        <div>
+          <div className="font-semibold">{describeOutcome(report)}</div>
+          <div className="text-xs mt-1 opacity-80">
+            Checks: {(Object.keys(SOURCE_LABELS) as ValidationSource[]).filter((source) => report.checks[source]).map((source) => SOURCE_LABELS[source]).join(', ') || 'none'}
+            {runtimeSkipped ? ` · runtime check skipped (${runtimeSkipped})` : ''}
+            {report.finished_at ? ` · ${new Date(report.finished_at).toLocaleString()}` : ''}
+          </div>
+        </div>
+      </div>
+
+      {report.remaining_errors.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Known issues</h3>
+          <MessageList messages={report.remaining_errors} />
+        </div>
+      )}
+
+      {report.iterations.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Validation passes</h3>
+          <ol className="space-y-2">
+            {report.iterations.map((iteration) => (
+              <li key={iteration.iteration} className="border border-gray-200 rounded-lg bg-white">
+                <details>
+                  <summary className="px-4 py-3 cursor-pointer text-sm text-gray-700 flex items-center justify-between">
+                    <span className="font-medium">Pass {iteration.iteration}</span>
+                    <span className="text-xs text-gray-500">
+                      {iteration.errors.length ? plural(iteration.errors.length, 'issue') : 'clean'}
+                      {iteration.diff ? ' · repaired' : ''}
+                    </span>
+                  </summary>
+                  <div className="px-4 pb-4 space-y-3">
+                    {iteration.errors.length > 0 && <MessageList messages={iteration.errors} />}
+                    {iteration.diff && <DiffView diff={iteration.diff} />}
+                  </div>
+                </details>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
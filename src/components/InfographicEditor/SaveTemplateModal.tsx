@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { LayoutTemplate, X } from 'lucide-react';
+import { infographicsService, InfographicPage } from '../../lib/supabase';
+import { MAX_TEMPLATE_NAME_CHARS, PageTemplate, annotateTemplateSlots, extractTemplateSlots } from '../../lib/pageTemplates';
+import { restoreTailwindCdn } from '../../lib/tailwindStatic';
+
+interface SaveTemplateModalProps {
+  page: InfographicPage;
+  onSaved: (template: PageTemplate) => void;
+  onCancel: () => void;
+}
+
+// Saves the generated HTML of a page as a layout template; text elements become content slots
+export function SaveTemplateModal({ page, onSaved, onCancel }: SaveTemplateModalProps) {
+  const [name, setName] = useState(page.title);
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Templates are filled by the model, which writes classes for the Tailwind CDN, not for a compiled stylesheet
+  const html = useMemo(() => annotateTemplateSlots(restoreTailwindCdn(page.generated_html || '')), [page.generated_html]);
+  const slotCount = useMemo(() => extractTemplateSlots(html).length, [html]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      const template = await infographicsService.createPageTemplate({
+        name,
+        description,
+        html,
+        sourcePageId: page.id,
+      });
+      onSaved(template);
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-lg shadow-2xl border border-gray-100">
+        <div className="flex items-center mb-6">
+          <div className="p-3 bg-gradient-to-r from-indigo-100 to-purple-100 rounded-xl mr-4">
+            <LayoutTemplate className="w-6 h-6 text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Save as Template</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {slotCount} content slot{slotCount === 1 ? '' : 's'} detected in this page.
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-3">Template Name *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_TEMPLATE_NAME_CHARS}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white"
+              placeholder="e.g. Weekly KPI review"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-3">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white"
+              placeholder="When to use this layout"
+            />
+          </div>
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-100">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="group px-3 py-3 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 transition-all duration-300 font-medium inline-flex items-center overflow-hidden"
+            >
+              <X className="w-5 h-5" />
+              <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap">
+                Cancel
+              </span>
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !name.trim() || slotCount === 0}
+              className="group px-3 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 transition-all duration-300 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 font-medium inline-flex items-center overflow-hidden"
+            >
+              <LayoutTemplate className="w-5 h-5" />
+              <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap">
+                {saving ? 'Saving...' : 'Save Template'}
+              </span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,80 @@
 import React from 'react';
-import { Trash2 } from 'lucide-react';
+import { Trash2, XCircle, ChevronsUp } from 'lucide-react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { InfographicPage } from '../../lib/supabase';
+import { InfographicPage, GenerationQueueItem, GenerationEvent } from '../../lib/supabase';
+import { describeGenerationStage } from '../../lib/generationStages';
 import { sanitizeHints, generationHintLabel } from '../../lib/generationHints';
 
+const BADGE_QUEUED = 'bg-gradient-to-r from-yellow-100 to-orange-100 text-yellow-800';
+const BADGE_PROCESSING = 'bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-800';
+const BADGE_STALLED = 'bg-gradient-to-r from-orange-100 to-amber-100 text-orange-800';
+const BADGE_CANCELLED = 'bg-gradient-to-r from-gray-100 to-slate-100 text-gray-600';
+const BADGE_FAILED = 'bg-gradient-to-r from-red-100 to-pink-100 text-red-800';
+const BADGE_GENERATED = 'bg-gradient-to-r from-green-100 to-emerald-100 text-green-800';
+
+const getStatusBadge = (
+  queueStatus: string | undefined,
+  queueItem: GenerationQueueItem | undefined,
+  hasGeneratedHtml: boolean,
+  currentStage?: GenerationEvent,
+): { label: string; className: string; title?: string } => {
+  switch (queueStatus) {
+    case 'pending':
+      if (queueItem && queueItem.attempt_count > 0) {
+        return {
+          label: `Retrying (${queueItem.attempt_count}/${queueItem.max_attempts})`,
+          className: BADGE_QUEUED,
+          title: queueItem.error_message ?? undefined,
+        };
+      }
+      return queueItem && queueItem.priority > 0
+        ? { label: 'Queued (next)', className: BADGE_QUEUED, title: `Priority ${queueItem.priority}` }
+        : { label: 'Queued', className: BADGE_QUEUED };
+    case 'processing':
+      return currentStage
+        ? { label: `${describeGenerationStage(currentStage)}...`, className: BADGE_PROCESSING }
+        : { label: 'Processing...', className: BADGE_PROCESSING };
+    case 'stalled':
+      return {
+        label: 'Stalled',
+        className: BADGE_STALLED,
+        title: queueItem?.heartbeat_at
+          ? `No worker heartbeat since ${new Date(queueItem.heartbeat_at).toLocaleTimeString()}`
+          : 'No worker heartbeat received',
+      };
+    case 'failed':
+      return { label: 'Failed', className: BADGE_FAILED, title: queueItem?.error_message ?? undefined };
+    case 'cancelled':
+      return { label: 'Cancelled', className: BADGE_CANCELLED };
+    case 'dead_letter':
+      return {
+        label: 'Gave up',
+        className: BADGE_FAILED,
+        title: queueItem?.error_message ?? undefined,
+      };
+    default:
+      return hasGeneratedHtml
+        ? { label: 'Generated', className: BADGE_GENERATED }
+        : { label: 'Draft', className: BADGE_QUEUED };
+  }
+};
+
 interface SortablePageItemProps {
   page: InfographicPage;
   index: number;
   isSelected: boolean;
   isChecked: boolean;
   queueStatus?: string;
+  queueItem?: GenerationQueueItem;
+  stageEvents?: GenerationEvent[];
   hasGeneratedHtml: boolean;
   isEditingOrder: boolean;
   onSelect: () => void;
   onCheck: (checked: boolean) => void;
   onDelete: (e: React.MouseEvent) => void;
+  onCancelGeneration: (e: React.MouseEvent) => void;
+  onGenerateNext: (e: React.MouseEvent) => void;
 }
 
 export function SortablePageItem({
@@ -24,11 +83,15 @@ export function SortablePageItem({
   isSelected,
   isChecked,
   queueStatus,
+  queueItem,
+  stageEvents,
   hasGeneratedHtml,
   isEditingOrder,
   onSelect,
   onCheck,
   onDelete,
+  onCancelGeneration,
+  onGenerateNext,
 }: SortablePageItemProps) {
   const {
     attributes,
@@ -44,6 +107,9 @@ export function SortablePageItem({
     transition,
   };
   const generationHints = sanitizeHints(page.generation_hints);
+  const statusBadge = getStatusBadge(queueStatus, queueItem, hasGeneratedHtml, stageEvents?.[stageEvents.length - 1]);
+  const canCancel = queueStatus === 'pending' || queueStatus === 'processing' || queueStatus === 'stalled';
+  const canGenerateNext = queueStatus !== 'processing' && queueStatus !== 'stalled';
 
   return (
     <div
@@ -128,28 +194,38 @@ export function SortablePageItem({
                 Queue: {queueStatus || 'none'} | HTML: {hasGeneratedHtml ? 'yes' : 'no'}
               </div>
             )}
-            <span className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-bold shadow-sm ${
-              queueStatus === 'pending' || queueStatus === 'processing' || queueStatus === 'failed'
-                ? queueStatus === 'pending'
-                ? 'bg-gradient-to-r from-yellow-100 to-orange-100 text-yellow-800'
-                  : queueStatus === 'processing'
-                  ? 'bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-800'
-                  : 'bg-gradient-to-r from-red-100 to-pink-100 text-red-800'
-                : hasGeneratedHtml 
-                  ? 'bg-gradient-to-r from-green-100 to-emerald-100 text-green-800' 
-                  : 'bg-gradient-to-r from-yellow-100 to-orange-100 text-yellow-800'
-            }`}>
-              {queueStatus === 'pending' || queueStatus === 'processing' || queueStatus === 'failed'
-                ? queueStatus === 'pending'
-                ? 'Queued'
-                  : queueStatus === 'processing'
-                  ? 'Processing...'
-                  : 'Failed'
-                : hasGeneratedHtml 
-                  ? 'Generated' 
-                  : 'Draft'
-              }
+            <span
+              className={`inline-flex items-center px-3 py-1.5 rounded-full text-xs font-bold shadow-sm ${statusBadge.className}`}
+              title={statusBadge.title}
+            >
+              {statusBadge.label}
             </span>
+            {!isEditingOrder && (
+              <div className="flex items-center space-x-1">
+                {canGenerateNext && (
+                  <button
+                    onClick={onGenerateNext}
+                    className="group/btn p-1.5 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all duration-300 inline-flex items-center overflow-hidden"
+                  >
+                    <ChevronsUp className="w-3 h-3" />
+                    <span className="max-w-0 group-hover/btn:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover/btn:ml-1 text-xs">
+                      Generate next
+                    </span>
+                  </button>
+                )}
+                {canCancel && (
+                  <button
+                    onClick={onCancelGeneration}
+                    className="group/btn p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-all duration-300 inline-flex items-center overflow-hidden"
+                  >
+                    <XCircle className="w-3 h-3" />
+                    <span className="max-w-0 group-hover/btn:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover/btn:ml-1 text-xs">
+                      Cancel
+                    </span>
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
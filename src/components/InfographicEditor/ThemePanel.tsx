@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import { Palette, Wand2, Save, X, Trash2 } from 'lucide-react';
+import { infographicsService, Infographic, InfographicPage } from '../../lib/supabase';
+import {
+  DeckDesignSystem,
+  HEADING_LEVELS,
+  HeadingLevel,
+  extractDesignSystem,
+  normalizeDesignSystem,
+  isDesignSystemEmpty,
+} from '../../lib/designSystem';
+
+interface ThemePanelProps {
+  infographic: Infographic;
+  pages: InfographicPage[];
+  onClose: () => void;
+  onSaved: (infographic: Infographic) => void;
+}
+
+interface ThemeFormState {
+  cssVariables: string;
+  palette: string;
+  fonts: string;
+  headingClasses: Record<HeadingLevel, string>;
+  bodyClasses: string;
+  spacing: string;
+  footerHtml: string;
+}
+
+const toFormState = (system: DeckDesignSystem | null): ThemeFormState => ({
+  cssVariables: Object.entries(system?.cssVariables ?? {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n'),
+  palette: (system?.palette ?? []).join(', '),
+  fonts: (system?.fonts ?? []).join(', '),
+  headingClasses: { h1: '', h2: '', h3: '', ...system?.headingClasses },
+  bodyClasses: system?.bodyClasses ?? '',
+  spacing: (system?.spacing ?? []).join(', '),
+  footerHtml: system?.footerHtml ?? '',
+});
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const fromFormState = (form: ThemeFormState, source: DeckDesignSystem['source']) =>
+  normalizeDesignSystem({
+    cssVariables: Object.fromEntries(
+      form.cssVariables
+        .split('\n')
+        .map((line) => line.trim().replace(/;$/, ''))
+        .filter((line) => line.startsWith('--') && line.includes(':'))
+        .map((line) => {
+          const separator = line.indexOf(':');
+          return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+        }),
+    ),
+    palette: splitList(form.palette),
+    fonts: splitList(form.fonts),
+    headingClasses: form.headingClasses,
+    bodyClasses: form.bodyClasses,
+    spacing: splitList(form.spacing),
+    footerHtml: form.footerHtml,
+    source,
+  });
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white text-sm';
+
+export function ThemePanel({ infographic, pages, onClose, onSaved }: ThemePanelProps) {
+  const savedSystem = normalizeDesignSystem(infographic.design_system);
+  const generatedPages = pages.filter((page) => page.generated_html?.trim());
+  const [anchorPageId, setAnchorPageId] = useState<string>(
+    infographic.design_anchor_page_id ?? generatedPages[0]?.id ?? '',
+  );
+  const [form, setForm] = useState<ThemeFormState>(() => toFormState(savedSystem));
+  const [source, setSource] = useState<DeckDesignSystem['source']>(savedSystem?.source ?? null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = <K extends keyof ThemeFormState>(field: K, value: ThemeFormState[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (error) setError(null);
+  };
+
+  const handleExtract = () => {
+    const anchor = generatedPages.find((page) => page.id === anchorPageId);
+    if (!anchor) {
+      setError('Choose a generated slide to extract the theme from');
+      return;
+    }
+    const extracted = extractDesignSystem(anchor.generated_html, { pageId: anchor.id, pageTitle: anchor.title });
+    setForm(toFormState(extracted));
+    setSource(extracted.source);
+    setError(null);
+  };
+
+  const persist = async (system: DeckDesignSystem | null, anchorId: string | null) => {
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await infographicsService.updateInfographic(infographic.id, {
+        design_system: system,
+        design_anchor_page_id: anchorId,
+      });
+      onSaved(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save theme');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const system = fromFormState(form, source);
+    void persist(isDesignSystemEmpty(system) ? null : system, source?.pageId ?? (anchorPageId || null));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl border border-gray-100">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center">
+            <div className="p-3 bg-gradient-to-r from-indigo-100 to-purple-100 rounded-xl mr-4">
+              <Palette className="w-6 h-6 text-indigo-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Deck Theme</h2>
+              <p className="text-sm text-gray-500">
+                Enforced on every generation and repair of this deck.
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-700 rounded-lg" aria-label="Close theme panel">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="space-y-5">
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-2">Anchor slide</label>
+            <div className="flex items-center space-x-2">
+              <select
+                value={anchorPageId}
+                onChange={(e) => setAnchorPageId(e.target.value)}
+                className={INPUT_CLASS}
+                disabled={generatedPages.length === 0}
+              >
+                {generatedPages.length === 0 && <option value="">No generated slide yet</option>}
+                {generatedPages.map((page) => (
+                  <option key={page.id} value={page.id}>
+                    {page.title}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleExtract}
+                disabled={generatedPages.length === 0}
+                className="inline-flex items-center px-3 py-2 text-sm text-indigo-700 bg-indigo-50 rounded-lg hover:bg-indigo-100 disabled:opacity-50 whitespace-nowrap"
+              >
+                <Wand2 className="w-4 h-4 mr-1.5" />
+                Extract
+              </button>
+            </div>
+            {source && (
+              <p className="text-xs text-gray-500 mt-1">
+                Extracted from "{source.pageTitle}"
+                {source.extractedAt ? ` on ${new Date(source.extractedAt).toLocaleString()}` : ''}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">Palette</label>
+              <input
+                value={form.palette}
+                onChange={(e) => updateField('palette', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="#4f46e5, bg-slate-50, text-slate-900"
+              />
+              {splitList(form.palette).length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {splitList(form.palette)
+                    .filter((color) => color.startsWith('#') || color.startsWith('rgb'))
+                    .map((color) => (
+                      <span
+                        key={color}
+                        className="w-5 h-5 rounded border border-gray-200"
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">Fonts</label>
+              <input
+                value={form.fonts}
+                onChange={(e) => updateField('fonts', e.target.value)}
+                className={INPUT_CLASS}
+                placeholder="Inter, Playfair Display"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-2">Heading classes</label>
+            <div className="space-y-2">
+              {HEADING_LEVELS.map((level) => (
+                <div key={level} className="flex items-center">
+                  <span className="w-10 text-xs font-mono text-gray-500">{level}</span>
+                  <input
+                    value={form.headingClasses[level]}
+                    onChange={(e) => updateField('headingClasses', { ...form.headingClasses, [level]: e.target.value })}
+                    className={`${INPUT_CLASS} font-mono`}
+                    placeholder="text-4xl font-bold text-slate-900"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">Body classes</label>
+              <input
+                value={form.bodyClasses}
+                onChange={(e) => updateField('bodyClasses', e.target.value)}
+                className={`${INPUT_CLASS} font-mono`}
+                placeholder="text-base text-slate-700 leading-relaxed"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-800 mb-2">Spacing</label>
+              <input
+                value={form.spacing}
+                onChange={(e) => updateField('spacing', e.target.value)}
+                className={`${INPUT_CLASS} font-mono`}
+                placeholder="p-8, gap-6, space-y-4"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-2">CSS variables</label>
+            <textarea
+              value={form.cssVariables}
+              onChange={(e) => updateField('cssVariables', e.target.value)}
+              rows={4}
+              className={`${INPUT_CLASS} font-mono resize-none`}
+              placeholder={'--brand: #4f46e5\n--surface: #f8fafc'}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-800 mb-2">Footer markup</label>
+            <textarea
+              value={form.footerHtml}
+              onChange={(e) => updateField('footerHtml', e.target.value)}
+              rows={4}
+              className={`${INPUT_CLASS} font-mono resize-none`}
+              placeholder="<footer class=&quot;...&quot;>...</footer>"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-6 mt-6 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={() => void persist(null, null)}
+            disabled={saving || !savedSystem}
+            className="inline-flex items-center px-3 py-2 text-sm text-gray-600 hover:text-red-600 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1.5" />
+            Remove theme
+          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="inline-flex items-center px-4 py-2 text-sm text-white bg-gradient-to-r from-indigo-600 to-purple-600 rounded-lg hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-1.5" />
+              {saving ? 'Saving…' : 'Save theme'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
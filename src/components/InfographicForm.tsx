@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Save, Sparkles, X } from 'lucide-react';
+import { ArrowLeft, Save, Sparkles, X, Layers } from 'lucide-react';
 import { infographicsService, Infographic } from '../lib/supabase';
+import { StyleGuide, emptyStyleGuide, isStyleGuideEmpty, readStyleGuide, validateStyleGuide } from '../lib/styleGuide';
+import { StyleGuideEditor } from './StyleGuideEditor';
 
 interface InfographicFormProps {
   infographic?: Infographic;
@@ -13,6 +15,8 @@ export function InfographicForm({ infographic, onSave, onCancel }: InfographicFo
     name: infographic?.name || '',
     description: infographic?.description || '',
     style_description: infographic?.style_description || '',
+    style_guide: readStyleGuide(infographic?.style_guide) ?? emptyStyleGuide(),
+    use_deck_context: infographic?.use_deck_context ?? false,
   });
   const [loading, setLoading] = useState(false);
   const [generatingStyle, setGeneratingStyle] = useState(false);
@@ -26,16 +30,26 @@ export function InfographicForm({ infographic, onSave, onCancel }: InfographicFo
       return;
     }
 
+    const guide = validateStyleGuide(formData.style_guide);
+    if (!guide.valid) {
+      setError(`Style guide: ${guide.errors.join('; ')}`);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
 
+      const payload = {
+        ...formData,
+        style_guide: isStyleGuideEmpty(guide.value) ? null : guide.value,
+      };
       let savedInfographic: Infographic;
       
       if (infographic) {
-        savedInfographic = await infographicsService.updateInfographic(infographic.id, formData);
+        savedInfographic = await infographicsService.updateInfographic(infographic.id, payload);
       } else {
-        savedInfographic = await infographicsService.createInfographic(formData);
+        savedInfographic = await infographicsService.createInfographic(payload);
       }
 
       onSave(savedInfographic);
@@ -51,6 +65,11 @@ export function InfographicForm({ infographic, onSave, onCancel }: InfographicFo
     if (error) setError(null);
   };
 
+  const handleStyleGuideChange = (styleGuide: StyleGuide) => {
+    setFormData(prev => ({ ...prev, style_guide: styleGuide }));
+    if (error) setError(null);
+  };
+
   const handleGenerateStyleGuidelines = async () => {
     if (!formData.name.trim() || !formData.description.trim()) {
       setError('Project name and description are required to generate style guidelines');
@@ -64,26 +83,24 @@ export function InfographicForm({ infographic, onSave, onCancel }: InfographicFo
       console.log('Generating style guidelines for:', {
         name: formData.name,
         description: formData.description,
-        hasExistingStyle: !!formData.style_description
+        hasExistingStyle: !!formData.style_description || !isStyleGuideEmpty(formData.style_guide)
       });
 
       const result = await infographicsService.generateStyleGuidelines(
         formData.name,
         formData.description,
-        formData.style_description || undefined
+        formData.style_description || undefined,
+        readStyleGuide(formData.style_guide),
+        infographic?.id
       );
 
       console.log('Style guidelines generated successfully:', result);
-      
-      // Update the form with the generated style guidelines
-      const compiledGuidelines =
-        (typeof result.combinedStyleDescription === 'string' && result.combinedStyleDescription.trim().length > 0)
-          ? result.combinedStyleDescription.trim()
-          : result.styleGuidelines;
 
+      // The guide replaces the structured fields; the free-text override is only filled when empty
       setFormData(prev => ({
         ...prev,
-        style_description: compiledGuidelines,
+        style_guide: result.styleGuide,
+        style_description: prev.style_description.trim() ? prev.style_description : result.styleGuidelines,
       }));
 
     } catch (err) {
@@ -155,8 +172,8 @@ export function InfographicForm({ infographic, onSave, onCancel }: InfographicFo
         </div>
 
         <div>
-          <label htmlFor="style_description" className="block text-sm font-semibold text-gray-800 mb-3">
-            Style Guidelines
+          <div className="flex items-center text-sm font-semibold text-gray-800 mb-3">
+            Style Guide
             <button
               type="button"
               onClick={handleGenerateStyleGuidelines}
@@ -172,22 +189,57 @@ export function InfographicForm({ infographic, onSave, onCancel }: InfographicFo
                 {generatingStyle ? 'Generating...' : 'AI Suggest'}
               </span>
             </button>
-          </label>
-          <textarea
-            id="style_description"
-            value={formData.style_description}
-            onChange={(e) => handleChange('style_description', e.target.value)}
+          </div>
+          <StyleGuideEditor
+            value={formData.style_guide}
+            onChange={handleStyleGuideChange}
             disabled={generatingStyle}
-            rows={6}
-            className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white resize-none disabled:opacity-60"
-            placeholder="Describe the visual style, colors, fonts, layout preferences..."
           />
+          <div className="mt-6">
+            <label htmlFor="style_description" className="block text-sm font-semibold text-gray-800 mb-2">
+              Additional instructions
+            </label>
+            <textarea
+              id="style_description"
+              value={formData.style_description}
+              onChange={(e) => handleChange('style_description', e.target.value)}
+              disabled={generatingStyle}
+              rows={4}
+              className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white resize-none disabled:opacity-60"
+              placeholder="Anything the guide above does not cover. Takes precedence over the guide when they conflict."
+            />
+          </div>
           <p className="mt-3 text-sm text-gray-600 bg-blue-50 p-3 rounded-lg border-l-4 border-blue-400">
             <strong>💡 Tip:</strong> 
-            These guidelines will be used by AI to generate consistent page designs. Use the AI Suggest button to get professional recommendations.
+            The AI builds every page from this guide, field by field. Use the AI Suggest button to fill it with professional recommendations.
           </p>
         </div>
 
+        <div>
+          <label htmlFor="use_deck_context" className="flex items-start cursor-pointer">
+            <input
+              type="checkbox"
+              id="use_deck_context"
+              checked={formData.use_deck_context}
+              onChange={(e) => {
+                setFormData(prev => ({ ...prev, use_deck_context: e.target.checked }));
+                if (error) setError(null);
+              }}
+              className="mt-1 mr-3 h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              <span className="flex items-center text-sm font-semibold text-gray-800">
+                <Layers className="w-4 h-4 mr-2 text-indigo-600" />
+                Deck context
+              </span>
+              <span className="block mt-1 text-sm text-gray-600">
+                Give the AI the deck outline, the position of each slide and the colours, fonts, header and footer
+                already used by generated slides, so every slide follows the same visual system.
+              </span>
+            </span>
+          </label>
+        </div>
+
               <div className="flex items-center justify-end space-x-4 pt-8 border-t border-gray-100">
           <button
             type="button"
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { ArrowLeft, ArrowRight, X, ChevronLeft, ChevronRight, Home } from 'lucide-react';
+import { ArrowLeft, ArrowRight, X, ChevronLeft, ChevronRight, Home, WifiOff } from 'lucide-react';
 import { infographicsService, Infographic, InfographicPage } from '../lib/supabase';
 
 interface InfographicSlideshowProps {
@@ -12,6 +12,10 @@ export function InfographicSlideshow({ infographic, onClose }: InfographicSlides
   const [currentPageIndex, setCurrentPageIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Offline bundles by page id; once every page has one the slideshow no longer needs the network
+  const [offlineHtml, setOfflineHtml] = useState<Map<string, string>>(new Map());
+  const [bundlingOffline, setBundlingOffline] = useState(false);
+  const [offlineError, setOfflineError] = useState<string | null>(null);
 
   useEffect(() => {
     loadPages();
@@ -35,6 +39,27 @@ export function InfographicSlideshow({ infographic, onClose }: InfographicSlides
     }
   };
 
+  const makeAvailableOffline = async () => {
+    setBundlingOffline(true);
+    setOfflineError(null);
+    let assetsLeftOnline = 0;
+    try {
+      for (const page of pages) {
+        if (offlineHtml.has(page.id)) continue;
+        const bundle = await infographicsService.bundlePageOffline(page.id);
+        assetsLeftOnline += bundle.failed.length;
+        setOfflineHtml(prev => new Map(prev).set(page.id, bundle.html));
+      }
+      if (assetsLeftOnline > 0) {
+        setOfflineError(`${assetsLeftOnline} asset(s) could not be embedded and still load from the network.`);
+      }
+    } catch (err) {
+      setOfflineError(err instanceof Error ? err.message : 'Failed to prepare the slideshow for offline use');
+    } finally {
+      setBundlingOffline(false);
+    }
+  };
+
   const goToNextPage = () => {
     if (currentPageIndex < pages.length - 1) {
       setCurrentPageIndex(currentPageIndex + 1);
@@ -120,6 +145,7 @@ export function InfographicSlideshow({ infographic, onClose }: InfographicSlides
   }
 
   const currentPage = pages[currentPageIndex];
+  const offlineReady = pages.every(page => offlineHtml.has(page.id));
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-95 z-50 flex flex-col">
@@ -131,15 +157,36 @@ export function InfographicSlideshow({ infographic, onClose }: InfographicSlides
             {currentPageIndex + 1} of {pages.length}
           </span>
         </div>
-        <button
-          onClick={onClose}
-          className="group p-2 hover:bg-white hover:bg-opacity-20 rounded-lg transition-all duration-300 inline-flex items-center overflow-hidden"
-        >
-          <X className="w-6 h-6" />
-          <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
-            Close
-          </span>
-        </button>
+        <div className="flex items-center space-x-2">
+          {offlineError && <span className="text-xs text-amber-300">{offlineError}</span>}
+          <button
+            onClick={makeAvailableOffline}
+            disabled={bundlingOffline || offlineReady}
+            className="group p-2 hover:bg-white hover:bg-opacity-20 rounded-lg transition-all duration-300 inline-flex items-center overflow-hidden disabled:cursor-default disabled:hover:bg-transparent"
+          >
+            {bundlingOffline ? (
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+            ) : (
+              <WifiOff className={`w-5 h-5 ${offlineReady ? 'text-green-400' : ''}`} />
+            )}
+            <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2 text-sm">
+              {bundlingOffline
+                ? `Bundling ${offlineHtml.size + 1} of ${pages.length}...`
+                : offlineReady
+                  ? 'Available offline'
+                  : 'Make available offline'}
+            </span>
+          </button>
+          <button
+            onClick={onClose}
+            className="group p-2 hover:bg-white hover:bg-opacity-20 rounded-lg transition-all duration-300 inline-flex items-center overflow-hidden"
+          >
+            <X className="w-6 h-6" />
+            <span className="max-w-0 group-hover:max-w-xs transition-all duration-300 overflow-hidden whitespace-nowrap ml-0 group-hover:ml-2">
+              Close
+            </span>
+          </button>
+        </div>
       </div>
 
       {/* Main Content */}
@@ -160,7 +207,7 @@ export function InfographicSlideshow({ infographic, onClose }: InfographicSlides
         <div className="w-full h-full max-w-6xl max-h-full mx-8 bg-white rounded-lg shadow-2xl overflow-hidden">
           <iframe
             key={currentPage.id}
-            srcDoc={currentPage.generated_html}
+            srcDoc={offlineHtml.get(currentPage.id) ?? currentPage.generated_html}
             className="w-full h-full border-0"
             title={currentPage.title}
           />
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { Plus, FileText, Calendar, Edit, Trash2, Play, Sparkles, Layers, X } from 'lucide-react';
 import { infographicsService, Infographic, InfographicPage, GenerationQueueItem } from '../lib/supabase';
 import { InfographicSlideshow } from './InfographicSlideshow';
+import type { LLMUsageSummary } from '../lib/llmUsage';
+import { LLMCostBadge } from './LLMCostBadge';
 
 interface InfographicWithStatus extends Infographic {
   pages: InfographicPage[];
@@ -24,12 +26,19 @@ export function InfographicsList({ onSelectInfographic, onCreateNew }: Infograph
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSlideshow, setShowSlideshow] = useState<Infographic | null>(null);
+  const [llmUsage, setLLMUsage] = useState<{ total: LLMUsageSummary; byInfographic: Map<string, LLMUsageSummary> } | null>(null);
 
   useEffect(() => {
     loadInfographics();
   }, []);
 
   const loadInfographics = async () => {
+    // Cost badges are informational; the list still loads when usage cannot be fetched
+    infographicsService
+      .getLLMUsageOverview()
+      .then(setLLMUsage)
+      .catch((err) => console.error('Failed to load LLM usage:', err));
+
     try {
       setLoading(true);
       const infographicsData = await infographicsService.getInfographics();
@@ -156,6 +165,7 @@ export function InfographicsList({ onSelectInfographic, onCreateNew }: Infograph
                 InforgrAIphics
               </h1>
               <p className="text-gray-600 text-sm">Create stunning infographics with AI</p>
+              <LLMCostBadge usage={llmUsage?.total ?? null} label="AI spend" className="text-xs mt-1" />
             </div>
           </div>
         <button
@@ -245,6 +255,7 @@ export function InfographicsList({ onSelectInfographic, onCreateNew }: Infograph
                       <span className="text-gray-500 font-medium">ready</span>
                     </div>
                   </div>
+                  <LLMCostBadge usage={llmUsage?.byInfographic.get(infographic.id) ?? null} />
                 </div>
               </div>
               
@@ -0,0 +1,30 @@
+import { Coins } from 'lucide-react';
+import { LLMUsageSummary, describeLLMUsage, formatTokenCount, formatUsd } from '../lib/llmUsage';
+
+interface LLMCostBadgeProps {
+  usage: LLMUsageSummary | null;
+  label?: string;
+  className?: string;
+}
+
+// Estimated LLM spend with a per-purpose breakdown in the tooltip; renders nothing before the first call
+export function LLMCostBadge({ usage, label, className = '' }: LLMCostBadgeProps) {
+  if (!usage || usage.callCount === 0) return null;
+
+  const tokens = usage.inputTokens + usage.outputTokens;
+  return (
+    <span
+      title={describeLLMUsage(usage)}
+      className={`inline-flex items-center space-x-1 text-gray-600 ${className}`}
+    >
+      <Coins className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />
+      {label && <span className="text-gray-500">{label}</span>}
+      <span className="font-semibold text-gray-700">
+        {formatUsd(usage.costUsd)}
+        {usage.unpricedCount > 0 ? '+' : ''}
+      </span>
+      <span className="text-gray-400">·</span>
+      <span>{formatTokenCount(tokens)} tokens</span>
+    </span>
+  );
+}
@@ -0,0 +1,162 @@
+import { FONT_SIZE_LEVELS, PALETTE_ROLES, SPACING_DENSITIES, StyleGuide, SpacingDensity } from '../lib/styleGuide';
+
+interface StyleGuideEditorProps {
+  value: StyleGuide;
+  onChange: (value: StyleGuide) => void;
+  disabled?: boolean;
+}
+
+type ListField = 'imagery' | 'dos' | 'donts';
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+  { field: 'imagery', label: 'Imagery rules', placeholder: 'Flat line icons, no stock photos\nCharts use the accent colour' },
+  { field: 'dos', label: 'Do', placeholder: 'One key message per slide\nLeft-align body text' },
+  { field: 'donts', label: "Don't", placeholder: 'No gradients on text\nNo more than 3 colours per chart' },
+];
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all bg-gray-50 focus:bg-white text-sm disabled:opacity-60';
+
+const expandHex = (color: string) =>
+  color.length === 4 ? `#${color[1]}${color[1]}${color[2]}${color[2]}${color[3]}${color[3]}` : color;
+
+export function StyleGuideEditor({ value, onChange, disabled }: StyleGuideEditorProps) {
+  const update = (patch: Partial<StyleGuide>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Palette</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {PALETTE_ROLES.map((role) => (
+            <label key={role} className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1 capitalize">{role}</span>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="color"
+                  value={HEX_COLOR.test(value.palette[role]) ? expandHex(value.palette[role]) : '#ffffff'}
+                  onChange={(e) => update({ palette: { ...value.palette, [role]: e.target.value } })}
+                  disabled={disabled}
+                  className="h-9 w-9 shrink-0 rounded border border-gray-200 bg-white p-0.5"
+                  aria-label={`${role} colour picker`}
+                />
+                <input
+                  type="text"
+                  value={value.palette[role]}
+                  onChange={(e) => update({ palette: { ...value.palette, [role]: e.target.value } })}
+                  disabled={disabled}
+                  className={`${INPUT_CLASS} font-mono`}
+                  placeholder="#1e40af"
+                />
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Typography</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Heading font</span>
+            <input
+              value={value.typography.headingFont}
+              onChange={(e) => update({ typography: { ...value.typography, headingFont: e.target.value } })}
+              disabled={disabled}
+              className={INPUT_CLASS}
+              placeholder="Playfair Display"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Body font</span>
+            <input
+              value={value.typography.bodyFont}
+              onChange={(e) => update({ typography: { ...value.typography, bodyFont: e.target.value } })}
+              disabled={disabled}
+              className={INPUT_CLASS}
+              placeholder="Inter"
+            />
+          </label>
+        </div>
+        <div className="grid grid-cols-4 gap-3 mt-3">
+          {FONT_SIZE_LEVELS.map((level) => (
+            <label key={level} className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1 uppercase">{level}</span>
+              <input
+                value={value.typography.sizes[level]}
+                onChange={(e) =>
+                  update({
+                    typography: { ...value.typography, sizes: { ...value.typography.sizes, [level]: e.target.value } },
+                  })
+                }
+                disabled={disabled}
+                className={`${INPUT_CLASS} font-mono`}
+                placeholder={level === 'body' ? '1rem' : '2.5rem'}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Spacing</h3>
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Density</span>
+            <select
+              value={value.spacing.density}
+              onChange={(e) => update({ spacing: { ...value.spacing, density: e.target.value as SpacingDensity } })}
+              disabled={disabled}
+              className={`${INPUT_CLASS} capitalize`}
+            >
+              {SPACING_DENSITIES.map((density) => (
+                <option key={density} value={density}>
+                  {density}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Base unit</span>
+            <input
+              value={value.spacing.baseUnit}
+              onChange={(e) => update({ spacing: { ...value.spacing, baseUnit: e.target.value } })}
+              disabled={disabled}
+              className={`${INPUT_CLASS} font-mono`}
+              placeholder="8px"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Section gap</span>
+            <input
+              value={value.spacing.sectionGap}
+              onChange={(e) => update({ spacing: { ...value.spacing, sectionGap: e.target.value } })}
+              disabled={disabled}
+              className={`${INPUT_CLASS} font-mono`}
+              placeholder="3rem"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {LIST_FIELDS.map(({ field, label, placeholder }) => (
+          <label key={field} className="block">
+            <span className="block text-sm font-semibold text-gray-800 mb-2">{label}</span>
+            {/* One rule per line; blank lines are dropped when the guide is validated on save */}
+            <textarea
+              value={value[field].join('\n')}
+              onChange={(e) => update({ [field]: e.target.value.split('\n') })}
+              disabled={disabled}
+              rows={4}
+              className={`${INPUT_CLASS} resize-none`}
+              placeholder={placeholder}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
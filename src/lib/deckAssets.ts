@@ -0,0 +1,13 @@
+export type { AssetManifestEntry, DeckAsset } from '../../supabase/functions/_shared/deck-assets.ts';
+export {
+  DECK_ASSETS_BUCKET,
+  DECK_ASSET_MIME_TYPES,
+  IMAGE_PLACEHOLDER_ATTRIBUTE,
+  MAX_ALT_TEXT_CHARS,
+  MAX_DECK_ASSET_BYTES,
+  deckAssetPublicUrl,
+  deckAssetStoragePath,
+  extractMarkdownImages,
+  markdownImageReference,
+  toAssetManifest,
+} from '../../supabase/functions/_shared/deck-assets.ts';
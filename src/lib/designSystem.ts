@@ -0,0 +1,95 @@
+import {
+  DeckDesignSystem,
+  DeckDesignSystemSource,
+  HEADING_LEVELS,
+  emptyDesignSystem,
+  normalizeDesignSystem,
+  isDesignSystemEmpty,
+} from '../../supabase/functions/_shared/design-system.ts';
+import { restoreTailwindCdn } from './tailwindStatic';
+
+export type { DeckDesignSystem, DeckDesignSystemSource, HeadingLevel } from '../../supabase/functions/_shared/design-system.ts';
+export { HEADING_LEVELS, emptyDesignSystem, normalizeDesignSystem, isDesignSystemEmpty };
+
+const CSS_VARIABLE = /(--[\w-]+)\s*:\s*([^;}]+)/g;
+const HEX_OR_RGB_COLOR = /#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})\b|rgba?\([^)]+\)/g;
+const FONT_FAMILY = /font-family\s*:\s*([^;}]+)/gi;
+const TAILWIND_COLOR_CLASS = /^(?:bg|text|border|from|via|to)-[a-z]+-(?:50|[1-9]00|950)$/;
+const TAILWIND_SPACING_CLASS = /^(?:p|px|py|pt|pb|pl|pr|m|mx|my|mt|mb|gap|gap-x|gap-y|space-x|space-y)-(?:\d+(?:\.5)?|px)$/;
+
+const MAX_PALETTE = 10;
+const MAX_SPACING = 8;
+
+const countInto = (counts: Map<string, number>, value: string) => {
+  counts.set(value, (counts.get(value) ?? 0) + 1);
+};
+
+const mostFrequent = (counts: Map<string, number>, limit: number) =>
+  Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+
+const classOf = (element: Element | null) => element?.getAttribute('class')?.trim().replace(/\s+/g, ' ') ?? '';
+
+// Parses an anchor slide and returns the design tokens the rest of the deck should follow
+export const extractDesignSystem = (html: string, source: Omit<DeckDesignSystemSource, 'extractedAt'>): DeckDesignSystem => {
+  // A compiled Tailwind stylesheet would count every preflight colour and --tw-* variable as the slide's own
+  const doc = new DOMParser().parseFromString(restoreTailwindCdn(html), 'text/html');
+  const system = emptyDesignSystem();
+
+  const styleText = Array.from(doc.querySelectorAll('style'))
+    .map((style) => style.textContent ?? '')
+    .join('\n');
+  const inlineStyles = Array.from(doc.querySelectorAll('[style]'))
+    .map((element) => element.getAttribute('style') ?? '')
+    .join(';');
+  const allCss = `${styleText};${inlineStyles}`;
+
+  for (const match of allCss.matchAll(CSS_VARIABLE)) {
+    system.cssVariables[match[1]] = match[2].trim();
+  }
+
+  const colorCounts = new Map<string, number>();
+  for (const match of allCss.matchAll(HEX_OR_RGB_COLOR)) {
+    countInto(colorCounts, match[0].toLowerCase().replace(/\s+/g, ''));
+  }
+
+  const fontCounts = new Map<string, number>();
+  for (const match of allCss.matchAll(FONT_FAMILY)) {
+    const primary = match[1].split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    if (primary && !primary.startsWith('var(')) countInto(fontCounts, primary);
+  }
+  doc.querySelectorAll('link[href*="fonts.googleapis.com"]').forEach((link) => {
+    const href = link.getAttribute('href') ?? '';
+    try {
+      new URL(href, 'https://fonts.googleapis.com').searchParams.getAll('family').forEach((family) => {
+        countInto(fontCounts, family.split(':')[0].replace(/\+/g, ' '));
+      });
+    } catch {
+      // Ignore malformed font links
+    }
+  });
+
+  const spacingCounts = new Map<string, number>();
+  doc.querySelectorAll('[class]').forEach((element) => {
+    classOf(element)
+      .split(' ')
+      .forEach((className) => {
+        if (TAILWIND_COLOR_CLASS.test(className)) countInto(colorCounts, className);
+        if (TAILWIND_SPACING_CLASS.test(className)) countInto(spacingCounts, className);
+      });
+  });
+
+  system.palette = mostFrequent(colorCounts, MAX_PALETTE);
+  system.fonts = mostFrequent(fontCounts, 3);
+  system.spacing = mostFrequent(spacingCounts, MAX_SPACING);
+  HEADING_LEVELS.forEach((level) => {
+    system.headingClasses[level] = classOf(doc.querySelector(level));
+  });
+  system.bodyClasses = [classOf(doc.body), classOf(doc.querySelector('main p, p'))].filter(Boolean).join(' ');
+  system.footerHtml = doc.querySelector('footer')?.outerHTML.trim() ?? '';
+  system.source = { ...source, extractedAt: new Date().toISOString() };
+
+  return normalizeDesignSystem(system) ?? system;
+};
@@ -0,0 +1,33 @@
+import type { GenerationEvent, GenerationStage } from './supabase';
+
+const TERMINAL_STAGES: ReadonlySet<GenerationStage> = new Set(['completed', 'failed', 'cancelled']);
+
+export const isTerminalGenerationStage = (stage: GenerationStage) => TERMINAL_STAGES.has(stage);
+
+export const describeGenerationStage = (event: GenerationEvent): string => {
+  const { detail } = event;
+  switch (event.stage) {
+    case 'fetching_context':
+      return detail.attempt && detail.attempt > 1
+        ? `Loading context (attempt ${detail.attempt}/${detail.max_attempts})`
+        : 'Loading context';
+    case 'generating':
+      return 'Generating HTML';
+    case 'validating':
+      return `Validating (pass ${detail.iteration}/${detail.max_iterations})`;
+    case 'repairing':
+      return detail.error_count
+        ? `Repairing ${detail.error_count} issue${detail.error_count > 1 ? 's' : ''} (pass ${detail.iteration}/${detail.max_iterations})`
+        : `Repairing (pass ${detail.iteration}/${detail.max_iterations})`;
+    case 'saving':
+      return 'Saving';
+    case 'completed':
+      return 'Done';
+    case 'failed':
+      return 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+    default:
+      return event.stage;
+  }
+};
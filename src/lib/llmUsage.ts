@@ -0,0 +1,105 @@
+// Mirrors llm_calls.purpose
+export type LLMCallPurpose = 'generation' | 'repair' | 'rewrite' | 'suggest_hints' | 'suggest_style';
+
+export const LLM_CALL_PURPOSE_LABELS: Record<LLMCallPurpose, string> = {
+  generation: 'Generation',
+  repair: 'Repairs',
+  rewrite: 'Rewrites',
+  suggest_hints: 'Hint suggestions',
+  suggest_style: 'Style suggestions',
+};
+
+// One row of the llm_usage_by_infographic / llm_usage_by_user views
+export interface LLMUsageRollup {
+  purpose: LLMCallPurpose;
+  call_count: number;
+  failed_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  unpriced_count: number;
+  latency_ms: number;
+  last_call_at: string | null;
+}
+
+export interface LLMUsageSummary {
+  callCount: number;
+  failedCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Calls without a known price; the cost is a lower bound when this is not zero
+  unpricedCount: number;
+  latencyMs: number;
+  byPurpose: Partial<Record<LLMCallPurpose, LLMUsageRollup>>;
+}
+
+export const emptyLLMUsageSummary = (): LLMUsageSummary => ({
+  callCount: 0,
+  failedCount: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  unpricedCount: 0,
+  latencyMs: 0,
+  byPurpose: {},
+});
+
+// PostgREST may serialise bigint and numeric aggregates as strings
+const toNumber = (value: unknown) => {
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+export const normalizeLLMUsageRollup = (row: Record<string, unknown>): LLMUsageRollup => ({
+  purpose: row.purpose as LLMCallPurpose,
+  call_count: toNumber(row.call_count),
+  failed_count: toNumber(row.failed_count),
+  input_tokens: toNumber(row.input_tokens),
+  output_tokens: toNumber(row.output_tokens),
+  cost_usd: toNumber(row.cost_usd),
+  unpriced_count: toNumber(row.unpriced_count),
+  latency_ms: toNumber(row.latency_ms),
+  last_call_at: typeof row.last_call_at === 'string' ? row.last_call_at : null,
+});
+
+export const summarizeLLMUsage = (rows: LLMUsageRollup[]): LLMUsageSummary =>
+  rows.reduce((summary, row) => {
+    summary.callCount += row.call_count;
+    summary.failedCount += row.failed_count;
+    summary.inputTokens += row.input_tokens;
+    summary.outputTokens += row.output_tokens;
+    summary.costUsd += row.cost_usd;
+    summary.unpricedCount += row.unpriced_count;
+    summary.latencyMs += row.latency_ms;
+    summary.byPurpose[row.purpose] = row;
+    return summary;
+  }, emptyLLMUsageSummary());
+
+export const formatUsd = (value: number) => {
+  if (value === 0) return '$0.00';
+  if (value < 0.01) return '<$0.01';
+  return `$${value.toFixed(2)}`;
+};
+
+export const formatTokenCount = (value: number) => {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+};
+
+// Multi-line breakdown for a tooltip: one line per purpose, most expensive first
+export const describeLLMUsage = (summary: LLMUsageSummary): string => {
+  const lines = (Object.values(summary.byPurpose) as LLMUsageRollup[])
+    .sort((a, b) => b.cost_usd - a.cost_usd)
+    .map((row) =>
+      `${LLM_CALL_PURPOSE_LABELS[row.purpose] ?? row.purpose}: ${formatUsd(row.cost_usd)} · ` +
+      `${row.call_count} call${row.call_count === 1 ? '' : 's'} · ` +
+      `${formatTokenCount(row.input_tokens)} in / ${formatTokenCount(row.output_tokens)} out · ` +
+      `avg ${(row.latency_ms / Math.max(1, row.call_count) / 1000).toFixed(1)}s`,
+    );
+  if (summary.unpricedCount > 0) {
+    lines.push(`${summary.unpricedCount} call${summary.unpricedCount === 1 ? '' : 's'} without a known price are not included`);
+  }
+  return lines.join('\n');
+};
@@ -1,12 +1,16 @@
 const stripInlineCode = (value: string) => value.replace(/`([^`]+)`/g, '$1');
 
+// Same syntax as the generator reads (`![alt](url "title")`, see extractMarkdownImages in deck-assets.ts).
+// Images are visuals the slide shows, not text: they are dropped rather than left as a bare alt label
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\(\s*<?[^)\s>]+>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+
 export const stripMarkdown = (value: string): string => {
   if (!value) return '';
 
   let output = value;
   output = output.replace(/```[\s\S]*?```/g, (match) => match.replace(/```/g, ''));
   output = stripInlineCode(output);
-  output = output.replace(/!\[([^\]]*)\]\([^)]+\)/g, '$1');
+  output = output.replace(MARKDOWN_IMAGE, ' ');
   output = output.replace(/\[([^\]]+)\]\([^)]+\)/g, '$1');
   output = output.replace(/^#{1,6}\s+/gm, '');
   output = output.replace(/^>\s+/gm, '');
@@ -0,0 +1,2 @@
+export type { OfflineBundleResult } from '../../supabase/functions/_shared/offline-bundle.ts';
+export { PINNED_CDN_VERSIONS, pinCdnUrl } from '../../supabase/functions/_shared/offline-bundle.ts';
@@ -0,0 +1,84 @@
+// Single-file deck for offline presenting: every slide (already passed through the offline bundle) sits in
+// its own sandbox-free iframe so slide scripts and styles cannot clash. All frames stay laid out at full
+// size and only the current one is visible, so charts render at their real size before they are shown.
+
+export interface OfflineDeckSlide {
+  title: string;
+  html: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export function buildOfflineDeckHtml(title: string, slides: OfflineDeckSlide[]): string {
+  const frames = slides
+    .map(
+      (slide, index) =>
+        `<iframe class="deck-slide${index === 0 ? ' is-current' : ''}" title="${escapeHtml(slide.title || `Slide ${index + 1}`)}" srcdoc="${escapeHtml(slide.html)}"></iframe>`,
+    )
+    .join('\n    ');
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      * { box-sizing: border-box; }
+      html, body { margin: 0; padding: 0; width: 100%; height: 100%; overflow: hidden; background: #000000; font-family: Arial, sans-serif; }
+      .deck-slide { position: absolute; inset: 0; width: 100%; height: 100%; border: 0; background: #ffffff; visibility: hidden; }
+      .deck-slide.is-current { visibility: visible; }
+      .deck-counter {
+        position: fixed;
+        right: 16px;
+        bottom: 12px;
+        padding: 4px 10px;
+        border-radius: 999px;
+        background: rgba(0, 0, 0, 0.55);
+        color: #ffffff;
+        font-size: 12px;
+        z-index: 10;
+      }
+    </style>
+  </head>
+  <body>
+    ${frames}
+    <div class="deck-counter" id="deck-counter"></div>
+    <script>
+      (function() {
+        var slides = Array.prototype.slice.call(document.querySelectorAll('.deck-slide'));
+        var counter = document.getElementById('deck-counter');
+        var current = 0;
+        function show(index) {
+          if (index < 0 || index >= slides.length) return;
+          slides[current].classList.remove('is-current');
+          current = index;
+          slides[current].classList.add('is-current');
+          counter.textContent = (current + 1) + ' / ' + slides.length;
+        }
+        function onKey(event) {
+          if (event.key === 'ArrowRight' || event.key === 'PageDown' || event.key === ' ') show(current + 1);
+          else if (event.key === 'ArrowLeft' || event.key === 'PageUp') show(current - 1);
+          else if (event.key === 'Home') show(0);
+          else if (event.key === 'End') show(slides.length - 1);
+          else if (event.key === 'f' && document.documentElement.requestFullscreen) document.documentElement.requestFullscreen();
+        }
+        document.addEventListener('keydown', onKey);
+        // Keys pressed after clicking into a slide reach the frame, not the deck
+        slides.forEach(function(slide) {
+          slide.addEventListener('load', function() {
+            try { slide.contentWindow.document.addEventListener('keydown', onKey); } catch (err) {}
+          });
+        });
+        show(0);
+      })();
+    </script>
+  </body>
+</html>`;
+}
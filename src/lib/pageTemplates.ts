@@ -0,0 +1,10 @@
+export type { PageTemplate, PageTemplateValidation } from '../../supabase/functions/_shared/page-templates.ts';
+export {
+  TEMPLATE_SLOT_ATTRIBUTE,
+  MAX_TEMPLATE_HTML_CHARS,
+  MAX_TEMPLATE_NAME_CHARS,
+  annotateTemplateSlots,
+  extractTemplateSlots,
+  readPageTemplate,
+  validatePageTemplate,
+} from '../../supabase/functions/_shared/page-templates.ts';
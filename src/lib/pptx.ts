@@ -0,0 +1,257 @@
+// PowerPoint export: one 16:9 slide per rendered page (see slideRender.ts). Headings and bullet lists the
+// renderer could read become editable text boxes over a screenshot where their text is hidden; any other
+// page is a full-slide picture. Speaker notes come from the page markdown. Plain OOXML written by hand,
+// with the parts PowerPoint, Keynote and LibreOffice need and nothing else.
+
+import { stripMarkdown } from './markdown';
+import type { SlideRender, SlideTextBlock, SlideTextParagraph } from './slideRender';
+import { createZip, type ZipEntry } from './zip';
+
+export interface PptxSlide {
+  title: string;
+  render: SlideRender;
+  notes: string;
+}
+
+export interface PptxDeck {
+  title: string;
+  slides: PptxSlide[];
+  createdAt?: Date;
+}
+
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const SLIDE_WIDTH_EMU = 12192000;
+const SLIDE_HEIGHT_EMU = 6858000;
+// CSS pixel at 96 dpi
+const EMU_PER_PX = 9525;
+// Fonts available to PowerPoint are rarely the page's web fonts: leave some room before text wraps
+const TEXT_BOX_SLACK = 1.04;
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CT = 'application/vnd.openxmlformats-officedocument.presentationml';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const PML_NAMESPACES = `xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"`;
+
+const escapeXml = (value: string) =>
+  value
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const decodeBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const relationships = (rels: { id: string; type: string; target: string }[]) =>
+  `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels
+    .map((rel) => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`)
+    .join('')}</Relationships>`;
+
+const EMPTY_GROUP =
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const CLR_MAP =
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>';
+
+const xfrm = (x: number, y: number, cx: number, cy: number) =>
+  `<a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.max(1, Math.round(cx))}" cy="${Math.max(1, Math.round(cy))}"/></a:xfrm>`;
+
+const THEME = `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="Office Theme"><a:themeElements><a:clrScheme name="Office"><a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1><a:dk2><a:srgbClr val="1F2937"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2><a:accent1><a:srgbClr val="4F46E5"/></a:accent1><a:accent2><a:srgbClr val="7C3AED"/></a:accent2><a:accent3><a:srgbClr val="059669"/></a:accent3><a:accent4><a:srgbClr val="D97706"/></a:accent4><a:accent5><a:srgbClr val="DC2626"/></a:accent5><a:accent6><a:srgbClr val="0891B2"/></a:accent6><a:hlink><a:srgbClr val="4F46E5"/></a:hlink><a:folHlink><a:srgbClr val="7C3AED"/></a:folHlink></a:clrScheme><a:fontScheme name="Office"><a:majorFont><a:latin typeface="Calibri Light"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme><a:fmtScheme name="Office"><a:fillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:fillStyleLst><a:lnStyleLst>${'<a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'.repeat(3)}</a:lnStyleLst><a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst><a:bgFillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:bgFillStyleLst></a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>`;
+
+// Placement of a rendered page on the slide: scaled to fit, centred
+const fitRender = (render: SlideRender) => {
+  const scale = Math.min(SLIDE_WIDTH_EMU / (render.width * EMU_PER_PX), SLIDE_HEIGHT_EMU / (render.height * EMU_PER_PX));
+  const width = render.width * EMU_PER_PX * scale;
+  const height = render.height * EMU_PER_PX * scale;
+  return { scale, x: (SLIDE_WIDTH_EMU - width) / 2, y: (SLIDE_HEIGHT_EMU - height) / 2, width, height };
+};
+
+// Hundredths of a point for a CSS pixel size on the scaled slide
+const toCentipoints = (px: number, scale: number) => Math.min(400000, Math.max(100, Math.round(px * 0.75 * scale * 100)));
+
+const paragraphXml = (block: SlideTextBlock, paragraph: SlideTextParagraph, scale: number) => {
+  const fontSize = paragraph.runs[0]?.fontSize ?? 16;
+  const align = { left: 'l', center: 'ctr', right: 'r', justify: 'just' }[block.align];
+  const indent = block.marker === 'none' ? 0 : Math.round(Math.min(block.indent, fontSize * 1.5) * EMU_PER_PX * scale);
+  const bullet =
+    block.marker === 'bullet' ? '<a:buChar char="•"/>' : block.marker === 'number' ? '<a:buAutoNum type="arabicPeriod"/>' : '<a:buNone/>';
+  // PowerPoint's single spacing is about 1.2 times the font size
+  const lineSpacing = Math.round((block.lineHeight / 1.2) * 100000);
+  const spaceBefore = paragraph.spaceBefore > 0 ? `<a:spcBef><a:spcPts val="${toCentipoints(paragraph.spaceBefore, scale)}"/></a:spcBef>` : '';
+  const runs = paragraph.runs
+    .map((run) => {
+      const props = `<a:rPr lang="en-US" sz="${toCentipoints(run.fontSize, scale)}"${run.bold ? ' b="1"' : ''}${run.italic ? ' i="1"' : ''} dirty="0"><a:solidFill><a:srgbClr val="${run.color.slice(1).toUpperCase()}"/></a:solidFill>${block.fontFamily ? `<a:latin typeface="${escapeXml(block.fontFamily)}"/>` : ''}</a:rPr>`;
+      return `${run.breakBefore ? `<a:br>${props}</a:br>` : ''}<a:r>${props}<a:t>${escapeXml(run.text)}</a:t></a:r>`;
+    })
+    .join('');
+  return `<a:p><a:pPr algn="${align}"${indent ? ` marL="${indent}" indent="-${indent}"` : ''}><a:lnSpc><a:spcPct val="${lineSpacing}"/></a:lnSpc>${spaceBefore}${bullet}</a:pPr>${runs}</a:p>`;
+};
+
+const textBoxXml = (block: SlideTextBlock, index: number, id: number, fit: ReturnType<typeof fitRender>) => {
+  const x = fit.x + block.x * EMU_PER_PX * fit.scale;
+  const y = fit.y + block.y * EMU_PER_PX * fit.scale;
+  const width = Math.min(block.width * EMU_PER_PX * fit.scale * TEXT_BOX_SLACK, SLIDE_WIDTH_EMU - x);
+  const height = block.height * EMU_PER_PX * fit.scale;
+  const name = `${block.kind === 'heading' ? 'Heading' : 'List'} ${index + 1}`;
+  return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr><p:spPr>${xfrm(x, y, width, height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr><p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" anchor="t"><a:noAutofit/></a:bodyPr><a:lstStyle/>${block.paragraphs
+    .map((paragraph) => paragraphXml(block, paragraph, fit.scale))
+    .join('')}</p:txBody></p:sp>`;
+};
+
+const slideXml = (slide: PptxSlide) => {
+  const fit = fitRender(slide.render);
+  const editable = slide.render.background !== null && slide.render.blocks.length > 0;
+  const picture = `<p:pic><p:nvPicPr><p:cNvPr id="2" name="Slide render" descr="${escapeXml(slide.title)}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${xfrm(fit.x, fit.y, fit.width, fit.height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+  const textBoxes = editable ? slide.render.blocks.map((block, index) => textBoxXml(block, index, index + 3, fit)).join('') : '';
+  return `${XML_HEADER}<p:sld ${PML_NAMESPACES}><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="FFFFFF"/></a:solidFill><a:effectLst/></p:bgPr></p:bg><p:spTree>${EMPTY_GROUP}${picture}${textBoxes}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+};
+
+const NOTES_IMAGE_XFRM = xfrm(685800, 1143000, 5486400, 3086100);
+const NOTES_BODY_XFRM = xfrm(685800, 4400550, 5486400, 3600450);
+
+const notesSlideXml = (notes: string) => {
+  const paragraphs = (notes.trim() ? notes.trim().split('\n') : [''])
+    .map((line) => (line ? `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(line)}</a:t></a:r></a:p>` : '<a:p><a:endParaRPr lang="en-US"/></a:p>'))
+    .join('');
+  return `${XML_HEADER}<p:notes ${PML_NAMESPACES}><p:cSld><p:spTree>${EMPTY_GROUP}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr>${NOTES_IMAGE_XFRM}</p:spPr></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr>${NOTES_BODY_XFRM}</p:spPr><p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>`;
+};
+
+const NOTES_MASTER = `${XML_HEADER}<p:notesMaster ${PML_NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${EMPTY_GROUP}<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr><p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr><p:spPr>${NOTES_IMAGE_XFRM}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr></p:sp><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr><p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr><p:spPr>${NOTES_BODY_XFRM}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr><p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp></p:spTree></p:cSld>${CLR_MAP}<p:notesStyle><a:lvl1pPr marL="0" algn="l"><a:defRPr sz="1200"><a:solidFill><a:schemeClr val="tx1"/></a:solidFill><a:latin typeface="+mn-lt"/></a:defRPr></a:lvl1pPr></p:notesStyle></p:notesMaster>`;
+
+const SLIDE_MASTER = `${XML_HEADER}<p:sldMaster ${PML_NAMESPACES}><p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld>${CLR_MAP}<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>`;
+
+const SLIDE_LAYOUT = `${XML_HEADER}<p:sldLayout ${PML_NAMESPACES} type="blank" preserve="1"><p:cSld name="Blank"><p:spTree>${EMPTY_GROUP}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+// Speaker notes from the page markdown: one line per heading, paragraph or list item, formatting removed
+export function markdownToSpeakerNotes(markdown: string): string {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+  for (const raw of (markdown ?? '').replace(/\r\n/g, '\n').split('\n')) {
+    const line = raw.trim();
+    if (line.startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      if (line) lines.push(raw.trimEnd());
+      continue;
+    }
+    if (!line || /^[-*_]{3,}$/.test(line)) {
+      if (lines.length && lines[lines.length - 1] !== '') lines.push('');
+      continue;
+    }
+    const bullet = line.match(/^[-+*]\s+(.*)$/);
+    const numbered = line.match(/^(\d+)\.\s+(.*)$/);
+    const text = stripMarkdown(bullet ? bullet[1] : numbered ? numbered[2] : line);
+    if (!text) continue;
+    lines.push(bullet ? `• ${text}` : numbered ? `${numbered[1]}. ${text}` : text);
+  }
+  return lines.join('\n').trim();
+}
+
+export function buildPptx(deck: PptxDeck): Uint8Array {
+  const created = (deck.createdAt ?? new Date()).toISOString().replace(/\.\d+Z$/, 'Z');
+  const slideCount = deck.slides.length;
+  const numbers = deck.slides.map((_, index) => index + 1);
+
+  const entries: ZipEntry[] = [
+    {
+      path: '[Content_Types].xml',
+      data: `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Override PartName="/ppt/presentation.xml" ContentType="${CT}.presentation.main+xml"/><Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="${CT}.slideMaster+xml"/><Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="${CT}.slideLayout+xml"/><Override PartName="/ppt/notesMasters/notesMaster1.xml" ContentType="${CT}.notesMaster+xml"/><Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/><Override PartName="/ppt/theme/theme2.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/><Override PartName="/ppt/presProps.xml" ContentType="${CT}.presProps+xml"/><Override PartName="/ppt/viewProps.xml" ContentType="${CT}.viewProps+xml"/><Override PartName="/ppt/tableStyles.xml" ContentType="${CT}.tableStyles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/><Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>${numbers
+        .map(
+          (n) =>
+            `<Override PartName="/ppt/slides/slide${n}.xml" ContentType="${CT}.slide+xml"/><Override PartName="/ppt/notesSlides/notesSlide${n}.xml" ContentType="${CT}.notesSlide+xml"/>`,
+        )
+        .join('')}</Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      data: relationships([
+        { id: 'rId1', type: `${REL}/officeDocument`, target: 'ppt/presentation.xml' },
+        { id: 'rId2', type: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties', target: 'docProps/core.xml' },
+        { id: 'rId3', type: `${REL}/extended-properties`, target: 'docProps/app.xml' },
+      ]),
+    },
+    {
+      path: 'docProps/core.xml',
+      data: `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(deck.title)}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified></cp:coreProperties>`,
+    },
+    {
+      path: 'docProps/app.xml',
+      data: `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Slides>${slideCount}</Slides><Notes>${slideCount}</Notes></Properties>`,
+    },
+    {
+      path: 'ppt/presentation.xml',
+      data: `${XML_HEADER}<p:presentation ${PML_NAMESPACES}><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:notesMasterIdLst><p:notesMasterId r:id="rId2"/></p:notesMasterIdLst><p:sldIdLst>${numbers
+        .map((n) => `<p:sldId id="${255 + n}" r:id="rId${9 + n}"/>`)
+        .join('')}</p:sldIdLst><p:sldSz cx="${SLIDE_WIDTH_EMU}" cy="${SLIDE_HEIGHT_EMU}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`,
+    },
+    {
+      path: 'ppt/_rels/presentation.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: `${REL}/slideMaster`, target: 'slideMasters/slideMaster1.xml' },
+        { id: 'rId2', type: `${REL}/notesMaster`, target: 'notesMasters/notesMaster1.xml' },
+        { id: 'rId3', type: `${REL}/theme`, target: 'theme/theme1.xml' },
+        { id: 'rId4', type: `${REL}/presProps`, target: 'presProps.xml' },
+        { id: 'rId5', type: `${REL}/viewProps`, target: 'viewProps.xml' },
+        { id: 'rId6', type: `${REL}/tableStyles`, target: 'tableStyles.xml' },
+        ...numbers.map((n) => ({ id: `rId${9 + n}`, type: `${REL}/slide`, target: `slides/slide${n}.xml` })),
+      ]),
+    },
+    { path: 'ppt/presProps.xml', data: `${XML_HEADER}<p:presentationPr ${PML_NAMESPACES}/>` },
+    { path: 'ppt/viewProps.xml', data: `${XML_HEADER}<p:viewPr ${PML_NAMESPACES}/>` },
+    { path: 'ppt/tableStyles.xml', data: `${XML_HEADER}<a:tblStyleLst xmlns:a="${NS_A}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>` },
+    { path: 'ppt/theme/theme1.xml', data: THEME },
+    { path: 'ppt/theme/theme2.xml', data: THEME },
+    { path: 'ppt/slideMasters/slideMaster1.xml', data: SLIDE_MASTER },
+    {
+      path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationships([
+        { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: `${REL}/theme`, target: '../theme/theme1.xml' },
+      ]),
+    },
+    { path: 'ppt/slideLayouts/slideLayout1.xml', data: SLIDE_LAYOUT },
+    {
+      path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationships([{ id: 'rId1', type: `${REL}/slideMaster`, target: '../slideMasters/slideMaster1.xml' }]),
+    },
+    { path: 'ppt/notesMasters/notesMaster1.xml', data: NOTES_MASTER },
+    {
+      path: 'ppt/notesMasters/_rels/notesMaster1.xml.rels',
+      data: relationships([{ id: 'rId1', type: `${REL}/theme`, target: '../theme/theme2.xml' }]),
+    },
+  ];
+
+  deck.slides.forEach((slide, index) => {
+    const n = index + 1;
+    const editable = slide.render.background !== null && slide.render.blocks.length > 0;
+    entries.push(
+      { path: `ppt/slides/slide${n}.xml`, data: slideXml(slide) },
+      {
+        path: `ppt/slides/_rels/slide${n}.xml.rels`,
+        data: relationships([
+          { id: 'rId1', type: `${REL}/slideLayout`, target: '../slideLayouts/slideLayout1.xml' },
+          { id: 'rId2', type: `${REL}/image`, target: `../media/image${n}.png` },
+          { id: 'rId3', type: `${REL}/notesSlide`, target: `../notesSlides/notesSlide${n}.xml` },
+        ]),
+      },
+      { path: `ppt/media/image${n}.png`, data: decodeBase64(editable ? (slide.render.background as string) : slide.render.image) },
+      { path: `ppt/notesSlides/notesSlide${n}.xml`, data: notesSlideXml(slide.notes) },
+      {
+        path: `ppt/notesSlides/_rels/notesSlide${n}.xml.rels`,
+        data: relationships([
+          { id: 'rId1', type: `${REL}/notesMaster`, target: '../notesMasters/notesMaster1.xml' },
+          { id: 'rId2', type: `${REL}/slide`, target: `../slides/slide${n}.xml` },
+        ]),
+      },
+    );
+  });
+
+  return createZip(entries);
+}
@@ -0,0 +1,64 @@
+// Mirrors supabase/functions/_shared/quota.ts: the shape of a refused request, from either the
+// generation_queue insert (PostgREST error PT429) or an AI helper function (HTTP 429)
+export type QuotaKind = 'generations' | 'rewrites' | 'tokens';
+
+export interface QuotaExceeded {
+  kind: QuotaKind;
+  limit: number;
+  used: number;
+  resetsAt: string;
+}
+
+const QUOTA_EXCEEDED_CODE = 'PT429';
+
+const QUOTA_LABELS: Record<QuotaKind, string> = {
+  generations: 'generation',
+  rewrites: 'rewrite',
+  tokens: 'AI token',
+};
+
+export const formatQuotaExceeded = (quota: QuotaExceeded) =>
+  `Daily ${QUOTA_LABELS[quota.kind] ?? quota.kind} quota reached (${quota.used.toLocaleString()} of ` +
+  `${quota.limit.toLocaleString()} used). It resets at ${new Date(quota.resetsAt).toLocaleString()}.`;
+
+export class QuotaExceededError extends Error {
+  readonly quota: QuotaExceeded;
+
+  constructor(quota: QuotaExceeded) {
+    super(formatQuotaExceeded(quota));
+    this.name = 'QuotaExceededError';
+    this.quota = quota;
+  }
+}
+
+const toQuota = (value: Record<string, unknown>, resetsAt: unknown): QuotaExceeded | null => {
+  const limit = Number(value.limit);
+  const used = Number(value.used);
+  const resets = new Date(String(resetsAt));
+  if (typeof value.kind !== 'string' || !Number.isFinite(limit) || !Number.isFinite(used) || Number.isNaN(resets.getTime())) {
+    return null;
+  }
+  return { kind: value.kind as QuotaKind, limit, used, resetsAt: resets.toISOString() };
+};
+
+// From a supabase-js error raised by the quota trigger
+export const quotaFromPostgrestError = (error: { code?: string; details?: string | null } | null): QuotaExceeded | null => {
+  if (!error || error.code !== QUOTA_EXCEEDED_CODE || !error.details) return null;
+  try {
+    const detail = JSON.parse(error.details);
+    return detail && typeof detail === 'object' ? toQuota(detail, detail.resets_at) : null;
+  } catch {
+    return null;
+  }
+};
+
+// From the JSON body of a 429 returned by an edge function
+export const quotaFromResponseBody = (body: string): QuotaExceeded | null => {
+  try {
+    const parsed = JSON.parse(body);
+    const quota = parsed?.error === 'quota_exceeded' ? parsed.quota : null;
+    return quota && typeof quota === 'object' ? toQuota(quota, quota.resetsAt) : null;
+  } catch {
+    return null;
+  }
+};
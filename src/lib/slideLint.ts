@@ -0,0 +1,7 @@
+export type { SlideLintMessage, SlideLintReport, SlideLintRuleId } from '../../supabase/functions/_shared/slide-lint.ts';
+export {
+  COPYRIGHT_NOTICE,
+  SLIDE_LINT_RULES,
+  SLIDE_LINT_RULE_IDS,
+  lintSlideHtml,
+} from '../../supabase/functions/_shared/slide-lint.ts';
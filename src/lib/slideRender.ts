@@ -0,0 +1,7 @@
+export type {
+  SlideRender,
+  SlideTextBlock,
+  SlideTextParagraph,
+  SlideTextRun,
+} from '../../supabase/functions/_shared/slide-render.ts';
+export { SLIDE_RENDER_HEIGHT, SLIDE_RENDER_WIDTH } from '../../supabase/functions/_shared/slide-render.ts';
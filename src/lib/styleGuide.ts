@@ -0,0 +1,32 @@
+import {
+  FONT_SIZE_LEVELS,
+  PALETTE_ROLES,
+  SPACING_DENSITIES,
+  emptyStyleGuide,
+  validateStyleGuide,
+  isStyleGuideEmpty,
+  readStyleGuide,
+  buildStylePrompt,
+} from '../../supabase/functions/_shared/style-guide.ts';
+
+export type {
+  StyleGuide,
+  StyleGuideValidation,
+  PaletteRole,
+  FontSizeLevel,
+  SpacingDensity,
+} from '../../supabase/functions/_shared/style-guide.ts';
+export {
+  FONT_SIZE_LEVELS,
+  PALETTE_ROLES,
+  SPACING_DENSITIES,
+  emptyStyleGuide,
+  validateStyleGuide,
+  isStyleGuideEmpty,
+  readStyleGuide,
+  buildStylePrompt,
+};
+
+// Same style text the queue worker puts in generation prompts, for AI calls made from the editor
+export const describeStyle = (styleGuide: unknown, styleDescription?: string | null) =>
+  buildStylePrompt(readStyleGuide(styleGuide), styleDescription);
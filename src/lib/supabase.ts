@@ -1,11 +1,32 @@
 import { createClient } from '@supabase/supabase-js';
 import {
   sanitizeHints,
+  readCustomGenerationHints,
+  validateCustomGenerationHint,
+  CustomGenerationHint,
   GenerationHintSuggestion,
   GenerationHintValue,
   GENERATION_HINT_CONFIDENCE,
 } from './generationHints';
 import { stripMarkdown } from './markdown';
+import type { DeckDesignSystem } from './designSystem';
+import { validateStyleGuide, type StyleGuide } from './styleGuide';
+import { readPageTemplate, validatePageTemplate, type PageTemplate } from './pageTemplates';
+import type { SlideLintReport } from './slideLint';
+import { readValidationReport, type ValidationReport } from './validationReport';
+import type { OfflineBundleResult } from './offlineBundle';
+import type { SlideRender } from './slideRender';
+import {
+  DECK_ASSETS_BUCKET,
+  DECK_ASSET_MIME_TYPES,
+  MAX_ALT_TEXT_CHARS,
+  MAX_DECK_ASSET_BYTES,
+  deckAssetPublicUrl,
+  deckAssetStoragePath,
+  type DeckAsset,
+} from './deckAssets';
+import { QuotaExceededError, quotaFromPostgrestError, quotaFromResponseBody } from './quota';
+import { normalizeLLMUsageRollup, summarizeLLMUsage, type LLMUsageRollup, type LLMUsageSummary } from './llmUsage';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -42,6 +63,42 @@ const buildFunctionHeaders = async (extra: Record<string, string> = {}) => {
   };
 };
 
+// POSTs a JSON body to an edge function as the signed-in user and returns its JSON answer; a failure
+// throws `Failed to <action> (<status>): <details>` with the function's own error message
+const postToFunction = async (name: string, body: unknown, action: string) => {
+  if (!supabaseUrl) {
+    throw new Error('Supabase URL is not configured.');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: await buildFunctionHeaders({
+      'Content-Type': 'application/json',
+    }),
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let message = errorText;
+    try {
+      const parsed = JSON.parse(errorText);
+      message = parsed.details || parsed.error || errorText;
+    } catch {
+      // ignore
+    }
+    throw new Error(`Failed to ${action} (${response.status}): ${message}`);
+  }
+
+  return response.json();
+};
+
+// A 429 from an AI helper function becomes a QuotaExceededError carrying the reset time
+const throwIfQuotaExceeded = (status: number, body: string) => {
+  const quota = status === 429 ? quotaFromResponseBody(body) : null;
+  if (quota) throw new QuotaExceededError(quota);
+};
+
 // Auth functions
 export const authService = {
   async getCurrentUser() {
@@ -67,6 +124,10 @@ export interface Infographic {
   name: string;
   description: string;
   style_description: string;
+  style_guide: StyleGuide | null;
+  use_deck_context: boolean;
+  design_system: DeckDesignSystem | null;
+  design_anchor_page_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -82,6 +143,12 @@ export interface InfographicPage {
   created_at: string;
   updated_at: string;
   generation_hints: GenerationHintValue[];
+  // Layout template the generator fills in, see page_templates
+  template_id: string | null;
+  // Slide lint rules checked on generated_html, null before the first check
+  lint_report: SlideLintReport | null;
+  // Repair loop history of the generation that produced generated_html
+  validation_report: ValidationReport | null;
 }
 
 export interface InfographicPageHistory {
@@ -90,86 +157,172 @@ export interface InfographicPageHistory {
   generated_html: string;
   user_comment: string;
   user_id: string;
+  validation_report: ValidationReport | null;
   created_at: string;
 }
 
+export interface GenerationAttemptError {
+  attempt: number;
+  message: string;
+  failed_at: string;
+  next_attempt_at: string | null;
+  worker_id?: string;
+}
+
 export interface GenerationQueueItem {
   id: string;
   infographic_page_id: string;
   user_id: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'dead_letter' | 'cancelled';
   user_comment: string;
   requested_at: string;
   processed_at: string | null;
   error_message: string | null;
+  claimed_by: string | null;
+  attempt_count: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  priority: number;
+  batch_id: string | null;
+  error_history: GenerationAttemptError[];
+  heartbeat_at: string | null;
+  lease_expires_at: string | null;
+  validation_report: ValidationReport | null;
+  created_at: string;
+}
+
+export interface GenerationBatch {
+  id: string;
+  infographic_id: string;
+  user_id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  total_count: number;
+  completed_count: number;
+  failed_count: number;
+  cancelled_count: number;
+  started_at: string;
+  finished_at: string | null;
+  created_at: string;
+}
+
+export type GenerationStage =
+  | 'fetching_context'
+  | 'generating'
+  | 'validating'
+  | 'repairing'
+  | 'saving'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface GenerationEvent {
+  id: string;
+  queue_id: string;
+  infographic_id: string;
+  infographic_page_id: string;
+  user_id: string;
+  stage: GenerationStage;
+  detail: {
+    iteration?: number;
+    max_iterations?: number;
+    error_count?: number;
+    attempt?: number;
+    max_attempts?: number;
+    message?: string;
+    model?: string;
+  };
   created_at: string;
 }
 
+// Bounds of generation_queue.priority (higher is claimed first, 0 is the default)
+export const GENERATION_PRIORITY_MIN = -100;
+export const GENERATION_PRIORITY_MAX = 100;
+
+// Rows claimed before leases existed only have processed_at; mirrors reap_expired_generation_jobs()
+const LEGACY_PROCESSING_TIMEOUT_MS = 15 * 60 * 1000;
+
+// A processing item whose worker stopped renewing its lease (crashed or timed out edge function)
+export const isQueueItemStalled = (item: GenerationQueueItem, now = Date.now()): boolean => {
+  if (item.status !== 'processing') return false;
+  if (item.lease_expires_at) {
+    return new Date(item.lease_expires_at).getTime() < now;
+  }
+  if (!item.processed_at) return false;
+  return new Date(item.processed_at).getTime() + LEGACY_PROCESSING_TIMEOUT_MS < now;
+};
+
 // Database functions
 const normalizePage = (page: any): InfographicPage => ({
   ...page,
   generation_hints: sanitizeHints(page?.generation_hints),
+  template_id: page?.template_id ?? null,
+  lint_report: page?.lint_report ?? null,
+  validation_report: readValidationReport(page?.validation_report),
 } as InfographicPage);
 
-const buildCombinedStyleDescription = (result: {
-  styleGuidelines?: string;
-  colorPalette?: Record<string, string>;
-  typography?: {
-    headingFont?: string;
-    bodyFont?: string;
-    fontSizes?: Record<string, string>;
-  };
-  recommendationsText?: string;
-  recommendations?: string[];
-}) => {
-  const sections: string[] = [];
+const findActiveQueueItem = async (pageId: string) => {
+  const { data, error } = await supabase
+    .from('generation_queue')
+    .select('*')
+    .eq('infographic_page_id', pageId)
+    .in('status', ['pending', 'processing'])
+    .maybeSingle();
 
-  if (typeof result.styleGuidelines === 'string' && result.styleGuidelines.trim()) {
-    sections.push(result.styleGuidelines.trim());
+  if (error) {
+    console.error('Error checking existing queue:', error);
   }
 
-  if (result.colorPalette && typeof result.colorPalette === 'object') {
-    const entries = Object.entries(result.colorPalette)
-      .filter(([, value]) => typeof value === 'string' && value.trim().length > 0);
-    if (entries.length > 0) {
-      const paletteLines = entries.map(([key, value]) => `- ${key}: ${value.trim()}`);
-      sections.push(['Color Palette:', ...paletteLines].join('\n'));
-    }
-  }
+  return data as GenerationQueueItem | null;
+};
 
-  if (result.typography && typeof result.typography === 'object') {
-    const typographyLines: string[] = [];
-    const { headingFont, bodyFont, fontSizes } = result.typography;
-    if (typeof headingFont === 'string' && headingFont.trim()) {
-      typographyLines.push(`- Heading font: ${headingFont.trim()}`);
-    }
-    if (typeof bodyFont === 'string' && bodyFont.trim()) {
-      typographyLines.push(`- Body font: ${bodyFont.trim()}`);
-    }
-    if (fontSizes && typeof fontSizes === 'object') {
-      for (const [key, value] of Object.entries(fontSizes)) {
-        if (typeof value === 'string' && value.trim()) {
-          typographyLines.push(`- ${key.toUpperCase()} size: ${value.trim()}`);
-        }
-      }
-    }
-    if (typographyLines.length > 0) {
-      sections.push(['Typography:', ...typographyLines].join('\n'));
-    }
+// Removes every object under a deck's storage folder (`<owner>/<deck>/`, see deckAssetStoragePath),
+// including uploads whose deck_assets row was never saved
+const removeDeckAssetFolder = async (userId: string, infographicId: string) => {
+  const bucket = supabase.storage.from(DECK_ASSETS_BUCKET);
+  const folder = `${userId}/${infographicId}`;
+  for (;;) {
+    const { data, error } = await bucket.list(folder, { limit: 100 });
+    if (error) throw new Error(`Failed to list deck images: ${error.message}`);
+    if (!data?.length) return;
+    const { data: removed, error: removeError } = await bucket.remove(data.map((object) => `${folder}/${object.name}`));
+    if (removeError) throw new Error(`Failed to delete deck images: ${removeError.message}`);
+    // Nothing left that the caller may delete: stop rather than list the same objects again
+    if (!removed?.length) return;
   }
+};
 
-  if (Array.isArray(result.recommendations) && result.recommendations.length > 0) {
-    const recLines = result.recommendations
-      .map((item) => typeof item === 'string' ? item.trim() : '')
-      .filter(Boolean);
-    if (recLines.length > 0) {
-      sections.push(['Actionable Guidelines:', ...recLines.map((line) => `- ${line}`)].join('\n'));
-    }
-  } else if (typeof result.recommendationsText === 'string' && result.recommendationsText.trim()) {
-    sections.push(result.recommendationsText.trim());
+export interface StyleGuideSuggestion {
+  styleGuidelines: string;
+  styleGuide: StyleGuide;
+  recommendations: string[];
+  recommendationsText: string;
+}
+
+// Rejects a malformed guide before it reaches the jsonb column
+const assertValidStyleGuide = (styleGuide: unknown) => {
+  if (styleGuide === undefined || styleGuide === null) return;
+  const result = validateStyleGuide(styleGuide);
+  if (!result.valid) {
+    throw new Error(`Invalid style guide: ${result.errors.join('; ')}`);
   }
+};
+
+const DECK_ASSET_COLUMNS = 'id, infographic_id, storage_path, file_name, alt_text, width, height, content_type, size_bytes, created_at';
+
+// Rows store no URL; the public one is rebuilt from the storage path, as the edge functions do
+const withPublicUrl = (row: Omit<DeckAsset, 'url'>): DeckAsset => ({ ...row, url: deckAssetPublicUrl(supabaseUrl, row.storage_path) });
 
-  return sections.join('\n\n').trim();
+// Pixel size handed to the generator; null when the browser cannot decode the image (e.g. AVIF on old browsers)
+const readImageSize = async (file: File): Promise<{ width: number | null; height: number | null }> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch (error) {
+    console.warn('Could not read image size:', error);
+    return { width: null, height: null };
+  }
 };
 
 export const infographicsService = {
@@ -195,7 +348,11 @@ export const infographicsService = {
     return data as Infographic;
   },
 
-  async createInfographic(infographic: Omit<Infographic, 'id' | 'created_at' | 'updated_at'>) {
+  async createInfographic(
+    infographic: Pick<Infographic, 'name' | 'description' | 'style_description'> &
+      Partial<Omit<Infographic, 'id' | 'created_at' | 'updated_at'>>,
+  ) {
+    assertValidStyleGuide(infographic.style_guide);
     const { data, error } = await supabase
       .from('infographics')
       .insert(infographic)
@@ -207,6 +364,7 @@ export const infographicsService = {
   },
 
   async updateInfographic(id: string, updates: Partial<Omit<Infographic, 'id' | 'created_at' | 'updated_at'>>) {
+    assertValidStyleGuide(updates.style_guide);
     const { data, error } = await supabase
       .from('infographics')
       .update(updates)
@@ -219,12 +377,22 @@ export const infographicsService = {
   },
 
   async deleteInfographic(id: string) {
+    const { data: { user } } = await supabase.auth.getUser();
     const { error } = await supabase
       .from('infographics')
       .delete()
       .eq('id', id);
     
     if (error) throw error;
+
+    // deck_assets rows go with the deck, their storage objects do not
+    if (user) {
+      try {
+        await removeDeckAssetFolder(user.id, id);
+      } catch (cleanupError) {
+        console.error('Deck deleted but its images could not be removed:', cleanupError);
+      }
+    }
   },
 
   // Pages
@@ -250,7 +418,12 @@ export const infographicsService = {
     return normalizePage(data);
   },
 
-  async createPage(page: Omit<InfographicPage, 'id' | 'created_at' | 'updated_at'> & { generation_hints?: GenerationHintValue[] }) {
+  async createPage(
+    page: Omit<InfographicPage, 'id' | 'created_at' | 'updated_at' | 'template_id' | 'lint_report' | 'validation_report'> & {
+      generation_hints?: GenerationHintValue[];
+      template_id?: string | null;
+    },
+  ) {
     const { data, error } = await supabase
       .from('infographic_pages')
       .insert({
@@ -296,6 +469,7 @@ export const infographicsService = {
 
   async rewritePageContent(params: {
     pageId: string;
+    infographicId?: string;
     pageTitle: string;
     projectName: string;
     projectDescription: string;
@@ -322,11 +496,14 @@ export const infographicsService = {
         pageTitle: params.pageTitle,
         existingMarkdown: params.existingMarkdown,
         useWebSearch: params.useWebSearch ?? false,
+        infographicId: params.infographicId,
+        pageId: params.pageId,
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
+      throwIfQuotaExceeded(response.status, errorText);
       let message = errorText;
       try {
         const parsed = JSON.parse(errorText);
@@ -355,6 +532,34 @@ export const infographicsService = {
     };
   },
 
+  // Generated HTML of the page with its CDN scripts, stylesheets, fonts and images pinned and inlined
+  async bundlePageOffline(pageId: string): Promise<OfflineBundleResult> {
+    const payload = await postToFunction('bundle-offline', { pageId }, 'bundle page for offline use');
+    if (typeof payload?.html !== 'string' || !payload.html) {
+      throw new Error('Offline bundle function returned empty HTML');
+    }
+    return {
+      html: payload.html,
+      inlined: Array.isArray(payload.inlined) ? payload.inlined : [],
+      failed: Array.isArray(payload.failed) ? payload.failed : [],
+    };
+  },
+
+  // Screenshot and editable text blocks of a generated page, for the PPTX export
+  async renderSlide(pageId: string): Promise<SlideRender> {
+    const payload = await postToFunction('render-slide', { pageId }, 'render slide');
+    if (typeof payload?.image !== 'string' || !payload.image) {
+      throw new Error('Slide render function returned no image');
+    }
+    return {
+      width: payload.width,
+      height: payload.height,
+      image: payload.image,
+      background: typeof payload.background === 'string' ? payload.background : null,
+      blocks: Array.isArray(payload.blocks) ? payload.blocks : [],
+    };
+  },
+
   async suggestGenerationHints(params: {
     projectName: string;
     projectDescription: string;
@@ -363,6 +568,9 @@ export const infographicsService = {
     pageContentMarkdown: string;
     existingHints?: GenerationHintValue[];
     maxSuggestions?: number;
+    // Attribute the LLM cost to the deck and page
+    infographicId?: string;
+    pageId?: string;
   }): Promise<GenerationHintSuggestion[]> {
     if (!supabaseUrl) {
       throw new Error('Supabase URL is not configured.');
@@ -379,6 +587,8 @@ export const infographicsService = {
       pageContentMarkdown: params.pageContentMarkdown ?? '',
       existingHints: sanitizeHints(params.existingHints),
       maxSuggestions: params.maxSuggestions ?? 4,
+      infographicId: params.infographicId,
+      pageId: params.pageId,
     };
 
     const response = await fetch(`${supabaseUrl}/functions/v1/suggest-hints`, {
@@ -391,6 +601,7 @@ export const infographicsService = {
 
     if (!response.ok) {
       const errorText = await response.text();
+      throwIfQuotaExceeded(response.status, errorText);
       const message = errorText || `Failed to fetch hint suggestions (status ${response.status})`;
       throw new Error(message);
     }
@@ -424,10 +635,177 @@ export const infographicsService = {
     return normalized;
   },
 
+  // Custom hints usable in a deck: the deck's own plus the user's hints shared by all decks
+  async getCustomGenerationHints(infographicId: string): Promise<CustomGenerationHint[]> {
+    const { data, error } = await supabase
+      .from('custom_generation_hints')
+      .select('id, slug, label, description, prompt, infographic_id')
+      .or(`infographic_id.is.null,infographic_id.eq.${infographicId}`);
+
+    if (error) throw new Error(`Failed to load custom hints: ${error.message}`);
+    return readCustomGenerationHints(data);
+  },
+
+  // `infographicId: null` makes the hint available in every deck of the user
+  async createCustomGenerationHint(hint: {
+    infographicId: string | null;
+    label: string;
+    description: string;
+    prompt: string;
+  }): Promise<CustomGenerationHint> {
+    const validation = validateCustomGenerationHint(hint);
+    if (!validation.valid) {
+      throw new Error(`Invalid custom hint: ${validation.errors.join('; ')}`);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('custom_generation_hints')
+      .insert({ ...validation.value, user_id: user.id, infographic_id: hint.infographicId })
+      .select('id, slug, label, description, prompt, infographic_id')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`A custom hint named "${validation.value.label}" already exists`);
+      }
+      throw new Error(`Failed to create custom hint: ${error.message}`);
+    }
+    return readCustomGenerationHints([data])[0];
+  },
+
+  async deleteCustomGenerationHint(id: string) {
+    const { error } = await supabase.from('custom_generation_hints').delete().eq('id', id);
+    if (error) throw new Error(`Failed to delete custom hint: ${error.message}`);
+  },
+
+  async getPageTemplates(): Promise<PageTemplate[]> {
+    const { data, error } = await supabase
+      .from('page_templates')
+      .select('id, name, description, html, slots')
+      .order('name', { ascending: true });
+
+    if (error) throw new Error(`Failed to load templates: ${error.message}`);
+    return (data || []).map(readPageTemplate).filter((template): template is PageTemplate => template !== null);
+  },
+
+  // Saves a template; `sourcePageId` records the page it was taken from
+  async createPageTemplate(template: { name: string; description?: string; html: string; sourcePageId?: string }): Promise<PageTemplate> {
+    const validation = validatePageTemplate(template);
+    if (!validation.valid) {
+      throw new Error(`Invalid template: ${validation.errors.join('; ')}`);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('page_templates')
+      .insert({ ...validation.value, user_id: user.id, source_page_id: template.sourcePageId ?? null })
+      .select('id, name, description, html, slots')
+      .single();
+
+    if (error) throw new Error(`Failed to save template: ${error.message}`);
+    return readPageTemplate(data) as PageTemplate;
+  },
+
+  async deletePageTemplate(id: string) {
+    const { error } = await supabase.from('page_templates').delete().eq('id', id);
+    if (error) throw new Error(`Failed to delete template: ${error.message}`);
+  },
+
+  async getDeckAssets(infographicId: string): Promise<DeckAsset[]> {
+    const { data, error } = await supabase
+      .from('deck_assets')
+      .select(DECK_ASSET_COLUMNS)
+      .eq('infographic_id', infographicId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to load images: ${error.message}`);
+    return (data || []).map(withPublicUrl);
+  },
+
+  // Uploads an image into the deck's storage folder and records it with its size for the generator
+  async uploadDeckAsset(infographicId: string, file: File, altText = ''): Promise<DeckAsset> {
+    if (!(DECK_ASSET_MIME_TYPES as readonly string[]).includes(file.type)) {
+      throw new Error(`Unsupported image type: ${file.type || 'unknown'} (use PNG, JPEG, WebP, GIF or AVIF)`);
+    }
+    if (file.size > MAX_DECK_ASSET_BYTES) {
+      throw new Error(`Image is too large (max ${Math.round(MAX_DECK_ASSET_BYTES / 1024 / 1024)} MB)`);
+    }
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    const id = crypto.randomUUID();
+    const storagePath = deckAssetStoragePath(user.id, infographicId, id, file.name);
+    const { width, height } = await readImageSize(file);
+    const bucket = supabase.storage.from(DECK_ASSETS_BUCKET);
+    const { error: uploadError } = await bucket.upload(storagePath, file, { contentType: file.type });
+    if (uploadError) throw new Error(`Failed to upload image: ${uploadError.message}`);
+
+    const { data, error } = await supabase
+      .from('deck_assets')
+      .insert({
+        id,
+        infographic_id: infographicId,
+        user_id: user.id,
+        storage_path: storagePath,
+        file_name: file.name,
+        alt_text: altText.trim().slice(0, MAX_ALT_TEXT_CHARS),
+        width,
+        height,
+        content_type: file.type,
+        size_bytes: file.size,
+      })
+      .select(DECK_ASSET_COLUMNS)
+      .single();
+
+    if (error) {
+      // Do not leave an object behind that no row points to
+      await bucket.remove([storagePath]);
+      throw new Error(`Failed to save image: ${error.message}`);
+    }
+    return withPublicUrl(data);
+  },
+
+  async updateDeckAssetAltText(id: string, altText: string): Promise<DeckAsset> {
+    const { data, error } = await supabase
+      .from('deck_assets')
+      .update({ alt_text: altText.trim().slice(0, MAX_ALT_TEXT_CHARS) })
+      .eq('id', id)
+      .select(DECK_ASSET_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to update image: ${error.message}`);
+    return withPublicUrl(data);
+  },
+
+  // Slides that already show the image keep a broken link; the editor warns before deleting
+  async deleteDeckAsset(asset: Pick<DeckAsset, 'id' | 'storage_path'>) {
+    const { error: removeError } = await supabase.storage.from(DECK_ASSETS_BUCKET).remove([asset.storage_path]);
+    if (removeError) throw new Error(`Failed to delete image: ${removeError.message}`);
+    const { error } = await supabase.from('deck_assets').delete().eq('id', asset.id);
+    if (error) throw new Error(`Failed to delete image: ${error.message}`);
+  },
+
+  // Public URL prefix of every deck asset, the image source slide lint accepts in the browser
+  getDeckAssetsUrlPrefix(): string {
+    return deckAssetPublicUrl(supabaseUrl, '');
+  },
+
   // Generate page HTML using the edge function
-  async generatePageHtml(pageId: string, userComment?: string) {
+  async generatePageHtml(pageId: string, userComment?: string, options: { priority?: number } = {}) {
     console.log('=== generatePageHtml Start ===');
-    console.log('Enqueueing generation for page ID:', pageId, 'with comment:', userComment);
+    console.log('Enqueueing generation for page ID:', pageId, 'with comment:', userComment, 'options:', options);
     
     try {
       // Get current user
@@ -437,19 +815,27 @@ export const infographicsService = {
       }
       
       // Check if there's already a pending/processing request for this page
-      const { data: existingQueue, error: queueCheckError } = await supabase
-        .from('generation_queue')
-        .select('*')
-        .eq('infographic_page_id', pageId)
-        .in('status', ['pending', 'processing'])
-        .maybeSingle();
-      
-      if (queueCheckError) {
-        console.error('Error checking existing queue:', queueCheckError);
+      let existingQueue = await findActiveQueueItem(pageId);
+
+      // A stalled row would block the page forever: let the reaper requeue (or dead-letter) it first
+      if (existingQueue && isQueueItemStalled(existingQueue)) {
+        console.warn('Existing generation is stalled, reaping expired leases:', existingQueue.id);
+        const { error: reapError } = await supabase.rpc('reap_expired_generation_jobs');
+        if (reapError) {
+          console.error('Error reaping stalled generations:', reapError);
+        }
+        existingQueue = await findActiveQueueItem(pageId);
       }
       
       if (existingQueue) {
         console.log('Generation already queued for this page:', existingQueue.status);
+        if (
+          options.priority !== undefined &&
+          existingQueue.status === 'pending' &&
+          options.priority > existingQueue.priority
+        ) {
+          await this.reprioritize(existingQueue.id, options.priority);
+        }
         return { queued: true, queueId: existingQueue.id, status: existingQueue.status };
       }
       
@@ -460,12 +846,15 @@ export const infographicsService = {
           infographic_page_id: pageId,
           user_id: user.id,
           user_comment: userComment || '',
-          status: 'pending'
+          status: 'pending',
+          ...(options.priority !== undefined ? { priority: options.priority } : {})
         })
         .select()
         .single();
       
       if (queueError) {
+        const quota = quotaFromPostgrestError(queueError);
+        if (quota) throw new QuotaExceededError(quota);
         throw new Error(`Failed to enqueue generation: ${queueError.message}`);
       }
       
@@ -485,6 +874,204 @@ export const infographicsService = {
     }
   },
 
+  // Cancel a pending or processing generation; a running worker discards its result
+  async cancelGeneration(queueId: string) {
+    const { data, error } = await supabase.rpc('cancel_generation_job', { p_queue_id: queueId });
+
+    if (error) {
+      throw new Error(`Failed to cancel generation: ${error.message}`);
+    }
+
+    const rows = (Array.isArray(data) ? data : data ? [data] : []) as GenerationQueueItem[];
+    if (rows.length === 0) {
+      throw new Error('This generation has already finished and can no longer be cancelled');
+    }
+
+    return rows[0];
+  },
+
+  // Move a pending generation ahead of (or behind) the rest of the queue
+  async reprioritize(queueId: string, priority: number) {
+    const clamped = Math.min(GENERATION_PRIORITY_MAX, Math.max(GENERATION_PRIORITY_MIN, Math.round(priority)));
+    const { data, error } = await supabase.rpc('reprioritize_generation_job', {
+      p_queue_id: queueId,
+      p_priority: clamped,
+    });
+
+    if (error) {
+      throw new Error(`Failed to reprioritize generation: ${error.message}`);
+    }
+
+    const rows = (Array.isArray(data) ? data : data ? [data] : []) as GenerationQueueItem[];
+    if (rows.length === 0) {
+      throw new Error('Only queued generations can be reprioritized');
+    }
+
+    return rows[0];
+  },
+
+  // Enqueue several pages as one batch; pages that already have an active job are left alone
+  async generatePagesHtmlBatch(infographicId: string, pageIds: string[]) {
+    const { data: { user }, error: userError } = await supabase.auth.getUser();
+    if (userError || !user) {
+      throw new Error('User not authenticated');
+    }
+
+    // One transaction for the batch and its rows: a refused queue insert must not leave an empty batch
+    const { data, error } = await supabase.rpc('enqueue_generation_batch', {
+      p_infographic_id: infographicId,
+      p_page_ids: pageIds,
+    });
+
+    if (error) {
+      // The insert is all-or-nothing, so a batch larger than the remaining quota is refused as a whole
+      const quota = quotaFromPostgrestError(error);
+      if (quota) throw new QuotaExceededError(quota);
+      throw new Error(`Failed to enqueue generation batch: ${error.message}`);
+    }
+
+    // No row when every page already had an active job
+    const rows = (Array.isArray(data) ? data : data ? [data] : []) as GenerationBatch[];
+    return rows[0] ?? null;
+  },
+
+  // Most recent batch started from a deck, if any
+  async getLatestGenerationBatch(infographicId: string) {
+    const { data, error } = await supabase
+      .from('generation_batches')
+      .select('*')
+      .eq('infographic_id', infographicId)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching generation batch:', error);
+      return null;
+    }
+
+    return data as GenerationBatch | null;
+  },
+
+  // Queue rows of a batch that failed or gave up, for the end-of-batch summary
+  async getGenerationBatchFailures(batchId: string) {
+    const { data, error } = await supabase
+      .from('generation_queue')
+      .select('*')
+      .eq('batch_id', batchId)
+      .in('status', ['failed', 'dead_letter']);
+
+    if (error) {
+      console.error('Error fetching batch failures:', error);
+      return [];
+    }
+
+    return data as GenerationQueueItem[];
+  },
+
+  // LLM spend of one deck, per purpose (generation, repairs, rewrites, suggestions)
+  async getInfographicLLMUsage(infographicId: string): Promise<LLMUsageSummary> {
+    const { data, error } = await supabase
+      .from('llm_usage_by_infographic')
+      .select('*')
+      .eq('infographic_id', infographicId);
+
+    if (error) {
+      throw new Error(`Failed to fetch LLM usage: ${error.message}`);
+    }
+
+    return summarizeLLMUsage((data ?? []).map(normalizeLLMUsageRollup));
+  },
+
+  // LLM spend of every deck of the current user, keyed by deck id, plus the user's overall total
+  // (which also covers calls not tied to a deck, such as style suggestions for an unsaved project)
+  async getLLMUsageOverview(): Promise<{ total: LLMUsageSummary; byInfographic: Map<string, LLMUsageSummary> }> {
+    const [deckResult, userResult] = await Promise.all([
+      supabase.from('llm_usage_by_infographic').select('*'),
+      supabase.from('llm_usage_by_user').select('*'),
+    ]);
+
+    const error = deckResult.error ?? userResult.error;
+    if (error) {
+      throw new Error(`Failed to fetch LLM usage: ${error.message}`);
+    }
+
+    const rowsByInfographic = new Map<string, LLMUsageRollup[]>();
+    (deckResult.data ?? []).forEach((row) => {
+      const rows = rowsByInfographic.get(row.infographic_id) ?? [];
+      rows.push(normalizeLLMUsageRollup(row));
+      rowsByInfographic.set(row.infographic_id, rows);
+    });
+
+    return {
+      total: summarizeLLMUsage((userResult.data ?? []).map(normalizeLLMUsageRollup)),
+      byInfographic: new Map(
+        Array.from(rowsByInfographic.entries(), ([id, rows]) => [id, summarizeLLMUsage(rows)]),
+      ),
+    };
+  },
+
+  // Cancel every job of a batch that has not finished yet
+  async cancelGenerationBatch(batchId: string) {
+    const { data, error } = await supabase.rpc('cancel_generation_batch', { p_batch_id: batchId });
+
+    if (error) {
+      throw new Error(`Failed to cancel generation batch: ${error.message}`);
+    }
+
+    const rows = (Array.isArray(data) ? data : data ? [data] : []) as GenerationBatch[];
+    if (rows.length === 0) {
+      throw new Error('This batch has already finished and can no longer be cancelled');
+    }
+
+    return rows[0];
+  },
+
+  // Stage events already published for some jobs (used to backfill the live timeline)
+  async getGenerationEvents(queueIds: string[]) {
+    if (queueIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('generation_events')
+      .select('*')
+      .in('queue_id', queueIds)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching generation events:', error);
+      return [];
+    }
+
+    return data as GenerationEvent[];
+  },
+
+  // Live stage events for every page of a deck; returns the unsubscribe function
+  subscribeToGenerationEvents(
+    infographicId: string,
+    onEvent: (event: GenerationEvent) => void,
+    onStatusChange?: (connected: boolean) => void,
+  ) {
+    const channel = supabase
+      .channel(`generation-events-${infographicId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'generation_events',
+          filter: `infographic_id=eq.${infographicId}`,
+        },
+        (payload) => onEvent(payload.new as GenerationEvent),
+      )
+      .subscribe((status) => {
+        onStatusChange?.(status === 'SUBSCRIBED');
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  },
+
   // Get generation queue status for pages
   async getGenerationQueueStatus(pageIds: string[]) {
     if (pageIds.length === 0) return [];
@@ -580,15 +1167,23 @@ export const infographicsService = {
   },
 
   // Generate style guidelines using the edge function
-  async generateStyleGuidelines(projectName: string, projectDescription: string, existingStyleDescription?: string) {
+  async generateStyleGuidelines(
+    projectName: string,
+    projectDescription: string,
+    existingStyleDescription?: string,
+    existingStyleGuide?: StyleGuide | null,
+    infographicId?: string,
+  ): Promise<StyleGuideSuggestion> {
     console.log('=== generateStyleGuidelines Start ===');
-    console.log('Project:', { projectName, projectDescription, hasExisting: !!existingStyleDescription });
+    console.log('Project:', { projectName, projectDescription, hasExisting: !!existingStyleDescription || !!existingStyleGuide });
     
     try {
       const requestPayload = {
         projectName,
         projectDescription,
         existingStyleDescription,
+        existingStyleGuide: existingStyleGuide ?? undefined,
+        infographicId,
       };
       
       console.log('Request payload:', {
@@ -624,6 +1219,7 @@ export const infographicsService = {
           errorText: errorText,
           url: apiUrl
         });
+        throwIfQuotaExceeded(response.status, errorText);
         
         let errorDetails = 'Unknown error';
         try {
@@ -641,22 +1237,26 @@ export const infographicsService = {
       const result = await response.json();
       console.log('Generated style guidelines received:', {
         guidelinesLength: result.styleGuidelines?.length || 0,
-        hasColorPalette: !!result.colorPalette,
-        hasTypography: !!result.typography,
-        colorPaletteKeys: Object.keys(result.colorPalette || {}),
-        typographyKeys: Object.keys(result.typography || {})
+        hasStyleGuide: !!result.styleGuide,
+        diagnostics: result.diagnostics
       });
 
       if (!result.styleGuidelines) {
         throw new Error('No style guidelines received from edge function');
       }
 
-      const compiledDescription = buildCombinedStyleDescription(result);
-      
+      // Re-check on this side too: the guide is about to be saved as-is
+      const validation = validateStyleGuide(result.styleGuide);
+      if (!validation.valid) {
+        throw new Error(`Suggested style guide is invalid: ${validation.errors.join('; ')}`);
+      }
+
       console.log('=== generateStyleGuidelines Success ===');
       return {
-        ...result,
-        combinedStyleDescription: compiledDescription,
+        styleGuidelines: result.styleGuidelines,
+        styleGuide: validation.value,
+        recommendations: Array.isArray(result.recommendations) ? result.recommendations : [],
+        recommendationsText: result.recommendationsText ?? '',
       };
     } catch (error) {
       console.error('=== generateStyleGuidelines Error ===');
@@ -678,7 +1278,10 @@ export const infographicsService = {
       .order('created_at', { ascending: false });
     
     if (error) throw error;
-    return data as InfographicPageHistory[];
+    return (data || []).map((entry) => ({
+      ...entry,
+      validation_report: readValidationReport(entry.validation_report),
+    })) as InfographicPageHistory[];
   },
 
   // Create page history entry
@@ -0,0 +1 @@
+export { TAILWIND_COMPILED_ATTRIBUTE, hasCompiledTailwind, restoreTailwindCdn } from '../../supabase/functions/_shared/tailwind-static.ts';
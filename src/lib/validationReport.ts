@@ -0,0 +1,8 @@
+export type {
+  ValidationIterationReport,
+  ValidationOutcome,
+  ValidationReport,
+  ValidationReportMessage,
+  ValidationSource,
+} from '../../supabase/functions/_shared/validation-report.ts';
+export { createUnifiedDiff, readValidationReport } from '../../supabase/functions/_shared/validation-report.ts';
@@ -0,0 +1,106 @@
+// Minimal ZIP writer (stored entries, no compression) for the Office Open XML exports. PNG screenshots,
+// the bulk of a deck, are already compressed, so deflating them would only cost time.
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS timestamp of 1980-01-01 00:00: entries carry no meaningful date, and this keeps exports reproducible
+const DOS_TIME = 0;
+const DOS_DATE = (1 << 5) | 1;
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let at = 0;
+  const u16 = (value: number) => {
+    view.setUint16(at, value, true);
+    at += 2;
+  };
+  const u32 = (value: number) => {
+    view.setUint32(at, value, true);
+    at += 4;
+  };
+  const bytes = (value: Uint8Array) => {
+    output.set(value, at);
+    at += value.length;
+  };
+
+  const offsets: number[] = [];
+  for (const file of files) {
+    offsets.push(at);
+    u32(0x04034b50);
+    u16(20);
+    u16(UTF8_FLAG);
+    u16(0);
+    u16(DOS_TIME);
+    u16(DOS_DATE);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0);
+    bytes(file.name);
+    bytes(file.data);
+  }
+
+  const centralStart = at;
+  files.forEach((file, index) => {
+    u32(0x02014b50);
+    u16(20);
+    u16(20);
+    u16(UTF8_FLAG);
+    u16(0);
+    u16(DOS_TIME);
+    u16(DOS_DATE);
+    u32(file.crc);
+    u32(file.data.length);
+    u32(file.data.length);
+    u16(file.name.length);
+    u16(0);
+    u16(0);
+    u16(0);
+    u16(0);
+    u32(0);
+    u32(offsets[index]);
+    bytes(file.name);
+  });
+
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(at - centralStart);
+  u32(centralStart);
+  u16(0);
+  return output;
+}
@@ -0,0 +1,26 @@
+// Loads the custom generation hints usable in one deck (see the custom_generation_hints migration).
+// Kept out of generation-hints.ts so that module stays dependency-free for the browser.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2.53.0';
+import { type CustomGenerationHint, readCustomGenerationHints } from './generation-hints.ts';
+
+// `client` is the worker's service-role client or the caller's own client (RLS then limits the rows to theirs).
+// Without a deck only the user-level hints apply. Failures are logged: hints fall back to the generic instruction.
+export async function loadCustomGenerationHints(
+  client: SupabaseClient,
+  userId: string,
+  infographicId: string | null,
+): Promise<CustomGenerationHint[]> {
+  const query = client
+    .from('custom_generation_hints')
+    .select('slug, label, description, prompt, infographic_id')
+    .eq('user_id', userId);
+  const { data, error } = infographicId
+    ? await query.or(`infographic_id.is.null,infographic_id.eq.${infographicId}`)
+    : await query.is('infographic_id', null);
+  if (error) {
+    console.error('Failed to load custom generation hints:', error);
+    return [];
+  }
+  return readCustomGenerationHints(data);
+}
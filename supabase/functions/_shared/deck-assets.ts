@@ -0,0 +1,116 @@
+// Deck image assets: images uploaded to the `deck-assets` storage bucket (one folder per owner and deck)
+// with their alt text and dimensions. The queue worker hands the deck's manifest to the generator, which
+// may only use these images, and to the fixer; slides without a fitting image get a placeholder block.
+// Dependency-free so it runs in Deno and in the browser.
+
+export const DECK_ASSETS_BUCKET = 'deck-assets';
+// Mirror the bucket limits of the deck_assets migration
+export const MAX_DECK_ASSET_BYTES = 10 * 1024 * 1024;
+export const DECK_ASSET_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/avif'] as const;
+export const MAX_ALT_TEXT_CHARS = 300;
+
+// Marks the block the generator puts where a picture would help but no asset fits
+export const IMAGE_PLACEHOLDER_ATTRIBUTE = 'data-image-placeholder';
+
+export interface DeckAsset {
+  id: string;
+  infographic_id: string;
+  storage_path: string;
+  url: string;
+  file_name: string;
+  alt_text: string;
+  width: number | null;
+  height: number | null;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+export interface AssetManifestEntry {
+  url: string;
+  alt: string;
+  width: number | null;
+  height: number | null;
+  // Shown by the page content, so it must appear on the slide (see markdown-images.ts)
+  required?: boolean;
+}
+
+const MARKDOWN_IMAGE = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/g;
+
+// `<owner>/<deck>/<asset id>-<file name>`; the owner folder is what the storage policies check
+export function deckAssetStoragePath(userId: string, infographicId: string, assetId: string, fileName: string): string {
+  const name = fileName
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\w.-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/-\./g, '.')
+    .replace(/^[-.]+|-+$/g, '')
+    .toLowerCase()
+    .slice(-80);
+  return `${userId}/${infographicId}/${assetId}-${name || 'image'}`;
+}
+
+// Public URL of an asset, rebuilt from its storage path: rows store no URL a client could point elsewhere.
+// Same format as supabase-js getPublicUrl, so the editor and the edge functions agree on it
+export function deckAssetPublicUrl(supabaseUrl: string, storagePath: string): string {
+  return encodeURI(`${supabaseUrl.replace(/\/+$/, '')}/storage/v1/object/public/${DECK_ASSETS_BUCKET}/${storagePath}`);
+}
+
+export function toAssetManifest(assets: Pick<DeckAsset, 'url' | 'alt_text' | 'width' | 'height'>[]): AssetManifestEntry[] {
+  return assets.map((asset) => ({
+    url: asset.url,
+    alt: asset.alt_text.trim(),
+    width: asset.width,
+    height: asset.height,
+  }));
+}
+
+// Markdown that shows an asset, as inserted by the editor
+export const markdownImageReference = (asset: Pick<DeckAsset, 'url' | 'alt_text' | 'file_name'>) =>
+  `![${(asset.alt_text.trim() || asset.file_name).replace(/[[\]]/g, '')}](${asset.url})`;
+
+// Images of the markdown (`![alt](url "title")`), first occurrence of each URL, in order of appearance
+export function extractMarkdownImages(markdown: string): { url: string; alt: string }[] {
+  const images: { url: string; alt: string }[] = [];
+  for (const match of markdown.matchAll(MARKDOWN_IMAGE)) {
+    if (!images.some((image) => image.url === match[2])) images.push({ url: match[2], alt: match[1].trim() });
+  }
+  return images;
+}
+
+// Manifest URLs the markdown shows as images, in order of appearance
+export function referencedAssetUrls(markdown: string, manifest: AssetManifestEntry[]): string[] {
+  const known = new Set(manifest.map((entry) => entry.url));
+  return extractMarkdownImages(markdown).map((image) => image.url).filter((url) => known.has(url));
+}
+
+const describeShape = (width: number | null, height: number | null) => {
+  if (!width || !height) return 'unknown size';
+  const ratio = width / height;
+  const shape = ratio > 1.2 ? 'landscape' : ratio < 0.83 ? 'portrait' : 'square';
+  return `${width}×${height} (${shape})`;
+};
+
+const PLACEHOLDER_INSTRUCTION = `Where a picture would help but no listed image fits, do not use any other image: add a placeholder block instead, \`<div ${IMAGE_PLACEHOLDER_ATTRIBUTE} role="img" aria-label="<what the picture should show>">\` styled as a neutral rounded box with a Lucide "image" icon and a one-line caption of the intended picture, so the user can add a matching asset later.`;
+
+// Prompt section for the generator (and the fixer); the manifest is the complete list of usable images
+export function buildAssetManifestPrompt(manifest: AssetManifestEntry[], markdown = ''): string {
+  if (manifest.length === 0) {
+    return `Image Assets:
+No image has been uploaded for this deck. Do not use <img>, <picture> or CSS background images with a URL.
+${PLACEHOLDER_INSTRUCTION}`;
+  }
+
+  const referenced = new Set(referencedAssetUrls(markdown, manifest));
+  const lines = manifest.map((entry, index) => {
+    const alt = entry.alt ? `alt: "${entry.alt.replace(/"/g, "'")}"` : 'no alt text (describe the image from its use)';
+    return `${index + 1}. ${entry.url} | ${alt} | ${describeShape(entry.width, entry.height)}${entry.required || referenced.has(entry.url) ? ' | referenced in the content, must appear on the slide' : ''}`;
+  });
+  return `Image Assets (the ONLY images this slide may use):
+{{{
+${lines.join('\n')}
+}}}
+Copy image URLs exactly from this list; never invent, modify or complete a URL, and never use images from anywhere else. Choose images whose alt text matches the topic and whose shape suits their spot, set the width and height attributes from the listed size, and use the alt text (improve it if it does not describe the image in context).
+${PLACEHOLDER_INSTRUCTION}`;
+}
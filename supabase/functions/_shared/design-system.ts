@@ -0,0 +1,120 @@
+// Deck design system stored on `infographics.design_system`.
+// Shared by the editor (which extracts and edits it) and the queue worker (which enforces it in prompts).
+
+export type HeadingLevel = 'h1' | 'h2' | 'h3';
+
+export interface DeckDesignSystemSource {
+  pageId: string;
+  pageTitle: string;
+  extractedAt: string;
+}
+
+export interface DeckDesignSystem {
+  cssVariables: Record<string, string>;
+  palette: string[];
+  fonts: string[];
+  headingClasses: Record<HeadingLevel, string>;
+  bodyClasses: string;
+  spacing: string[];
+  footerHtml: string;
+  source: DeckDesignSystemSource | null;
+}
+
+export const HEADING_LEVELS: HeadingLevel[] = ['h1', 'h2', 'h3'];
+
+// Keeps prompts bounded even if someone pastes a whole page into the footer field
+const MAX_FOOTER_HTML_LENGTH = 2000;
+
+export const emptyDesignSystem = (): DeckDesignSystem => ({
+  cssVariables: {},
+  palette: [],
+  fonts: [],
+  headingClasses: { h1: '', h2: '', h3: '' },
+  bodyClasses: '',
+  spacing: [],
+  footerHtml: '',
+  source: null,
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string').map((item) => item.trim()).filter(Boolean)))
+    : [];
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Tolerant reader for the jsonb column: unknown keys are dropped, missing ones get defaults
+export function normalizeDesignSystem(value: unknown): DeckDesignSystem | null {
+  if (!isRecord(value)) return null;
+
+  const cssVariables: Record<string, string> = {};
+  if (isRecord(value.cssVariables)) {
+    Object.entries(value.cssVariables).forEach(([name, raw]) => {
+      if (name.startsWith('--') && typeof raw === 'string' && raw.trim()) {
+        cssVariables[name] = raw.trim();
+      }
+    });
+  }
+
+  const headings = isRecord(value.headingClasses) ? value.headingClasses : {};
+  const source = isRecord(value.source) && typeof value.source.pageId === 'string'
+    ? {
+      pageId: value.source.pageId,
+      pageTitle: toText(value.source.pageTitle),
+      extractedAt: toText(value.source.extractedAt),
+    }
+    : null;
+
+  return {
+    cssVariables,
+    palette: toStringList(value.palette),
+    fonts: toStringList(value.fonts),
+    headingClasses: {
+      h1: toText(headings.h1),
+      h2: toText(headings.h2),
+      h3: toText(headings.h3),
+    },
+    bodyClasses: toText(value.bodyClasses),
+    spacing: toStringList(value.spacing),
+    footerHtml: toText(value.footerHtml).slice(0, MAX_FOOTER_HTML_LENGTH),
+    source,
+  };
+}
+
+export function isDesignSystemEmpty(system: DeckDesignSystem | null): boolean {
+  if (!system) return true;
+  return (
+    Object.keys(system.cssVariables).length === 0 &&
+    system.palette.length === 0 &&
+    system.fonts.length === 0 &&
+    HEADING_LEVELS.every((level) => !system.headingClasses[level]) &&
+    !system.bodyClasses &&
+    system.spacing.length === 0 &&
+    !system.footerHtml
+  );
+}
+
+// Prompt block listing the design system as non-negotiable rules
+export function formatDesignSystemConstraint(system: DeckDesignSystem): string {
+  const lines: string[] = [];
+  const variables = Object.entries(system.cssVariables);
+  if (variables.length > 0) {
+    lines.push('- Declare exactly these CSS custom properties on :root and use them for colours/spacing:');
+    variables.forEach(([name, value]) => lines.push(`    ${name}: ${value};`));
+  }
+  if (system.palette.length > 0) lines.push(`- Colour palette (use no other accent colours): ${system.palette.join(', ')}`);
+  if (system.fonts.length > 0) lines.push(`- Fonts: ${system.fonts.join(', ')}`);
+  HEADING_LEVELS.forEach((level) => {
+    if (system.headingClasses[level]) lines.push(`- <${level}> elements use class="${system.headingClasses[level]}"`);
+  });
+  if (system.bodyClasses) lines.push(`- Body text uses class="${system.bodyClasses}"`);
+  if (system.spacing.length > 0) lines.push(`- Spacing scale (Tailwind): ${system.spacing.join(', ')}`);
+  if (system.footerHtml) {
+    lines.push('- End the page with this footer markup, verbatim:');
+    lines.push(system.footerHtml);
+  }
+  return lines.join('\n');
+}
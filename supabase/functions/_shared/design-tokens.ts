@@ -0,0 +1,129 @@
+// Design-token summaries of generated slides, used to keep every slide of a deck on the same visual system.
+// Regex based on purpose: the HTML comes from our own generator and we only need frequencies, not a DOM.
+
+export interface DesignTokens {
+  colors: Map<string, number>;
+  tailwindColors: Map<string, number>;
+  fonts: Map<string, number>;
+  radii: Map<string, number>;
+  headerClass: string | null;
+  footerClass: string | null;
+  footerText: string | null;
+}
+
+export interface DesignTokenSummary {
+  sampleCount: number;
+  colors: string[];
+  tailwindColors: string[];
+  fonts: string[];
+  radii: string[];
+  headerClass: string | null;
+  footerClass: string | null;
+  footerText: string | null;
+}
+
+export interface DeckOutlinePage {
+  id: string;
+  title: string;
+  page_order: number;
+}
+
+const HEX_COLOR = /#(?:[0-9a-fA-F]{6}|[0-9a-fA-F]{3})\b/g;
+const TAILWIND_COLOR = /\b(?:bg|text|border|from|via|to|ring|fill|stroke)-(?:slate|gray|zinc|neutral|stone|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose)-(?:50|[1-9]00|950)\b/g;
+const TAILWIND_RADIUS = /\brounded(?:-(?:none|sm|md|lg|xl|2xl|3xl|full))?\b/g;
+const FONT_FAMILY = /font-family\s*:\s*([^;"}]+)/gi;
+const GOOGLE_FONT_FAMILY = /fonts\.googleapis\.com\/css2?\?[^"']*?family=([^"'&:]+)/gi;
+
+const bump = (map: Map<string, number>, key: string) => {
+  map.set(key, (map.get(key) ?? 0) + 1);
+};
+
+const firstClassOf = (html: string, tag: string): string | null => {
+  const match = html.match(new RegExp(`<${tag}\\b[^>]*\\bclass\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return match ? match[1].trim().replace(/\s+/g, ' ') : null;
+};
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+export function extractDesignTokens(html: string): DesignTokens {
+  const tokens: DesignTokens = {
+    colors: new Map(),
+    tailwindColors: new Map(),
+    fonts: new Map(),
+    radii: new Map(),
+    headerClass: firstClassOf(html, 'header'),
+    footerClass: firstClassOf(html, 'footer'),
+    footerText: null,
+  };
+
+  for (const match of html.matchAll(HEX_COLOR)) bump(tokens.colors, match[0].toLowerCase());
+  for (const match of html.matchAll(TAILWIND_COLOR)) bump(tokens.tailwindColors, match[0]);
+  for (const match of html.matchAll(TAILWIND_RADIUS)) bump(tokens.radii, match[0]);
+  for (const match of html.matchAll(FONT_FAMILY)) {
+    const primary = match[1].split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+    if (primary && !primary.startsWith('var(')) bump(tokens.fonts, primary);
+  }
+  for (const match of html.matchAll(GOOGLE_FONT_FAMILY)) {
+    bump(tokens.fonts, decodeURIComponent(match[1]).replace(/\+/g, ' '));
+  }
+
+  const footer = html.match(/<footer\b[^>]*>([\s\S]*?)<\/footer>/i);
+  if (footer) {
+    const text = stripTags(footer[1]);
+    tokens.footerText = text.length > 0 ? text.slice(0, 200) : null;
+  }
+
+  return tokens;
+}
+
+const topKeys = (maps: Map<string, number>[], limit: number) => {
+  const totals = new Map<string, number>();
+  maps.forEach((map) => map.forEach((count, key) => totals.set(key, (totals.get(key) ?? 0) + count)));
+  return Array.from(totals.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([key]) => key);
+};
+
+const mostCommon = (values: Array<string | null>) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    if (value) bump(counts, value);
+  });
+  return topKeys([counts], 1)[0] ?? null;
+};
+
+export function summarizeDesignTokens(htmls: string[], limit = 8): DesignTokenSummary | null {
+  const samples = htmls.filter((html) => typeof html === 'string' && html.trim().length > 0).map(extractDesignTokens);
+  if (samples.length === 0) return null;
+
+  return {
+    sampleCount: samples.length,
+    colors: topKeys(samples.map((sample) => sample.colors), limit),
+    tailwindColors: topKeys(samples.map((sample) => sample.tailwindColors), limit),
+    fonts: topKeys(samples.map((sample) => sample.fonts), 3),
+    radii: topKeys(samples.map((sample) => sample.radii), 2),
+    headerClass: mostCommon(samples.map((sample) => sample.headerClass)),
+    footerClass: mostCommon(samples.map((sample) => sample.footerClass)),
+    footerText: mostCommon(samples.map((sample) => sample.footerText)),
+  };
+}
+
+export function formatDesignTokenSummary(summary: DesignTokenSummary): string {
+  const lines = [`Derived from ${summary.sampleCount} already generated slide(s) of this deck:`];
+  if (summary.colors.length > 0) lines.push(`- Colour palette (most used first): ${summary.colors.join(', ')}`);
+  if (summary.tailwindColors.length > 0) lines.push(`- Tailwind colour utilities: ${summary.tailwindColors.join(', ')}`);
+  if (summary.fonts.length > 0) lines.push(`- Fonts: ${summary.fonts.join(', ')}`);
+  if (summary.radii.length > 0) lines.push(`- Corner radius: ${summary.radii.join(', ')}`);
+  if (summary.headerClass) lines.push(`- Header classes: ${summary.headerClass}`);
+  if (summary.footerClass) lines.push(`- Footer classes: ${summary.footerClass}`);
+  if (summary.footerText) lines.push(`- Footer text: ${summary.footerText}`);
+  return lines.join('\n');
+}
+
+export function buildDeckOutline(pages: DeckOutlinePage[], currentPageId: string): string {
+  return [...pages]
+    .sort((a, b) => a.page_order - b.page_order)
+    .map((page, index) => `${index + 1}. ${page.title}${page.id === currentPageId ? '   <- this slide' : ''}`)
+    .join('\n');
+}
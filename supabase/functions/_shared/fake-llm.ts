@@ -0,0 +1,156 @@
+// Deterministic `fake` LLMProvider: answers from fixtures or synthesises a value from the JSON schema.
+// Lets the whole pipeline (suggestions, rewrites, generation, repair) run offline and in tests.
+
+import { observeLLMCall } from './llm-types.ts';
+import type { LLMCallObserver, LLMJsonRequest, LLMJsonResult, LLMProvider, LLMTextRequest } from './llm-types.ts';
+import { generateValidatedJSON } from './llm-json.ts';
+import { COPYRIGHT_NOTICE } from './slide-lint.ts';
+
+export type FakeLLMProviderOptions = {
+  defaultModel?: string;
+  // Canned answers keyed by schema name; anything else is derived from the schema
+  responses?: Record<string, unknown>;
+  onCall?: LLMCallObserver;
+};
+
+export interface FakeLLMCall {
+  kind: 'json' | 'text';
+  model: string;
+  schemaName: string | null;
+  prompt: string;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Rough 4-characters-per-token estimate, enough for the usage pipeline to have non-zero numbers
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// FNV-1a, so the same prompt always yields the same fake answer
+const fingerprint = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeHtml = (text: string) =>
+  text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+// The page a repair request asks to fix (see repairHtmlWithLLM in the queue worker)
+const HTML_TO_FIX = /---HTML START---\n([\s\S]*?)\n---HTML END---/;
+const FAKE_PAGE = /<h1>Offline slide ([0-9a-f]{8})<\/h1>\n<p>([\s\S]*?)<\/p>/;
+
+const fakeHtml = (id: string, excerpt: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Offline slide ${id}</title>
+</head>
+<body>
+<main>
+<h1>Offline slide ${id}</h1>
+<p>${escapeHtml(excerpt)}</p>
+</main>
+<footer>Generated by the fake LLM provider. ${COPYRIGHT_NOTICE}</footer>
+</body>
+</html>`;
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly kind = 'fake' as const;
+  readonly defaultModel: string;
+  readonly calls: FakeLLMCall[] = [];
+  private responses: Record<string, unknown>;
+  private onCall: LLMCallObserver | undefined;
+
+  constructor(opts: FakeLLMProviderOptions = {}) {
+    this.defaultModel = opts.defaultModel ?? 'fake-model';
+    this.responses = opts.responses ?? {};
+    this.onCall = opts.onCall;
+  }
+
+  private answer(model: string, prompt: string, produce: () => string): Promise<string> {
+    return observeLLMCall(this.onCall, { provider: this.kind, model }, async () => produce(), (text) => ({
+      inputTokens: estimateTokens(prompt),
+      outputTokens: estimateTokens(text),
+    }));
+  }
+
+  // Canned answers go through the same validation as real ones, so a bad fixture fails like a bad model
+  async generateJSON<T = unknown>(args: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    return generateValidatedJSON(this.kind, args, async (user) => {
+      const model = args.model ?? this.defaultModel;
+      const prompt = [args.system ?? '', user].join('\n');
+      this.calls.push({ kind: 'json', model, schemaName: args.schemaName, prompt });
+
+      return this.answer(model, prompt, () => {
+        if (args.schemaName in this.responses) {
+          return JSON.stringify(this.responses[args.schemaName]);
+        }
+        const { id, excerpt } = this.pageFor(prompt, args.user);
+        return JSON.stringify(this.valueFor(args.schema, '', id, excerpt));
+      });
+    });
+  }
+
+  async generateText(args: LLMTextRequest): Promise<string> {
+    const prompt = args.messages.map((message) => `${message.role}: ${message.text}`).join('\n');
+    const model = args.model ?? this.defaultModel;
+    this.calls.push({ kind: 'text', model, schemaName: null, prompt });
+    return this.answer(model, prompt, () => `Fake answer ${fingerprint(prompt)}`);
+  }
+
+  // A repair gets back the page it was given, rebuilt as a clean fake page: the same input always yields
+  // the same valid HTML, so the validate/repair loop settles instead of drifting with every new prompt
+  private pageFor(prompt: string, user: string): { id: string; excerpt: string } {
+    const html = user.match(HTML_TO_FIX)?.[1];
+    if (html === undefined) return { id: fingerprint(prompt), excerpt: user.trim().slice(0, 200) };
+    const page = html.match(FAKE_PAGE);
+    if (page) return { id: page[1], excerpt: unescapeHtml(page[2]) };
+    const text = html.replace(/<(script|style)[\s\S]*?<\/\1>|<[^>]*>/gi, ' ').replace(/\s+/g, ' ').trim();
+    return { id: fingerprint(html), excerpt: text.slice(0, 200) };
+  }
+
+  private valueFor(schema: unknown, key: string, id: string, excerpt: string): unknown {
+    if (!isRecord(schema)) return null;
+    if ('const' in schema) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(variants) && variants.length > 0) return this.valueFor(variants[0], key, id, excerpt);
+
+    const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+    switch (type) {
+      case 'object': {
+        const properties = isRecord(schema.properties) ? schema.properties : {};
+        return Object.fromEntries(
+          Object.entries(properties).map(([name, child]) => [name, this.valueFor(child, name, id, excerpt)]),
+        );
+      }
+      case 'array': {
+        const min = typeof schema.minItems === 'number' ? schema.minItems : 1;
+        const max = typeof schema.maxItems === 'number' ? schema.maxItems : min;
+        return Array.from({ length: Math.max(0, Math.min(min, max)) }, () => this.valueFor(schema.items, key, id, excerpt));
+      }
+      case 'integer':
+      case 'number':
+        return typeof schema.minimum === 'number' ? schema.minimum : 0;
+      case 'boolean':
+        return false;
+      case 'string': {
+        const hint = `${key} ${typeof schema.description === 'string' ? schema.description : ''}`.toLowerCase();
+        if (hint.includes('html')) return fakeHtml(id, excerpt);
+        if (hint.includes('markdown')) return `# Offline draft ${id}\n\n${excerpt}`;
+        if (/colou?r|hex/.test(hint)) return `#${id.slice(0, 6)}`;
+        return `fake ${key || 'value'} ${id}`;
+      }
+      default:
+        return null;
+    }
+  }
+}
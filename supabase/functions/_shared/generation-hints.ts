@@ -0,0 +1,424 @@
+// Generation hint registry: the slide archetypes a page can be tagged with.
+// Shared by the editor (French labels), suggest-hints (English catalogue for the model) and the
+// queue worker (prompt fragments). Dependency-free so it runs in Deno and in the browser.
+//
+// Besides the built-in catalogue, users define their own hints (`custom_generation_hints` table).
+// Pages reference those as `custom:<slug>`; a deck-level hint overrides a user-level one with the same slug.
+
+export const GENERATION_HINT_LOCALES = ['en', 'fr'] as const;
+export type GenerationHintLocale = (typeof GENERATION_HINT_LOCALES)[number];
+
+export interface GenerationHintDefinition {
+  value: string;
+  labels: Record<GenerationHintLocale, string>;
+  descriptions: Record<GenerationHintLocale, string>;
+  // Instruction appended to the generation prompt when the hint is selected
+  prompt: string;
+}
+
+export const GENERATION_HINTS = [
+  {
+    value: 'introduction',
+    labels: { en: 'Introduction', fr: 'Introduction' },
+    descriptions: {
+      en: 'Deliver a compelling opening that frames the topic, why it matters, and the outcome the audience should expect.',
+      fr: 'Pose le contexte, expose la promesse et accroche immédiatement ton audience.',
+    },
+    prompt: 'Craft a captivating introduction that clearly states the topic, why it matters, and the expected outcomes for the audience.',
+  },
+  {
+    value: 'agenda',
+    labels: { en: 'Agenda', fr: 'Sommaire' },
+    descriptions: {
+      en: 'Lay out the main sections or talking points of the presentation in a concise list.',
+      fr: 'Structure les sections clés du deck sous forme de liste claire.',
+    },
+    prompt: 'Include a concise agenda/sommaire that lists the main sections or talking points of the presentation.',
+  },
+  {
+    value: 'section_break',
+    labels: { en: 'Section Break', fr: 'Transition' },
+    descriptions: {
+      en: 'Design a bold transition slide that signals a new chapter with minimal text and strong visuals.',
+      fr: 'Crée une slide de rupture audacieuse pour annoncer la prochaine partie.',
+    },
+    prompt: 'Design a bold transition slide that introduces the next section with minimal text and strong visuals.',
+  },
+  {
+    value: 'section_title',
+    labels: { en: 'Section Title', fr: 'Titre de section' },
+    descriptions: {
+      en: 'A title-only section opener: one strong heading, optional short kicker, no body content.',
+      fr: 'Une page titre seule, très stylisée, pour introduire une partie (pas de corps de texte).',
+    },
+    prompt: 'Create a section title slide: one strong title line, bold styling, optional short kicker/subtitle; no body content.',
+  },
+  {
+    value: 'dashboard',
+    labels: { en: 'Dashboard', fr: 'Dashboard' },
+    descriptions: {
+      en: 'Highlight metrics with charts and key figures using clear hierarchy, legends, and annotations.',
+      fr: 'Mets en scène des KPIs et graphiques percutants avec une hiérarchie nette.',
+    },
+    prompt: 'Create a data-rich dashboard with charts, key metrics, and calls-outs. Prioritize clarity, hierarchy, and legends.',
+  },
+  {
+    value: 'timeline',
+    labels: { en: 'Timeline', fr: 'Timeline' },
+    descriptions: {
+      en: 'Show milestones or a roadmap using a chronological visual flow.',
+      fr: 'Déroule des étapes dans le temps avec une frise élégante.',
+    },
+    prompt: 'Use a timeline or roadmap layout to communicate milestones, phases, or a chronological story. Labels must never overlap; stagger lanes, increase spacing, wrap text, or use callouts/leader lines to keep every label legible.',
+  },
+  {
+    value: 'process',
+    labels: { en: 'Process', fr: 'Process' },
+    descriptions: {
+      en: 'Break down a workflow into clear steps with brief descriptors and supporting icons.',
+      fr: 'Expose un workflow étape par étape avec pictos et micro-descriptions.',
+    },
+    prompt: 'Display a step-by-step process or workflow with numbered stages, icons, and short descriptions.',
+  },
+  {
+    value: 'explainer',
+    labels: { en: 'Explainer', fr: 'Explication' },
+    descriptions: {
+      en: 'Clarify a concept with a simplified diagram, labeled components, and short supporting text.',
+      fr: 'Clarifie un concept avec un schéma simple, des éléments annotés et un texte court.',
+    },
+    prompt: 'Explain a concept with a simplified diagram, labeled components, and brief supporting text.',
+  },
+  {
+    value: 'comparison',
+    labels: { en: 'Comparison', fr: 'Comparatif' },
+    descriptions: {
+      en: 'Compare options side-by-side with a visual layout that emphasises differentiators.',
+      fr: 'Compare des options côte à côte et souligne les différences majeures.',
+    },
+    prompt: 'Compare multiple options (e.g., plans, competitors) side-by-side using tables or cards and highlight key differences.',
+  },
+  {
+    value: 'problem_solution',
+    labels: { en: 'Problem / Solution', fr: 'Problème / Solution' },
+    descriptions: {
+      en: 'Frame the pain points, root causes, and proposed solution with clear outcomes.',
+      fr: 'Expose le problème, ses causes, puis la solution et l’impact attendu.',
+    },
+    prompt: 'Present the core problem, underlying causes, and the solution with clear outcomes or impact.',
+  },
+  {
+    value: 'feature_benefits',
+    labels: { en: 'Features & Benefits', fr: 'Fonctionnalités & bénéfices' },
+    descriptions: {
+      en: 'Map product features to user benefits using icon-driven callouts and short proof points.',
+      fr: 'Relie les fonctionnalités aux bénéfices via des callouts et preuves courtes.',
+    },
+    prompt: 'Map features to benefits using icon-led callouts and short proof points.',
+  },
+  {
+    value: 'persona',
+    labels: { en: 'Persona', fr: 'Persona' },
+    descriptions: {
+      en: 'Present the target audience with needs, pain points, and motivating context.',
+      fr: 'Dresse le portrait d’une audience cible avec besoins et pain points.',
+    },
+    prompt: 'Present a user persona with demographics, goals, pain points, and relevant context in a visually engaging layout.',
+  },
+  {
+    value: 'journey_map',
+    labels: { en: 'Journey Map', fr: 'Journey map' },
+    descriptions: {
+      en: 'Visualize stages, touchpoints, emotions, and opportunities across a user journey.',
+      fr: 'Visualise les étapes, touchpoints, émotions et opportunités d’un parcours.',
+    },
+    prompt: 'Visualize a user journey with stages, touchpoints, emotions, and opportunities.',
+  },
+  {
+    value: 'swot',
+    labels: { en: 'SWOT', fr: 'SWOT' },
+    descriptions: {
+      en: 'Structure strengths, weaknesses, opportunities, and threats into a balanced quadrant.',
+      fr: 'Analyse forces, faiblesses, opportunités et menaces avec un quadrillage soigné.',
+    },
+    prompt: 'Structure the slide around a SWOT analysis (Strengths, Weaknesses, Opportunities, Threats) with balanced emphasis on each quadrant.',
+  },
+  {
+    value: 'budget',
+    labels: { en: 'Budget', fr: 'Budget' },
+    descriptions: {
+      en: 'Explain costs or projections with tabular or chart-based visuals and clear highlights.',
+      fr: 'Présente allocations financières, projections et points d’attention.',
+    },
+    prompt: 'Show budget allocation, costs, or financial forecasts using tables/graphs and highlight the most important figures.',
+  },
+  {
+    value: 'risk_mitigation',
+    labels: { en: 'Risk & Mitigation', fr: 'Risques & mitigation' },
+    descriptions: {
+      en: 'List key risks with likelihood/impact and paired mitigation actions.',
+      fr: 'Liste les risques avec probabilité/impact et actions de mitigation.',
+    },
+    prompt: 'Highlight key risks with likelihood/impact and paired mitigation actions in a structured layout.',
+  },
+  {
+    value: 'case_study',
+    labels: { en: 'Case Study', fr: 'Cas client' },
+    descriptions: {
+      en: 'Tell a short story: context, approach, and measurable results.',
+      fr: 'Raconte le contexte, l’approche et les résultats mesurables.',
+    },
+    prompt: 'Tell a concise case study: context, approach, and measurable results.',
+  },
+  {
+    value: 'technology',
+    labels: { en: 'Technology', fr: 'Technologie' },
+    descriptions: {
+      en: 'Visualise the technical architecture, stack, or integrations with a diagram and callouts.',
+      fr: 'Visualise l’architecture ou la stack technique avec un schéma clair.',
+    },
+    prompt: 'Illustrate the technical architecture, stack, or integrations with diagrams, icons, and annotations.',
+  },
+  {
+    value: 'org_chart',
+    labels: { en: 'Org Chart', fr: 'Organigramme' },
+    descriptions: {
+      en: 'Show reporting structure with role blocks, hierarchy, and clear groupings.',
+      fr: 'Montre la hiérarchie avec rôles, équipes et liens de reporting.',
+    },
+    prompt: 'Show the organizational hierarchy with roles, teams, and clear reporting lines.',
+  },
+  {
+    value: 'cv_resume',
+    labels: { en: 'CV / Resume', fr: 'CV / Résumé' },
+    descriptions: {
+      en: 'Lay out a professional profile with summary, skills, experience, and education.',
+      fr: 'Structure profil, compétences, expériences, formation et contacts.',
+    },
+    prompt: 'Lay out a professional CV/resume with summary, skills, experience timeline, and education.',
+  },
+  {
+    value: 'funnel',
+    labels: { en: 'Funnel', fr: 'Funnel' },
+    descriptions: {
+      en: 'Show stage-by-stage conversion with drop-offs and key metrics.',
+      fr: 'Montre les étapes de conversion avec drop-offs et KPIs.',
+    },
+    prompt: 'Show conversion stages in a funnel with drop-offs and key metrics per stage.',
+  },
+  {
+    value: 'okr_goals',
+    labels: { en: 'OKRs / Goals', fr: 'OKRs / Objectifs' },
+    descriptions: {
+      en: 'Present objectives with measurable key results, owners, and timeframes.',
+      fr: 'Présente objectifs, key results, owners et échéances.',
+    },
+    prompt: 'Present objectives and key results with owners, metrics, and timeframes.',
+  },
+  {
+    value: 'quote',
+    labels: { en: 'Quote', fr: 'Citation' },
+    descriptions: {
+      en: 'Feature a powerful testimonial or statement with impactful typography and composition.',
+      fr: 'Met en lumière une punchline ou un témoignage puissant.',
+    },
+    prompt: 'Feature a powerful quote or testimonial with strong typography and supporting imagery.',
+  },
+  {
+    value: 'faq',
+    labels: { en: 'FAQ', fr: 'FAQ' },
+    descriptions: {
+      en: 'Answer recurring questions with a clean, scannable layout.',
+      fr: 'Réponds aux questions fréquentes avec une mise en page accessible.',
+    },
+    prompt: 'Provide a clear FAQ with the top questions and succinct answers, using an easy-to-scan layout.',
+  },
+  {
+    value: 'conclusion',
+    labels: { en: 'Conclusion', fr: 'Conclusion' },
+    descriptions: {
+      en: 'Summarise the key takeaways and reinforce the overarching message.',
+      fr: 'Synthétise les messages clés et prépare le terrain pour la suite.',
+    },
+    prompt: 'Summarize the key takeaways and reinforce the core message, optionally listing next steps.',
+  },
+  {
+    value: 'call_to_action',
+    labels: { en: 'Call to Action', fr: 'Call to action' },
+    descriptions: {
+      en: 'End with specific next steps and contact or follow-up details.',
+      fr: 'Termine avec des actions concrètes à mener et les contacts utiles.',
+    },
+    prompt: 'End with a compelling call to action using text emphasis and contact or follow-up details; avoid buttons or button-styled elements.',
+  },
+] as const satisfies readonly GenerationHintDefinition[];
+
+export type BuiltInGenerationHintValue = (typeof GENERATION_HINTS)[number]['value'];
+export type CustomGenerationHintValue = `custom:${string}`;
+export type GenerationHintValue = BuiltInGenerationHintValue | CustomGenerationHintValue;
+
+export const GENERATION_HINT_VALUES = GENERATION_HINTS.map((hint) => hint.value) as [
+  BuiltInGenerationHintValue,
+  ...BuiltInGenerationHintValue[],
+];
+
+export const GENERATION_HINT_CONFIDENCE = ['low', 'medium', 'high'] as const;
+export type GenerationHintConfidence = (typeof GENERATION_HINT_CONFIDENCE)[number];
+
+// Same text in every locale: custom hints are written in the team's own language
+export interface CustomGenerationHint {
+  // custom_generation_hints row id, absent when built from other data
+  id?: string;
+  value: CustomGenerationHintValue;
+  label: string;
+  description: string;
+  prompt: string;
+  // null when the hint is available in every deck of its owner
+  infographicId: string | null;
+}
+
+export const CUSTOM_HINT_PREFIX = 'custom:';
+// Mirrors the custom_generation_hints check constraints
+export const CUSTOM_HINT_LIMITS = { slug: 40, label: 60, description: 300, prompt: 1000 } as const;
+const CUSTOM_HINT_SLUG = /^[a-z0-9]+(?:_[a-z0-9]+)*$/;
+
+const hintsByValue = new Map<string, GenerationHintDefinition>(GENERATION_HINTS.map((hint) => [hint.value, hint]));
+
+export const isBuiltInGenerationHint = (value: string): value is BuiltInGenerationHintValue => hintsByValue.has(value);
+
+export const isCustomGenerationHint = (value: string): value is CustomGenerationHintValue =>
+  value.startsWith(CUSTOM_HINT_PREFIX) && CUSTOM_HINT_SLUG.test(value.slice(CUSTOM_HINT_PREFIX.length));
+
+export const findGenerationHint = (value: string): GenerationHintDefinition | undefined =>
+  hintsByValue.get(value.trim().toLowerCase());
+
+export const findCustomGenerationHint = (
+  value: string,
+  customHints: readonly CustomGenerationHint[],
+): CustomGenerationHint | undefined => {
+  const normalized = value.trim().toLowerCase();
+  return customHints.find((hint) => hint.value === normalized);
+};
+
+// Built-in hints and well-formed custom hints, lower-cased, deduplicated, in input order.
+// Custom values are kept even when their definition is gone so that saving a page never loses them.
+export const sanitizeGenerationHints = (hints: unknown): GenerationHintValue[] => {
+  if (!Array.isArray(hints)) return [];
+  const seen = new Set<GenerationHintValue>();
+  const result: GenerationHintValue[] = [];
+  for (const raw of hints) {
+    if (typeof raw !== 'string') continue;
+    const normalized = raw.trim().toLowerCase();
+    if ((isBuiltInGenerationHint(normalized) || isCustomGenerationHint(normalized)) && !seen.has(normalized)) {
+      seen.add(normalized);
+      result.push(normalized);
+    }
+  }
+  return result;
+};
+
+// "Pricing table" -> "pricing_table"; accents are dropped so French labels give readable slugs
+export const customHintSlug = (label: string): string =>
+  label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, CUSTOM_HINT_LIMITS.slug)
+    .replace(/_+$/, '');
+
+export type CustomGenerationHintValidation =
+  | { valid: true; value: { slug: string; label: string; description: string; prompt: string } }
+  | { valid: false; errors: string[] };
+
+// Checks the editor form before insert; the slug is derived from the label
+export function validateCustomGenerationHint(input: { label?: unknown; description?: unknown; prompt?: unknown }): CustomGenerationHintValidation {
+  const errors: string[] = [];
+  const label = typeof input.label === 'string' ? input.label.trim() : '';
+  const description = typeof input.description === 'string' ? input.description.trim() : '';
+  const prompt = typeof input.prompt === 'string' ? input.prompt.trim() : '';
+  const slug = customHintSlug(label);
+
+  if (!label) errors.push('label is required');
+  else if (label.length > CUSTOM_HINT_LIMITS.label) errors.push(`label must be at most ${CUSTOM_HINT_LIMITS.label} characters`);
+  else if (!slug) errors.push('label must contain at least one letter or digit');
+  if (description.length > CUSTOM_HINT_LIMITS.description) {
+    errors.push(`description must be at most ${CUSTOM_HINT_LIMITS.description} characters`);
+  }
+  if (!prompt) errors.push('prompt is required');
+  else if (prompt.length > CUSTOM_HINT_LIMITS.prompt) errors.push(`prompt must be at most ${CUSTOM_HINT_LIMITS.prompt} characters`);
+
+  return errors.length ? { valid: false, errors } : { valid: true, value: { slug, label, description, prompt } };
+}
+
+// custom_generation_hints rows -> hints usable in one deck; the deck-level row wins over the user-level one
+export function readCustomGenerationHints(rows: unknown): CustomGenerationHint[] {
+  if (!Array.isArray(rows)) return [];
+  const bySlug = new Map<string, CustomGenerationHint>();
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    const { id, slug, label, description, prompt, infographic_id: infographicId } = row as Record<string, unknown>;
+    if (typeof slug !== 'string' || !CUSTOM_HINT_SLUG.test(slug)) continue;
+    if (typeof label !== 'string' || typeof prompt !== 'string') continue;
+    const hint: CustomGenerationHint = {
+      ...(typeof id === 'string' ? { id } : {}),
+      value: `${CUSTOM_HINT_PREFIX}${slug}`,
+      label,
+      description: typeof description === 'string' ? description : '',
+      prompt,
+      infographicId: typeof infographicId === 'string' ? infographicId : null,
+    };
+    const existing = bySlug.get(slug);
+    if (!existing || (existing.infographicId === null && hint.infographicId !== null)) {
+      bySlug.set(slug, hint);
+    }
+  }
+  return Array.from(bySlug.values()).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+const humanizeHint = (hint: string) =>
+  hint
+    .replace(CUSTOM_HINT_PREFIX, '')
+    .split(/[_-]/g)
+    .filter(Boolean)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ') || hint;
+
+export const generationHintLabel = (
+  hint: string,
+  locale: GenerationHintLocale = 'en',
+  customHints: readonly CustomGenerationHint[] = [],
+): string =>
+  findGenerationHint(hint)?.labels[locale] ??
+  findCustomGenerationHint(hint, customHints)?.label ??
+  humanizeHint(hint.trim());
+
+export const generationHintDescription = (
+  hint: string,
+  locale: GenerationHintLocale = 'en',
+  customHints: readonly CustomGenerationHint[] = [],
+): string | undefined =>
+  findGenerationHint(hint)?.descriptions[locale] ?? (findCustomGenerationHint(hint, customHints)?.description || undefined);
+
+// One "- Label: instruction" line per hint; unknown values keep a generic emphasis instruction
+export const buildGenerationHintLines = (hints: string[], customHints: readonly CustomGenerationHint[] = []): string[] =>
+  hints
+    .filter((hint) => typeof hint === 'string' && hint.trim().length > 0)
+    .map((hint) => {
+      const definition = findGenerationHint(hint);
+      if (definition) return `- ${definition.labels.en}: ${definition.prompt}`;
+      const custom = findCustomGenerationHint(hint, customHints);
+      if (custom) return `- ${custom.label}: ${custom.prompt}`;
+      return `- ${humanizeHint(hint.trim().toLowerCase())}: Emphasize this theme prominently in the layout and narrative.`;
+    });
+
+// "- value: description" catalogue the suggestion model chooses from, custom hints last
+export const buildGenerationHintCatalogue = (
+  locale: GenerationHintLocale = 'en',
+  customHints: readonly CustomGenerationHint[] = [],
+): string =>
+  [
+    ...GENERATION_HINTS.map((hint) => `- ${hint.value}: ${hint.descriptions[locale]}`),
+    ...customHints.map((hint) => `- ${hint.value}: ${hint.label}${hint.description ? ` (${hint.description})` : ''}`),
+  ].join('\n');
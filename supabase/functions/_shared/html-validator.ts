@@ -0,0 +1,414 @@
+// Offline HTML checker for the queue worker's repair loop: a single-pass tokenizer that tracks open
+// elements the way an HTML5 parser does (void elements, optional end tags, raw text, SVG/MathML) and
+// reports parse errors, duplicate ids, unclosed elements and invalid nesting.
+// Messages use the Nu validator JSON shape (validator.w3.org/nu/?out=json) so the repair prompt and
+// the logs do not care which validator produced them. Dependency-free so it runs in Deno and in Node.
+
+export interface HtmlValidationMessage {
+  type: 'error';
+  message: string;
+  extract: string;
+  firstLine?: number;
+  lastLine: number;
+  firstColumn: number;
+  lastColumn: number;
+  hiliteStart: number;
+  hiliteLength: number;
+}
+
+export interface HtmlValidationResult {
+  valid: boolean;
+  errors: HtmlValidationMessage[];
+  allMessages: HtmlValidationMessage[];
+}
+
+export interface HtmlValidationOptions {
+  // The repair prompt only has room for so many; later errors are usually consequences of earlier ones
+  maxErrors?: number;
+}
+
+const DEFAULT_MAX_ERRORS = 50;
+const EXTRACT_CONTEXT = 30;
+
+const set = (...names: string[]) => new Set(names);
+
+const VOID_ELEMENTS = set(
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr', 'param',
+);
+// Content is text up to the matching end tag
+const RAW_TEXT_ELEMENTS = set('script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes');
+// May be left open: the parser closes them implicitly
+const OPTIONAL_END_TAGS = set(
+  'html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'rt', 'rp', 'optgroup', 'option', 'colgroup', 'caption',
+  'thead', 'tbody', 'tfoot', 'tr', 'td', 'th',
+);
+const HEADINGS = set('h1', 'h2', 'h3', 'h4', 'h5', 'h6');
+// Start tags that close an open <p>
+const CLOSES_P = set(
+  'address', 'article', 'aside', 'blockquote', 'details', 'dialog', 'div', 'dl', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'main', 'menu', 'nav', 'ol', 'p',
+  'pre', 'section', 'table', 'ul',
+);
+// Flow content that is not phrasing content
+const FLOW_ONLY = set(...CLOSES_P, 'li', 'dd', 'dt');
+// Elements whose content model is phrasing content only
+const PHRASING_ONLY = set(
+  'span', 'b', 'i', 'u', 's', 'em', 'strong', 'small', 'mark', 'abbr', 'cite', 'code', 'q', 'sub', 'sup', 'time',
+  'var', 'kbd', 'samp', 'label', 'button', 'legend', 'summary', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'dt',
+);
+const LIST_PARENTS = set('ul', 'ol', 'menu');
+const TABLE_PARTS = set('caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'td', 'th');
+const INTERACTIVE = set('a', 'button');
+// Implicitly closed when one of the keys opens and they are the current element
+const IMPLIED_END: Record<string, Set<string>> = {
+  li: set('li'),
+  dt: set('dt', 'dd'),
+  dd: set('dt', 'dd'),
+  tr: set('tr', 'td', 'th'),
+  td: set('td', 'th'),
+  th: set('td', 'th'),
+  thead: set('thead', 'tbody', 'tfoot', 'tr', 'td', 'th'),
+  tbody: set('thead', 'tbody', 'tfoot', 'tr', 'td', 'th'),
+  tfoot: set('thead', 'tbody', 'tfoot', 'tr', 'td', 'th'),
+  option: set('option'),
+  optgroup: set('option', 'optgroup'),
+  rt: set('rt', 'rp'),
+  rp: set('rt', 'rp'),
+};
+// An open <p> is not visible through these
+const BUTTON_SCOPE = set('html', 'table', 'td', 'th', 'caption', 'button', 'object', 'template', 'applet', 'marquee');
+const FOREIGN_ROOTS = set('svg', 'math');
+
+interface OpenElement {
+  name: string;
+  start: number;
+  end: number;
+}
+
+interface Attribute {
+  name: string;
+  value: string;
+}
+
+// Builds Nu-style messages for offsets into `html` (1-based lines and columns, extract around the offending range)
+export function createHtmlMessageFactory(html: string) {
+  const lineStarts = [0];
+  for (let i = 0; i < html.length; i++) {
+    if (html[i] === '\n') lineStarts.push(i + 1);
+  }
+  const locate = (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+  return (message: string, start: number, end: number): HtmlValidationMessage => {
+    const first = locate(start);
+    const last = locate(Math.max(start, end - 1));
+    const extractStart = Math.max(0, start - EXTRACT_CONTEXT);
+    return {
+      type: 'error',
+      message,
+      extract: html.slice(extractStart, Math.min(html.length, end + EXTRACT_CONTEXT)),
+      ...(first.line !== last.line ? { firstLine: first.line } : {}),
+      lastLine: last.line,
+      firstColumn: first.column,
+      lastColumn: last.column,
+      hiliteStart: start - extractStart,
+      hiliteLength: end - start,
+    };
+  };
+}
+
+export function validateHtmlLocally(html: string, options: HtmlValidationOptions = {}): HtmlValidationResult {
+  const maxErrors = options.maxErrors ?? DEFAULT_MAX_ERRORS;
+  const errors: HtmlValidationMessage[] = [];
+  const createMessage = createHtmlMessageFactory(html);
+  const report = (message: string, start: number, end: number) => {
+    if (errors.length < maxErrors) errors.push(createMessage(message, start, end));
+  };
+
+  const stack: OpenElement[] = [];
+  const ids = new Set<string>();
+  let seenDoctype = false;
+  let seenElement = false;
+  let foreignDepth = 0;
+
+  const isOpen = (name: string) => stack.some((element) => element.name === name);
+  const current = () => stack[stack.length - 1];
+  const popTo = (index: number) => {
+    const popped = stack.splice(index);
+    for (const element of popped) {
+      if (FOREIGN_ROOTS.has(element.name) && foreignDepth > 0) foreignDepth--;
+    }
+    return popped;
+  };
+  const pInButtonScope = () => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].name === 'p') return i;
+      if (BUTTON_SCOPE.has(stack[i].name)) return -1;
+    }
+    return -1;
+  };
+
+  const handleStartTag = (name: string, attributes: Attribute[], selfClosing: boolean, start: number, end: number) => {
+    if (!seenElement && !seenDoctype) {
+      report('Start tag seen without seeing a doctype first. Expected “<!DOCTYPE html>”.', start, end);
+    }
+    seenElement = true;
+
+    for (const attribute of attributes) {
+      if (attribute.name !== 'id') continue;
+      if (attribute.value === '') {
+        report(`Bad value “” for attribute “id” on element “${name}”: An ID must not be the empty string.`, start, end);
+      } else if (/\s/.test(attribute.value)) {
+        report(`Bad value “${attribute.value}” for attribute “id” on element “${name}”: An ID must not contain whitespace.`, start, end);
+      } else if (ids.has(attribute.value)) {
+        report(`Duplicate ID “${attribute.value}”.`, start, end);
+      } else {
+        ids.add(attribute.value);
+      }
+    }
+
+    // SVG and MathML follow XML-like rules: any element may self-close and HTML content models do not apply
+    if (foreignDepth > 0) {
+      if (!selfClosing) stack.push({ name, start, end });
+      if (!selfClosing && FOREIGN_ROOTS.has(name)) foreignDepth++;
+      return;
+    }
+
+    const implied = IMPLIED_END[name];
+    while (implied && stack.length && implied.has(current().name)) popTo(stack.length - 1);
+
+    if (CLOSES_P.has(name)) {
+      const p = pInButtonScope();
+      if (p >= 0) {
+        const unclosed = stack.slice(p + 1).filter((element) => !OPTIONAL_END_TAGS.has(element.name));
+        if (unclosed.length) report('End tag “p” implied, but there were open elements.', start, end);
+        popTo(p);
+      }
+    }
+
+    const parent = current();
+    if (HEADINGS.has(name) && parent && HEADINGS.has(parent.name)) {
+      report('Heading cannot be a child of another heading.', start, end);
+      popTo(stack.length - 1);
+    } else if (parent && FLOW_ONLY.has(name) && PHRASING_ONLY.has(parent.name)) {
+      report(`Element “${name}” not allowed as child of element “${parent.name}” in this context.`, start, end);
+    }
+
+    if (name === 'li' && !stack.some((element) => LIST_PARENTS.has(element.name))) {
+      report(`Element “li” not allowed as child of element “${parent?.name ?? 'body'}” in this context.`, start, end);
+    } else if (TABLE_PARTS.has(name) && !isOpen('table')) {
+      report(`Stray start tag “${name}”.`, start, end);
+    }
+    if (name === 'form' && isOpen('form')) {
+      report('Saw a “form” start tag, but there was already an active “form” element. Nested forms are not allowed.', start, end);
+    }
+    if (INTERACTIVE.has(name)) {
+      const ancestor = [...stack].reverse().find((element) => INTERACTIVE.has(element.name));
+      if (ancestor?.name === name && name === 'a') {
+        report('An “a” start tag seen but an element of the same type was already open.', start, end);
+      } else if (ancestor) {
+        report(`The element “${name}” must not appear as a descendant of the “${ancestor.name}” element.`, start, end);
+      }
+    }
+
+    if (VOID_ELEMENTS.has(name)) return;
+    if (selfClosing && !FOREIGN_ROOTS.has(name)) {
+      report('Self-closing syntax (“/>”) used on a non-void HTML element. Ignoring the slash and treating as a start tag.', start, end);
+    }
+    if (selfClosing && FOREIGN_ROOTS.has(name)) return;
+    stack.push({ name, start, end });
+    if (FOREIGN_ROOTS.has(name)) foreignDepth++;
+  };
+
+  const handleEndTag = (name: string, start: number, end: number) => {
+    if (foreignDepth === 0 && VOID_ELEMENTS.has(name)) {
+      report(name === 'br' ? 'End tag “br”.' : `Stray end tag “${name}”.`, start, end);
+      return;
+    }
+    let index = -1;
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (stack[i].name === name) {
+        index = i;
+        break;
+      }
+    }
+    if (index < 0) {
+      // html and body end tags are optional and harmless when their start tags were omitted
+      if (name === 'html' || name === 'body' || name === 'head') return;
+      report(name === 'p' ? 'No “p” element in scope but a “p” end tag seen.' : `Stray end tag “${name}”.`, start, end);
+      return;
+    }
+    const unclosed = stack
+      .slice(index + 1)
+      .filter((element) => foreignDepth > 0 || !OPTIONAL_END_TAGS.has(element.name));
+    if (unclosed.length) {
+      report(`End tag “${name}” seen, but there were open elements.`, start, end);
+      for (const element of unclosed) report(`Unclosed element “${element.name}”.`, element.start, element.end);
+    }
+    // </body> and </html> are followed by the end of the document; keep them open so nothing after is "stray"
+    if (name === 'body' || name === 'html') {
+      popTo(index + 1);
+      return;
+    }
+    popTo(index);
+  };
+
+  const nameChar = /[^\s/>]/;
+  const letter = /[a-zA-Z]/;
+  let i = 0;
+  while (i < html.length && errors.length < maxErrors) {
+    const lt = html.indexOf('<', i);
+    if (lt < 0) break;
+    const next = html[lt + 1] ?? '';
+
+    if (html.startsWith('<!--', lt)) {
+      const close = html.indexOf('-->', lt + 4);
+      if (close < 0) {
+        report('End of file inside comment.', lt, html.length);
+        i = html.length;
+        break;
+      }
+      i = close + 3;
+      continue;
+    }
+
+    if (next === '!') {
+      const close = html.indexOf('>', lt);
+      const end = close < 0 ? html.length : close + 1;
+      if (/^<!doctype/i.test(html.slice(lt, lt + 9))) {
+        if (seenElement || seenDoctype) report('Stray doctype.', lt, end);
+        else if (!/^<!doctype\s+html\s*>$/i.test(html.slice(lt, end))) {
+          report('Legacy doctype. Expected “<!DOCTYPE html>”.', lt, end);
+        }
+        seenDoctype = true;
+      } else if (!html.startsWith('<![CDATA[', lt) || foreignDepth === 0) {
+        report('Bogus comment.', lt, end);
+      }
+      i = end;
+      continue;
+    }
+
+    if (next === '?') {
+      const close = html.indexOf('>', lt);
+      const end = close < 0 ? html.length : close + 1;
+      report('Saw “<?”. Probable cause: Attempt to use an XML processing instruction in HTML. (XML processing instructions are not supported in HTML.)', lt, end);
+      i = end;
+      continue;
+    }
+
+    const isEndTag = next === '/';
+    const nameStart = isEndTag ? lt + 2 : lt + 1;
+    if (!letter.test(html[nameStart] ?? '')) {
+      if (isEndTag) {
+        report('Saw “</” not followed by a tag name.', lt, lt + 2);
+        i = lt + 2;
+      } else {
+        report('Bad character after “<”. Probable cause: Unescaped “<”. Try escaping it as “&lt;”.', lt, lt + 1);
+        i = lt + 1;
+      }
+      continue;
+    }
+
+    let cursor = nameStart;
+    while (cursor < html.length && nameChar.test(html[cursor])) cursor++;
+    const name = html.slice(nameStart, cursor).toLowerCase();
+
+    // Attributes
+    const attributes: Attribute[] = [];
+    let selfClosing = false;
+    let closed = false;
+    while (cursor < html.length) {
+      const char = html[cursor];
+      if (/\s/.test(char)) {
+        cursor++;
+        continue;
+      }
+      if (char === '>') {
+        closed = true;
+        cursor++;
+        break;
+      }
+      if (char === '/' && html[cursor + 1] === '>') {
+        selfClosing = true;
+        closed = true;
+        cursor += 2;
+        break;
+      }
+      if (char === '/') {
+        cursor++;
+        continue;
+      }
+      const attributeStart = cursor;
+      while (cursor < html.length && !/[\s/>=]/.test(html[cursor])) cursor++;
+      const attributeName = html.slice(attributeStart, cursor).toLowerCase();
+      while (cursor < html.length && /\s/.test(html[cursor])) cursor++;
+      let value = '';
+      if (html[cursor] === '=') {
+        cursor++;
+        while (cursor < html.length && /\s/.test(html[cursor])) cursor++;
+        const quote = html[cursor];
+        if (quote === '"' || quote === "'") {
+          const closeQuote = html.indexOf(quote, cursor + 1);
+          if (closeQuote < 0) {
+            cursor = html.length;
+            break;
+          }
+          value = html.slice(cursor + 1, closeQuote);
+          cursor = closeQuote + 1;
+        } else {
+          const valueStart = cursor;
+          while (cursor < html.length && !/[\s>]/.test(html[cursor])) cursor++;
+          value = html.slice(valueStart, cursor);
+        }
+      }
+      if (isEndTag) continue;
+      if (attributes.some((attribute) => attribute.name === attributeName)) {
+        report(`Duplicate attribute “${attributeName}”.`, attributeStart, cursor);
+      } else {
+        attributes.push({ name: attributeName, value });
+      }
+    }
+
+    if (!closed) {
+      report(`End of file reached when inside ${isEndTag ? 'an end' : 'a start'} tag.`, lt, html.length);
+      break;
+    }
+
+    if (isEndTag) {
+      if (selfClosing || attributes.length) report('End tag had attributes.', lt, cursor);
+      handleEndTag(name, lt, cursor);
+      i = cursor;
+      continue;
+    }
+
+    handleStartTag(name, attributes, selfClosing, lt, cursor);
+    i = cursor;
+
+    if (RAW_TEXT_ELEMENTS.has(name) && !selfClosing && foreignDepth === 0) {
+      const closeTag = new RegExp(`</${name}[\\s/>]`, 'ig');
+      closeTag.lastIndex = cursor;
+      const match = closeTag.exec(html);
+      if (!match) {
+        report('End of file seen when expecting text or an end tag.', lt, cursor);
+        i = html.length;
+        break;
+      }
+      i = match.index;
+    }
+  }
+
+  const unclosed = stack.filter((element) => !OPTIONAL_END_TAGS.has(element.name));
+  if (unclosed.length && i >= html.length) {
+    report('End of file seen and there were open elements.', Math.max(0, html.length - 1), html.length);
+    for (const element of unclosed) report(`Unclosed element “${element.name}”.`, element.start, element.end);
+  }
+
+  return { valid: errors.length === 0, errors, allMessages: errors };
+}
@@ -0,0 +1,120 @@
+// Minimal JSON Schema validator for LLM structured output.
+// Covers the subset our prompts use (the strict-mode subset of OpenAI structured outputs):
+// type, properties, required, additionalProperties, items, enum, const, anyOf/oneOf,
+// min/maxItems, min/maxLength, minimum/maximum. Unknown keywords are ignored.
+
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+const typeOf = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const describe = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+function collect(schema: unknown, value: unknown, path: string, issues: JsonSchemaIssue[]) {
+  if (!isRecord(schema)) return;
+  const at = path || '(root)';
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    const matches = variants.some((variant) => validateJsonSchema(variant, value).length === 0);
+    if (!matches) issues.push({ path: at, message: 'does not match any allowed shape' });
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type.map(String) : [String(schema.type)];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path: at, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return;
+    }
+  }
+
+  if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    issues.push({ path: at, message: `must equal ${describe(schema.const)}` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    issues.push({ path: at, message: `must be one of ${schema.enum.map(describe).join(', ')} (got ${describe(value)})` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issues.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issues.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path: at, message: `must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path: at, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (isRecord(schema.items)) {
+      value.forEach((item, index) => collect(schema.items, item, childPath(path, index), issues));
+    }
+  }
+
+  if (isRecord(value)) {
+    const properties = isRecord(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      schema.required.forEach((key) => {
+        if (typeof key === 'string' && !(key in value)) {
+          issues.push({ path: childPath(path, key), message: 'is required' });
+        }
+      });
+    }
+    Object.entries(value).forEach(([key, child]) => {
+      if (key in properties) {
+        collect(properties[key], child, childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: 'is not allowed' });
+      } else if (isRecord(schema.additionalProperties)) {
+        collect(schema.additionalProperties, child, childPath(path, key), issues);
+      }
+    });
+  }
+}
+
+// Returns every mismatch between value and schema; an empty list means the value is valid
+export function validateJsonSchema(schema: unknown, value: unknown): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  collect(schema, value, '', issues);
+  return issues;
+}
+
+export function formatJsonSchemaIssues(issues: JsonSchemaIssue[]): string {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n');
+}
@@ -0,0 +1,96 @@
+// Parse → validate → repair loop shared by every LLMProvider.generateJSON implementation.
+// Providers only supply `callOnce` (one model call returning raw text); this module turns the text into
+// a validated value, re-asking the model with the concrete errors when the output does not fit.
+
+import { formatJsonSchemaIssues, validateJsonSchema } from './json-schema.ts';
+import type { JsonSchemaIssue } from './json-schema.ts';
+import { LLMSchemaError } from './llm-types.ts';
+import type { LLMJsonDiagnostics, LLMJsonRequest, LLMJsonResult, LLMProviderKind } from './llm-types.ts';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+// Keeps the repair prompt bounded when the model answered with a whole HTML page
+const MAX_ECHOED_OUTPUT_CHARS = 20000;
+
+// Models in JSON mode sometimes wrap the object in a ```json fence or add a sentence around it
+const extractJsonText = (text: string) => {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced) return fenced[1];
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return trimmed;
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+};
+
+const check = <T>(request: LLMJsonRequest<T>, text: string): { value?: T; issues: JsonSchemaIssue[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonText(text));
+  } catch (e) {
+    return { issues: [{ path: '(root)', message: `is not valid JSON (${e instanceof Error ? e.message : String(e)})` }] };
+  }
+
+  if (request.validator) {
+    const result = request.validator.safeParse(parsed);
+    if (result.success) return { value: result.data, issues: [] };
+    return {
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+        message: issue.message,
+      })),
+    };
+  }
+
+  const issues = validateJsonSchema(request.schema, parsed);
+  return issues.length === 0 ? { value: parsed as T, issues } : { issues };
+};
+
+const buildRepairPrompt = (user: string, previousOutput: string, issues: JsonSchemaIssue[]) =>
+  [
+    user,
+    '',
+    'Your previous answer was:',
+    '---ANSWER START---',
+    previousOutput.length > MAX_ECHOED_OUTPUT_CHARS
+      ? `${previousOutput.slice(0, MAX_ECHOED_OUTPUT_CHARS)}\n[truncated]`
+      : previousOutput,
+    '---ANSWER END---',
+    '',
+    'It does not match the required JSON schema:',
+    formatJsonSchemaIssues(issues),
+    '',
+    'Return the corrected JSON object only. Keep every valid part of the previous answer unchanged.',
+  ].join('\n');
+
+export async function generateValidatedJSON<T>(
+  provider: LLMProviderKind,
+  request: LLMJsonRequest<T>,
+  callOnce: (user: string) => Promise<string>,
+): Promise<LLMJsonResult<T>> {
+  const maxRepairs = Math.max(0, request.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+  const diagnostics: LLMJsonDiagnostics = {
+    validatedWith: request.validator ? 'validator' : 'json-schema',
+    attempts: 0,
+    repaired: false,
+    issuesByAttempt: [],
+  };
+
+  let user = request.user;
+  let text = '';
+  while (diagnostics.attempts <= maxRepairs) {
+    text = await callOnce(user);
+    diagnostics.attempts += 1;
+
+    const { value, issues } = check(request, text);
+    diagnostics.issuesByAttempt.push(issues);
+    if (issues.length === 0) {
+      diagnostics.repaired = diagnostics.attempts > 1;
+      return { data: value as T, diagnostics };
+    }
+
+    console.warn(`${provider} ${request.schemaName} output failed validation (attempt ${diagnostics.attempts}):`, issues);
+    user = buildRepairPrompt(request.user, text, issues);
+  }
+
+  throw new LLMSchemaError(provider, diagnostics, text);
+}
@@ -0,0 +1,85 @@
+// Token prices used to turn recorded LLM usage into a cost estimate.
+// Pure module (no Deno APIs) so it can be unit tested; llm-usage.ts feeds it the LLM_PRICES override.
+//
+//   LLM_PRICES  JSON object of USD per million tokens, e.g. {"my-local-model": {"input": 0, "output": 0}}
+
+import type { LLMProviderKind } from './llm-types.ts';
+
+export interface LLMModelPrice {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+// Matched by longest prefix, so dated snapshots (gpt-4o-2024-08-06) inherit the family price
+export const DEFAULT_LLM_PRICES: Record<string, LLMModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+};
+
+const isPrice = (value: unknown): value is LLMModelPrice =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as LLMModelPrice).input === 'number' &&
+  typeof (value as LLMModelPrice).output === 'number' &&
+  (value as LLMModelPrice).input >= 0 &&
+  (value as LLMModelPrice).output >= 0;
+
+// Invalid entries are dropped with a warning rather than failing the call being recorded
+export function parseLLMPriceOverrides(raw: string | undefined): Record<string, LLMModelPrice> {
+  if (!raw || !raw.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    console.warn('Ignoring LLM_PRICES: not valid JSON');
+    return {};
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+
+  const prices: Record<string, LLMModelPrice> = {};
+  Object.entries(parsed as Record<string, unknown>).forEach(([model, price]) => {
+    if (isPrice(price)) {
+      prices[model.toLowerCase()] = { input: price.input, output: price.output };
+    } else {
+      console.warn(`Ignoring LLM_PRICES entry for "${model}": expected { input, output } numbers >= 0`);
+    }
+  });
+  return prices;
+}
+
+export function findLLMModelPrice(
+  model: string,
+  overrides: Record<string, LLMModelPrice> = {},
+): LLMModelPrice | null {
+  const name = model.toLowerCase();
+  const table = { ...DEFAULT_LLM_PRICES, ...overrides };
+  const match = Object.keys(table)
+    .filter((prefix) => name === prefix || name.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : null;
+}
+
+// Null means "unknown" (no token counts or no price for the model), which the rollups report separately
+export function estimateLLMCostUsd(
+  provider: LLMProviderKind,
+  model: string,
+  inputTokens: number | null,
+  outputTokens: number | null,
+  overrides: Record<string, LLMModelPrice> = {},
+): number | null {
+  if (provider === 'fake') return 0;
+  if (inputTokens === null && outputTokens === null) return null;
+  const price = findLLMModelPrice(model, overrides);
+  if (!price) return null;
+  const cost = ((inputTokens ?? 0) * price.input + (outputTokens ?? 0) * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,88 @@
+// Selects the LLM backend for an edge function from the environment.
+//
+//   LLM_PROVIDER        openai (default) | openai-compatible | fake
+//   LLM_BASE_URL        API root; defaults to https://api.openai.com/v1 (openai) or http://localhost:8080/v1
+//   LLM_API_KEY         falls back to OPENAI_API_KEY; required for `openai` only
+//   LLM_<ROLE>_MODEL    per-role model, falls back to OPENAI_<ROLE>_MODEL, then to the caller's default
+//   LLM_FAKE_RESPONSES  JSON object of canned answers keyed by schema name (fake provider only)
+
+import { OpenAIJsonClient } from './openai-json.ts';
+import { OpenAIChatClient } from './openai-chat.ts';
+import { FakeLLMProvider } from './fake-llm.ts';
+import type { LLMCallObserver, LLMProvider, LLMProviderKind } from './llm-types.ts';
+
+export * from './llm-types.ts';
+
+export type LLMRole = 'generation' | 'fix' | 'analysis';
+
+const PROVIDER_KINDS: LLMProviderKind[] = ['openai', 'openai-compatible', 'fake'];
+const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:8080/v1';
+
+const env = (name: string) => {
+  const value = Deno.env.get(name);
+  return value && value.trim() ? value.trim() : undefined;
+};
+
+export function getLLMProviderKind(): LLMProviderKind {
+  const raw = (env('LLM_PROVIDER') ?? 'openai').toLowerCase() as LLMProviderKind;
+  if (!PROVIDER_KINDS.includes(raw)) {
+    throw new Error(`Unknown LLM_PROVIDER "${raw}" (expected one of ${PROVIDER_KINDS.join(', ')})`);
+  }
+  return raw;
+}
+
+export function resolveLLMModel(role: LLMRole, fallback: string): string {
+  const suffix = `${role.toUpperCase()}_MODEL`;
+  return env(`LLM_${suffix}`) ?? env(`OPENAI_${suffix}`) ?? fallback;
+}
+
+// Null when the selected provider can be built, otherwise a message suitable for a 500 response
+export function getLLMConfigError(): string | null {
+  try {
+    const kind = getLLMProviderKind();
+    if (kind === 'openai' && !env('LLM_API_KEY') && !env('OPENAI_API_KEY')) {
+      return 'OpenAI API key not configured';
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+const readFakeResponses = (): Record<string, unknown> => {
+  const raw = env('LLM_FAKE_RESPONSES');
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    console.warn('Ignoring LLM_FAKE_RESPONSES: not valid JSON');
+    return {};
+  }
+};
+
+export type CreateLLMProviderOptions = {
+  // Receives usage and latency of every model call, e.g. a recorder from llm-usage.ts
+  onCall?: LLMCallObserver;
+};
+
+export function createLLMProvider(role: LLMRole, defaultModel: string, options: CreateLLMProviderOptions = {}): LLMProvider {
+  const kind = getLLMProviderKind();
+  const model = resolveLLMModel(role, defaultModel);
+  const apiKey = env('LLM_API_KEY') ?? env('OPENAI_API_KEY');
+  const { onCall } = options;
+
+  switch (kind) {
+    case 'openai':
+      return new OpenAIJsonClient({ apiKey: apiKey ?? '', baseUrl: env('LLM_BASE_URL'), defaultModel: model, onCall });
+    case 'openai-compatible':
+      return new OpenAIChatClient({
+        baseUrl: env('LLM_BASE_URL') ?? DEFAULT_COMPATIBLE_BASE_URL,
+        apiKey,
+        defaultModel: model,
+        onCall,
+      });
+    case 'fake':
+      return new FakeLLMProvider({ defaultModel: model, responses: readFakeResponses(), onCall });
+  }
+}
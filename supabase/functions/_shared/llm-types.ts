@@ -0,0 +1,153 @@
+// Provider-neutral contract for the LLM calls made by the edge functions.
+// Implementations: OpenAI Responses (openai-json.ts), Chat Completions-compatible servers
+// (openai-chat.ts) and a deterministic fake (fake-llm.ts). Pick one with createLLMProvider().
+
+import type { JsonSchemaIssue } from './json-schema.ts';
+
+export type LLMProviderKind = 'openai' | 'openai-compatible' | 'fake';
+
+export interface LLMTextMessage {
+  role: 'system' | 'user' | 'assistant';
+  text: string;
+}
+
+// Structural match for a zod schema, so callers can validate with zod without _shared depending on it
+export interface JsonValidator<T> {
+  safeParse(value: unknown):
+    | { success: true; data: T }
+    | { success: false; error: { issues: Array<{ path: Array<string | number>; message: string }> } };
+}
+
+export interface LLMJsonRequest<T = unknown> {
+  model?: string;
+  system?: string;
+  user: string;
+  schemaName: string;
+  schema: Record<string, unknown>;
+  strict?: boolean; // default true
+  maxOutputTokens?: number;
+  // Passed through as-is; providers that cannot run a tool drop it with a warning
+  tools?: Array<Record<string, unknown>>;
+  // Checked instead of `schema` when given; its parsed output (defaults, transforms) becomes `data`
+  validator?: JsonValidator<T>;
+  // Extra calls that send the validation errors back to the model (default 2, 0 disables)
+  maxRepairAttempts?: number;
+}
+
+export interface LLMJsonDiagnostics {
+  validatedWith: 'json-schema' | 'validator';
+  attempts: number; // 1 + repair calls
+  repaired: boolean;
+  issuesByAttempt: JsonSchemaIssue[][]; // one entry per attempt, empty for the accepted one
+}
+
+export interface LLMJsonResult<T> {
+  data: T;
+  diagnostics: LLMJsonDiagnostics;
+}
+
+export interface LLMTextRequest {
+  model?: string;
+  messages: LLMTextMessage[];
+  maxOutputTokens?: number;
+}
+
+// One HTTP round-trip to the model (repair attempts and fallbacks count separately), successful or not
+export interface LLMCallUsage {
+  provider: LLMProviderKind;
+  model: string;
+  inputTokens: number | null; // null when the server did not report usage
+  outputTokens: number | null;
+  latencyMs: number;
+  error: string | null;
+}
+
+// Called after every model call; see llm-usage.ts for the recorder that persists them
+export type LLMCallObserver = (usage: LLMCallUsage) => void | Promise<void>;
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly defaultModel: string;
+  generateJSON<T = unknown>(request: LLMJsonRequest<T>): Promise<LLMJsonResult<T>>;
+  generateText(request: LLMTextRequest): Promise<string>;
+}
+
+// Times `run` and reports it to the observer. Observer failures are logged, never surfaced to the caller.
+export async function observeLLMCall<T>(
+  observer: LLMCallObserver | undefined,
+  call: { provider: LLMProviderKind; model: string },
+  run: () => Promise<T>,
+  readUsage: (result: T) => { inputTokens: number | null; outputTokens: number | null },
+): Promise<T> {
+  if (!observer) return run();
+
+  const notify = async (usage: LLMCallUsage) => {
+    try {
+      await observer(usage);
+    } catch (error) {
+      console.error('LLM call observer failed:', error);
+    }
+  };
+
+  const startedAt = Date.now();
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await notify({
+      ...call,
+      inputTokens: null,
+      outputTokens: null,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  await notify({ ...call, ...readUsage(result), latencyMs: Date.now() - startedAt, error: null });
+  return result;
+}
+
+// The model declined to answer; retrying the same prompt will not help
+export class LLMRefusalError extends Error {
+  readonly provider: LLMProviderKind;
+  readonly detail: unknown;
+
+  constructor(provider: LLMProviderKind, detail: unknown) {
+    super(`${provider} refused the request: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`);
+    this.name = 'LLMRefusalError';
+    this.provider = provider;
+    this.detail = detail;
+  }
+}
+
+// The answer was cut short, usually by the output token limit
+export class LLMIncompleteError extends Error {
+  readonly provider: LLMProviderKind;
+  readonly reason: string;
+
+  constructor(provider: LLMProviderKind, reason: string) {
+    super(`${provider} response incomplete: ${reason}`);
+    this.name = 'LLMIncompleteError';
+    this.provider = provider;
+    this.reason = reason;
+  }
+}
+
+// The output still did not match the schema after every repair attempt
+export class LLMSchemaError extends Error {
+  readonly provider: LLMProviderKind;
+  readonly diagnostics: LLMJsonDiagnostics;
+  readonly lastOutput: string;
+
+  constructor(provider: LLMProviderKind, diagnostics: LLMJsonDiagnostics, lastOutput: string) {
+    const issues = diagnostics.issuesByAttempt[diagnostics.issuesByAttempt.length - 1] ?? [];
+    super(
+      `${provider} output did not match the schema after ${diagnostics.attempts} attempt(s): ` +
+        issues.slice(0, 5).map((issue) => `${issue.path} ${issue.message}`).join('; '),
+    );
+    this.name = 'LLMSchemaError';
+    this.provider = provider;
+    this.diagnostics = diagnostics;
+    this.lastOutput = lastOutput;
+  }
+}
@@ -0,0 +1,106 @@
+// Persists one `llm_calls` row per model call (tokens, latency, estimated cost) for the cost rollups.
+// Pass the recorder as `onCall` to createLLMProvider(); recording failures are logged and never fail the job.
+//
+//   LLM_PRICES                 price overrides, see llm-pricing.ts
+//   SUPABASE_SERVICE_ROLE_KEY  used by the user-facing functions to write their rows (see createCallerLLMCallRecorder)
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.53.0';
+import { estimateLLMCostUsd, parseLLMPriceOverrides } from './llm-pricing.ts';
+import type { LLMCallObserver, LLMCallUsage } from './llm-types.ts';
+import type { RequestUser } from './request-user.ts';
+
+// Mirrors the llm_calls.purpose check constraint
+export type LLMCallPurpose = 'generation' | 'repair' | 'rewrite' | 'suggest_hints' | 'suggest_style';
+
+export interface LLMCallContext {
+  userId: string;
+  purpose: LLMCallPurpose;
+  infographicId?: string | null;
+  pageId?: string | null;
+  queueId?: string | null;
+  repairIteration?: number | null;
+}
+
+const PRICE_OVERRIDES = parseLLMPriceOverrides(Deno.env.get('LLM_PRICES'));
+// Error messages can embed whole prompts or HTML; the rollups only need the gist
+const MAX_ERROR_CHARS = 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let serviceClient: SupabaseClient | null | undefined;
+const getServiceClient = () => {
+  if (serviceClient === undefined) {
+    const url = Deno.env.get('SUPABASE_URL');
+    const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    serviceClient = url && key ? createClient(url, key, { auth: { persistSession: false } }) : null;
+  }
+  return serviceClient;
+};
+
+const toRow = (context: LLMCallContext, usage: LLMCallUsage) => ({
+  user_id: context.userId,
+  infographic_id: context.infographicId ?? null,
+  infographic_page_id: context.pageId ?? null,
+  queue_id: context.queueId ?? null,
+  purpose: context.purpose,
+  repair_iteration: context.repairIteration ?? null,
+  provider: usage.provider,
+  model: usage.model,
+  input_tokens: usage.inputTokens,
+  output_tokens: usage.outputTokens,
+  latency_ms: Math.max(0, Math.round(usage.latencyMs)),
+  cost_usd: estimateLLMCostUsd(usage.provider, usage.model, usage.inputTokens, usage.outputTokens, PRICE_OVERRIDES),
+  success: usage.error === null,
+  error_message: usage.error ? usage.error.slice(0, MAX_ERROR_CHARS) : null,
+});
+
+// `client` is the worker's service-role client; the user-facing functions use createCallerLLMCallRecorder
+export function createLLMCallRecorder(client: SupabaseClient, context: LLMCallContext): LLMCallObserver {
+  return async (usage) => {
+    const { error } = await client.from('llm_calls').insert(toRow(context, usage));
+    if (error) {
+      console.error(`Failed to record ${context.purpose} LLM call:`, error);
+    }
+  };
+}
+
+// Deck and page ids of the user-facing functions come from the request: keep only those the caller owns
+const ownedLinks = async (client: SupabaseClient, userId: string, infographicId?: string | null, pageId?: string | null) => {
+  let ownedInfographicId: string | null = null;
+  let ownedPageId: string | null = null;
+  if (infographicId && UUID_PATTERN.test(infographicId)) {
+    const { data, error } = await client
+      .from('infographics')
+      .select('id')
+      .eq('id', infographicId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) console.error('Failed to check the deck of an LLM call:', error);
+    ownedInfographicId = data ? infographicId : null;
+  }
+  if (pageId && UUID_PATTERN.test(pageId)) {
+    const { data, error } = await client
+      .from('infographic_pages')
+      .select('id, infographics!inner(user_id)')
+      .eq('id', pageId)
+      .eq('infographics.user_id', userId)
+      .maybeSingle();
+    if (error) console.error('Failed to check the page of an LLM call:', error);
+    ownedPageId = data ? pageId : null;
+  }
+  if ((infographicId && !ownedInfographicId) || (pageId && !ownedPageId)) {
+    console.warn(`LLM call of user ${userId} names a deck or page they do not own; recording it without that link`);
+  }
+  return { infographicId: ownedInfographicId, pageId: ownedPageId };
+};
+
+// Recorder for the user-facing functions. Rows are written with the service role so no call escapes the
+// rollups and the token quota because an RLS check rejected its row; links the caller does not own are
+// dropped instead. Without the service role key it falls back to the caller's client.
+export async function createCallerLLMCallRecorder(
+  user: RequestUser,
+  context: Omit<LLMCallContext, 'userId' | 'queueId' | 'repairIteration'>,
+): Promise<LLMCallObserver> {
+  const client = getServiceClient() ?? user.client;
+  const links = await ownedLinks(client, user.id, context.infographicId, context.pageId);
+  return createLLMCallRecorder(client, { ...context, ...links, userId: user.id });
+}
@@ -0,0 +1,153 @@
+// Images embedded in page markdown (`![alt](url)`) are required visuals of the slide. Before generation the
+// queue worker resolves them: deck assets come with their stored size, other URLs are fetched once to check
+// that they load as an image and to read their size from the file header. Resolved images join the asset
+// manifest (so the generator and slide lint accept them); unreachable ones become image placeholders.
+
+import { type AssetManifestEntry, IMAGE_PLACEHOLDER_ATTRIBUTE, extractMarkdownImages } from './deck-assets.ts';
+
+// Bounds the requests made before a generation; later images are left out of the prompt
+export const MAX_MARKDOWN_IMAGES = 12;
+// Enough for the size of PNG, GIF and WebP files, and of nearly every JPEG (EXIF comes before the frame)
+export const IMAGE_PROBE_BYTES = 128 * 1024;
+
+export interface ProbedImage {
+  contentType: string;
+  // The start of the file; IMAGE_PROBE_BYTES are enough
+  bytes: Uint8Array;
+}
+
+export interface UnreachableMarkdownImage {
+  url: string;
+  alt: string;
+  reason: string;
+}
+
+export interface ResolvedMarkdownImages {
+  // The deck manifest followed by the reachable markdown images that are not deck assets; every image of the
+  // markdown is marked `required`
+  manifest: AssetManifestEntry[];
+  unreachable: UnreachableMarkdownImage[];
+}
+
+const be16 = (bytes: Uint8Array, at: number) => (bytes[at] << 8) | bytes[at + 1];
+const le16 = (bytes: Uint8Array, at: number) => bytes[at] | (bytes[at + 1] << 8);
+const le24 = (bytes: Uint8Array, at: number) => bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+const ascii = (bytes: Uint8Array, at: number, length: number) => String.fromCharCode(...bytes.subarray(at, at + length));
+
+function readJpegSize(bytes: Uint8Array): { width: number; height: number } | null {
+  let at = 2;
+  while (at + 9 < bytes.length) {
+    if (bytes[at] !== 0xff) return null;
+    const marker = bytes[at + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      at += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      at += 2;
+      continue;
+    }
+    // Start of frame (SOF0-SOF15, except DHT, JPG and DAC which share the range)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: be16(bytes, at + 5), width: be16(bytes, at + 7) };
+    }
+    at += 2 + be16(bytes, at + 2);
+  }
+  return null;
+}
+
+// Pixel size from the first bytes of a PNG, GIF, JPEG or WebP file; null for other formats (SVG, AVIF...)
+export function readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+  let size: { width: number; height: number } | null = null;
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG' && ascii(bytes, 12, 4) === 'IHDR') {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    size = { width: view.getUint32(16), height: view.getUint32(20) };
+  } else if (bytes.length >= 10 && ascii(bytes, 0, 4) === 'GIF8') {
+    size = { width: le16(bytes, 6), height: le16(bytes, 8) };
+  } else if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    size = readJpegSize(bytes);
+  } else if (bytes.length >= 30 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8 ') {
+      size = { width: le16(bytes, 26) & 0x3fff, height: le16(bytes, 28) & 0x3fff };
+    } else if (chunk === 'VP8L') {
+      const bits = bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24);
+      size = { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    } else if (chunk === 'VP8X') {
+      size = { width: le24(bytes, 24) + 1, height: le24(bytes, 27) + 1 };
+    }
+  }
+  return size && size.width > 0 && size.height > 0 ? size : null;
+}
+
+// Markdown URLs are written by hand: accept protocol-relative ones, refuse anything but http(s)
+const toImageUrl = (raw: string): string | null => {
+  try {
+    const url = new URL(raw.startsWith('//') ? `https:${raw}` : raw);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export async function resolveMarkdownImages(
+  markdown: string,
+  manifest: AssetManifestEntry[],
+  probeImage: (url: string) => Promise<ProbedImage>,
+): Promise<ResolvedMarkdownImages> {
+  const images = extractMarkdownImages(markdown ?? '');
+  const resolved = [...manifest];
+  const unreachable: UnreachableMarkdownImage[] = [];
+  const toProbe: { raw: string; url: string; alt: string }[] = [];
+
+  for (const { url: raw, alt } of images) {
+    const index = resolved.findIndex((entry) => entry.url === raw);
+    if (index >= 0) {
+      // The markdown may describe a deck asset that has no alt text yet
+      resolved[index] = { ...resolved[index], alt: resolved[index].alt || alt, required: true };
+      continue;
+    }
+    const url = toImageUrl(raw);
+    if (!url) {
+      unreachable.push({ url: raw, alt, reason: 'not an http(s) URL' });
+    } else if (toProbe.length >= MAX_MARKDOWN_IMAGES) {
+      unreachable.push({ url: raw, alt, reason: `more than ${MAX_MARKDOWN_IMAGES} images in the content` });
+    } else if (!toProbe.some((image) => image.url === url)) {
+      toProbe.push({ raw, url, alt });
+    }
+  }
+
+  const probed = await Promise.all(
+    toProbe.map(async ({ raw, url, alt }) => {
+      try {
+        const image = await probeImage(url);
+        if (!image.contentType.toLowerCase().startsWith('image/')) {
+          return { url: raw, alt, reason: `not an image (${image.contentType || 'no content type'})` };
+        }
+        const size = readImageSize(image.bytes);
+        return { url, alt, width: size?.width ?? null, height: size?.height ?? null, required: true };
+      } catch (error) {
+        return { url: raw, alt, reason: error instanceof Error ? error.message : String(error) };
+      }
+    }),
+  );
+  for (const result of probed) {
+    if ('reason' in result) unreachable.push(result);
+    else resolved.push(result);
+  }
+  return { manifest: resolved, unreachable };
+}
+
+// Prompt section for content images that cannot be shown; empty when every image resolved
+export function buildUnreachableImagesPrompt(unreachable: UnreachableMarkdownImage[]): string {
+  if (unreachable.length === 0) return '';
+  const lines = unreachable.map(
+    (image, index) => `${index + 1}. ${image.alt ? `"${image.alt.replace(/"/g, "'")}"` : 'untitled image'} (${image.url}): ${image.reason}`,
+  );
+  return `Content Images That Could Not Be Loaded:
+{{{
+${lines.join('\n')}
+}}}
+Do not use these URLs. Show each of these images as a placeholder block (\`<div ${IMAGE_PLACEHOLDER_ATTRIBUTE} role="img" aria-label="...">\`) captioned with its description, where the content places it.`;
+}
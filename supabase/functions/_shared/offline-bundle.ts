@@ -0,0 +1,272 @@
+// Offline bundle of a generated slide: pins the allow-listed CDN URLs to fixed versions and inlines every
+// script, stylesheet (with the fonts and images it references) and image they point to, so the slide
+// opens without network and never picks up a breaking `@latest`. Deck asset and markdown images are embedded
+// too when passed as `resourceUrls` (exact URLs) or `resourcePrefixes` (e.g. a storage folder). Assets are fetched through the caller's fetcher (the
+// bundle-offline edge function caches them). Dependency-free so it runs in Deno and in Node.
+
+import { ALLOWED_RESOURCE_PREFIXES } from './slide-lint.ts';
+
+// Versions the bundle pins, keyed by npm package (jsDelivr and unpkg URLs) or `tailwindcss` for the Play CDN
+export const PINNED_CDN_VERSIONS: Record<string, string> = {
+  tailwindcss: '3.4.16',
+  lucide: '0.469.0',
+  mathjax: '3.2.2',
+  'framer-motion': '11.11.17',
+  'chart.js': '4.4.7',
+  moment: '2.30.1',
+  'vis-data': '7.1.9',
+  'vis-timeline': '7.7.3',
+};
+
+// The CommonHTML output of MathJax downloads its web fonts at run time; the SVG output draws glyphs as paths
+const MATHJAX_OFFLINE_COMPONENTS: Record<string, string> = {
+  'tex-mml-chtml.js': 'tex-mml-svg.js',
+  'tex-chtml.js': 'tex-svg.js',
+  'mml-chtml.js': 'mml-svg.js',
+};
+
+// A data URL grows by a third; past this an image or script is left online
+export const MAX_INLINE_ASSET_BYTES = 8 * 1024 * 1024;
+
+export interface BundleAsset {
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+export type BundleAssetFetcher = (url: string) => Promise<BundleAsset>;
+
+// Reads a fetched asset, refusing it as soon as it passes the byte cap: a huge or endless response must
+// never be buffered whole
+export async function readAssetBytes(response: Response, limit = MAX_INLINE_ASSET_BYTES): Promise<Uint8Array> {
+  if (Number(response.headers.get('content-length')) > limit) {
+    await response.body?.cancel();
+    throw new Error(`larger than ${limit} bytes`);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new Error(`larger than ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+export interface OfflineBundleResult {
+  html: string;
+  // Pinned URLs now embedded in the HTML
+  inlined: string[];
+  // Allow-listed URLs that could not be embedded; they stay online
+  failed: { url: string; reason: string }[];
+}
+
+const PACKAGE_URL = /^https:\/\/(cdn\.jsdelivr\.net\/npm|unpkg\.com)\/((?:@[^/@]+\/)?[^/@?#]+)(?:@([^/?#]*))?(.*)$/i;
+const TAILWIND_URL = /^https:\/\/cdn\.tailwindcss\.com(?:\/[\d.]+)?\/?(\?.*)?$/i;
+const SCRIPT_TAG = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/gi;
+const LINK_TAG = /<link\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+const IMG_TAG = /<img\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi;
+const STYLE_BLOCK = /(<style\b[^>]*>)([\s\S]*?)(<\/style\s*>)/gi;
+const STYLE_ATTRIBUTE = /(\sstyle\s*=\s*)("([^"]*)"|'([^']*)')/gi;
+const CSS_URL = /url\(\s*(["']?)([^"')]+)\1\s*\)/gi;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+// Pins a CDN URL to the bundled version; other URLs are returned unchanged
+export function pinCdnUrl(url: string): string {
+  const normalized = url.trim().replace(/^\/\//, 'https://').replace(/^http:\/\//i, 'https://');
+  const tailwind = normalized.match(TAILWIND_URL);
+  if (tailwind) return `https://cdn.tailwindcss.com/${PINNED_CDN_VERSIONS.tailwindcss}${tailwind[1] ?? ''}`;
+
+  const match = normalized.match(PACKAGE_URL);
+  if (!match) return url.trim();
+  const [, host, pkg, , rest] = match;
+  const version = PINNED_CDN_VERSIONS[pkg.toLowerCase()];
+  if (!version) return url.trim();
+  let path = rest;
+  if (pkg.toLowerCase() === 'mathjax') {
+    path = path.replace(/[^/]+$/, (file) => MATHJAX_OFFLINE_COMPONENTS[file] ?? file);
+  }
+  return `https://${host}/${pkg}@${version}${path}`;
+}
+
+const parseAttributes = (source: string) => {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    if (!attributes.has(name)) attributes.set(name, match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const serializeAttributes = (attributes: Map<string, string>) =>
+  [...attributes].map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`)).join('');
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toDataUrl = (asset: BundleAsset) => `data:${asset.contentType.split(';')[0].trim() || 'application/octet-stream'};base64,${toBase64(asset.bytes)}`;
+
+const decodeText = (asset: BundleAsset) => new TextDecoder().decode(asset.bytes);
+
+// Script text that cannot end the inline <script> element early
+const escapeInlineScript = (code: string) => code.replace(/<\/script/gi, '<\\/script').replace(/<!--/g, '<\\!--');
+
+export async function bundleSlideOffline(
+  html: string,
+  fetchAsset: BundleAssetFetcher,
+  options: { resourcePrefixes?: readonly string[]; resourceUrls?: Iterable<string> } = {},
+): Promise<OfflineBundleResult> {
+  const resourcePrefixes = options.resourcePrefixes ?? [];
+  const resourceUrls = new Set(options.resourceUrls ?? []);
+  const isAllowed = (url: string) =>
+    ALLOWED_RESOURCE_PREFIXES.some((prefix) => url.toLowerCase().startsWith(prefix)) ||
+    resourcePrefixes.some((prefix) => url.startsWith(prefix)) ||
+    resourceUrls.has(url);
+  const assets = new Map<string, BundleAsset | null>();
+  const failed = new Map<string, string>();
+
+  const load = async (urls: Iterable<string>) => {
+    const pending = [...new Set(urls)].filter((url) => !assets.has(url));
+    await Promise.all(pending.map(async (url) => {
+      try {
+        const asset = await fetchAsset(url);
+        if (asset.bytes.length > MAX_INLINE_ASSET_BYTES) throw new Error(`larger than ${MAX_INLINE_ASSET_BYTES} bytes`);
+        assets.set(url, asset);
+      } catch (error) {
+        assets.set(url, null);
+        failed.set(url, error instanceof Error ? error.message : String(error));
+      }
+    }));
+  };
+  const cssUrls = (css: string, base?: string) =>
+    [...css.matchAll(CSS_URL)]
+      .map((match) => {
+        if (match[2].startsWith('data:')) return null;
+        try {
+          return pinCdnUrl(new URL(match[2], base).href);
+        } catch {
+          return null;
+        }
+      })
+      .filter((url): url is string => url !== null && isAllowed(url));
+  // Rewrites url() references to data URLs; relative ones resolve against the stylesheet they come from
+  const inlineCss = (css: string, base?: string) =>
+    css.replace(CSS_URL, (original, _quote: string, reference: string) => {
+      if (reference.startsWith('data:')) return original;
+      let url: string;
+      try {
+        url = pinCdnUrl(new URL(reference, base).href);
+      } catch {
+        return original;
+      }
+      const asset = assets.get(url);
+      return asset ? `url("${toDataUrl(asset)}")` : original;
+    });
+
+  // 1. Collect the allow-listed assets of the page
+  const scriptUrls: string[] = [];
+  for (const match of html.matchAll(SCRIPT_TAG)) {
+    const src = parseAttributes(match[1]).get('src');
+    if (src && isAllowed(pinCdnUrl(src))) scriptUrls.push(pinCdnUrl(src));
+  }
+  const stylesheetUrls: string[] = [];
+  for (const match of html.matchAll(LINK_TAG)) {
+    const attributes = parseAttributes(match[1]);
+    const href = attributes.get('href');
+    if (href && /\bstylesheet\b/i.test(attributes.get('rel') ?? '') && isAllowed(pinCdnUrl(href))) stylesheetUrls.push(pinCdnUrl(href));
+  }
+  const imageUrls: string[] = [];
+  for (const match of html.matchAll(IMG_TAG)) {
+    const src = parseAttributes(match[1]).get('src');
+    if (src && isAllowed(pinCdnUrl(src))) imageUrls.push(pinCdnUrl(src));
+  }
+  const inlineStyleUrls = [
+    ...[...html.matchAll(STYLE_BLOCK)].flatMap((match) => cssUrls(match[2])),
+    ...[...html.matchAll(STYLE_ATTRIBUTE)].flatMap((match) => cssUrls(match[3] ?? match[4] ?? '')),
+  ];
+
+  // 2. Fetch them, then what the stylesheets reference (fonts, images)
+  await load([...scriptUrls, ...stylesheetUrls, ...imageUrls, ...inlineStyleUrls]);
+  await load(stylesheetUrls.flatMap((url) => {
+    const asset = assets.get(url);
+    return asset ? cssUrls(decodeText(asset), url) : [];
+  }));
+
+  // 3. Replace the references
+  let bundled = html.replace(SCRIPT_TAG, (original, attributeSource: string, body: string) => {
+    const attributes = parseAttributes(attributeSource);
+    const src = attributes.get('src');
+    if (!src || !isAllowed(pinCdnUrl(src))) return original;
+    const asset = assets.get(pinCdnUrl(src));
+    if (!asset) {
+      // Left online, but never on a moving version again
+      attributes.set('src', pinCdnUrl(src));
+      return `<script${serializeAttributes(attributes)}>${body}</script>`;
+    }
+    attributes.delete('src');
+    // Inline classic scripts run in place; deferring them is not possible and not needed
+    attributes.delete('async');
+    attributes.delete('defer');
+    attributes.delete('integrity');
+    attributes.delete('crossorigin');
+    return `<script${serializeAttributes(attributes)}>${escapeInlineScript(decodeText(asset))}</script>`;
+  });
+  bundled = bundled.replace(STYLE_BLOCK, (_original, open: string, css: string, close: string) => `${open}${inlineCss(css)}${close}`);
+  bundled = bundled.replace(STYLE_ATTRIBUTE, (original, prefix: string, _quoted: string, double?: string, single?: string) => {
+    const css = double ?? single ?? '';
+    const inlined = inlineCss(css);
+    return inlined === css ? original : `${prefix}"${escapeAttribute(inlined)}"`;
+  });
+  bundled = bundled.replace(LINK_TAG, (original, attributeSource: string) => {
+    const attributes = parseAttributes(attributeSource);
+    const href = attributes.get('href');
+    if (!href || !/\bstylesheet\b/i.test(attributes.get('rel') ?? '')) return original;
+    const url = pinCdnUrl(href);
+    if (!isAllowed(url)) return original;
+    const asset = assets.get(url);
+    if (!asset) {
+      attributes.set('href', url);
+      return `<link${serializeAttributes(attributes)}>`;
+    }
+    const media = attributes.get('media');
+    return `<style${media ? ` media="${escapeAttribute(media)}"` : ''}>${inlineCss(decodeText(asset), url).replace(/<\/style/gi, '<\\/style')}</style>`;
+  });
+  bundled = bundled.replace(IMG_TAG, (original, attributeSource: string) => {
+    const attributes = parseAttributes(attributeSource);
+    const src = attributes.get('src');
+    const asset = src ? assets.get(pinCdnUrl(src)) : undefined;
+    if (!asset) return original;
+    attributes.set('src', toDataUrl(asset));
+    // The candidates would be fetched from the network instead of the embedded image
+    attributes.delete('srcset');
+    attributes.delete('sizes');
+    const selfClosing = /\/\s*$/.test(attributeSource) ? ' /' : '';
+    return `<img${serializeAttributes(attributes)}${selfClosing}>`;
+  });
+
+  return {
+    html: bundled,
+    inlined: [...assets].filter(([, asset]) => asset).map(([url]) => url),
+    failed: [...failed].map(([url, reason]) => ({ url, reason })),
+  };
+}
@@ -0,0 +1,161 @@
+// Chat Completions client for OpenAI-compatible servers (llama.cpp, vLLM, Ollama, LM Studio...).
+// This is the `openai-compatible` LLMProvider. No external dependencies.
+
+import { LLMIncompleteError, LLMRefusalError, observeLLMCall } from './llm-types.ts';
+import type { LLMCallObserver, LLMJsonRequest, LLMJsonResult, LLMProvider, LLMTextMessage, LLMTextRequest } from './llm-types.ts';
+import { generateValidatedJSON } from './llm-json.ts';
+
+interface ChatCompletionsRequest {
+  model: string;
+  messages: Array<{ role: LLMTextMessage['role']; content: string }>;
+  max_tokens?: number;
+  response_format?:
+    | { type: 'json_schema'; json_schema: { name: string; strict: boolean; schema: Record<string, unknown> } }
+    | { type: 'json_object' };
+  tools?: Array<Record<string, unknown>>;
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Servers that skip token accounting (some llama.cpp builds) simply leave the counts null
+const readUsage = (payload: Record<string, unknown>) => {
+  const usage = isRecord(payload.usage) ? payload.usage : {};
+  return {
+    inputTokens: typeof usage.prompt_tokens === 'number' ? usage.prompt_tokens : null,
+    outputTokens: typeof usage.completion_tokens === 'number' ? usage.completion_tokens : null,
+  };
+};
+
+export type OpenAIChatClientOptions = {
+  baseUrl: string; // e.g. http://localhost:8080/v1
+  apiKey?: string; // most self-hosted servers do not check it
+  defaultModel: string;
+  maxOutputTokens?: number;
+  onCall?: LLMCallObserver; // token usage and latency of every /chat/completions call
+};
+
+export class OpenAIChatClient implements LLMProvider {
+  readonly kind = 'openai-compatible' as const;
+  readonly defaultModel: string;
+  private apiKey: string | undefined;
+  private baseUrl: string;
+  private defaultMaxTokens: number | undefined;
+  private onCall: LLMCallObserver | undefined;
+
+  constructor(opts: OpenAIChatClientOptions) {
+    if (!opts?.baseUrl) throw new Error('OpenAI-compatible baseUrl is required');
+    this.baseUrl = opts.baseUrl.replace(/\/+$/, '');
+    this.apiKey = opts.apiKey;
+    this.defaultModel = opts.defaultModel;
+    this.defaultMaxTokens = opts.maxOutputTokens;
+    this.onCall = opts.onCall;
+  }
+
+  /** Low-level call to /chat/completions. Throws on non-2xx or non-JSON. */
+  async callChatCompletions(body: ChatCompletionsRequest): Promise<Record<string, unknown>> {
+    return observeLLMCall(this.onCall, { provider: this.kind, model: body.model }, () => this.postChatCompletions(body), readUsage);
+  }
+
+  private async postChatCompletions(body: ChatCompletionsRequest): Promise<Record<string, unknown>> {
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const raw = await res.text();
+    if (!res.ok) {
+      throw new Error(`Chat Completions API error (${res.status}): ${raw}`);
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (!isRecord(parsed)) throw new Error('Chat Completions API returned non-object JSON');
+      return parsed;
+    } catch {
+      throw new Error('Chat Completions API returned non-JSON payload');
+    }
+  }
+
+  /** Servers without grammar support reject json_schema; retry once in plain JSON mode. */
+  private async callWithFallback(body: ChatCompletionsRequest) {
+    try {
+      return await this.callChatCompletions(body);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message.toLowerCase() : '';
+      if (body.response_format?.type === 'json_schema' && (msg.includes('response_format') || msg.includes('schema'))) {
+        return await this.callChatCompletions({ ...body, response_format: { type: 'json_object' } });
+      }
+      throw e;
+    }
+  }
+
+  /** Returns the first choice's text, mapping refusals and truncation to typed errors. */
+  private readChoice(payload: Record<string, unknown>): string {
+    const choice = Array.isArray(payload.choices) && isRecord(payload.choices[0]) ? payload.choices[0] : null;
+    const message = choice && isRecord(choice.message) ? choice.message : null;
+    if (!choice || !message) throw new Error('No choices returned by the Chat Completions API');
+
+    if (typeof message.refusal === 'string' && message.refusal.trim()) {
+      throw new LLMRefusalError(this.kind, message.refusal);
+    }
+    if (choice.finish_reason === 'length') {
+      throw new LLMIncompleteError(this.kind, 'max_output_tokens');
+    }
+    if (choice.finish_reason === 'content_filter') {
+      throw new LLMRefusalError(this.kind, 'content_filter');
+    }
+
+    if (typeof message.content !== 'string' || !message.content.trim()) {
+      throw new Error('No response content returned by the Chat Completions API');
+    }
+    return message.content;
+  }
+
+  async generateJSON<T = unknown>(args: LLMJsonRequest<T>): Promise<LLMJsonResult<T>> {
+    const {
+      model = this.defaultModel,
+      system,
+      schemaName,
+      schema,
+      strict = true,
+      maxOutputTokens = this.defaultMaxTokens,
+      tools,
+    } = args;
+
+    // Only function tools exist in Chat Completions; hosted tools such as web_search are Responses-only
+    const functionTools = tools?.filter((tool) => tool.type === 'function') ?? [];
+    if (tools && functionTools.length < tools.length) {
+      console.warn('Dropping tools the Chat Completions API cannot run:', tools.filter((tool) => tool.type !== 'function'));
+    }
+
+    // Fenced or chatty JSON from local models is handled by generateValidatedJSON
+    return generateValidatedJSON(this.kind, args, async (user) => {
+      const body: ChatCompletionsRequest = {
+        model,
+        messages: [
+          ...(system ? [{ role: 'system' as const, content: system }] : []),
+          { role: 'user', content: user },
+        ],
+        ...(maxOutputTokens ? { max_tokens: Math.floor(maxOutputTokens) } : {}),
+        response_format: { type: 'json_schema', json_schema: { name: schemaName, strict, schema } },
+        ...(functionTools.length > 0 ? { tools: functionTools } : {}),
+      };
+      return this.readChoice(await this.callWithFallback(body));
+    });
+  }
+
+  async generateText(args: LLMTextRequest): Promise<string> {
+    const { model = this.defaultModel, messages, maxOutputTokens = this.defaultMaxTokens } = args;
+    const payload = await this.callChatCompletions({
+      model,
+      messages: messages.map((message) => ({ role: message.role, content: message.text })),
+      ...(maxOutputTokens ? { max_tokens: Math.floor(maxOutputTokens) } : {}),
+    });
+    return this.readChoice(payload);
+  }
+}
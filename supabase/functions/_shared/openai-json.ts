@@ -1,5 +1,10 @@
 // Lightweight OpenAI Responses client with schema-first JSON handling.
 // Works in Deno or Node (ESM). No external dependencies.
+// This is the `openai` LLMProvider; see llm-provider.ts for selecting another backend.
+
+import { LLMIncompleteError, LLMRefusalError, observeLLMCall } from './llm-types.ts';
+import type { LLMCallObserver, LLMJsonRequest, LLMJsonResult, LLMProvider, LLMTextRequest } from './llm-types.ts';
+import { generateValidatedJSON } from './llm-json.ts';
 
 export type MessageRole = 'system' | 'user' | 'assistant';
 
@@ -45,6 +50,7 @@ export interface OpenAIResponsePayload extends Record<string, unknown> {
   choices?: Array<Record<string, unknown>>;
   refusal?: Record<string, unknown>;
   error?: { message?: string; [k: string]: unknown };
+  usage?: { input_tokens?: number; output_tokens?: number; [k: string]: unknown };
 }
 
 /** ———————————————————————————————————————————————————————— */
@@ -126,6 +132,11 @@ const extractRefusal = (payload: unknown): Record<string, unknown> | null => {
   return null;
 };
 
+const readUsage = (payload: OpenAIResponsePayload) => ({
+  inputTokens: typeof payload.usage?.input_tokens === 'number' ? payload.usage.input_tokens : null,
+  outputTokens: typeof payload.usage?.output_tokens === 'number' ? payload.usage.output_tokens : null,
+});
+
 /** ———————————————————————————————————————————————————————— */
 /** Client                                                           */
 /** ———————————————————————————————————————————————————————— */
@@ -136,14 +147,17 @@ export type OpenAIJsonClientOptions = {
   defaultModel?: string; // e.g. 'gpt-4o-2024-08-06'
   fallbackModel?: string; // e.g. 'gpt-4o-mini-2024-07-18'
   maxOutputTokens?: number;
+  onCall?: LLMCallObserver; // token usage and latency of every /responses call
 };
 
-export class OpenAIJsonClient {
+export class OpenAIJsonClient implements LLMProvider {
+  readonly kind = 'openai' as const;
+  readonly defaultModel: string;
   private apiKey: string;
   private baseUrl: string;
-  private defaultModel: string;
   private fallbackModel: string | undefined;
   private defaultMaxTokens: number | undefined;
+  private onCall: LLMCallObserver | undefined;
 
   constructor(opts: OpenAIJsonClientOptions) {
     if (!opts?.apiKey) throw new Error('OpenAI apiKey is required');
@@ -152,10 +166,15 @@ export class OpenAIJsonClient {
     this.defaultModel = opts.defaultModel ?? 'gpt-4o-2024-08-06';
     this.fallbackModel = opts.fallbackModel ?? 'gpt-4o-mini-2024-07-18';
     this.defaultMaxTokens = opts.maxOutputTokens;
+    this.onCall = opts.onCall;
   }
 
   /** Low-level call to /responses with raw body. Throws on non-2xx or non-JSON. */
   async callResponses(body: ResponsesRequest): Promise<OpenAIResponsePayload> {
+    return observeLLMCall(this.onCall, { provider: this.kind, model: body.model }, () => this.postResponses(body), readUsage);
+  }
+
+  private async postResponses(body: ResponsesRequest): Promise<OpenAIResponsePayload> {
     const res = await fetch(`${this.baseUrl}/responses`, {
       method: 'POST',
       headers: {
@@ -214,24 +233,17 @@ export class OpenAIJsonClient {
     }
   }
 
-  /** High-level: get **structured JSON** according to your JSON Schema. */
-  async generateJSON<T = unknown>(args: {
-    model?: string;
-    system?: string;
-    user: string;
-    schemaName: string;
-    schema: Record<string, unknown>;
-    strict?: boolean; // default true
-    maxOutputTokens?: number;
+  /**
+   * High-level: get **structured JSON** according to your JSON Schema.
+   * The answer is validated (schema or `validator`) and repaired by the model when it does not fit.
+   */
+  async generateJSON<T = unknown>(args: LLMJsonRequest<T> & {
     // optional assistant turns / multi-turn
     messages?: Omit<Message, 'role'>[]; // additional content blocks merged after system/user
-    // optional tools passthrough (e.g., web_search)
-    tools?: Array<Record<string, unknown>>;
-  }): Promise<T> {
+  }): Promise<LLMJsonResult<T>> {
     const {
       model = this.defaultModel,
       system,
-      user,
       schemaName,
       schema,
       strict = true,
@@ -240,68 +252,59 @@ export class OpenAIJsonClient {
       tools,
     } = args;
 
-    const input: Message[] = [];
+    return generateValidatedJSON(this.kind, args, async (user) => {
+      const input: Message[] = [];
 
-    if (system) {
-      input.push({ role: 'system', content: [{ type: 'input_text', text: system }] });
-    }
+      if (system) {
+        input.push({ role: 'system', content: [{ type: 'input_text', text: system }] });
+      }
 
-    input.push({ role: 'user', content: [{ type: 'input_text', text: user }] });
+      input.push({ role: 'user', content: [{ type: 'input_text', text: user }] });
 
-    // Optional extra blocks (e.g., previous HTML, hints). They’ll be appended as assistant messages.
-    for (const block of messages) {
-      input.push({ role: 'assistant', content: block.content as InputContent[] });
-    }
+      // Optional extra blocks (e.g., previous HTML, hints). They’ll be appended as assistant messages.
+      for (const block of messages) {
+        input.push({ role: 'assistant', content: block.content as InputContent[] });
+      }
 
-    const body: ResponsesRequest = {
-      model,
-      input,
-      ...(maxOutputTokens ? { max_output_tokens: maxOutputTokens } : {}),
-      text: {
-        format: {
-          type: 'json_schema',
-          name: schemaName,
-          strict,
-          schema,
+      const body: ResponsesRequest = {
+        model,
+        input,
+        ...(maxOutputTokens ? { max_output_tokens: maxOutputTokens } : {}),
+        text: {
+          format: {
+            type: 'json_schema',
+            name: schemaName,
+            strict,
+            schema,
+          },
         },
-      },
-      ...(tools ? { tools } : {}),
-    };
+        ...(tools ? { tools } : {}),
+      };
 
-    const payload = await this.callWithFallback(body);
+      const payload = await this.callWithFallback(body);
 
-    if (payload?.status === 'incomplete') {
-      const reason = payload?.incomplete_details?.reason ?? 'unknown';
-      throw new Error(`OpenAI response incomplete: ${reason}`);
-    }
-
-    const refusal = extractRefusal(payload);
-    if (refusal) throw new Error(`OpenAI refused the request: ${JSON.stringify(refusal)}`);
+      if (payload?.status === 'incomplete') {
+        const reason = payload?.incomplete_details?.reason ?? 'unknown';
+        throw new LLMIncompleteError(this.kind, String(reason));
+      }
 
-    const text = extractResponseText(payload);
-    if (!text) throw new Error('No response content returned by OpenAI');
+      const refusal = extractRefusal(payload);
+      if (refusal) throw new LLMRefusalError(this.kind, refusal);
 
-    // When JSON mode fallback kicked in, model may return a JSON object as text.
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(text);
-    } catch (e) {
-      throw new Error(`Model did not return JSON-parsable text: ${String(e)}`);
-    }
-    return parsed as T;
+      const text = extractResponseText(payload);
+      if (!text) throw new Error('No response content returned by OpenAI');
+      // Parsed and checked by generateValidatedJSON, including text from the json_object fallback
+      return text;
+    });
   }
 
   /** High-level: get **plain text** completion. Useful for prompts without schema. */
-  async generateText(args: {
-    model?: string;
-    messages: Message[];
-    maxOutputTokens?: number;
-  }): Promise<string> {
+  async generateText(args: LLMTextRequest): Promise<string> {
     const { model = this.defaultModel, messages, maxOutputTokens = this.defaultMaxTokens } = args;
 
     const body: ResponsesRequest = {
       model,
-      input: messages,
+      input: messages.map((message) => ({ role: message.role, content: [{ type: 'input_text', text: message.text }] })),
       ...(maxOutputTokens ? { max_output_tokens: maxOutput_tokensToInt(maxOutputTokens) } : {}),
     };
 
@@ -309,11 +312,11 @@ export class OpenAIJsonClient {
 
     if (payload?.status === 'incomplete') {
       const reason = payload?.incomplete_details?.reason ?? 'unknown';
-      throw new Error(`OpenAI response incomplete: ${reason}`);
+      throw new LLMIncompleteError(this.kind, String(reason));
     }
 
     const refusal = extractRefusal(payload);
-    if (refusal) throw new Error(`OpenAI refused the request: ${JSON.stringify(refusal)}`);
+    if (refusal) throw new LLMRefusalError(this.kind, refusal);
 
     const text = extractResponseText(payload);
     if (!text) throw new Error('No response content returned by OpenAI');
@@ -0,0 +1,108 @@
+// Page layout templates: HTML skeletons whose content elements carry `data-slot="<name>"`.
+// The editor saves templates (from scratch or from a generated page) and the queue worker asks the
+// model to fill the slots from the page markdown instead of inventing a layout.
+// Dependency-free so it runs in Deno and in the browser.
+
+export const TEMPLATE_SLOT_ATTRIBUTE = 'data-slot';
+// Mirrors the page_templates check constraint; templates go into every generation prompt verbatim
+export const MAX_TEMPLATE_HTML_CHARS = 60_000;
+export const MAX_TEMPLATE_NAME_CHARS = 80;
+
+export interface PageTemplate {
+  id: string;
+  name: string;
+  description: string;
+  html: string;
+  slots: string[];
+}
+
+export type PageTemplateValidation =
+  | { valid: true; value: { name: string; description: string; html: string; slots: string[] } }
+  | { valid: false; errors: string[] };
+
+const SLOT_NAME = /^[a-z][a-z0-9_-]*$/;
+const SLOT_ATTRIBUTE = /\sdata-slot\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+// Elements whose text is slide content; containers (div, section, ul) are left to the layout
+const TEXT_ELEMENT = /<(h[1-6]|p|li|blockquote|figcaption|td|th|dt|dd)(\s[^>]*)?>/gi;
+
+// Slot names in document order, each once
+export function extractTemplateSlots(html: string): string[] {
+  const slots: string[] = [];
+  for (const match of html.matchAll(SLOT_ATTRIBUTE)) {
+    const name = (match[1] ?? match[2] ?? '').trim();
+    if (name && !slots.includes(name)) slots.push(name);
+  }
+  return slots;
+}
+
+// Marks the text elements of a generated page as slots so it can be saved as a template.
+// Existing slots are kept; new ones are named after the element (`title` for the first h1, then `h2_1`, `p_3`...).
+export function annotateTemplateSlots(html: string): string {
+  const taken = new Set(extractTemplateSlots(html));
+  const counters = new Map<string, number>();
+  const nextName = (tag: string) => {
+    if (tag === 'h1' && !taken.has('title')) return 'title';
+    let name: string;
+    do {
+      const count = (counters.get(tag) ?? 0) + 1;
+      counters.set(tag, count);
+      name = `${tag}_${count}`;
+    } while (taken.has(name));
+    return name;
+  };
+
+  return html.replace(TEXT_ELEMENT, (element, tagName: string, attributes = '') => {
+    if (/\sdata-slot\s*=/i.test(attributes)) return element;
+    const tag = tagName.toLowerCase();
+    const name = nextName(tag);
+    taken.add(name);
+    return `<${tagName}${attributes} ${TEMPLATE_SLOT_ATTRIBUTE}="${name}">`;
+  });
+}
+
+// Checks a template before insert; the slot list is derived from the HTML
+export function validatePageTemplate(input: { name?: unknown; description?: unknown; html?: unknown }): PageTemplateValidation {
+  const errors: string[] = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const description = typeof input.description === 'string' ? input.description.trim() : '';
+  const html = typeof input.html === 'string' ? input.html.trim() : '';
+  const slots = extractTemplateSlots(html);
+
+  if (!name) errors.push('name is required');
+  else if (name.length > MAX_TEMPLATE_NAME_CHARS) errors.push(`name must be at most ${MAX_TEMPLATE_NAME_CHARS} characters`);
+  if (!html) errors.push('html is required');
+  else if (html.length > MAX_TEMPLATE_HTML_CHARS) errors.push(`html must be at most ${MAX_TEMPLATE_HTML_CHARS} characters`);
+  else if (slots.length === 0) errors.push(`html must mark at least one content slot with ${TEMPLATE_SLOT_ATTRIBUTE}`);
+  const invalidSlots = slots.filter((slot) => !SLOT_NAME.test(slot));
+  if (invalidSlots.length) errors.push(`invalid slot names: ${invalidSlots.join(', ')}`);
+
+  return errors.length ? { valid: false, errors } : { valid: true, value: { name, description, html, slots } };
+}
+
+// Prompt section asking the generator to fill the template rather than design a new layout
+export function buildTemplatePrompt(template: Pick<PageTemplate, 'name' | 'html' | 'slots'>): string {
+  const slots = template.slots.length ? template.slots : extractTemplateSlots(template.html);
+  return `Layout Template "${template.name}" (fill it in instead of designing a new layout):
+{{{
+${template.html}
+}}}
+Content slots: ${slots.join(', ')}
+- Keep the template's document structure, classes, inline styles, scripts and CDN includes.
+- Replace the content of every element carrying a ${TEMPLATE_SLOT_ATTRIBUTE} attribute with the matching content of the page markdown; keep the attribute.
+- A slot that stands for one item of a list, grid or table may be repeated for each item of the content; remove slots the content has nothing for.
+- Only adapt the layout when the content cannot fit the template, and then stay as close to it as possible.`;
+}
+
+// page_templates row -> PageTemplate; the stored slot list is recomputed when missing
+export function readPageTemplate(row: unknown): PageTemplate | null {
+  if (!row || typeof row !== 'object') return null;
+  const { id, name, description, html, slots } = row as Record<string, unknown>;
+  if (typeof id !== 'string' || typeof name !== 'string' || typeof html !== 'string') return null;
+  return {
+    id,
+    name,
+    description: typeof description === 'string' ? description : '',
+    html,
+    slots: Array.isArray(slots) ? slots.filter((slot): slot is string => typeof slot === 'string') : extractTemplateSlots(html),
+  };
+}
@@ -0,0 +1,82 @@
+// Daily per-user quotas (see the user_quotas migration). The database is the source of truth:
+// inserting into generation_queue or ai_helper_requests raises SQLSTATE PT429 once a quota is used up.
+// This module turns that error into a structured 429 for the edge functions.
+
+import { getRequestUser, type RequestUser } from './request-user.ts';
+
+export type QuotaKind = 'generations' | 'rewrites' | 'tokens';
+
+export type AIHelperPurpose = 'rewrite' | 'suggest_hints' | 'suggest_style';
+
+export interface QuotaExceeded {
+  kind: QuotaKind;
+  limit: number;
+  used: number;
+  resetsAt: string; // ISO timestamp, next UTC midnight
+}
+
+// Raised by enforce_quota(); PostgREST maps PTxyz codes to HTTP status xyz
+export const QUOTA_EXCEEDED_CODE = 'PT429';
+
+export function readQuotaExceeded(error: { code?: string; details?: string | null } | null): QuotaExceeded | null {
+  if (!error || error.code !== QUOTA_EXCEEDED_CODE) return null;
+  try {
+    const detail = JSON.parse(error.details ?? '');
+    return {
+      kind: detail.kind,
+      limit: Number(detail.limit),
+      used: Number(detail.used),
+      resetsAt: new Date(detail.resets_at).toISOString(),
+    };
+  } catch {
+    console.warn('Quota error without a readable detail:', error);
+    return null;
+  }
+}
+
+// Records one AI helper request for the caller; returns the exhausted quota instead when it is refused
+export async function reserveAIHelperRequest(user: RequestUser, purpose: AIHelperPurpose): Promise<QuotaExceeded | null> {
+  const { error } = await user.client.from('ai_helper_requests').insert({ user_id: user.id, purpose });
+  if (!error) return null;
+  const quota = readQuotaExceeded(error);
+  if (quota) return quota;
+  throw new Error(`Failed to check quota: ${error.message}`);
+}
+
+export function quotaExceededResponse(quota: QuotaExceeded, headers: Record<string, string>): Response {
+  const retryAfterSeconds = Math.max(1, Math.ceil((new Date(quota.resetsAt).getTime() - Date.now()) / 1000));
+  return new Response(
+    JSON.stringify({
+      error: 'quota_exceeded',
+      message: `Daily ${quota.kind} quota reached (${quota.used}/${quota.limit})`,
+      quota,
+    }),
+    {
+      status: 429,
+      headers: { ...headers, 'Content-Type': 'application/json', 'Retry-After': String(retryAfterSeconds) },
+    },
+  );
+}
+
+const jsonError = (status: number, error: string, headers: Record<string, string>) =>
+  new Response(JSON.stringify({ error }), { status, headers: { ...headers, 'Content-Type': 'application/json' } });
+
+// Entry check of the AI helper functions: resolves the caller and takes one request from their quota.
+// Returns the 401/429/500 response to send back when the request must not reach the model.
+export async function admitAIHelperRequest(
+  req: Request,
+  purpose: AIHelperPurpose,
+  headers: Record<string, string>,
+): Promise<{ user: RequestUser; response?: undefined } | { user?: undefined; response: Response }> {
+  const user = await getRequestUser(req);
+  if (!user) return { response: jsonError(401, 'Authentication required', headers) };
+
+  try {
+    const quota = await reserveAIHelperRequest(user, purpose);
+    if (quota) return { response: quotaExceededResponse(quota, headers) };
+  } catch (error) {
+    console.error(`Quota check for ${purpose} failed:`, error);
+    return { response: jsonError(500, 'Quota check failed', headers) };
+  }
+  return { user };
+}
@@ -0,0 +1,28 @@
+// Resolves the signed-in caller of a user-facing edge function from its Authorization header.
+// The returned client acts as that user, so inserts and reads go through RLS.
+
+import { createClient, type SupabaseClient } from 'npm:@supabase/supabase-js@2.53.0';
+
+export interface RequestUser {
+  id: string;
+  client: SupabaseClient;
+}
+
+// Null when the request carries no valid user token (or Supabase is not configured)
+export async function getRequestUser(req: Request): Promise<RequestUser | null> {
+  const url = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  const authorization = req.headers.get('Authorization');
+  if (!url || !anonKey || !authorization) return null;
+
+  const client = createClient(url, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await client.auth.getUser();
+  if (error || !data?.user) {
+    console.warn('Could not resolve the calling user:', error?.message ?? 'no authenticated user');
+    return null;
+  }
+  return { id: data.user.id, client };
+}
@@ -0,0 +1,179 @@
+// Runtime validation of generated slides: loads the HTML in a headless Chrome and collects console errors,
+// uncaught exceptions and failed requests for the repair loop. Edge functions cannot launch a browser, so
+// puppeteer-core connects to one running elsewhere (browserless, `chrome --remote-debugging-port`...).
+//
+//   BROWSER_WS_ENDPOINT     DevTools websocket of the headless browser; runtime validation is skipped without it
+//   RUNTIME_ASSET_BASE_URL  optional stub CDN/asset server; every request of the slide is answered from
+//                           `<base>/<host><path>` instead of the network (see scripts/stub-asset-server.mjs).
+//                           Without it the page reaches the network, public hosts only (see safe-fetch.ts)
+//   RUNTIME_SETTLE_MS       time given to scripts (charts, icons) after the load event, defaults to 1500
+//   RUNTIME_TIMEOUT_MS      page load timeout, defaults to 15000
+
+import puppeteer, { type Page } from 'npm:puppeteer-core@22.12.1';
+import { assertPublicUrl } from './safe-fetch.ts';
+
+export interface RuntimeValidationMessage {
+  type: 'error';
+  subType: 'javascript' | 'exception' | 'loading';
+  message: string;
+  extract?: string;
+}
+
+export interface RuntimeValidationResult {
+  errors: RuntimeValidationMessage[];
+  // Why nothing was checked; the repair loop treats a skipped run as passing
+  skipped?: string;
+}
+
+export interface RuntimeValidatorConfig {
+  browserWSEndpoint: string | null;
+  assetBaseUrl: string | null;
+  settleMs: number;
+  timeoutMs: number;
+}
+
+// The fixer prompt has room for a handful; the first errors usually explain the rest
+const MAX_RUNTIME_ERRORS = 30;
+
+export function getRuntimeValidatorConfig(): RuntimeValidatorConfig {
+  return {
+    browserWSEndpoint: Deno.env.get('BROWSER_WS_ENDPOINT') || null,
+    assetBaseUrl: (Deno.env.get('RUNTIME_ASSET_BASE_URL') || '').replace(/\/+$/, '') || null,
+    settleMs: Math.max(0, Number(Deno.env.get('RUNTIME_SETTLE_MS') || 1500)),
+    timeoutMs: Math.max(1000, Number(Deno.env.get('RUNTIME_TIMEOUT_MS') || 15000)),
+  };
+}
+
+// Answers every http(s) request of the page from the stub asset server
+export async function routeThroughStubAssets(page: Page, assetBaseUrl: string) {
+  await page.setRequestInterception(true);
+  page.on('request', async (request) => {
+    const url = new URL(request.url());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      await request.continue();
+      return;
+    }
+    try {
+      const res = await fetch(`${assetBaseUrl}/${url.host}${url.pathname}${url.search}`);
+      await request.respond({
+        status: res.status,
+        contentType: res.headers.get('content-type') ?? 'application/octet-stream',
+        headers: { 'access-control-allow-origin': '*' },
+        body: new Uint8Array(await res.arrayBuffer()),
+      });
+    } catch (error) {
+      console.error('Stub asset server request failed:', url.href, error);
+      await request.abort('failed');
+    }
+  });
+}
+
+// Slides are user-editable HTML: without the stub server, abort every request (redirect hops included) whose
+// host is not public, so an <iframe> or <img> cannot load an internal service into the screenshot
+export async function blockNonPublicRequests(page: Page) {
+  await page.setRequestInterception(true);
+  const verdicts = new Map<string, Promise<boolean>>();
+  page.on('request', async (request) => {
+    const url = new URL(request.url());
+    if (url.protocol === 'data:' || url.protocol === 'blob:' || url.protocol === 'about:') {
+      await request.continue();
+      return;
+    }
+    if (!verdicts.has(url.origin)) {
+      verdicts.set(
+        url.origin,
+        assertPublicUrl(url).then(
+          () => true,
+          () => false,
+        ),
+      );
+    }
+    if (await verdicts.get(url.origin)) {
+      await request.continue();
+    } else {
+      console.warn('Blocked non-public request from slide:', url.origin);
+      await request.abort('blockedbyclient');
+    }
+  });
+}
+
+// Every request of the page goes either to the stub asset server or through the public host check
+export async function guardPageRequests(page: Page, config: RuntimeValidatorConfig) {
+  if (config.assetBaseUrl) await routeThroughStubAssets(page, config.assetBaseUrl);
+  else await blockNonPublicRequests(page);
+}
+
+export async function validateHtmlRuntime(
+  html: string,
+  config: RuntimeValidatorConfig = getRuntimeValidatorConfig(),
+): Promise<RuntimeValidationResult> {
+  if (!config.browserWSEndpoint) return { errors: [], skipped: 'BROWSER_WS_ENDPOINT is not set' };
+
+  let browser;
+  try {
+    browser = await puppeteer.connect({ browserWSEndpoint: config.browserWSEndpoint });
+  } catch (error) {
+    console.error('Headless browser unreachable, skipping runtime validation:', error);
+    return { errors: [], skipped: 'headless browser unreachable' };
+  }
+
+  const errors: RuntimeValidationMessage[] = [];
+  const seen = new Set<string>();
+  const report = (error: RuntimeValidationMessage) => {
+    const key = `${error.subType}|${error.message}|${error.extract ?? ''}`;
+    if (seen.has(key) || errors.length >= MAX_RUNTIME_ERRORS) return;
+    seen.add(key);
+    errors.push(error);
+  };
+
+  // A fresh context per draft so cache and storage never leak between slides sharing the browser
+  const context = await browser.createBrowserContext();
+  try {
+    const page = await context.newPage();
+    page.setDefaultTimeout(config.timeoutMs);
+
+    page.on('console', (message) => {
+      // Failed loads are reported once, with their URL, by the response/requestfailed handlers
+      if (message.type() !== 'error' || message.text().startsWith('Failed to load resource')) return;
+      report({ type: 'error', subType: 'javascript', message: `JavaScript console error: ${message.text()}` });
+    });
+    page.on('pageerror', (error) => {
+      report({ type: 'error', subType: 'exception', message: `Uncaught exception: ${error instanceof Error ? error.message : String(error)}` });
+    });
+    page.on('requestfailed', (request) => {
+      report({
+        type: 'error',
+        subType: 'loading',
+        message: `Failed to load resource: ${request.failure()?.errorText ?? 'request failed'}`,
+        extract: `URL: ${request.url()}`,
+      });
+    });
+    page.on('response', (response) => {
+      if (response.status() < 400) return;
+      report({
+        type: 'error',
+        subType: 'loading',
+        message: `Failed to load resource: the server responded with a status of ${response.status()}`,
+        extract: `URL: ${response.url()}`,
+      });
+    });
+
+    await guardPageRequests(page, config);
+
+    try {
+      await page.setContent(html, { waitUntil: 'load' });
+    } catch (error) {
+      // Slow CDNs are not the slide's fault; whatever failed by now is still reported
+      console.warn('Runtime validation page load did not finish:', error instanceof Error ? error.message : error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, config.settleMs));
+    return { errors };
+  } catch (error) {
+    console.error('Runtime validation failed unexpectedly:', error);
+    return { errors, skipped: errors.length ? undefined : 'runtime validation failed' };
+  } finally {
+    await context.close().catch(() => {});
+    // The browser is shared with other workers: leave it running
+    await browser.disconnect();
+  }
+}
@@ -0,0 +1,116 @@
+// Server-side fetches of URLs that come from users (markdown images, offline bundle assets). The host of
+// every request, redirects included, must resolve to public addresses only: no loopback, private,
+// link-local (cloud metadata), carrier-grade NAT or multicast ranges, so a page cannot make an edge
+// function read an internal service. Dependency-free; Deno.resolveDns is only used by the default resolver.
+
+export class UnsafeUrlError extends Error {}
+
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+const MAX_REDIRECTS = 5;
+const BLOCKED_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i;
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+};
+
+const isPrivateIPv4 = ([a, b]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  (a === 100 && b >= 64 && b <= 127) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b <= 31) ||
+  (a === 192 && b === 0) ||
+  (a === 192 && b === 168) ||
+  (a === 198 && (b === 18 || b === 19)) ||
+  a >= 224;
+
+// Expands an IPv6 address (with an optional embedded IPv4 tail) into its eight 16-bit groups
+const parseIPv6 = (address: string): number[] | null => {
+  let value = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '').toLowerCase();
+  const ipv4Tail = value.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (ipv4Tail) {
+    const octets = parseIPv4(ipv4Tail[1]);
+    if (!octets) return null;
+    value = `${value.slice(0, -ipv4Tail[1].length)}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const groups = parseIPv6(address);
+  // Not an IP address at all: refuse rather than guess
+  if (!groups) return true;
+  const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  if (groups.every((group) => group === 0)) return true;
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] === 1) return true;
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) addresses reach the embedded IPv4 address
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) carries the IPv4 address in the second and third groups
+  if (groups[0] === 0x2002) return isPrivateIPv4(embeddedIPv4(groups[1], groups[2]));
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local, fd00:ec2::254 metadata included
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+}
+
+const resolveWithDeno: HostResolver = async (hostname) => {
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')]);
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+};
+
+// Throws UnsafeUrlError unless the URL is http(s) and its host only resolves to public addresses
+export async function assertPublicUrl(url: string | URL, resolveHost: HostResolver = resolveWithDeno): Promise<URL> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new UnsafeUrlError(`Unsupported protocol ${parsed.protocol}`);
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (BLOCKED_HOSTNAME.test(hostname)) throw new UnsafeUrlError(`Host ${hostname} is not public`);
+
+  // The URL parser already normalised numeric forms such as http://2130706433/ to dotted IPv4
+  const isLiteral = parseIPv4(hostname) !== null || hostname.includes(':');
+  const addresses = isLiteral ? [hostname] : await resolveHost(hostname);
+  if (!addresses.length) throw new UnsafeUrlError(`Host ${hostname} does not resolve`);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked) {
+    // The message can reach prompts and reports: keep the internal address in the logs only
+    console.warn(`Refused ${hostname}: resolves to ${blocked}`);
+    throw new UnsafeUrlError(`Host ${hostname} is not public`);
+  }
+  return parsed;
+}
+
+// fetch() for user-supplied URLs: checks the host before the request and before following each redirect
+export async function fetchPublicUrl(
+  url: string,
+  init: RequestInit = {},
+  resolveHost: HostResolver = resolveWithDeno,
+): Promise<Response> {
+  let current = await assertPublicUrl(url, resolveHost);
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+    if (!location) return response;
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) throw new UnsafeUrlError(`Too many redirects from ${url}`);
+    current = await assertPublicUrl(new URL(location, current), resolveHost);
+  }
+}
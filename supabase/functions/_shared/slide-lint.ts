@@ -0,0 +1,239 @@
+// Project rules for generated slide HTML: the contracts the generation prompt lays down (no buttons,
+// allow-listed CDNs only, Chart.js canvases in `.chartjs-box`, the copyright footer, no external links)
+// checked over the parsed elements. Messages share the HTML validator shape plus the id of the rule,
+// so the repair loop can hand them to the fixer together with the markup errors.
+// Dependency-free so it runs in Deno and in the browser.
+
+import { type HtmlValidationMessage, createHtmlMessageFactory } from './html-validator.ts';
+
+export const COPYRIGHT_NOTICE = 'Presentation made by InfogrAIphics by P2Enjoy SAS - Copyright 2025';
+
+// The CDNs named in the generation prompt; images come from the deck's assets, passed to the lint as
+// `resourcePrefixes` since their URLs depend on the Supabase project
+export const ALLOWED_RESOURCE_PREFIXES = [
+  'https://cdn.tailwindcss.com',
+  'https://cdn.jsdelivr.net/npm/lucide@',
+  'https://cdn.jsdelivr.net/npm/mathjax@',
+  'https://cdn.jsdelivr.net/npm/framer-motion@',
+  'https://cdn.jsdelivr.net/npm/chart.js@',
+  'https://unpkg.com/moment@',
+  'https://unpkg.com/vis-data@',
+  'https://unpkg.com/vis-timeline@',
+  'https://unpkg.com/vis-timeline/',
+] as const;
+
+export const SLIDE_LINT_RULES = {
+  'no-buttons': 'No <button>, button roles, button inputs or links styled as buttons.',
+  'allowed-cdn': 'Scripts, stylesheets and CSS urls only come from the allow-listed CDNs, images only from the deck assets.',
+  'chartjs-box': 'Every Chart.js canvas is the direct child of a bounded-height .chartjs-box wrapper.',
+  'copyright-footer': `The page ends with a footer mentioning "${COPYRIGHT_NOTICE}".`,
+  'no-external-links': 'No links to external pages.',
+} as const;
+
+export type SlideLintRuleId = keyof typeof SLIDE_LINT_RULES;
+
+export interface SlideLintMessage extends HtmlValidationMessage {
+  rule: SlideLintRuleId;
+}
+
+export interface SlideLintReport {
+  valid: boolean;
+  errors: SlideLintMessage[];
+  rules: SlideLintRuleId[];
+}
+
+export const SLIDE_LINT_RULE_IDS = Object.keys(SLIDE_LINT_RULES) as SlideLintRuleId[];
+
+interface SlideElement {
+  name: string;
+  attributes: Record<string, string>;
+  // Offsets of the start tag
+  start: number;
+  end: number;
+  // Offset of the end tag, null when the element is void or never closed
+  contentEnd: number | null;
+  parent: SlideElement | null;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr', 'param',
+]);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+const TAG = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const CSS_URL = /url\(\s*(?:"([^"]*)"|'([^']*)'|([^)\s]*))\s*\)|@import\s+(?:"([^"]*)"|'([^']*)')/gi;
+const ABSOLUTE_URL = /^(?:https?:)?\/\//i;
+// Attributes that make the browser fetch something
+const RESOURCE_ATTRIBUTES: Record<string, string[]> = {
+  script: ['src'],
+  link: ['href'],
+  img: ['src', 'srcset'],
+  source: ['src', 'srcset'],
+  video: ['src', 'poster'],
+  audio: ['src'],
+  track: ['src'],
+  iframe: ['src'],
+  embed: ['src'],
+  object: ['data'],
+  image: ['href', 'xlink:href'],
+  use: ['href', 'xlink:href'],
+};
+
+function parseSlideElements(html: string): SlideElement[] {
+  const elements: SlideElement[] = [];
+  const stack: SlideElement[] = [];
+  TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG.exec(html))) {
+    if (match[2] === undefined) continue;
+    const name = match[2].toLowerCase();
+
+    if (match[1]) {
+      for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].name !== name) continue;
+        stack[i].contentEnd = match.index;
+        stack.length = i;
+        break;
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of match[3].matchAll(ATTRIBUTE)) {
+      const attributeName = attribute[1].toLowerCase();
+      if (!(attributeName in attributes)) {
+        attributes[attributeName] = attribute[2] ?? attribute[3] ?? attribute[4] ?? '';
+      }
+    }
+    const element: SlideElement = {
+      name,
+      attributes,
+      start: match.index,
+      end: TAG.lastIndex,
+      contentEnd: null,
+      parent: stack[stack.length - 1] ?? null,
+    };
+    elements.push(element);
+
+    if (VOID_ELEMENTS.has(name) || match[3].trimEnd().endsWith('/')) continue;
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = html.toLowerCase().indexOf(`</${name}`, TAG.lastIndex);
+      element.contentEnd = close < 0 ? html.length : close;
+      TAG.lastIndex = element.contentEnd;
+      continue;
+    }
+    stack.push(element);
+  }
+  return elements;
+}
+
+const innerHtml = (html: string, element: SlideElement) => html.slice(element.end, element.contentEnd ?? html.length);
+
+const textContent = (html: string, element: SlideElement) =>
+  innerHtml(html, element)
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;|&#160;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/[‐-―]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const classList = (element: SlideElement) => (element.attributes.class ?? '').split(/\s+/).filter(Boolean);
+
+const isAllowedResource = (url: string, resourcePrefixes: readonly string[]) => {
+  const normalized = url.trim().replace(/^\/\//, 'https://').replace(/^http:\/\//i, 'https://');
+  const lower = normalized.toLowerCase();
+  return ALLOWED_RESOURCE_PREFIXES.some((prefix) => lower.startsWith(prefix)) ||
+    // Storage URLs are case-sensitive and may be plain http in local development
+    resourcePrefixes.some((prefix) => url.trim().startsWith(prefix));
+};
+
+// Absolute URLs referenced by a srcset, a CSS block or a plain attribute
+const resourceUrls = (value: string, kind: 'attribute' | 'srcset' | 'css') => {
+  if (kind === 'srcset') return value.split(',').map((candidate) => candidate.trim().split(/\s+/)[0]).filter(Boolean);
+  if (kind === 'css') {
+    return [...value.matchAll(CSS_URL)].map((match) => match.slice(1).find((group) => group !== undefined) ?? '');
+  }
+  return [value];
+};
+
+const looksLikeButton = (element: SlideElement) => {
+  const classes = classList(element);
+  if (classes.some((name) => /^(btn|button)([-_].*)?$/i.test(name))) return true;
+  const hasBackground = classes.some((name) => /^(hover:)?bg-/.test(name));
+  const hasPadding = classes.some((name) => /^p[xy]?-/.test(name));
+  const isRounded = classes.some((name) => /^rounded/.test(name));
+  return hasBackground && hasPadding && isRounded;
+};
+
+// `resourcePrefixes` are allowed on top of the CDNs: the deck asset URLs (or their bucket)
+export function lintSlideHtml(html: string, options: { rules?: SlideLintRuleId[]; resourcePrefixes?: readonly string[] } = {}): SlideLintReport {
+  const rules = options.rules ?? SLIDE_LINT_RULE_IDS;
+  const resourcePrefixes = options.resourcePrefixes ?? [];
+  const enabled = new Set(rules);
+  const createMessage = createHtmlMessageFactory(html);
+  const errors: SlideLintMessage[] = [];
+  const report = (rule: SlideLintRuleId, message: string, start: number, end: number) => {
+    if (enabled.has(rule)) errors.push({ ...createMessage(message, start, end), rule });
+  };
+  const elements = parseSlideElements(html);
+
+  const usesChartJs = elements.some((element) =>
+    element.name === 'script' &&
+    (/chart(\.umd)?(\.min)?\.js|npm\/chart\.js@/i.test(element.attributes.src ?? '') || /new\s+Chart\s*\(/.test(innerHtml(html, element)))
+  );
+
+  for (const element of elements) {
+    const { name, attributes, start, end } = element;
+
+    if (name === 'button') {
+      report('no-buttons', 'Buttons are not allowed on a slide: replace the “button” element with static text.', start, end);
+    } else if (attributes.role?.toLowerCase() === 'button') {
+      report('no-buttons', `Element “${name}” has role “button”: slides must not contain button-like elements.`, start, end);
+    } else if (name === 'input' && /^(button|submit|reset|image)$/i.test(attributes.type ?? '')) {
+      report('no-buttons', `Input of type “${attributes.type}” is a button: slides must not contain button-like elements.`, start, end);
+    } else if (name === 'a' && looksLikeButton(element)) {
+      report('no-buttons', 'Link styled as a button: remove the button styling (background, padding, rounded corners) or the link.', start, end);
+    }
+
+    for (const attribute of RESOURCE_ATTRIBUTES[name] ?? []) {
+      const value = attributes[attribute];
+      if (!value) continue;
+      for (const url of resourceUrls(value, attribute === 'srcset' ? 'srcset' : 'attribute')) {
+        if (ABSOLUTE_URL.test(url) && !isAllowedResource(url, resourcePrefixes)) {
+          report('allowed-cdn', name === 'img' || name === 'source' || name === 'image'
+            ? `Image “${url}” is not one of the deck assets: use an image from the asset list or an image placeholder.`
+            : `Resource “${url}” is not loaded from an allowed CDN; use one of: ${ALLOWED_RESOURCE_PREFIXES.join(', ')}.`, start, end);
+        }
+      }
+    }
+    const css = [attributes.style ?? '', name === 'style' ? innerHtml(html, element) : ''].join('\n');
+    for (const url of resourceUrls(css, 'css')) {
+      if (ABSOLUTE_URL.test(url) && !isAllowedResource(url, resourcePrefixes)) {
+        report('allowed-cdn', `CSS resource “${url}” is not loaded from an allowed CDN or the deck assets; inline it or remove it.`, start, end);
+      }
+    }
+
+    if (name === 'canvas' && usesChartJs && !(element.parent && classList(element.parent).includes('chartjs-box'))) {
+      report('chartjs-box', 'Chart.js canvas must be the direct child of a bounded-height “.chartjs-box” wrapper.', start, end);
+    }
+
+    const target = name === 'a' || name === 'area' ? attributes.href : name === 'form' ? attributes.action : undefined;
+    if (target && ABSOLUTE_URL.test(target.trim())) {
+      report('no-external-links', `External link to “${target.trim()}” is not allowed on a slide: keep the text and remove the link.`, start, end);
+    }
+  }
+
+  const footers = elements.filter((element) => element.name === 'footer');
+  const notice = COPYRIGHT_NOTICE.toLowerCase();
+  if (footers.length === 0) {
+    const body = elements.find((element) => element.name === 'body');
+    const at = body?.contentEnd ?? html.length;
+    report('copyright-footer', `Missing footer: the page must end with a <footer> mentioning “${COPYRIGHT_NOTICE}”.`, Math.max(0, at - 1), at);
+  } else if (!footers.some((footer) => textContent(html, footer).toLowerCase().includes(notice))) {
+    const footer = footers[footers.length - 1];
+    report('copyright-footer', `The footer must mention “${COPYRIGHT_NOTICE}”.`, footer.start, footer.end);
+  }
+
+  return { valid: errors.length === 0, errors, rules };
+}
@@ -0,0 +1,187 @@
+// Rendered slide for the PPTX export: screenshots of a generated page plus the headings and bullet lists
+// that can become editable PowerPoint text boxes. The render-slide edge function produces it in the
+// headless browser of the runtime validation (slide-renderer.ts); the editor turns it into a slide (src/lib/pptx.ts).
+// Dependency-free; `readSlideTextBlocks` runs inside the rendered page, so it may not use anything outside itself.
+
+export const SLIDE_RENDER_WIDTH = 1280;
+export const SLIDE_RENDER_HEIGHT = 720;
+
+export interface SlideTextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  // `#rrggbb`
+  color: string;
+  // CSS pixels
+  fontSize: number;
+  // Line break before the run (`<br>`)
+  breakBefore?: boolean;
+}
+
+export interface SlideTextParagraph {
+  runs: SlideTextRun[];
+  // CSS pixels between this paragraph and the previous one
+  spaceBefore: number;
+}
+
+export interface SlideTextBlock {
+  kind: 'heading' | 'list';
+  // Position in CSS pixels of the rendered page
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Bullet style of list items; `none` when the list hides its markers
+  marker: 'bullet' | 'number' | 'none';
+  // List indent (marker area) in CSS pixels
+  indent: number;
+  align: 'left' | 'center' | 'right' | 'justify';
+  fontFamily: string | null;
+  // Line height as a multiple of the font size
+  lineHeight: number;
+  paragraphs: SlideTextParagraph[];
+}
+
+export interface SlideRender {
+  width: number;
+  height: number;
+  // PNG screenshot of the whole page, base64
+  image: string;
+  // PNG screenshot with the text of `blocks` hidden, base64; null when no text could be kept editable
+  background: string | null;
+  blocks: SlideTextBlock[];
+}
+
+// Collects the headings and lists whose text is plain enough to rebuild as PowerPoint text, then makes
+// their text transparent (backgrounds and borders stay) so the background screenshot can go under them.
+// Elements with icons, transforms, clipped gradient text or partial opacity stay in the picture.
+export function readSlideTextBlocks(): SlideTextBlock[] {
+  const INLINE_TAGS = new Set(['SPAN', 'STRONG', 'B', 'EM', 'I', 'A', 'CODE', 'MARK', 'SMALL', 'SUB', 'SUP', 'U', 'BR', 'ABBR', 'TIME']);
+  const GENERIC_FONTS = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif', 'ui-monospace']);
+
+  const toHex = (color: string): string | null => {
+    const match = color.match(/rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)(?:[,\s/]+([\d.]+%?))?/);
+    if (!match) return null;
+    const alpha = match[4] === undefined ? 1 : match[4].endsWith('%') ? parseFloat(match[4]) / 100 : parseFloat(match[4]);
+    if (alpha < 0.5) return null;
+    return `#${[match[1], match[2], match[3]].map((value) => Number(value).toString(16).padStart(2, '0')).join('')}`;
+  };
+
+  const isPlain = (element: Element): boolean =>
+    Array.from(element.children).every((child) => INLINE_TAGS.has(child.tagName) && isPlain(child));
+
+  const isRendered = (element: Element): boolean => {
+    for (let node: Element | null = element; node; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.display === 'none' || style.visibility !== 'visible') return false;
+      if (Number(style.opacity) < 0.99 || style.transform !== 'none' || style.filter !== 'none') return false;
+    }
+    return true;
+  };
+
+  const hasClippedText = (element: Element): boolean =>
+    [element, ...Array.from(element.querySelectorAll('*'))].some((node) => {
+      const style = getComputedStyle(node);
+      return style.backgroundClip === 'text' || style.getPropertyValue('-webkit-background-clip') === 'text';
+    });
+
+  const readRuns = (element: Element): SlideTextRun[] | null => {
+    const runs: SlideTextRun[] = [];
+    let breakBefore = false;
+    const walk = (node: Node) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType === Node.TEXT_NODE) {
+          const text = (child.textContent ?? '').replace(/\s+/g, ' ');
+          if (!text.trim() && !runs.length) continue;
+          const style = getComputedStyle(child.parentElement ?? element);
+          const color = toHex(style.color);
+          if (!color) throw new Error('transparent text');
+          runs.push({
+            text,
+            bold: Number(style.fontWeight) >= 600,
+            italic: style.fontStyle === 'italic',
+            color,
+            fontSize: parseFloat(style.fontSize),
+            ...(breakBefore ? { breakBefore: true } : {}),
+          });
+          breakBefore = false;
+        } else if (child instanceof Element) {
+          if (child.tagName === 'BR') breakBefore = true;
+          else walk(child);
+        }
+      }
+    };
+    try {
+      walk(element);
+    } catch {
+      return null;
+    }
+    if (runs.length) {
+      runs[0].text = runs[0].text.trimStart();
+      runs[runs.length - 1].text = runs[runs.length - 1].text.trimEnd();
+    }
+    return runs.some((run) => run.text.trim()) ? runs : null;
+  };
+
+  const toBlock = (element: Element, kind: SlideTextBlock['kind'], paragraphs: SlideTextParagraph[]): SlideTextBlock => {
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    const family = style.fontFamily.split(',')[0].trim().replace(/^["']|["']$/g, '');
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const lineHeight = style.lineHeight === 'normal' ? 1.2 : parseFloat(style.lineHeight) / fontSize;
+    const listStyle = style.listStyleType;
+    return {
+      kind,
+      x: rect.left + window.scrollX,
+      y: rect.top + window.scrollY,
+      width: rect.width,
+      height: rect.height,
+      marker: kind === 'heading' || listStyle === 'none' ? 'none' : /decimal|alpha|roman/.test(listStyle) ? 'number' : 'bullet',
+      indent: kind === 'list' ? parseFloat(style.paddingLeft) || 0 : 0,
+      align: (['center', 'right', 'justify'].includes(style.textAlign) ? style.textAlign : 'left') as SlideTextBlock['align'],
+      fontFamily: family && !GENERIC_FONTS.has(family.toLowerCase()) ? family : null,
+      lineHeight: Number.isFinite(lineHeight) && lineHeight > 0 ? lineHeight : 1.2,
+      paragraphs,
+    };
+  };
+
+  const blocks: SlideTextBlock[] = [];
+  const hidden: HTMLElement[] = [];
+
+  for (const heading of Array.from(document.querySelectorAll('h1, h2, h3, h4'))) {
+    if (!isPlain(heading) || !isRendered(heading) || hasClippedText(heading) || heading.closest('ul, ol, svg, table')) continue;
+    const runs = readRuns(heading);
+    if (!runs) continue;
+    blocks.push(toBlock(heading, 'heading', [{ runs, spaceBefore: 0 }]));
+    hidden.push(heading as HTMLElement);
+  }
+
+  for (const list of Array.from(document.querySelectorAll('ul, ol'))) {
+    if (list.parentElement?.closest('ul, ol, svg, table, nav')) continue;
+    const items = Array.from(list.children);
+    if (!items.length || !items.every((item) => item.tagName === 'LI' && isPlain(item))) continue;
+    if (!isRendered(list) || hasClippedText(list)) continue;
+    const paragraphs: SlideTextParagraph[] = [];
+    let previousBottom: number | null = null;
+    for (const item of items) {
+      const runs = readRuns(item);
+      if (!runs) break;
+      const rect = item.getBoundingClientRect();
+      paragraphs.push({ runs, spaceBefore: previousBottom === null ? 0 : Math.max(0, rect.top - previousBottom) });
+      previousBottom = rect.bottom;
+    }
+    if (paragraphs.length !== items.length) continue;
+    blocks.push(toBlock(list, 'list', paragraphs));
+    hidden.push(list as HTMLElement);
+  }
+
+  for (const element of hidden) {
+    for (const node of [element, ...Array.from(element.querySelectorAll<HTMLElement>('*'))]) {
+      node.style.setProperty('color', 'transparent', 'important');
+      node.style.setProperty('-webkit-text-fill-color', 'transparent', 'important');
+      node.style.setProperty('text-shadow', 'none', 'important');
+      node.style.setProperty('text-decoration-color', 'transparent', 'important');
+    }
+  }
+  return blocks;
+}
@@ -0,0 +1,75 @@
+// Renders a generated slide in the headless Chrome of the runtime validation (same BROWSER_WS_ENDPOINT, stub
+// asset server and public host check, see runtime-validator.ts) and reads what the PPTX export needs: a screenshot of the
+// page and the editable headings and lists, with a second screenshot where their text is hidden.
+
+import puppeteer from 'npm:puppeteer-core@22.12.1';
+import { getRuntimeValidatorConfig, guardPageRequests, type RuntimeValidatorConfig } from './runtime-validator.ts';
+import { SLIDE_RENDER_HEIGHT, SLIDE_RENDER_WIDTH, type SlideRender, readSlideTextBlocks } from './slide-render.ts';
+
+// Pages much taller than a slide shrink so far on a 16:9 slide that editable text would be unreadable
+const MAX_EDITABLE_HEIGHT = SLIDE_RENDER_HEIGHT * 1.6;
+// Bounds the screenshot of runaway layouts (auto-height charts...)
+const MAX_RENDER_HEIGHT = SLIDE_RENDER_HEIGHT * 4;
+
+export class SlideRendererUnavailableError extends Error {}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export async function renderSlide(
+  html: string,
+  config: RuntimeValidatorConfig = getRuntimeValidatorConfig(),
+): Promise<SlideRender> {
+  if (!config.browserWSEndpoint) throw new SlideRendererUnavailableError('BROWSER_WS_ENDPOINT is not set');
+
+  let browser;
+  try {
+    browser = await puppeteer.connect({ browserWSEndpoint: config.browserWSEndpoint });
+  } catch (error) {
+    console.error('Headless browser unreachable, cannot render the slide:', error);
+    throw new SlideRendererUnavailableError('headless browser unreachable');
+  }
+
+  const context = await browser.createBrowserContext();
+  try {
+    const page = await context.newPage();
+    page.setDefaultTimeout(config.timeoutMs);
+    await page.setViewport({ width: SLIDE_RENDER_WIDTH, height: SLIDE_RENDER_HEIGHT });
+    // Entrance animations would otherwise be captured half way
+    await page.emulateMediaFeatures([{ name: 'prefers-reduced-motion', value: 'reduce' }]);
+
+    // The screenshot goes back to the caller: internal hosts must never render into it
+    await guardPageRequests(page, config);
+
+    try {
+      await page.setContent(html, { waitUntil: 'networkidle2' });
+    } catch (error) {
+      // A slow CDN should not block the export: capture whatever rendered by now
+      console.warn('Slide render did not reach network idle:', error instanceof Error ? error.message : error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, config.settleMs));
+
+    const contentHeight = await page.evaluate(() => Math.ceil(document.documentElement.scrollHeight));
+    const height = Math.min(Math.max(contentHeight, SLIDE_RENDER_HEIGHT), MAX_RENDER_HEIGHT);
+    const clip = { x: 0, y: 0, width: SLIDE_RENDER_WIDTH, height };
+    const image = await page.screenshot({ type: 'png', clip, captureBeyondViewport: true });
+
+    if (height > MAX_EDITABLE_HEIGHT) {
+      return { width: SLIDE_RENDER_WIDTH, height, image: toBase64(image), background: null, blocks: [] };
+    }
+    const blocks = await page.evaluate(readSlideTextBlocks);
+    const background = blocks.length
+      ? toBase64(await page.screenshot({ type: 'png', clip, captureBeyondViewport: true }))
+      : null;
+    return { width: SLIDE_RENDER_WIDTH, height, image: toBase64(image), background, blocks: background ? blocks : [] };
+  } finally {
+    await context.close().catch(() => {});
+    // The browser is shared with the queue workers: leave it running
+    await browser.disconnect();
+  }
+}
@@ -0,0 +1,218 @@
+// Structured style guide stored on `infographics.style_guide`.
+// Shared by the editor form (field-by-field editing), suggest-style-guidelines (AI output schema)
+// and the queue worker (prompt building). Dependency-free so it runs in Deno and in the browser.
+
+export const PALETTE_ROLES = ['primary', 'secondary', 'accent', 'neutral', 'background', 'text'] as const;
+export type PaletteRole = (typeof PALETTE_ROLES)[number];
+
+export const FONT_SIZE_LEVELS = ['h1', 'h2', 'h3', 'body'] as const;
+export type FontSizeLevel = (typeof FONT_SIZE_LEVELS)[number];
+
+export const SPACING_DENSITIES = ['compact', 'comfortable', 'airy'] as const;
+export type SpacingDensity = (typeof SPACING_DENSITIES)[number];
+
+export interface StyleGuide {
+  palette: Record<PaletteRole, string>;
+  typography: {
+    headingFont: string;
+    bodyFont: string;
+    sizes: Record<FontSizeLevel, string>;
+  };
+  spacing: {
+    density: SpacingDensity;
+    baseUnit: string;
+    sectionGap: string;
+  };
+  imagery: string[];
+  dos: string[];
+  donts: string[];
+}
+
+export type StyleGuideValidation =
+  | { valid: true; value: StyleGuide }
+  | { valid: false; errors: string[] };
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+const MAX_LIST_ITEMS = 12;
+const MAX_TEXT_LENGTH = 300;
+
+export const emptyStyleGuide = (): StyleGuide => ({
+  palette: { primary: '', secondary: '', accent: '', neutral: '', background: '', text: '' },
+  typography: { headingFont: '', bodyFont: '', sizes: { h1: '', h2: '', h3: '', body: '' } },
+  spacing: { density: 'comfortable', baseUnit: '', sectionGap: '' },
+  imagery: [],
+  dos: [],
+  donts: [],
+});
+
+// JSON schema of the guide, used as the structured-output schema of suggest-style-guidelines
+export const STYLE_GUIDE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    palette: {
+      type: 'object',
+      properties: Object.fromEntries(
+        PALETTE_ROLES.map((role) => [role, { type: 'string', description: `${role} colour as a hex code` }]),
+      ),
+      required: [...PALETTE_ROLES],
+      additionalProperties: false,
+    },
+    typography: {
+      type: 'object',
+      properties: {
+        headingFont: { type: 'string', description: 'Font family for headings' },
+        bodyFont: { type: 'string', description: 'Font family for body text' },
+        sizes: {
+          type: 'object',
+          properties: Object.fromEntries(
+            FONT_SIZE_LEVELS.map((level) => [level, { type: 'string', description: `${level} font size (CSS length)` }]),
+          ),
+          required: [...FONT_SIZE_LEVELS],
+          additionalProperties: false,
+        },
+      },
+      required: ['headingFont', 'bodyFont', 'sizes'],
+      additionalProperties: false,
+    },
+    spacing: {
+      type: 'object',
+      properties: {
+        density: { type: 'string', enum: [...SPACING_DENSITIES] },
+        baseUnit: { type: 'string', description: 'Base spacing unit (CSS length)' },
+        sectionGap: { type: 'string', description: 'Gap between slide sections (CSS length)' },
+      },
+      required: ['density', 'baseUnit', 'sectionGap'],
+      additionalProperties: false,
+    },
+    imagery: { type: 'array', items: { type: 'string' }, description: 'Rules for photos, icons and illustrations' },
+    dos: { type: 'array', items: { type: 'string' }, description: 'Things every slide should do' },
+    donts: { type: 'array', items: { type: 'string' }, description: 'Things no slide may do' },
+  },
+  required: ['palette', 'typography', 'spacing', 'imagery', 'dos', 'donts'],
+  additionalProperties: false,
+} as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Checks an untrusted value (DB row, AI output, form state) against the style guide schema.
+// Blank fields are allowed everywhere: a partially filled guide is still useful.
+export function validateStyleGuide(value: unknown): StyleGuideValidation {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    return { valid: false, errors: ['style guide must be an object'] };
+  }
+
+  const guide = emptyStyleGuide();
+
+  const readText = (raw: unknown, path: string): string => {
+    if (raw === undefined || raw === null) return '';
+    if (typeof raw !== 'string') {
+      errors.push(`${path} must be a string`);
+      return '';
+    }
+    const text = raw.trim();
+    if (text.length > MAX_TEXT_LENGTH) errors.push(`${path} is longer than ${MAX_TEXT_LENGTH} characters`);
+    return text;
+  };
+
+  const readList = (raw: unknown, path: string): string[] => {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      errors.push(`${path} must be a list`);
+      return [];
+    }
+    if (raw.length > MAX_LIST_ITEMS) errors.push(`${path} has more than ${MAX_LIST_ITEMS} items`);
+    return raw.map((item, index) => readText(item, `${path}[${index}]`)).filter(Boolean);
+  };
+
+  const palette = isRecord(value.palette) ? value.palette : {};
+  PALETTE_ROLES.forEach((role) => {
+    const color = readText(palette[role], `palette.${role}`);
+    if (color && !HEX_COLOR.test(color)) errors.push(`palette.${role} must be a hex colour like #1e40af`);
+    guide.palette[role] = color.toLowerCase();
+  });
+
+  const typography = isRecord(value.typography) ? value.typography : {};
+  guide.typography.headingFont = readText(typography.headingFont, 'typography.headingFont');
+  guide.typography.bodyFont = readText(typography.bodyFont, 'typography.bodyFont');
+  const sizes = isRecord(typography.sizes) ? typography.sizes : {};
+  FONT_SIZE_LEVELS.forEach((level) => {
+    guide.typography.sizes[level] = readText(sizes[level], `typography.sizes.${level}`);
+  });
+
+  const spacing = isRecord(value.spacing) ? value.spacing : {};
+  const density = spacing.density ?? 'comfortable';
+  if (typeof density === 'string' && (SPACING_DENSITIES as readonly string[]).includes(density)) {
+    guide.spacing.density = density as SpacingDensity;
+  } else {
+    errors.push(`spacing.density must be one of ${SPACING_DENSITIES.join(', ')}`);
+  }
+  guide.spacing.baseUnit = readText(spacing.baseUnit, 'spacing.baseUnit');
+  guide.spacing.sectionGap = readText(spacing.sectionGap, 'spacing.sectionGap');
+
+  guide.imagery = readList(value.imagery, 'imagery');
+  guide.dos = readList(value.dos, 'dos');
+  guide.donts = readList(value.donts, 'donts');
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, value: guide };
+}
+
+export function isStyleGuideEmpty(guide: StyleGuide | null): boolean {
+  if (!guide) return true;
+  return (
+    PALETTE_ROLES.every((role) => !guide.palette[role]) &&
+    !guide.typography.headingFont &&
+    !guide.typography.bodyFont &&
+    FONT_SIZE_LEVELS.every((level) => !guide.typography.sizes[level]) &&
+    !guide.spacing.baseUnit &&
+    !guide.spacing.sectionGap &&
+    guide.imagery.length === 0 &&
+    guide.dos.length === 0 &&
+    guide.donts.length === 0
+  );
+}
+
+// Style section of the generation prompt: the structured guide first, free text only as an override
+export function buildStylePrompt(guide: StyleGuide | null, overrideText?: string | null): string {
+  const sections: string[] = [];
+
+  if (guide && !isStyleGuideEmpty(guide)) {
+    const palette = PALETTE_ROLES.filter((role) => guide.palette[role]).map((role) => `- ${role}: ${guide.palette[role]}`);
+    if (palette.length > 0) sections.push(['Colour palette (by role):', ...palette].join('\n'));
+
+    const typography: string[] = [];
+    if (guide.typography.headingFont) typography.push(`- Heading font: ${guide.typography.headingFont}`);
+    if (guide.typography.bodyFont) typography.push(`- Body font: ${guide.typography.bodyFont}`);
+    FONT_SIZE_LEVELS.forEach((level) => {
+      if (guide.typography.sizes[level]) typography.push(`- ${level.toUpperCase()} size: ${guide.typography.sizes[level]}`);
+    });
+    if (typography.length > 0) sections.push(['Typography:', ...typography].join('\n'));
+
+    const spacing = [`- Density: ${guide.spacing.density}`];
+    if (guide.spacing.baseUnit) spacing.push(`- Base unit: ${guide.spacing.baseUnit}`);
+    if (guide.spacing.sectionGap) spacing.push(`- Gap between sections: ${guide.spacing.sectionGap}`);
+    sections.push(['Spacing:', ...spacing].join('\n'));
+
+    if (guide.imagery.length > 0) sections.push(['Imagery rules:', ...guide.imagery.map((rule) => `- ${rule}`)].join('\n'));
+    if (guide.dos.length > 0) sections.push(['Do:', ...guide.dos.map((rule) => `- ${rule}`)].join('\n'));
+    if (guide.donts.length > 0) sections.push(["Don't:", ...guide.donts.map((rule) => `- ${rule}`)].join('\n'));
+  }
+
+  const override = overrideText?.trim();
+  if (override) {
+    sections.push(
+      sections.length > 0
+        ? `Additional instructions (override the guide above where they conflict):\n${override}`
+        : override,
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+// Tolerant reader for the jsonb column: an invalid or empty guide counts as no guide
+export function readStyleGuide(value: unknown): StyleGuide | null {
+  const result = validateStyleGuide(value);
+  return result.valid && !isStyleGuideEmpty(result.value) ? result.value : null;
+}
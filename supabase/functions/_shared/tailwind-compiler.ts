@@ -0,0 +1,51 @@
+// Compiles the Tailwind classes a slide uses into a static stylesheet and swaps it for the Play CDN, which
+// runs the JIT compiler in the browser on every load. Same Tailwind version and plugins as the pinned CDN
+// (offline-bundle.ts), so the page looks the same; only the classes present in the HTML are generated.
+
+import postcss from 'npm:postcss@8.4.49';
+import tailwindcss from 'npm:tailwindcss@3.4.16';
+import forms from 'npm:@tailwindcss/forms@0.5.9';
+import typography from 'npm:@tailwindcss/typography@0.5.15';
+import aspectRatio from 'npm:@tailwindcss/aspect-ratio@0.4.2';
+import containerQueries from 'npm:@tailwindcss/container-queries@0.1.1';
+import { type TailwindCdnPlugin, applyCompiledTailwind, readTailwindSetup } from './tailwind-static.ts';
+
+const PLUGINS: Record<TailwindCdnPlugin, unknown> = {
+  forms,
+  typography,
+  'aspect-ratio': aspectRatio,
+  // Part of the core utilities since Tailwind 3.3
+  'line-clamp': null,
+  'container-queries': containerQueries,
+};
+
+export interface TailwindCompileResult {
+  html: string;
+  compiled: boolean;
+  // Why the page keeps the CDN (no Tailwind, a config that is not plain data...)
+  skipped?: string;
+  cssBytes?: number;
+}
+
+export async function compileTailwindHtml(html: string): Promise<TailwindCompileResult> {
+  const { setup, skipped } = readTailwindSetup(html);
+  if (!setup) return { html, compiled: false, skipped };
+
+  const config = {
+    ...setup.config,
+    // The page is the only content source; what the config says about files does not apply here
+    content: [{ raw: html, extension: 'html' }],
+    plugins: setup.plugins.map((name) => PLUGINS[name]).filter(Boolean),
+  };
+  // `text/tailwindcss` blocks may bring their own @tailwind directives, as the Play CDN allows
+  const input = /@tailwind\s/.test(setup.customCss)
+    ? setup.customCss
+    : `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n${setup.customCss}`;
+
+  const result = await postcss([tailwindcss(config)]).process(input, { from: undefined });
+  return {
+    html: applyCompiledTailwind(html, result.css, setup),
+    compiled: true,
+    cssBytes: result.css.length,
+  };
+}
@@ -0,0 +1,259 @@
+// Static Tailwind for generated slides: reads what the Play CDN setup of a page asks for (plugins in the
+// script URL, a `tailwind.config = {...}` script, `<style type="text/tailwindcss">` blocks) and swaps the
+// CDN for the stylesheet compiled from it (see tailwind-compiler.ts). The swap is reversible: the model,
+// layout templates and design extraction keep working on the CDN form of the page.
+// Dependency-free so it runs in Deno and in the browser.
+
+export const TAILWIND_CDN_URL = 'https://cdn.tailwindcss.com';
+
+// Marks the compiled stylesheet; its value is the CDN URL it replaced
+export const TAILWIND_COMPILED_ATTRIBUTE = 'data-tailwind-compiled';
+
+// Script type a `tailwind.config` script is parked under while the CDN is not on the page
+export const TAILWIND_CONFIG_SCRIPT_TYPE = 'text/tailwind-config';
+
+// First-party plugins the Play CDN understands in `?plugins=`; line-clamp is part of the core since 3.3
+export const TAILWIND_CDN_PLUGINS = ['forms', 'typography', 'aspect-ratio', 'line-clamp', 'container-queries'] as const;
+
+export type TailwindCdnPlugin = (typeof TAILWIND_CDN_PLUGINS)[number];
+
+export interface TailwindSetup {
+  // URL of the (first) CDN script, kept to restore it
+  cdnUrl: string;
+  plugins: TailwindCdnPlugin[];
+  config: Record<string, unknown>;
+  // Contents of the `text/tailwindcss` style blocks (@apply, @layer...)
+  customCss: string;
+}
+
+export type TailwindSetupResult = { setup: TailwindSetup; skipped?: undefined } | { setup: null; skipped: string };
+
+const SCRIPT_TAG = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/script\s*>/gi;
+const STYLE_TAG = /<style\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/style\s*>/gi;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const TAILWIND_SCRIPT_URL = /^(?:https?:)?\/\/cdn\.tailwindcss\.com(?:\/[\d.]+)?\/?(?:\?(.*))?$/i;
+// Placeholder for the compiled stylesheet while restoreTailwindCdn looks for a parked config script
+const CDN_MARKER = '<!--tailwind-cdn-->';
+const CDN_MARKER_PATTERN = /<!--tailwind-cdn-->(\n?)/g;
+const CONFIG_ASSIGNMENT = /^\s*(?:window\.)?tailwind\.config\s*=\s*([\s\S]*?)\s*;?\s*$/;
+
+const parseAttributes = (source: string) => {
+  const attributes = new Map<string, string>();
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    if (!attributes.has(name)) attributes.set(name, match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const decodeAttribute = (value: string) => value.replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+
+const isTailwindCdnScript = (attributes: Map<string, string>) => TAILWIND_SCRIPT_URL.test(attributes.get('src')?.trim() ?? '');
+
+// Parses a JavaScript object literal made only of data: objects, arrays, strings, numbers, booleans and
+// null, with comments and trailing commas. Anything executable (calls, spreads, variables) gives null,
+// so page scripts are never evaluated.
+export function parseObjectLiteral(source: string): Record<string, unknown> | null {
+  let index = 0;
+  function fail(): never {
+    throw new SyntaxError(`Unexpected input at ${index}`);
+  }
+  const skipSpace = () => {
+    for (;;) {
+      while (index < source.length && /\s/.test(source[index])) index++;
+      if (source.startsWith('//', index)) {
+        const end = source.indexOf('\n', index);
+        index = end < 0 ? source.length : end + 1;
+      } else if (source.startsWith('/*', index)) {
+        const end = source.indexOf('*/', index + 2);
+        if (end < 0) fail();
+        index = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+  const parseString = (): string => {
+    const quote = source[index++];
+    let value = '';
+    while (index < source.length && source[index] !== quote) {
+      const char = source[index++];
+      if (quote === '`' && char === '$' && source[index] === '{') fail();
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const escaped = source[index++];
+      if (escaped === 'u') {
+        value += String.fromCharCode(parseInt(source.slice(index, index + 4), 16));
+        index += 4;
+      } else if (escaped === '\n') {
+        // Line continuation
+      } else {
+        value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0' } as Record<string, string>)[escaped] ?? escaped;
+      }
+    }
+    if (source[index] !== quote) fail();
+    index++;
+    return value;
+  };
+  const parseValue = (): unknown => {
+    skipSpace();
+    const char = source[index];
+    if (char === '{') {
+      index++;
+      const object: Record<string, unknown> = {};
+      for (;;) {
+        skipSpace();
+        if (source[index] === '}') {
+          index++;
+          return object;
+        }
+        let key: string;
+        if (source[index] === '"' || source[index] === "'") {
+          key = parseString();
+        } else {
+          const match = /^(?:[A-Za-z_$][\w$]*|\d+(?:\.\d+)?)/.exec(source.slice(index));
+          if (!match) fail();
+          key = match[0];
+          index += key.length;
+        }
+        skipSpace();
+        if (source[index] !== ':') fail();
+        index++;
+        object[key] = parseValue();
+        skipSpace();
+        if (source[index] === ',') index++;
+        else if (source[index] !== '}') fail();
+      }
+    }
+    if (char === '[') {
+      index++;
+      const array: unknown[] = [];
+      for (;;) {
+        skipSpace();
+        if (source[index] === ']') {
+          index++;
+          return array;
+        }
+        array.push(parseValue());
+        skipSpace();
+        if (source[index] === ',') index++;
+        else if (source[index] !== ']') fail();
+      }
+    }
+    if (char === '"' || char === "'" || char === '`') return parseString();
+    const number = /^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(source.slice(index));
+    if (number) {
+      index += number[0].length;
+      return Number(number[0]);
+    }
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (source.startsWith(word, index) && !/[\w$]/.test(source[index + word.length] ?? '')) {
+        index += word.length;
+        return value;
+      }
+    }
+    return fail();
+  };
+
+  try {
+    const value = parseValue();
+    skipSpace();
+    if (index !== source.length || !value || typeof value !== 'object' || Array.isArray(value)) return null;
+    return value as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+// What the page's Play CDN setup compiles from, or why it cannot be compiled ahead of time
+export function readTailwindSetup(html: string): TailwindSetupResult {
+  let cdnUrl: string | null = null;
+  const plugins = new Set<TailwindCdnPlugin>();
+  let config: Record<string, unknown> = {};
+
+  for (const match of html.matchAll(SCRIPT_TAG)) {
+    const attributes = parseAttributes(match[1]);
+    const src = attributes.get('src')?.trim() ?? '';
+    if (isTailwindCdnScript(attributes)) {
+      cdnUrl ??= src;
+      const query = new URLSearchParams(TAILWIND_SCRIPT_URL.exec(src)?.[1] ?? '');
+      for (const entry of (query.get('plugins') ?? '').split(',').filter(Boolean)) {
+        // `typography@0.5.x` pins a plugin version; the compiler has one of each
+        const name = entry.split('@')[0].trim() as TailwindCdnPlugin;
+        if (!TAILWIND_CDN_PLUGINS.includes(name)) return { setup: null, skipped: `unknown Tailwind plugin "${entry}"` };
+        plugins.add(name);
+      }
+      continue;
+    }
+    const code = match[2];
+    if (!/\btailwind\.config\b/.test(code)) continue;
+    const assignment = CONFIG_ASSIGNMENT.exec(code);
+    const parsed = assignment ? parseObjectLiteral(assignment[1]) : null;
+    if (!parsed) return { setup: null, skipped: 'tailwind.config is not a plain object literal' };
+    config = { ...config, ...parsed };
+  }
+  if (!cdnUrl) return { setup: null, skipped: 'no Tailwind CDN script' };
+
+  const customCss = [...html.matchAll(STYLE_TAG)]
+    .filter((match) => parseAttributes(match[1]).get('type')?.toLowerCase() === 'text/tailwindcss')
+    .map((match) => match[2])
+    .join('\n');
+
+  return { setup: { cdnUrl, plugins: [...plugins], config, customCss } };
+}
+
+// Replaces the CDN script(s) with the compiled stylesheet. The stylesheet goes at the end of <head>, where
+// the Play CDN injects its own, so it wins over the page's styles exactly as before.
+export function applyCompiledTailwind(html: string, css: string, setup: TailwindSetup): string {
+  const result = html.replace(SCRIPT_TAG, (original, attributeSource: string, code: string) => {
+    const attributes = parseAttributes(attributeSource);
+    if (isTailwindCdnScript(attributes)) return '';
+    if (CONFIG_ASSIGNMENT.test(code) && !attributes.has('type')) {
+      return `<script type="${TAILWIND_CONFIG_SCRIPT_TYPE}"${attributeSource}>${code}</script>`;
+    }
+    return original;
+  });
+
+  const style = `<style ${TAILWIND_COMPILED_ATTRIBUTE}="${escapeAttribute(setup.cdnUrl)}">${css.replace(/<\/style/gi, '<\\/style')}</style>`;
+  const headEnd = result.search(/<\/head\s*>/i);
+  if (headEnd >= 0) return `${result.slice(0, headEnd)}${style}\n${result.slice(headEnd)}`;
+  const bodyStart = /<body\b[^>]*>/i.exec(result);
+  if (bodyStart) {
+    const at = bodyStart.index + bodyStart[0].length;
+    return `${result.slice(0, at)}${style}${result.slice(at)}`;
+  }
+  return `${style}${result}`;
+}
+
+export const hasCompiledTailwind = (html: string) => html.includes(`${TAILWIND_COMPILED_ATTRIBUTE}=`);
+
+// Puts the CDN back in place of the compiled stylesheet (before the parked config script, which needs it)
+export function restoreTailwindCdn(html: string): string {
+  if (!hasCompiledTailwind(html)) return html;
+  let cdnUrl = TAILWIND_CDN_URL;
+  let result = html.replace(STYLE_TAG, (original, attributeSource: string) => {
+    const attributes = parseAttributes(attributeSource);
+    if (!attributes.has(TAILWIND_COMPILED_ATTRIBUTE)) return original;
+    cdnUrl = decodeAttribute(attributes.get(TAILWIND_COMPILED_ATTRIBUTE) || TAILWIND_CDN_URL);
+    return CDN_MARKER;
+  });
+  const cdnScript = `<script src="${escapeAttribute(cdnUrl)}"></script>`;
+
+  let placed = false;
+  result = result.replace(SCRIPT_TAG, (original, attributeSource: string, code: string) => {
+    const attributes = parseAttributes(attributeSource);
+    if (attributes.get('type') !== TAILWIND_CONFIG_SCRIPT_TYPE) return original;
+    attributes.delete('type');
+    const rest = [...attributes].map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`)).join('');
+    const script = `<script${rest}>${code}</script>`;
+    if (placed) return script;
+    placed = true;
+    return `${cdnScript}\n${script}`;
+  });
+  // Without a config script the CDN goes back where the stylesheet was
+  return result.replace(CDN_MARKER_PATTERN, (_marker, newline: string) => (placed ? '' : `${cdnScript}${newline}`));
+}
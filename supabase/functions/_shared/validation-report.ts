@@ -0,0 +1,153 @@
+// Validation history of one generation: what every pass of the repair loop found, the diff each repair
+// applied and how the loop ended. The queue worker stores it on the queue item and the page (and carries it
+// into the history snapshot); the editor's quality report tab reads it. Dependency-free so it runs in Deno
+// and in the browser.
+
+export type ValidationSource = 'markup' | 'lint' | 'runtime';
+
+// passed: clean on the first pass, repaired: clean after repairs, max_iterations: MAX_HTML_FIX_ITER repairs
+// were not enough, stalled: the fixer returned the HTML unchanged, skipped: every check was disabled
+export type ValidationOutcome = 'passed' | 'repaired' | 'max_iterations' | 'stalled' | 'skipped';
+
+export interface ValidationReportMessage {
+  source: ValidationSource;
+  message: string;
+  rule?: string;
+  sub_type?: string;
+  line?: number;
+  extract?: string;
+}
+
+export interface ValidationIterationReport {
+  iteration: number;
+  errors: ValidationReportMessage[];
+  // Why the runtime check did not run (no browser configured...), null when it ran or was disabled
+  runtime_skipped: string | null;
+  // Unified diff of the repair applied after this pass, null when the pass was clean or the last one
+  diff: string | null;
+}
+
+export interface ValidationReport {
+  outcome: ValidationOutcome;
+  checks: Record<ValidationSource, boolean>;
+  max_iterations: number;
+  iterations: ValidationIterationReport[];
+  // Errors of the last pass, i.e. what is still known to be wrong with the saved HTML
+  remaining_errors: ValidationReportMessage[];
+  started_at: string;
+  finished_at: string;
+}
+
+// Reports live in jsonb columns next to the HTML; keep extracts and diffs to a readable size
+const MAX_EXTRACT_CHARS = 200;
+const MAX_DIFF_CHARS = 20_000;
+// Above this many changed lines (product of both sides) the diff falls back to replacing the whole block
+const MAX_DIFF_CELLS = 4_000_000;
+
+export function toValidationReportMessage(source: ValidationSource, error: unknown): ValidationReportMessage {
+  const raw = (error && typeof error === 'object' ? error : { message: String(error) }) as Record<string, unknown>;
+  const message: ValidationReportMessage = {
+    source,
+    message: typeof raw.message === 'string' ? raw.message : 'Unknown error',
+  };
+  if (typeof raw.rule === 'string') message.rule = raw.rule;
+  if (typeof raw.subType === 'string') message.sub_type = raw.subType;
+  if (typeof raw.lastLine === 'number') message.line = raw.lastLine;
+  if (typeof raw.extract === 'string' && raw.extract) message.extract = raw.extract.slice(0, MAX_EXTRACT_CHARS);
+  return message;
+}
+
+// Line-based unified diff (`@@ -a,b +c,d @@` hunks with `context` unchanged lines around each change)
+export function createUnifiedDiff(before: string, after: string, options: { context?: number; maxChars?: number } = {}): string {
+  const context = options.context ?? 2;
+  const maxChars = options.maxChars ?? MAX_DIFF_CHARS;
+  const a = before.split('\n');
+  const b = after.split('\n');
+  if (before === after) return '';
+
+  // Repairs are local: strip the common head and tail before the quadratic part
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+
+  type Op = { kind: ' ' | '-' | '+'; line: string };
+  const ops: Op[] = a.slice(0, head).map((line) => ({ kind: ' ', line }));
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    ops.push(...midA.map((line) => ({ kind: '-' as const, line })), ...midB.map((line) => ({ kind: '+' as const, line })));
+  } else {
+    // Longest common subsequence table, walked from the start to emit the edit script
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ kind: ' ', line: midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        ops.push({ kind: '-', line: midA[i++] });
+      } else {
+        ops.push({ kind: '+', line: midB[j++] });
+      }
+    }
+  }
+  ops.push(...a.slice(a.length - tail).map((line) => ({ kind: ' ' as const, line })));
+
+  // Group changes into hunks, merging those closer than twice the context
+  const hunks: string[] = [];
+  let index = 0;
+  let lineA = 1;
+  let lineB = 1;
+  while (index < ops.length) {
+    if (ops[index].kind === ' ') {
+      index++;
+      lineA++;
+      lineB++;
+      continue;
+    }
+    const start = Math.max(0, index - context);
+    let end = index;
+    let unchanged = 0;
+    while (end < ops.length && unchanged <= context * 2) {
+      unchanged = ops[end].kind === ' ' ? unchanged + 1 : 0;
+      end++;
+    }
+    end = Math.min(ops.length, end - Math.max(0, unchanged - context));
+    const hunk = ops.slice(start, end);
+    const startA = lineA - (index - start);
+    const startB = lineB - (index - start);
+    const countA = hunk.filter((op) => op.kind !== '+').length;
+    const countB = hunk.filter((op) => op.kind !== '-').length;
+    hunks.push([`@@ -${startA},${countA} +${startB},${countB} @@`, ...hunk.map((op) => `${op.kind}${op.line}`)].join('\n'));
+    for (const op of ops.slice(index, end)) {
+      if (op.kind !== '+') lineA++;
+      if (op.kind !== '-') lineB++;
+    }
+    index = end;
+  }
+
+  const diff = hunks.join('\n');
+  return diff.length > maxChars ? `${diff.slice(0, maxChars)}\n… diff truncated (${diff.length - maxChars} more characters)` : diff;
+}
+
+// jsonb value -> ValidationReport, null for pages generated before reports existed
+export function readValidationReport(value: unknown): ValidationReport | null {
+  if (!value || typeof value !== 'object') return null;
+  const report = value as Partial<ValidationReport>;
+  if (typeof report.outcome !== 'string' || !Array.isArray(report.iterations)) return null;
+  return {
+    ...report,
+    remaining_errors: Array.isArray(report.remaining_errors) ? report.remaining_errors : [],
+  } as ValidationReport;
+}
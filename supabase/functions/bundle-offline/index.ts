@@ -0,0 +1,167 @@
+import { z } from 'npm:zod@3.23.8';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/request-user.ts';
+import { type BundleAsset, bundleSlideOffline, readAssetBytes } from '../_shared/offline-bundle.ts';
+import { DECK_ASSETS_BUCKET, deckAssetPublicUrl, extractMarkdownImages } from '../_shared/deck-assets.ts';
+import { fetchPublicUrl } from '../_shared/safe-fetch.ts';
+
+// Returns the offline bundle of a page: its generated HTML with every allow-listed CDN script, stylesheet,
+// font and image pinned and inlined. Assets are fetched here because browsers cannot read most CDN
+// responses cross-origin; the bundle is not stored, the editor downloads it and the slideshow keeps it in memory.
+
+const requestSchema = z.object({
+  pageId: z.string().uuid(),
+});
+
+const ASSET_TIMEOUT_MS = 15000;
+// Deck image URLs in the slides are built from this base (see queue-worker), SUPABASE_URL unless browsers use another
+const PUBLIC_SUPABASE_URL = Deno.env.get('PUBLIC_SUPABASE_URL') || Deno.env.get('SUPABASE_URL') || '';
+// Pinned URLs never change, so assets are cached for the life of the worker (bounded by total size)
+const MAX_CACHE_BYTES = 48 * 1024 * 1024;
+const assetCache = new Map<string, BundleAsset>();
+let assetCacheBytes = 0;
+// Pages generated before deck assets hotlink Pexels; their images are embedded as well
+const LEGACY_IMAGE_PREFIXES = ['https://images.pexels.com/'];
+
+const fetchAsset = async (url: string): Promise<BundleAsset> => {
+  const cached = assetCache.get(url);
+  if (cached) return cached;
+
+  // Markdown image URLs are the user's: never let them reach internal hosts (see _shared/safe-fetch.ts)
+  const response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const asset = {
+    contentType: response.headers.get('content-type') ?? 'application/octet-stream',
+    bytes: await readAssetBytes(response),
+  };
+
+  // Evict the oldest entries first (Map keeps insertion order)
+  for (const [key, entry] of assetCache) {
+    if (assetCacheBytes + asset.bytes.length <= MAX_CACHE_BYTES) break;
+    assetCache.delete(key);
+    assetCacheBytes -= entry.bytes.length;
+  }
+  if (asset.bytes.length <= MAX_CACHE_BYTES) {
+    assetCache.set(url, asset);
+    assetCacheBytes += asset.bytes.length;
+  }
+  return asset;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  let parsedBody: z.infer<typeof requestSchema>;
+  try {
+    const validation = requestSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid payload', details: validation.error.flatten() }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+    parsedBody = validation.data;
+  } catch (error) {
+    console.error('Failed to parse JSON body', error);
+    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return new Response(JSON.stringify({ error: 'Authentication required' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Read through the caller's client: RLS only returns pages of decks they can see
+  const { data: page, error } = await user.client
+    .from('infographic_pages')
+    .select('id, infographic_id, content_markdown, generated_html')
+    .eq('id', parsedBody.pageId)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load page for offline bundle:', error);
+    return new Response(JSON.stringify({ error: 'Failed to load page' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  if (!page) {
+    return new Response(JSON.stringify({ error: 'Page not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  if (!page.generated_html) {
+    return new Response(JSON.stringify({ error: 'Page has no generated HTML yet' }), {
+      status: 409,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Deck images are read from storage directly: their public URL may not be reachable from here (local stack).
+  // The bucket is public, so the object is streamed from this project's storage API under the same byte cap
+  const { data: deckAssets, error: assetsError } = await user.client
+    .from('deck_assets')
+    .select('storage_path, content_type')
+    .eq('infographic_id', page.infographic_id);
+  if (assetsError) console.error('Failed to load deck assets for offline bundle:', assetsError);
+  const storagePaths = new Map(
+    (deckAssets ?? []).map((asset) => [deckAssetPublicUrl(PUBLIC_SUPABASE_URL, asset.storage_path), asset]),
+  );
+  const fetchBundleAsset = async (url: string): Promise<BundleAsset> => {
+    const asset = storagePaths.get(url);
+    if (!asset) return fetchAsset(url);
+    const { data } = user.client.storage.from(DECK_ASSETS_BUCKET).getPublicUrl(asset.storage_path);
+    const response = await fetch(data.publicUrl, { signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) });
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`asset not found in storage (HTTP ${response.status})`);
+    }
+    return {
+      contentType: asset.content_type || (response.headers.get('content-type') ?? 'application/octet-stream'),
+      bytes: await readAssetBytes(response),
+    };
+  };
+
+  try {
+    const bundle = await bundleSlideOffline(page.generated_html, fetchBundleAsset, {
+      // Images of the page markdown are on the slide as well (see _shared/markdown-images.ts); only https
+      // ones are embedded, anything else stays a link. Exact URLs: a prefix would also admit longer URLs
+      resourceUrls: [
+        ...storagePaths.keys(),
+        ...extractMarkdownImages(page.content_markdown ?? '')
+          .map((image) => image.url)
+          .filter((url) => /^https:\/\//i.test(url)),
+      ],
+      resourcePrefixes: LEGACY_IMAGE_PREFIXES,
+    });
+    if (bundle.failed.length) console.warn('Offline bundle left assets online:', bundle.failed);
+    return new Response(JSON.stringify(bundle), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Offline bundle failed:', error);
+    return new Response(JSON.stringify({ error: 'Offline bundle failed' }), {
+      status: 502,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
@@ -1,220 +1,268 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.53.0';
-import { OpenAIJsonClient } from '../_shared/openai-json.ts';
+import { LLMRefusalError, type LLMCallObserver, createLLMProvider, getLLMConfigError, getLLMProviderKind, resolveLLMModel } from '../_shared/llm-provider.ts';
+import { buildDeckOutline, formatDesignTokenSummary, summarizeDesignTokens } from '../_shared/design-tokens.ts';
+import { formatDesignSystemConstraint, isDesignSystemEmpty, normalizeDesignSystem } from '../_shared/design-system.ts';
+import { buildStylePrompt, readStyleGuide } from '../_shared/style-guide.ts';
+import { type CustomGenerationHint, buildGenerationHintLines, isCustomGenerationHint } from '../_shared/generation-hints.ts';
+import { loadCustomGenerationHints } from '../_shared/custom-hints.ts';
+import { type PageTemplate, buildTemplatePrompt, readPageTemplate } from '../_shared/page-templates.ts';
+import { createLLMCallRecorder } from '../_shared/llm-usage.ts';
+import { validateHtmlLocally } from '../_shared/html-validator.ts';
+import { COPYRIGHT_NOTICE, lintSlideHtml } from '../_shared/slide-lint.ts';
+import { getRuntimeValidatorConfig, validateHtmlRuntime } from '../_shared/runtime-validator.ts';
+import { type ValidationIterationReport, type ValidationOutcome, type ValidationReport, createUnifiedDiff, toValidationReportMessage } from '../_shared/validation-report.ts';
+import { compileTailwindHtml } from '../_shared/tailwind-compiler.ts';
+import { restoreTailwindCdn } from '../_shared/tailwind-static.ts';
+import { type AssetManifestEntry, IMAGE_PLACEHOLDER_ATTRIBUTE, buildAssetManifestPrompt, deckAssetPublicUrl, toAssetManifest } from '../_shared/deck-assets.ts';
+import { IMAGE_PROBE_BYTES, type ProbedImage, type UnreachableMarkdownImage, buildUnreachableImagesPrompt, resolveMarkdownImages } from '../_shared/markdown-images.ts';
+import { fetchPublicUrl } from '../_shared/safe-fetch.ts';
 
-//import puppeteer from 'npm:puppeteer@22.12.1';
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const OPENAI_GENERATION_MODEL = Deno.env.get('OPENAI_GENERATION_MODEL') ?? 'gpt-4o-2024-08-06';
-const OPENAI_FIX_MODEL = Deno.env.get('OPENAI_FIX_MODEL') ?? 'gpt-4o-mini-2024-07-18';
+// Optional: URL browsers reach Supabase at, when it differs from SUPABASE_URL (local stack); deck image URLs use it
+const PUBLIC_SUPABASE_URL = Deno.env.get('PUBLIC_SUPABASE_URL') || SUPABASE_URL;
+// Defaults for the `openai` provider; LLM_*_MODEL / OPENAI_*_MODEL override them (see _shared/llm-provider.ts)
+const DEFAULT_GENERATION_MODEL = 'gpt-4o-2024-08-06';
+const DEFAULT_FIX_MODEL = 'gpt-4o-mini-2024-07-18';
 // Optional: maximum number of fix iterations, defaults to 5 if not set
 const MAX_HTML_FIX_ITER = Number(Deno.env.get('MAX_HTML_FIX_ITER') || 5);
+// Optional: number of queue items processed in parallel, defaults to 3 if not set
+const QUEUE_WORKER_CONCURRENCY = Math.max(1, Number(Deno.env.get('QUEUE_WORKER_CONCURRENCY') || 3));
+// Optional: retry backoff bounds for failed generations (exponential, capped)
+const QUEUE_RETRY_BASE_DELAY_MS = Number(Deno.env.get('QUEUE_RETRY_BASE_DELAY_MS') || 30000);
+const QUEUE_RETRY_MAX_DELAY_MS = Number(Deno.env.get('QUEUE_RETRY_MAX_DELAY_MS') || 15 * 60 * 1000);
+// Optional: how long a claimed job stays leased without a heartbeat before it is reaped
+const QUEUE_LEASE_SECONDS = Math.max(30, Number(Deno.env.get('QUEUE_LEASE_SECONDS') || 120));
+// Heartbeats renew the lease three times per lease period so a single missed beat is harmless
+const QUEUE_HEARTBEAT_INTERVAL_MS = Math.floor(QUEUE_LEASE_SECONDS * 1000 / 3);
+// Optional: which markup validator the repair loop uses: `local` (in-process, default), `remote` (Nu validator,
+// falling back to local when it is unreachable) or `both`
+const HTML_VALIDATOR = (Deno.env.get('HTML_VALIDATOR') || 'local').toLowerCase();
+// Optional: Nu validator endpoint for the `remote` and `both` modes, e.g. a self-hosted vnu.jar
+const W3C_VALIDATOR_URL = Deno.env.get('W3C_VALIDATOR_URL') || 'https://validator.w3.org/nu/';
+// Optional: `off` keeps the Tailwind Play CDN in saved pages instead of compiling their classes into static CSS
+const TAILWIND_COMPILE = (Deno.env.get('TAILWIND_COMPILE') || 'on').toLowerCase() !== 'off';
+// How many already generated sibling slides are sampled for the deck design-token summary
+const DECK_CONTEXT_MAX_SAMPLES = 5;
+// How long an image of the page content may take to answer before it counts as unreachable
+const IMAGE_PROBE_TIMEOUT_MS = 8000;
+// Identifies this isolate when claiming jobs so processing rows can be traced back to a worker
+const WORKER_ID = `queue-worker-${crypto.randomUUID()}`;
 
-type ResponsesInputContent = {
-  type: 'input_text';
-  text: string;
+console.log('Queue worker starting with environment:', {
+  hasSupabaseUrl: !!SUPABASE_URL,
+  hasServiceRoleKey: !!SUPABASE_SERVICE_ROLE_KEY,
+  llmConfigError: getLLMConfigError(),
+  llmProvider: getLLMConfigError() ? null : getLLMProviderKind(),
+  generationModel: resolveLLMModel('generation', DEFAULT_GENERATION_MODEL),
+  fixModel: resolveLLMModel('fix', DEFAULT_FIX_MODEL),
+  concurrency: QUEUE_WORKER_CONCURRENCY,
+  leaseSeconds: QUEUE_LEASE_SECONDS,
+  htmlValidator: HTML_VALIDATOR,
+  tailwindCompile: TAILWIND_COMPILE,
+  runtimeValidation: getRuntimeValidatorConfig().browserWSEndpoint ? 'headless browser' : 'disabled (BROWSER_WS_ENDPOINT not set)',
+  workerId: WORKER_ID
+});
+// Create Supabase client with service role key for full access
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
 };
 
-type ResponsesMessageRole = 'system' | 'user' | 'assistant';
-
-interface ResponsesMessage {
-  role: ResponsesMessageRole;
-  content: ResponsesInputContent[];
+// Errors that no amount of retrying will fix (e.g. the page was deleted)
+class PermanentJobError extends Error {
 }
-
-interface JsonSchemaFormat {
-  type: 'json_schema';
-  name: string;
-  strict: boolean;
-  schema: Record<string, unknown>;
-}
-
-interface JsonObjectFormat {
-  type: 'json_object';
+// Raised when the lease was reaped or taken over while this worker was still busy with the job
+class LeaseLostError extends Error {
 }
-
-type ResponsesTextFormat = {
-  format: JsonSchemaFormat | JsonObjectFormat;
-};
-
-interface OpenAIResponsesRequest {
-  model: string;
-  input: ResponsesMessage[];
-  max_output_tokens?: number;
-  text?: ResponsesTextFormat;
+// Renews the lease; resolves false once the item was reaped, cancelled or claimed elsewhere
+async function renewLease(queueItem) {
+  const { data, error } = await supabase.rpc('renew_generation_lease', {
+    p_queue_id: queueItem.id,
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: QUEUE_LEASE_SECONDS
+  });
+  if (error) {
+    // A transient failure is fine, the lease outlives a couple of missed beats
+    console.error(`Failed to renew lease for queue item ${queueItem.id}:`, error);
+    return true;
+  }
+  return data !== false;
 }
-
-interface OpenAIResponsePayload extends Record<string, unknown> {
-  status?: string;
-  incomplete_details?: {
-    reason?: string;
-    [key: string]: unknown;
-  };
-  output_text?: string | string[];
-  output?: Array<Record<string, unknown>>;
-  choices?: Array<Record<string, unknown>>;
-  refusal?: Record<string, unknown>;
-  error?: {
-    message?: string;
-    [key: string]: unknown;
+// Keeps the lease of a claimed item alive while it is being processed
+function startLeaseHeartbeat(queueItem) {
+  const lease = {
+    lost: false,
+    stop: ()=>clearInterval(timer)
   };
+  const timer = setInterval(async ()=>{
+    if (!await renewLease(queueItem)) {
+      console.warn(`Lease lost for queue item ${queueItem.id}, it will not be saved by this worker`);
+      lease.lost = true;
+      clearInterval(timer);
+    }
+  }, QUEUE_HEARTBEAT_INTERVAL_MS);
+  return lease;
 }
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
-
-const extractResponseText = (payload: unknown): string | null => {
-  if (!payload || typeof payload !== 'object') return null;
-  const root = payload as Record<string, unknown>;
-  const outputText = root.output_text;
-  if (typeof outputText === 'string' && outputText.trim().length > 0) {
-    return outputText;
+// Publishes a stage change for the editor's live timeline; failures only cost the timeline, never the job
+async function emitStage(queueItem, infographicId, stage, detail = {}) {
+  const { error } = await supabase.from('generation_events').insert({
+    queue_id: queueItem.id,
+    infographic_id: infographicId,
+    infographic_page_id: queueItem.infographic_page_id,
+    user_id: queueItem.user_id,
+    stage,
+    detail
+  });
+  if (error) {
+    console.error(`Failed to publish stage ${stage} for queue item ${queueItem.id}:`, error);
   }
-  if (Array.isArray(outputText)) {
-    for (const item of outputText) {
-      if (typeof item === 'string' && item.trim().length > 0) {
-        return item;
-      }
-    }
+}
+// Returns processing items whose worker stopped heartbeating to the queue (or dead-letters them)
+async function reapExpiredLeases() {
+  const { data, error } = await supabase.rpc('reap_expired_generation_jobs');
+  if (error) {
+    console.error('Error reaping expired leases:', error);
+    return 0;
   }
-  const output = root.output;
-  if (Array.isArray(output)) {
-    for (const item of output) {
-      if (!item || typeof item !== 'object') continue;
-      const content = (item as Record<string, unknown>).content;
-      if (Array.isArray(content)) {
-        for (const chunk of content) {
-          if (!chunk || typeof chunk !== 'object') continue;
-          const text = (chunk as Record<string, unknown>).text;
-          if (typeof text === 'string' && text.trim().length > 0) {
-            return text;
-          }
-        }
-      }
-    }
+  if (data > 0) {
+    console.warn(`Reaped ${data} stalled queue item(s) with expired leases`);
   }
-  const choices = root.choices;
-  if (Array.isArray(choices) && choices.length > 0) {
-    const first = choices[0];
-    if (first && typeof first === 'object') {
-      const message = (first as Record<string, unknown>).message;
-      if (message && typeof message === 'object') {
-        const legacyText = (message as Record<string, unknown>).content;
-        if (typeof legacyText === 'string' && legacyText.trim().length > 0) {
-          return legacyText;
-        }
-      }
+  return data ?? 0;
+}
+// Exponential backoff with jitter on the upper half so concurrent retries do not stampede the API
+function computeRetryDelayMs(attempt) {
+  const exponential = QUEUE_RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(exponential, QUEUE_RETRY_MAX_DELAY_MS);
+  return Math.round(capped / 2 + Math.random() * capped / 2);
+}
+// Either schedules another attempt or moves the item to a terminal state, keeping the error trail
+async function handleQueueItemFailure(queueItem, error) {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const attempt = queueItem.attempt_count ?? 1;
+  const maxAttempts = queueItem.max_attempts ?? 1;
+  // A refusal is deterministic for a given prompt: retrying only burns tokens
+  const permanent = error instanceof PermanentJobError || error instanceof LLMRefusalError;
+  const willRetry = !permanent && attempt < maxAttempts;
+  const failedAt = new Date();
+  const nextAttemptAt = willRetry ? new Date(failedAt.getTime() + computeRetryDelayMs(attempt)) : null;
+  const errorHistory = [
+    ...Array.isArray(queueItem.error_history) ? queueItem.error_history : [],
+    {
+      attempt,
+      message,
+      failed_at: failedAt.toISOString(),
+      next_attempt_at: nextAttemptAt?.toISOString() ?? null,
+      worker_id: WORKER_ID
     }
+  ];
+  const status = willRetry ? 'pending' : permanent ? 'failed' : 'dead_letter';
+  console.warn(`Queue item ${queueItem.id} attempt ${attempt}/${maxAttempts} failed -> ${status}`, {
+    message,
+    nextAttemptAt: nextAttemptAt?.toISOString() ?? null
+  });
+  const { error: updateError } = await supabase.from('generation_queue').update({
+    status,
+    processed_at: failedAt.toISOString(),
+    error_message: message,
+    error_history: errorHistory,
+    claimed_by: null,
+    lease_expires_at: null,
+    ...nextAttemptAt ? {
+      next_attempt_at: nextAttemptAt.toISOString()
+    } : {}
+  }).eq('id', queueItem.id).eq('claimed_by', WORKER_ID);
+  if (updateError) {
+    console.error(`Failed to record failure for queue item ${queueItem.id}:`, updateError);
   }
-  return null;
-};
-
-const extractRefusal = (payload: unknown): Record<string, unknown> | null => {
-  if (!payload || typeof payload !== 'object') return null;
-  const root = payload as Record<string, unknown>;
-  const check = (entry: unknown): Record<string, unknown> | null => {
-    if (!entry || typeof entry !== 'object') return null;
-    const typed = entry as Record<string, unknown>;
-    if (typed.type === 'refusal' || typed.reason === 'refusal' || typeof typed.refusal === 'string') {
-      return typed;
-    }
+}
+// Outline, position and visual system of the deck, for infographics with use_deck_context enabled
+async function loadDeckContext(page) {
+  const { data: siblings, error } = await supabase.from('infographic_pages').select('id, title, page_order, generated_html').eq('infographic_id', page.infographic_id).order('page_order', {
+    ascending: true
+  });
+  if (error || !siblings) {
+    console.error('Failed to load deck context, generating without it:', error);
     return null;
+  }
+  const position = siblings.findIndex((sibling)=>sibling.id === page.id) + 1;
+  // Closest generated neighbours first: they are the slides this one will be seen next to
+  const samples = siblings.filter((sibling)=>sibling.id !== page.id && sibling.generated_html?.trim()).sort((a, b)=>Math.abs(a.page_order - page.page_order) - Math.abs(b.page_order - page.page_order)).slice(0, DECK_CONTEXT_MAX_SAMPLES).map((sibling)=>restoreTailwindCdn(sibling.generated_html));
+  const summary = summarizeDesignTokens(samples);
+  return {
+    outline: buildDeckOutline(siblings, page.id),
+    position,
+    total: siblings.length,
+    designSummary: summary ? formatDesignTokenSummary(summary) : null
   };
-  const output = root.output;
-  if (Array.isArray(output)) {
-    for (const item of output) {
-      const direct = check(item);
-      if (direct) return direct;
-      if (item && typeof item === 'object') {
-        const content = (item as Record<string, unknown>).content;
-        if (Array.isArray(content)) {
-          for (const part of content) {
-            const nested = check(part);
-            if (nested) return nested;
-          }
-        }
-      }
-    }
+}
+// The page's layout template; a template of another user is ignored (template_id is not checked by RLS)
+async function loadPageTemplate(page, infographic) {
+  if (!page.template_id) return null;
+  const { data, error } = await supabase.from('page_templates').select('id, user_id, name, description, html, slots').eq('id', page.template_id).maybeSingle();
+  if (error || !data) {
+    console.error('Failed to load page template, generating a free layout:', error || 'Template not found');
+    return null;
   }
-  if ('refusal' in root && isRecord(root.refusal)) {
-    return root.refusal;
+  if (data.user_id !== infographic.user_id) {
+    console.warn(`Ignoring template ${data.id}: it does not belong to the deck owner`);
+    return null;
   }
-  return null;
-};
-
-const humanizeHint = (hint: string) =>
-  hint
-    .split(/[_-]/g)
-    .filter(Boolean)
-    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
-    .join(' ') || hint;
-
-const GENERATION_HINT_PROMPTS: Record<string, string> = {
-  introduction: 'Craft a captivating introduction that clearly states the topic, why it matters, and the expected outcomes for the audience.',
-  agenda: 'Include a concise agenda/sommaire that lists the main sections or talking points of the presentation.',
-  section_break: 'Design a bold transition slide that introduces the next section with minimal text and strong visuals.',
-  section_title: 'Create a section title slide: one strong title line, bold styling, optional short kicker/subtitle; no body content.',
-  dashboard: 'Create a data-rich dashboard with charts, key metrics, and calls-outs. Prioritize clarity, hierarchy, and legends.',
-  timeline: 'Use a timeline or roadmap layout to communicate milestones, phases, or a chronological story. Labels must never overlap; stagger lanes, increase spacing, wrap text, or use callouts/leader lines to keep every label legible.',
-  process: 'Display a step-by-step process or workflow with numbered stages, icons, and short descriptions.',
-  explainer: 'Explain a concept with a simplified diagram, labeled components, and brief supporting text.',
-  comparison: 'Compare multiple options (e.g., plans, competitors) side-by-side using tables or cards and highlight key differences.',
-  problem_solution: 'Present the core problem, underlying causes, and the solution with clear outcomes or impact.',
-  feature_benefits: 'Map features to benefits using icon-led callouts and short proof points.',
-  persona: 'Present a user persona with demographics, goals, pain points, and relevant context in a visually engaging layout.',
-  journey_map: 'Visualize a user journey with stages, touchpoints, emotions, and opportunities.',
-  swot: 'Structure the slide around a SWOT analysis (Strengths, Weaknesses, Opportunities, Threats) with balanced emphasis on each quadrant.',
-  budget: 'Show budget allocation, costs, or financial forecasts using tables/graphs and highlight the most important figures.',
-  risk_mitigation: 'Highlight key risks with likelihood/impact and paired mitigation actions in a structured layout.',
-  case_study: 'Tell a concise case study: context, approach, and measurable results.',
-  technology: 'Illustrate the technical architecture, stack, or integrations with diagrams, icons, and annotations.',
-  org_chart: 'Show the organizational hierarchy with roles, teams, and clear reporting lines.',
-  cv_resume: 'Lay out a professional CV/resume with summary, skills, experience timeline, and education.',
-  funnel: 'Show conversion stages in a funnel with drop-offs and key metrics per stage.',
-  okr_goals: 'Present objectives and key results with owners, metrics, and timeframes.',
-  quote: 'Feature a powerful quote or testimonial with strong typography and supporting imagery.',
-  faq: 'Provide a clear FAQ with the top questions and succinct answers, using an easy-to-scan layout.',
-  conclusion: 'Summarize the key takeaways and reinforce the core message, optionally listing next steps.',
-  call_to_action: 'End with a compelling call to action using text emphasis and contact or follow-up details; avoid buttons or button-styled elements.',
-};
-console.log('Queue worker starting with environment:', {
-  hasSupabaseUrl: !!SUPABASE_URL,
-  hasServiceRoleKey: !!SUPABASE_SERVICE_ROLE_KEY,
-  hasOpenAIKey: !!OPENAI_API_KEY,
-  generationModel: OPENAI_GENERATION_MODEL,
-  fixModel: OPENAI_FIX_MODEL
-});
-// Create Supabase client with service role key for full access
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
-};
-
+  return readPageTemplate(data);
+}
+// Images the deck owner uploaded for this deck; the only images the generator and the fixer may use
+async function loadDeckAssetManifest(infographic) {
+  const { data, error } = await supabase.from('deck_assets').select('storage_path, alt_text, width, height').eq('infographic_id', infographic.id).eq('user_id', infographic.user_id).order('created_at', {
+    ascending: true
+  });
+  if (error) {
+    console.error('Failed to load deck assets, generating without images:', error);
+    return [];
+  }
+  // The URL is rebuilt from the storage path, so it always points into this project's bucket
+  return toAssetManifest((data ?? []).map((asset)=>({
+        ...asset,
+        url: deckAssetPublicUrl(PUBLIC_SUPABASE_URL, asset.storage_path)
+      })));
+}
 /** -------------------------
- * OpenAI Responses API helpers (API-call ONLY fixes)
+ * LLM calls go through the shared provider (OpenAI Responses, Chat Completions-compatible or fake)
  * ------------------------- */
-// Using shared OpenAI client; no local call/fallback helpers needed
 
 // UPDATED: Added options parameter to pass down validation flags
 async function processQueueItem(queueItem, options) {
   console.log(`Processing queue item ${queueItem.id} for page ${queueItem.infographic_page_id}`);
+  const lease = startLeaseHeartbeat(queueItem);
+  // Known once the page is loaded; stage events are scoped to the deck
+  let infographicId = null;
+  const emit = (stage, detail = {})=>infographicId ? emitStage(queueItem, infographicId, stage, detail) : Promise.resolve();
+  // Every model call of the job lands in llm_calls, linked to the queue item and page
+  const recordLLMCall = (purpose, repairIteration = null)=>createLLMCallRecorder(supabase, {
+      userId: queueItem.user_id,
+      infographicId,
+      pageId: queueItem.infographic_page_id,
+      queueId: queueItem.id,
+      purpose,
+      repairIteration
+    });
   try {
-    // Mark as processing
-    await supabase.from('generation_queue').update({
-      status: 'processing',
-      processed_at: new Date().toISOString()
-    }).eq('id', queueItem.id);
+    // The item was already flipped to 'processing' by claim_next_generation_job
     // Fetch page data
     const { data: page, error: pageError } = await supabase.from('infographic_pages').select('*').eq('id', queueItem.infographic_page_id).single();
     if (pageError || !page) {
-      throw new Error(`Failed to fetch page: ${pageError?.message || 'Page not found'}`);
+      throw new PermanentJobError(`Failed to fetch page: ${pageError?.message || 'Page not found'}`);
     }
+    infographicId = page.infographic_id;
+    await emit('fetching_context', {
+      attempt: queueItem.attempt_count ?? 1,
+      max_attempts: queueItem.max_attempts ?? 1
+    });
     // Fetch infographic data
     const { data: infographic, error: infographicError } = await supabase.from('infographics').select('*').eq('id', page.infographic_id).single();
     if (infographicError || !infographic) {
-      throw new Error(`Failed to fetch infographic: ${infographicError?.message || 'Infographic not found'}`);
+      throw new PermanentJobError(`Failed to fetch infographic: ${infographicError?.message || 'Infographic not found'}`);
     }
     // If there's existing HTML, always snapshot before regeneration
     if (page.generated_html) {
@@ -229,23 +277,46 @@ async function processQueueItem(queueItem, options) {
           infographic_page_id: page.id,
           generated_html: page.generated_html,
           user_comment: historyComment,
+          validation_report: page.validation_report ?? null,
           user_id: queueItem.user_id
         });
       if (historyError) {
         console.error('Failed to save to history:', historyError);
       }
     }
-    // Generate HTML using OpenAI (main agent)
-    console.log('Generation hints applied:', Array.isArray(page.generation_hints) ? page.generation_hints : []);
-    const generatedHtml = await generateHtmlWithOpenAI({
+    // Generate HTML with the configured LLM provider (main agent)
+    const generationHints = Array.isArray(page.generation_hints) ? page.generation_hints : [];
+    console.log('Generation hints applied:', generationHints);
+    const customHints = generationHints.some((hint)=>typeof hint === 'string' && isCustomGenerationHint(hint)) ? await loadCustomGenerationHints(supabase, infographic.user_id, infographic.id) : [];
+    const deckContext = infographic.use_deck_context ? await loadDeckContext(page) : null;
+    const template = await loadPageTemplate(page, infographic);
+    // Images of the markdown are required visuals: deck assets, or other URLs checked and measured here
+    const { manifest: imageAssets, unreachable: unreachableImages } = await resolveMarkdownImages(page.content_markdown, await loadDeckAssetManifest(infographic), probeImage);
+    if (unreachableImages.length > 0) console.warn('Content images that cannot be shown:', unreachableImages);
+    const imageAssetUrls = imageAssets.map((asset)=>asset.url);
+    const designSystem = normalizeDesignSystem(infographic.design_system);
+    const designConstraint = isDesignSystemEmpty(designSystem) ? null : formatDesignSystemConstraint(designSystem);
+    await emit('generating', {
+      model: resolveLLMModel('generation', DEFAULT_GENERATION_MODEL)
+    });
+    const generatedHtml = await generateHtmlWithLLM({
       title: page.title,
       contentMarkdown: page.content_markdown,
-      styleDescription: infographic.style_description,
+      // Structured guide first; the legacy free text only adds to or overrides it
+      styleDescription: buildStylePrompt(readStyleGuide(infographic.style_guide), infographic.style_description),
       projectDescription: infographic.description,
-      previousHtml: page.generated_html,
+      // The model writes Tailwind classes for the CDN, not the stylesheet compiled from the previous version
+      previousHtml: page.generated_html ? restoreTailwindCdn(page.generated_html) : page.generated_html,
       previousComment: page.last_generation_comment,
       userComment: queueItem.user_comment,
-      generationHints: Array.isArray(page.generation_hints) ? page.generation_hints : []
+      generationHints,
+      customHints,
+      deckContext,
+      designConstraint,
+      template,
+      imageAssets,
+      unreachableImages,
+      onLLMCall: recordLLMCall('generation')
     });
     // UPDATED: Determine which validation steps to run.
     // Flags from a direct POST request take precedence over flags on the queue item.
@@ -253,35 +324,113 @@ async function processQueueItem(queueItem, options) {
     const validateW3C = options?.validateW3C ?? queueItem.validate_w3c ?? true;
     const validateRuntime = options?.validateRuntime ?? queueItem.validate_runtime ?? true;
     // Validate and repair HTML using the secondary agent loop until zero errors
-    const finalHtml = await validateAndRepairHtmlLoop(generatedHtml, {
+    const { html: finalHtml, report: validationReport } = await validateAndRepairHtmlLoop(generatedHtml, {
       validateW3C,
-      validateRuntime
+      validateRuntime,
+      designConstraint,
+      imageAssets,
+      onStage: emit,
+      onLLMCall: (iteration)=>recordLLMCall('repair', iteration)
     });
-    // Update page with final HTML
+    // The item may have been cancelled or reaped meanwhile; never overwrite the page in that case
+    if (lease.lost || !await renewLease(queueItem)) {
+      throw new LeaseLostError(`Queue item ${queueItem.id} was cancelled or its lease expired before saving`);
+    }
+    await emit('saving');
+    const savedHtml = TAILWIND_COMPILE ? await compileTailwind(finalHtml) : finalHtml;
+    // Update page with final HTML and the lint report of what was actually saved
     const { error: updatePageError } = await supabase.from('infographic_pages').update({
-      generated_html: finalHtml,
+      generated_html: savedHtml,
+      lint_report: lintSlideHtml(savedHtml, {
+        resourcePrefixes: imageAssetUrls
+      }),
+      validation_report: validationReport,
       last_generation_comment: queueItem.user_comment || ''
     }).eq('id', queueItem.infographic_page_id);
     if (updatePageError) {
       throw new Error(`Failed to update page: ${updatePageError.message}`);
     }
-    // Mark as completed
+    // Mark as completed (earlier attempts stay visible in error_history)
     await supabase.from('generation_queue').update({
       status: 'completed',
-      processed_at: new Date().toISOString()
-    }).eq('id', queueItem.id);
+      processed_at: new Date().toISOString(),
+      error_message: null,
+      lease_expires_at: null,
+      validation_report: validationReport
+    }).eq('id', queueItem.id).eq('claimed_by', WORKER_ID);
+    await emit('completed');
     console.log(`Successfully processed queue item ${queueItem.id}`);
   } catch (error) {
     console.error(`Error processing queue item ${queueItem.id}:`, error);
-    // Mark as failed
-    await supabase.from('generation_queue').update({
-      status: 'failed',
-      processed_at: new Date().toISOString(),
-      error_message: error instanceof Error ? error.message : 'Unknown error'
-    }).eq('id', queueItem.id);
+    if (error instanceof LeaseLostError) {
+      await emit('cancelled', {
+        message: error.message
+      });
+      // Cancelled by the user, or the reaper already recorded this attempt and rescheduled the item
+      return;
+    }
+    await emit('failed', {
+      message: error instanceof Error ? error.message : 'Unknown error',
+      attempt: queueItem.attempt_count ?? 1,
+      max_attempts: queueItem.max_attempts ?? 1
+    });
+    // Retry with backoff, or dead-letter once attempts are exhausted
+    await handleQueueItemFailure(queueItem, error);
+  } finally {
+    lease.stop();
+  }
+}
+// Fetches the start of an image of the page content: enough to know it loads and to read its size
+// (the URL is the user's: only public hosts, redirects included, see _shared/safe-fetch.ts)
+async function probeImage(url: string): Promise<ProbedImage> {
+  const response = await fetchPublicUrl(url, {
+    headers: {
+      Range: `bytes=0-${IMAGE_PROBE_BYTES - 1}`
+    },
+    signal: AbortSignal.timeout(IMAGE_PROBE_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const reader = response.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  while (reader && length < IMAGE_PROBE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  await reader?.cancel();
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return {
+    contentType: response.headers.get('content-type') ?? '',
+    bytes
+  };
+}
+// Swaps the Tailwind Play CDN for a stylesheet of the classes the page uses; a page that cannot be
+// compiled keeps the CDN, which renders the same, only slower
+async function compileTailwind(html) {
+  try {
+    const result = await compileTailwindHtml(html);
+    if (result.compiled) {
+      console.log(`Compiled Tailwind into ${result.cssBytes} bytes of static CSS`);
+    } else {
+      console.log(`Keeping the Tailwind CDN: ${result.skipped}`);
+    }
+    return result.html;
+  } catch (error) {
+    console.error('Tailwind compilation failed, keeping the CDN:', error);
+    return html;
   }
 }
-async function generateHtmlWithOpenAI(params: {
+async function generateHtmlWithLLM(params: {
   title: string;
   contentMarkdown: string;
   styleDescription: string;
@@ -290,6 +439,18 @@ async function generateHtmlWithOpenAI(params: {
   previousComment?: string;
   userComment?: string;
   generationHints?: string[];
+  customHints?: CustomGenerationHint[];
+  deckContext?: {
+    outline: string;
+    position: number;
+    total: number;
+    designSummary: string | null;
+  } | null;
+  designConstraint?: string | null;
+  template?: PageTemplate | null;
+  imageAssets?: AssetManifestEntry[];
+  unreachableImages?: UnreachableMarkdownImage[];
+  onLLMCall?: LLMCallObserver;
 }) {
   const {
     title,
@@ -300,6 +461,12 @@ async function generateHtmlWithOpenAI(params: {
     previousComment,
     userComment,
     generationHints = [],
+    customHints = [],
+    deckContext = null,
+    designConstraint = null,
+    template = null,
+    imageAssets = [],
+    unreachableImages = [],
   } = params;
 
   let prompt = `
@@ -319,17 +486,9 @@ Content to Transform:
 ${contentMarkdown}
 }}}`;
 
-  const activeHints = (generationHints || []).filter((hint) => typeof hint === 'string' && hint.trim().length > 0);
-  if (activeHints.length > 0) {
-    const hintNarrative = activeHints
-      .map((hint) => {
-        const normalized = hint.trim().toLowerCase();
-        const mapped = GENERATION_HINT_PROMPTS[normalized];
-        return mapped
-          ? `- ${humanizeHint(normalized)}: ${mapped}`
-          : `- ${humanizeHint(normalized)}: Emphasize this theme prominently in the layout and narrative.`;
-      })
-      .join('\n');
+  const hintLines = buildGenerationHintLines(generationHints || [], customHints);
+  if (hintLines.length > 0) {
+    const hintNarrative = hintLines.join('\n');
 
     prompt += `
 
@@ -339,6 +498,55 @@ ${hintNarrative}
 Incorporate every hint above. Blend them gracefully in one cohesive slide without fragmenting the content.`;
   }
 
+  if (deckContext) {
+    prompt += `
+
+Deck Context (this slide is part of a deck and must look like it belongs to it):
+- Position: slide ${deckContext.position} of ${deckContext.total}${deckContext.position === 1 ? ' (opening slide)' : deckContext.position === deckContext.total ? ' (closing slide)' : ''}
+- Deck outline: {{{
+${deckContext.outline}
+}}}`;
+    if (deckContext.designSummary) {
+      prompt += `
+- Visual system already in use: {{{
+${deckContext.designSummary}
+}}}
+
+Build this slide against the same visual system: reuse the colour palette, fonts, header structure, corner radius and footer of the slides above instead of inventing new ones. Only the content and the layout of the main area should differ.`;
+    } else {
+      prompt += `
+
+No other slide of the deck is generated yet: choose a clear, reusable header, colour palette and footer, since the other slides will follow them.`;
+    }
+    prompt += `
+Do not repeat the content of the other slides; the outline is only there so this slide fits the narrative.`;
+  }
+
+  if (designConstraint) {
+    prompt += `
+
+Deck Design System (HARD CONSTRAINT, takes precedence over any other styling guidance):
+{{{
+${designConstraint}
+}}}
+Every rule above is mandatory. Do not introduce colours, fonts, heading styles or footers that contradict it.`;
+  }
+
+  if (template) {
+    prompt += `
+
+${buildTemplatePrompt(template)}`;
+  }
+
+  prompt += `
+
+${buildAssetManifestPrompt(imageAssets, contentMarkdown)}`;
+  if (unreachableImages.length > 0) {
+    prompt += `
+
+${buildUnreachableImagesPrompt(unreachableImages)}`;
+  }
+
   // If this is a regeneration with user feedback, include context
   if (previousHtml && userComment) {
     prompt += `
@@ -378,10 +586,9 @@ Requirements:
 ${userComment ? `
 17. IMPORTANT: Address the user's specific feedback: ${userComment}` : ''}`;
 
-  const client = new OpenAIJsonClient({ apiKey: OPENAI_API_KEY, defaultModel: OPENAI_GENERATION_MODEL });
+  const llm = createLLMProvider('generation', DEFAULT_GENERATION_MODEL, { onCall: params.onLLMCall });
 
-  const result = await client.generateJSON<{ generatedHtml: string }>({
-    model: OPENAI_GENERATION_MODEL,
+  const { data: result } = await llm.generateJSON<{ generatedHtml: string }>({
     system: `You are an expert infographic & data-visualization designer.
 
 Output MUST be valid JSON following the provided schema, where \`generatedHtml\` contains a full, production-ready HTML5 document.
@@ -393,15 +600,15 @@ Design guidelines:
 • For mathematical equations (when applicable to context): Use MathJax via CDN (<script id="MathJax-script" async src="https://cdn.jsdelivr.net/npm/mathjax@3/es5/tex-mml-chtml.js"></script>) to render beautiful LaTeX equations. Configure MathJax with proper delimiters and display options.
 • For animations (when applicable): Use Framer Motion via CDN (<script src="https://cdn.jsdelivr.net/npm/framer-motion@latest/dist/framer-motion.js"></script>) to create smooth, professional animations and transitions where appropriate.
 • Bring data to life with interactive charts with Chart.js via CDN (<script src="https://cdn.jsdelivr.net/npm/chart.js@latest/dist/chart.umd.min.js"></script>) and timelines using vis-timeline via CDN (https://unpkg.com/moment@latest, https://unpkg.com/vis-data@latest/peer/umd/vis-data.min.js, https://unpkg.com/vis-timeline@latest/peer/umd/vis-timeline-graph2d.min.js, https://unpkg.com/vis-timeline/styles/vis-timeline-graph2d.min.css).
-• Source high-resolution royalty-free hero/illustration images from Pexels URLs that match the page topic and add descriptive alt text.
+• Only use images from the Image Assets list of the prompt, with descriptive alt text; where no listed image fits, use the image placeholder block described there.
 • Employ semantic HTML5 sections (header, main, section, article, figure, footer) and ARIA labels for accessibility.
 • Ensure a mobile-first, responsive layout using Flexbox or CSS Grid with sensible breakpoints.
 • Keep JavaScript scoped at the end of <body>; separate content, presentation, and behavior.
 • Never include buttons or button-styled links; this is a presentation slide, not an interactive UI.
 • Do NOT include any explanatory text outside the JSON object.
-• Never add an external link to a resource outside the CDNs and image sources explicitly requested above. The page must remain a single-file HTML that opens directly in a browser.
+• Never add an external link to a resource outside the CDNs above and the listed image assets. The page must remain a single-file HTML that opens directly in a browser.
 • Make sure the page renders correctly when opened directly in a browser.
-• Make sure the page always ends with a footer mentioning "Presentation made by InfogrAIphics by P2Enjoy SAS - Copyright 2025".
+• Make sure the page always ends with a footer mentioning "${COPYRIGHT_NOTICE}".
 
 Chart.js Safety Contract (mandatory whenever Chart.js is used):
 1) Every chart canvas MUST be inside a bounded-height container.
@@ -432,63 +639,12 @@ Chart.js Safety Contract (mandatory whenever Chart.js is used):
   if (!result.generatedHtml) throw new Error('No HTML content generated by AI');
   return result.generatedHtml;
 }
-/*
-async function validateJavaScriptAndLoading(html) {
-  
-  let browser;
+// Resolves null when the remote validator cannot be reached so the caller can fall back to the local one
+async function validateHtmlWithW3C(html) {
+  const url = new URL(W3C_VALIDATOR_URL);
+  url.searchParams.set('out', 'json');
   try {
-    Deno.env.set('PUPPETEER_CACHE_DIR', '/tmp/puppeteer');
-    console.log('Launching headless browser for JS and loading validation...');
-    browser = await puppeteer.launch({
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox'
-      ]
-    });
-    const page = await browser.newPage();
-    const errors = [];
-    page.on('console', (msg)=>{
-      if (msg.type() === 'error') {
-        console.log('Captured JS Error:', msg.text());
-        errors.push({
-          type: 'error',
-          subType: 'javascript',
-          message: `JavaScript console error: ${msg.text()}`
-        });
-      }
-    });
-    page.on('requestfailed', (request)=>{
-      console.log('Captured Loading Error:', request.url());
-      errors.push({
-        type: 'error',
-        subType: 'loading',
-        message: `Failed to load resource: ${request.failure()?.errorText}`,
-        extract: `URL: ${request.url()}`
-      });
-    });
-    await page.setContent(html, {
-      waitUntil: 'domcontentloaded'
-    });
-    await new Promise((resolve)=>setTimeout(resolve, 1000));
-    console.log(`JS and loading validation complete. Found ${errors.length} errors.`);
-    return {
-      errors
-    };
-  } catch (e) {
-    console.error('Puppeteer validation failed unexpectedly:', e);
-    return {
-      errors: []
-    };
-  } finally{
-    if (browser) {
-      await browser.close();
-    }
-  }
-  
-}
-*/ async function validateHtmlWithW3C(html) {
-  try {
-    const res = await fetch('https://validator.w3.org/nu/?out=json', {
+    const res = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'text/html; charset=utf-8',
@@ -499,11 +655,7 @@ async function validateJavaScriptAndLoading(html) {
     if (!res.ok) {
       const txt = await res.text();
       console.error('W3C validator HTTP error:', res.status, txt);
-      return {
-        valid: true,
-        errors: [],
-        allMessages: []
-      };
+      return null;
     }
     const payload = await res.json();
     const messages = payload?.messages || [];
@@ -516,12 +668,33 @@ async function validateJavaScriptAndLoading(html) {
     };
   } catch (e) {
     console.error('W3C validator fetch error:', e);
-    return {
-      valid: true,
-      errors: [],
-      allMessages: []
-    };
+    return null;
+  }
+}
+// Markup validation for the repair loop according to HTML_VALIDATOR; never passes a draft unchecked
+async function validateHtmlMarkup(html) {
+  if (HTML_VALIDATOR !== 'remote' && HTML_VALIDATOR !== 'both') return validateHtmlLocally(html);
+  const remote = await validateHtmlWithW3C(html);
+  if (!remote) {
+    console.warn('Remote HTML validator unavailable, using the local validator');
+    return validateHtmlLocally(html);
   }
+  if (HTML_VALIDATOR === 'remote') return remote;
+  // Both report the same problems in the same shape; only add local errors at positions the remote one did not flag
+  const local = validateHtmlLocally(html);
+  const flagged = new Set(remote.errors.map((m)=>`${m.lastLine}:${m.lastColumn}`));
+  const extra = local.errors.filter((m)=>!flagged.has(`${m.lastLine}:${m.lastColumn}`));
+  return {
+    valid: remote.valid && extra.length === 0,
+    errors: [
+      ...remote.errors,
+      ...extra
+    ],
+    allMessages: [
+      ...remote.allMessages,
+      ...extra
+    ]
+  };
 }
 function truncateForPrompt(messages, maxChars = 6000) {
   const json = JSON.stringify(messages);
@@ -536,22 +709,24 @@ function truncateForPrompt(messages, maxChars = 6000) {
   }
   return JSON.stringify(acc);
 }
-async function repairHtmlWithOpenAI(html, errors) {
+async function repairHtmlWithLLM(html, errors, designConstraint = null, imageAssets: AssetManifestEntry[] = [], onLLMCall?: LLMCallObserver) {
   const errorBlob = truncateForPrompt(errors);
-  const client = new OpenAIJsonClient({ apiKey: OPENAI_API_KEY, defaultModel: OPENAI_FIX_MODEL });
-  const result = await client.generateJSON<{ fixedHtml: string }>({
-    model: OPENAI_FIX_MODEL,
+  const llm = createLLMProvider('fix', DEFAULT_FIX_MODEL, { onCall: onLLMCall });
+  const { data: result } = await llm.generateJSON<{ fixedHtml: string }>({
     system: [
       'You are a senior HTML correctness agent.',
       'Your job is to fix only the concrete validator errors provided.',
-      'The errors can be HTML syntax errors from a W3C validator, JavaScript runtime errors, or resource loading errors (e.g., 404s).',
+      'The errors can be HTML syntax errors from an HTML5 validator, slide lint violations (errors with a rule id such as no-buttons, allowed-cdn, chartjs-box, copyright-footer or no-external-links), JavaScript runtime errors, or resource loading errors (e.g., 404s).',
+      'A slide lint violation breaks a hard rule of the slide: resolve it the way its message says, touching only the offending element.',
       'ONLY FIX THE ERROR AND DO NOT CHANGE ANYTHING ELSE.',
       'If you see a JavaScript error, analyze the script and fix the bug.',
-      'If you see a loading error (e.g. 404), correct the resource URL. If it\'s an image from a service like Pexels, find a valid replacement URL on the same topic.',
+      'If you see a loading error (e.g. 404), correct the resource URL.',
+      `An image may only come from the image assets provided: if an image is not one of them or fails to load, replace its URL with a listed image that fits, or replace the image with a placeholder block (<div ${IMAGE_PLACEHOLDER_ATTRIBUTE} role="img" aria-label="...">). Never invent an image URL.`,
       'Preserve content, structure, order, classes, ids, inline scripts and styles.',
       'Do not add or remove elements unless strictly necessary to resolve an error.',
       'Do not introduce external resources',
       'Do not reformat whitespace except where required by the fix.',
+      'If a deck design system is provided, a fix must never break it (colours, fonts, heading classes, footer).',
       'Return valid JSON that matches the schema with the single field fixedHtml.'
     ].join('\n'),
     user: [
@@ -561,7 +736,14 @@ async function repairHtmlWithOpenAI(html, errors) {
       '---HTML END---',
       '',
       'Here are the validator errors you must address exactly and only:',
-      errorBlob
+      errorBlob,
+      ...designConstraint ? [
+        '',
+        'Deck design system the fixed HTML must still satisfy (hard constraint):',
+        designConstraint
+      ] : [],
+      '',
+      buildAssetManifestPrompt(imageAssets)
     ].join('\n'),
     schemaName: 'html_fix',
     schema: {
@@ -576,23 +758,51 @@ async function repairHtmlWithOpenAI(html, errors) {
   if (!result.fixedHtml) throw new Error('Fixer did not return fixedHtml');
   return result.fixedHtml;
 }
-// UPDATED: This function now accepts options to conditionally run validation steps.
+// Validates and repairs until the HTML is clean: at most MAX_HTML_FIX_ITER repairs, each followed by a new
+// validation pass. Returns the final HTML and the validation report of the whole run.
 async function validateAndRepairHtmlLoop(initialHtml, options) {
   let html = initialHtml;
-  const { validateW3C, validateRuntime } = options;
+  const { validateW3C, validateRuntime, imageAssets = [] } = options;
+  const onStage = options.onStage ?? (async ()=>{});
+  const report: ValidationReport = {
+    outcome: 'skipped',
+    checks: {
+      markup: !!validateW3C,
+      lint: !!validateW3C,
+      runtime: !!validateRuntime
+    },
+    max_iterations: MAX_HTML_FIX_ITER,
+    iterations: [],
+    remaining_errors: [],
+    started_at: new Date().toISOString(),
+    finished_at: ''
+  };
+  const finish = (outcome: ValidationOutcome)=>{
+    report.outcome = outcome;
+    report.remaining_errors = report.iterations.at(-1)?.errors ?? [];
+    report.finished_at = new Date().toISOString();
+    return {
+      html,
+      report
+    };
+  };
   // If both validation steps are disabled, skip the loop entirely.
   if (!validateW3C && !validateRuntime) {
     console.log('HTML validation skipped as per request.');
-    return initialHtml;
+    return finish('skipped');
   }
-  for(let i = 1; i <= MAX_HTML_FIX_ITER; i++){
+  for(let i = 1; i <= MAX_HTML_FIX_ITER + 1; i++){
+    await onStage('validating', {
+      iteration: i,
+      max_iterations: MAX_HTML_FIX_ITER + 1
+    });
     // Conditionally create promises for the validation steps.
-    const w3cValidationPromise = validateW3C ? validateHtmlWithW3C(html) : Promise.resolve({
+    const w3cValidationPromise = validateW3C ? validateHtmlMarkup(html) : Promise.resolve({
       valid: true,
       errors: [],
       allMessages: []
     });
-    const runtimeValidationPromise = /*validateRuntime ? validateJavaScriptAndLoading(html) :*/ Promise.resolve({
+    const runtimeValidationPromise = validateRuntime ? validateHtmlRuntime(html) : Promise.resolve({
       errors: []
     });
     // Run enabled validations in parallel.
@@ -600,72 +810,138 @@ async function validateAndRepairHtmlLoop(initialHtml, options) {
       w3cValidationPromise,
       runtimeValidationPromise
     ]);
+    // Project rules from the generation prompt are static checks too, so they follow the markup flag
+    const lintReport = validateW3C ? lintSlideHtml(html, {
+      resourcePrefixes: imageAssets.map((asset)=>asset.url)
+    }) : {
+      valid: true,
+      errors: []
+    };
     const allErrors = [
       ...w3cValidation.errors,
+      ...lintReport.errors,
       ...runtimeValidation.errors
     ];
+    const iteration: ValidationIterationReport = {
+      iteration: i,
+      errors: [
+        ...w3cValidation.errors.map((error)=>toValidationReportMessage('markup', error)),
+        ...lintReport.errors.map((error)=>toValidationReportMessage('lint', error)),
+        ...runtimeValidation.errors.map((error)=>toValidationReportMessage('runtime', error))
+      ],
+      runtime_skipped: runtimeValidation.skipped ?? null,
+      diff: null
+    };
+    report.iterations.push(iteration);
     console.log(`Validation pass ${i}:`, {
       valid: allErrors.length === 0,
       w3cEnabled: validateW3C,
       runtimeEnabled: validateRuntime,
       w3cErrorCount: w3cValidation.errors.length,
+      lintErrorCount: lintReport.errors.length,
+      runtimeSkipped: runtimeValidation.skipped ?? null,
       runtimeErrorCount: runtimeValidation.errors.length
     });
     if (allErrors.length === 0) {
       console.log('HTML passed all enabled validation checks.');
-      return html;
+      return finish(i === 1 ? 'passed' : 'repaired');
     }
+    if (i > MAX_HTML_FIX_ITER) break;
     const before = html;
-    html = await repairHtmlWithOpenAI(html, allErrors);
+    await onStage('repairing', {
+      iteration: i,
+      max_iterations: MAX_HTML_FIX_ITER,
+      error_count: allErrors.length
+    });
+    html = await repairHtmlWithLLM(html, allErrors, options.designConstraint ?? null, imageAssets, options.onLLMCall?.(i));
     if (html === before) {
       console.warn('Fixer returned identical HTML, stopping early to prevent loop');
-      return html;
+      return finish('stalled');
     }
+    iteration.diff = createUnifiedDiff(before, html);
   }
   console.warn(`Reached max iterations (${MAX_HTML_FIX_ITER}) with remaining errors`);
-  return html;
+  return finish('max_iterations');
+}
+// Atomically claim the highest-priority, oldest pending item; returns null when the queue is empty
+async function claimNextQueueItem() {
+  const { data, error } = await supabase.rpc('claim_next_generation_job', {
+    p_worker_id: WORKER_ID,
+    p_lease_seconds: QUEUE_LEASE_SECONDS
+  });
+  if (error) {
+    console.error('Error claiming queue item:', error);
+    return null;
+  }
+  const rows = Array.isArray(data) ? data : data ? [
+    data
+  ] : [];
+  return rows[0] ?? null;
 }
 // UPDATED: Added options parameter to pass down validation flags
+// Claims up to QUEUE_WORKER_CONCURRENCY items and processes them in parallel.
 async function processQueue(options) {
   console.log('Checking for pending queue items...');
   try {
-    const { data: queueItems, error } = await supabase.from('generation_queue').select('*').eq('status', 'pending').order('requested_at', {
-      ascending: true
-    }).limit(1);
-    if (error) {
-      console.error('Error fetching queue items:', error);
-      return;
+    // Put items abandoned by crashed workers back in the queue before claiming
+    await reapExpiredLeases();
+    const claimedItems = [];
+    while(claimedItems.length < QUEUE_WORKER_CONCURRENCY){
+      const queueItem = await claimNextQueueItem();
+      if (!queueItem) break;
+      claimedItems.push(queueItem);
     }
-    console.log('Queue query result:', {
-      itemsFound: queueItems?.length || 0,
-      items: queueItems
+    console.log('Queue claim result:', {
+      itemsClaimed: claimedItems.length,
+      ids: claimedItems.map((item)=>item.id)
     });
-    if (!queueItems || queueItems.length === 0) {
+    if (claimedItems.length === 0) {
       console.log('No pending items in queue');
-      return;
+      return 0;
     }
-    const queueItem = queueItems[0];
-    console.log('Processing queue item:', queueItem);
     // Pass the options down to the item processor
-    await processQueueItem(queueItem, options);
+    await Promise.all(claimedItems.map((queueItem)=>processQueueItem(queueItem, options)));
+    return claimedItems.length;
   } catch (error) {
     console.error('Error in processQueue:', error);
+    return 0;
   }
 }
-async function runWorker() {
-  console.log('Starting generation queue worker...');
+// A single worker slot keeps claiming and processing items until the isolate stops.
+async function runWorkerSlot(slot) {
   while(true){
     try {
       // The worker does not have request-specific flags, so it relies on
       // flags set on the queue item itself, or defaults to true.
-      await processQueue();
-      await new Promise((resolve)=>setTimeout(resolve, 5000));
+      const queueItem = await claimNextQueueItem();
+      if (!queueItem) {
+        await reapExpiredLeases();
+        await new Promise((resolve)=>setTimeout(resolve, 5000));
+        continue;
+      }
+      await processQueueItem(queueItem);
     } catch (error) {
-      console.error('Worker error:', error);
+      console.error(`Worker slot ${slot} error:`, error);
       await new Promise((resolve)=>setTimeout(resolve, 10000));
     }
   }
 }
+let workerRunning = false;
+async function runWorker() {
+  if (workerRunning) {
+    console.log('Generation queue worker already running in this isolate');
+    return;
+  }
+  workerRunning = true;
+  console.log(`Starting generation queue worker with ${QUEUE_WORKER_CONCURRENCY} slots...`);
+  try {
+    await Promise.all(Array.from({
+      length: QUEUE_WORKER_CONCURRENCY
+    }, (_, index)=>runWorkerSlot(index + 1)));
+  } finally{
+    workerRunning = false;
+  }
+}
 Deno.serve(async (req)=>{
   try {
     if (req.method === 'OPTIONS') {
@@ -692,17 +968,19 @@ Deno.serve(async (req)=>{
         });
       }
       if (action === 'process-once') {
-        console.log('Processing one queue item with options:', {
+        console.log('Processing one batch of queue items with options:', {
           validateW3C,
-          validateRuntime
+          validateRuntime,
+          concurrency: QUEUE_WORKER_CONCURRENCY
         });
         // Pass the flags to the queue processor.
-        await processQueue({
+        const processed = await processQueue({
           validateW3C,
           validateRuntime
         });
         return new Response(JSON.stringify({
-          message: 'Queue processed'
+          message: 'Queue processed',
+          processed
         }), {
           status: 200,
           headers: {
@@ -0,0 +1,96 @@
+import { z } from 'npm:zod@3.23.8';
+import { corsHeaders } from '../_shared/cors.ts';
+import { getRequestUser } from '../_shared/request-user.ts';
+import { SlideRendererUnavailableError, renderSlide } from '../_shared/slide-renderer.ts';
+
+// Renders a page in the headless browser for the PPTX export: screenshots plus the headings and lists that
+// can stay editable (see _shared/slide-render.ts). Nothing is stored; the editor builds the file.
+
+const requestSchema = z.object({
+  pageId: z.string().uuid(),
+});
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+      status: 405,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  let parsedBody: z.infer<typeof requestSchema>;
+  try {
+    const validation = requestSchema.safeParse(await req.json());
+    if (!validation.success) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid payload', details: validation.error.flatten() }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
+      );
+    }
+    parsedBody = validation.data;
+  } catch (error) {
+    console.error('Failed to parse JSON body', error);
+    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return new Response(JSON.stringify({ error: 'Authentication required' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Read through the caller's client: RLS only returns pages of decks they can see
+  const { data: page, error } = await user.client
+    .from('infographic_pages')
+    .select('id, generated_html')
+    .eq('id', parsedBody.pageId)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load page for slide render:', error);
+    return new Response(JSON.stringify({ error: 'Failed to load page' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  if (!page) {
+    return new Response(JSON.stringify({ error: 'Page not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+  if (!page.generated_html) {
+    return new Response(JSON.stringify({ error: 'Page has no generated HTML yet' }), {
+      status: 409,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  try {
+    const render = await renderSlide(page.generated_html);
+    return new Response(JSON.stringify(render), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof SlideRendererUnavailableError) {
+      return new Response(JSON.stringify({ error: `Slide rendering is not available: ${error.message}` }), {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    console.error('Slide render failed:', error);
+    return new Response(JSON.stringify({ error: 'Slide render failed' }), {
+      status: 502,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
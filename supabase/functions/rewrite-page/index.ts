@@ -1,9 +1,10 @@
 import { z } from 'npm:zod@3.23.8';
 import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAIJsonClient } from '../_shared/openai-json.ts';
+import { createLLMProvider, getLLMConfigError } from '../_shared/llm-provider.ts';
+import { createCallerLLMCallRecorder } from '../_shared/llm-usage.ts';
+import { admitAIHelperRequest } from '../_shared/quota.ts';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const OPENAI_ANALYSIS_MODEL = Deno.env.get('OPENAI_ANALYSIS_MODEL') ?? 'gpt-4o';
+const DEFAULT_ANALYSIS_MODEL = 'gpt-4o';
 
 const requestSchema = z.object({
   projectName: z.string().min(1),
@@ -11,9 +12,12 @@ const requestSchema = z.object({
   pageTitle: z.string().min(1),
   existingMarkdown: z.string().min(1),
   useWebSearch: z.boolean().optional(),
+  // Only used to attribute the LLM cost to the deck and page
+  infographicId: z.string().uuid().optional(),
+  pageId: z.string().uuid().optional(),
 });
 
-// Using shared OpenAI client; no local response parsing needed
+// Using the shared LLM provider; no local response parsing needed
 
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
@@ -27,8 +31,9 @@ Deno.serve(async (req: Request) => {
     });
   }
 
-  if (!OPENAI_API_KEY) {
-    return new Response(JSON.stringify({ error: 'OpenAI API key not configured' }), {
+  const llmConfigError = getLLMConfigError();
+  if (llmConfigError) {
+    return new Response(JSON.stringify({ error: llmConfigError }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -53,7 +58,11 @@ Deno.serve(async (req: Request) => {
     });
   }
 
-  const { projectName, projectDescription, pageTitle, existingMarkdown, useWebSearch } = parsedBody;
+  const { projectName, projectDescription, pageTitle, existingMarkdown, useWebSearch, infographicId, pageId } = parsedBody;
+
+  const admission = await admitAIHelperRequest(req, 'rewrite', corsHeaders);
+  if (admission.response) return admission.response;
+  const { user } = admission;
 
   const prompt = [
     `You are an expert presentation copywriter.` ,
@@ -74,12 +83,10 @@ Deno.serve(async (req: Request) => {
   ].join('\n');
 
   try {
-    const client = new OpenAIJsonClient({
-      apiKey: OPENAI_API_KEY,
-      defaultModel: OPENAI_ANALYSIS_MODEL,
-    });
+    const onCall = await createCallerLLMCallRecorder(user, { purpose: 'rewrite', infographicId, pageId });
+    const llm = createLLMProvider('analysis', DEFAULT_ANALYSIS_MODEL, { onCall });
 
-    const parsed = await client.generateJSON<{ rewrittenMarkdown: string; summary: string }>({
+    const { data: parsed } = await llm.generateJSON<{ rewrittenMarkdown: string; summary: string }>({
       user: prompt,
       system: 'You rewrite slide content into clean, well-structured Markdown while preserving factual accuracy.',
       schemaName: 'page_rewrite',
@@ -96,9 +103,10 @@ Deno.serve(async (req: Request) => {
       ...(useWebSearch ? { tools: [{ type: 'web_search' }] } : {}),
     });
 
-    if (!parsed.rewrittenMarkdown || typeof parsed.rewrittenMarkdown !== 'string') {
+    // The shape is already validated; an empty rewrite is still useless
+    if (!parsed.rewrittenMarkdown.trim()) {
       return new Response(
-        JSON.stringify({ error: 'OpenAI response missing rewrittenMarkdown field' }),
+        JSON.stringify({ error: 'LLM response has an empty rewrittenMarkdown field' }),
         { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } },
       );
     }
@@ -1,150 +1,38 @@
 import { z } from 'npm:zod@3.23.8';
 import { corsHeaders } from '../_shared/cors.ts';
-import { OpenAIJsonClient } from '../_shared/openai-json.ts';
+import { loadCustomGenerationHints } from '../_shared/custom-hints.ts';
+import {
+  GENERATION_HINT_CONFIDENCE,
+  GENERATION_HINT_VALUES,
+  type CustomGenerationHint,
+  type GenerationHintValue,
+  buildGenerationHintCatalogue,
+  generationHintLabel,
+  sanitizeGenerationHints,
+} from '../_shared/generation-hints.ts';
+import { LLMSchemaError, createLLMProvider, getLLMConfigError } from '../_shared/llm-provider.ts';
+import { createCallerLLMCallRecorder } from '../_shared/llm-usage.ts';
+import { admitAIHelperRequest } from '../_shared/quota.ts';
 
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-const OPENAI_ANALYSIS_MODEL = Deno.env.get('OPENAI_ANALYSIS_MODEL') ?? 'gpt-4o';
+const DEFAULT_ANALYSIS_MODEL = 'gpt-4o';
 
-// Using shared OpenAI client; no local response parsing needed
+// Using the shared LLM provider; no local response parsing needed
 
-const GENERATION_HINT_OPTIONS = [
-  {
-    value: 'introduction',
-    label: 'Introduction',
-    description:
-      'Deliver a compelling opening that frames the topic, why it matters, and the outcome the audience should expect.',
-  },
-  {
-    value: 'agenda',
-    label: 'Agenda',
-    description: 'Lay out the main sections or talking points of the presentation in a concise list.',
-  },
-  {
-    value: 'section_break',
-    label: 'Section Break',
-    description: 'Design a bold transition slide that signals a new chapter with minimal text and strong visuals.',
-  },
-  {
-    value: 'section_title',
-    label: 'Section Title',
-    description: 'A title-only section opener: one strong heading, optional short kicker, no body content.',
-  },
-  {
-    value: 'dashboard',
-    label: 'Dashboard',
-    description: 'Highlight metrics with charts and key figures using clear hierarchy, legends, and annotations.',
-  },
-  {
-    value: 'timeline',
-    label: 'Timeline',
-    description: 'Show milestones or a roadmap using a chronological visual flow.',
-  },
-  {
-    value: 'process',
-    label: 'Process',
-    description: 'Break down a workflow into clear steps with brief descriptors and supporting icons.',
-  },
-  {
-    value: 'explainer',
-    label: 'Explainer',
-    description: 'Clarify a concept with a simplified diagram, labeled components, and short supporting text.',
-  },
-  {
-    value: 'comparison',
-    label: 'Comparison',
-    description: 'Compare options side-by-side with a visual layout that emphasises differentiators.',
-  },
-  {
-    value: 'problem_solution',
-    label: 'Problem / Solution',
-    description: 'Frame the pain points, root causes, and proposed solution with clear outcomes.',
-  },
-  {
-    value: 'feature_benefits',
-    label: 'Features & Benefits',
-    description: 'Map product features to user benefits using icon-driven callouts and short proof points.',
-  },
-  {
-    value: 'persona',
-    label: 'Persona',
-    description: 'Present the target audience with needs, pain points, and motivating context.',
-  },
-  {
-    value: 'journey_map',
-    label: 'Journey Map',
-    description: 'Visualize stages, touchpoints, emotions, and opportunities across a user journey.',
-  },
-  {
-    value: 'swot',
-    label: 'SWOT',
-    description: 'Structure strengths, weaknesses, opportunities, and threats into a balanced quadrant.',
-  },
-  {
-    value: 'budget',
-    label: 'Budget',
-    description: 'Explain costs or projections with tabular or chart-based visuals and clear highlights.',
-  },
-  {
-    value: 'risk_mitigation',
-    label: 'Risk & Mitigation',
-    description: 'List key risks with likelihood/impact and paired mitigation actions.',
-  },
-  {
-    value: 'case_study',
-    label: 'Case Study',
-    description: 'Tell a short story: context, approach, and measurable results.',
-  },
-  {
-    value: 'technology',
-    label: 'Technology',
-    description: 'Visualise the technical architecture, stack, or integrations with a diagram and callouts.',
-  },
-  {
-    value: 'org_chart',
-    label: 'Org Chart',
-    description: 'Show reporting structure with role blocks, hierarchy, and clear groupings.',
-  },
-  {
-    value: 'cv_resume',
-    label: 'CV / Resume',
-    description: 'Lay out a professional profile with summary, skills, experience, and education.',
-  },
-  {
-    value: 'funnel',
-    label: 'Funnel',
-    description: 'Show stage-by-stage conversion with drop-offs and key metrics.',
-  },
-  {
-    value: 'okr_goals',
-    label: 'OKRs / Goals',
-    description: 'Present objectives with measurable key results, owners, and timeframes.',
-  },
-  {
-    value: 'quote',
-    label: 'Quote',
-    description: 'Feature a powerful testimonial or statement with impactful typography and composition.',
-  },
-  {
-    value: 'faq',
-    label: 'FAQ',
-    description: 'Answer recurring questions with a clean, scannable layout.',
-  },
-  {
-    value: 'conclusion',
-    label: 'Conclusion',
-    description: 'Summarise the key takeaways and reinforce the overarching message.',
-  },
-  {
-    value: 'call_to_action',
-    label: 'Call to Action',
-    description: 'End with specific next steps and contact or follow-up details.',
-  },
-] as const;
+const ConfidenceEnum = z.enum(GENERATION_HINT_CONFIDENCE);
 
-type GenerationHintValue = (typeof GENERATION_HINT_OPTIONS)[number]['value'];
-const HINT_VALUES = GENERATION_HINT_OPTIONS.map((hint) => hint.value);
-const HintEnum = z.enum(HINT_VALUES as [GenerationHintValue, ...GenerationHintValue[]]);
-const ConfidenceEnum = z.enum(['low', 'medium', 'high']);
+// The allowed values depend on the caller's custom hints
+const buildLLMResponseSchema = (hintValues: [GenerationHintValue, ...GenerationHintValue[]]) =>
+  z.object({
+    hints: z
+      .array(
+        z.object({
+          value: z.enum(hintValues),
+          rationale: z.string().min(1),
+          confidence: ConfidenceEnum.optional().default('medium'),
+        }),
+      )
+      .max(5),
+  });
 
 const requestSchema = z.object({
   projectName: z.string().min(1),
@@ -154,35 +42,11 @@ const requestSchema = z.object({
   pageContentMarkdown: z.string().optional().default(''),
   existingHints: z.array(z.string()).optional(),
   maxSuggestions: z.number().int().min(1).max(5).optional(),
+  // Attributes the LLM cost to the deck and page; the deck also brings its custom hints
+  infographicId: z.string().uuid().optional(),
+  pageId: z.string().uuid().optional(),
 });
 
-const openAiResponseSchema = z.object({
-  hints: z
-    .array(
-      z.object({
-        value: HintEnum,
-        rationale: z.string().min(1),
-        confidence: ConfidenceEnum.optional().default('medium'),
-      }),
-    )
-    .max(5),
-});
-
-const sanitizeHints = (hints?: unknown): GenerationHintValue[] => {
-  if (!Array.isArray(hints)) return [];
-  const seen = new Set<GenerationHintValue>();
-  const result: GenerationHintValue[] = [];
-  for (const raw of hints) {
-    if (typeof raw !== 'string') continue;
-    const normalized = raw.toLowerCase() as GenerationHintValue;
-    if ((HintEnum.options as readonly string[]).includes(normalized) && !seen.has(normalized)) {
-      seen.add(normalized);
-      result.push(normalized);
-    }
-  }
-  return result;
-};
-
 const buildPrompt = (input: {
   projectName: string;
   projectDescription: string;
@@ -191,12 +55,11 @@ const buildPrompt = (input: {
   pageContentMarkdown: string;
   existingHints: GenerationHintValue[];
   maxSuggestions: number;
+  customHints: CustomGenerationHint[];
 }) => {
-  const { projectName, projectDescription, styleDescription, pageTitle, pageContentMarkdown, existingHints, maxSuggestions } = input;
+  const { projectName, projectDescription, styleDescription, pageTitle, pageContentMarkdown, existingHints, maxSuggestions, customHints } = input;
 
-  const hintCatalogue = GENERATION_HINT_OPTIONS.map(
-    (hint) => `- ${hint.value}: ${hint.description}`,
-  ).join('\n');
+  const hintCatalogue = buildGenerationHintCatalogue('en', customHints);
 
   const existingText = existingHints.length
     ? `Hints already selected for this page (do NOT suggest them again): ${existingHints.join(', ')}`
@@ -221,6 +84,7 @@ ${existingText}
 Instructions:
 - Propose up to ${maxSuggestions} hints from the allowed catalogue above.
 - Only choose hints from the allowed catalogue. Never invent new hint names.
+- Values starting with "custom:" are archetypes defined by this team; prefer them when they fit as well as a built-in hint.
 - Focus on the hints that will create the strongest, clearest slide for this specific page.
 - Prioritise variety and the most relevant storytelling structures.
 - Provide a short rationale (1-2 sentences) explaining why each hint fits the page.
@@ -228,10 +92,6 @@ Instructions:
 - If no hint is appropriate, return an empty list.`;
 };
 
-const optionDetailsByValue = new Map(
-  GENERATION_HINT_OPTIONS.map((option) => [option.value, option]),
-);
-
 const toConfidence = (value?: string) => {
   const normalized = value?.toLowerCase() ?? 'medium';
   return ConfidenceEnum.options.includes(normalized as any)
@@ -251,8 +111,9 @@ const handleRequest = async (req: Request): Promise<Response> => {
     });
   }
 
-  if (!OPENAI_API_KEY) {
-    return new Response(JSON.stringify({ error: 'OpenAI API key not configured' }), {
+  const llmConfigError = getLLMConfigError();
+  if (llmConfigError) {
+    return new Response(JSON.stringify({ error: llmConfigError }), {
       status: 500,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -281,10 +142,30 @@ const handleRequest = async (req: Request): Promise<Response> => {
     );
   }
 
-  const { projectName, projectDescription, styleDescription, pageTitle, pageContentMarkdown, existingHints, maxSuggestions } = parsedBody.data;
+  const {
+    projectName,
+    projectDescription,
+    styleDescription,
+    pageTitle,
+    pageContentMarkdown,
+    existingHints,
+    maxSuggestions,
+    infographicId,
+    pageId,
+  } = parsedBody.data;
+
+  const admission = await admitAIHelperRequest(req, 'suggest_hints', corsHeaders);
+  if (admission.response) return admission.response;
+  const { user } = admission;
 
-  const existingHintSet = new Set(sanitizeHints(existingHints));
+  const existingHintSet = new Set(sanitizeGenerationHints(existingHints));
   const limit = maxSuggestions ?? 4;
+  const customHints = await loadCustomGenerationHints(user.client, user.id, infographicId ?? null);
+  const hintValues: [GenerationHintValue, ...GenerationHintValue[]] = [
+    ...GENERATION_HINT_VALUES,
+    ...customHints.map((hint) => hint.value),
+  ];
+  const llmResponseSchema = buildLLMResponseSchema(hintValues);
 
   const prompt = buildPrompt({
     projectName,
@@ -294,12 +175,14 @@ const handleRequest = async (req: Request): Promise<Response> => {
     pageContentMarkdown,
     existingHints: Array.from(existingHintSet),
     maxSuggestions: limit,
+    customHints,
   });
 
-  let parsedResponse: unknown;
+  let suggestions: z.infer<typeof llmResponseSchema>;
   try {
-    const client = new OpenAIJsonClient({ apiKey: OPENAI_API_KEY, defaultModel: OPENAI_ANALYSIS_MODEL });
-    parsedResponse = await client.generateJSON({
+    const onCall = await createCallerLLMCallRecorder(user, { purpose: 'suggest_hints', infographicId, pageId });
+    const llm = createLLMProvider('analysis', DEFAULT_ANALYSIS_MODEL, { onCall });
+    const result = await llm.generateJSON({
       system:
         'You recommend slide-generation hints. Only respond with allowed hint values, provide rationales, and confidence levels. The output must strictly follow the provided JSON schema.',
       user: prompt,
@@ -313,7 +196,7 @@ const handleRequest = async (req: Request): Promise<Response> => {
             items: {
               type: 'object',
               properties: {
-                value: { type: 'string', enum: HintEnum.options },
+                value: { type: 'string', enum: hintValues },
                 rationale: { type: 'string' },
                 confidence: { type: 'string', enum: ConfidenceEnum.options, default: 'medium' },
               },
@@ -326,31 +209,30 @@ const handleRequest = async (req: Request): Promise<Response> => {
         additionalProperties: false,
       },
       maxOutputTokens: 1200,
-      model: OPENAI_ANALYSIS_MODEL,
+      validator: llmResponseSchema,
     });
+    suggestions = result.data;
   } catch (error) {
-    console.error('OpenAI request failed:', error);
-    return new Response(JSON.stringify({ error: 'OpenAI request failed' }), {
+    if (error instanceof LLMSchemaError) {
+      console.error('LLM response validation error', error.diagnostics);
+      return new Response(
+        JSON.stringify({ error: 'LLM response did not match schema', details: error.diagnostics }),
+        {
+          status: 502,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        },
+      );
+    }
+    console.error('LLM request failed:', error);
+    return new Response(JSON.stringify({ error: 'LLM request failed' }), {
       status: 502,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   }
 
-  const suggestions = openAiResponseSchema.safeParse(parsedResponse);
-  if (!suggestions.success) {
-    console.error('OpenAI response validation error', suggestions.error.flatten());
-    return new Response(
-      JSON.stringify({ error: 'OpenAI response did not match schema', details: suggestions.error.flatten() }),
-      {
-        status: 502,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      },
-    );
-  }
-
   const filtered = [] as { value: GenerationHintValue; rationale: string; confidence: z.infer<typeof ConfidenceEnum> }[];
   const seen = new Set<GenerationHintValue>();
-  for (const hint of suggestions.data.hints) {
+  for (const hint of suggestions.hints) {
     if (existingHintSet.has(hint.value) || seen.has(hint.value)) continue;
     const trimmedRationale = hint.rationale.trim();
     if (!trimmedRationale) continue;
@@ -367,7 +249,7 @@ const handleRequest = async (req: Request): Promise<Response> => {
     JSON.stringify({
       hints: filtered.map((hint) => ({
         value: hint.value,
-        label: optionDetailsByValue.get(hint.value)?.label ?? hint.value,
+        label: generationHintLabel(hint.value, 'en', customHints),
         rationale: hint.rationale,
         confidence: hint.confidence,
       })),
@@ -1,9 +1,40 @@
-import { OpenAIJsonClient } from '../_shared/openai-json.ts';
-const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-// Use a snapshot that supports json_schema strict mode
-const OPENAI_ANALYSIS_MODEL = Deno.env.get('OPENAI_ANALYSIS_MODEL') ?? 'gpt-4o-2024-08-06';
+import { createLLMProvider, getLLMConfigError } from '../_shared/llm-provider.ts';
+import { createCallerLLMCallRecorder } from '../_shared/llm-usage.ts';
+import { admitAIHelperRequest } from '../_shared/quota.ts';
+import { validateJsonSchema } from '../_shared/json-schema.ts';
+import { STYLE_GUIDE_JSON_SCHEMA, PALETTE_ROLES, FONT_SIZE_LEVELS, validateStyleGuide, buildStylePrompt } from '../_shared/style-guide.ts';
+// Default for the `openai` provider: a snapshot that supports json_schema strict mode
+const DEFAULT_ANALYSIS_MODEL = 'gpt-4o-2024-08-06';
+
+// Using the shared LLM provider; no local response parsing needed
+
+const STYLE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    styleGuidelines: { type: 'string', description: 'Comprehensive style guidelines for the infographic project' },
+    styleGuide: STYLE_GUIDE_JSON_SCHEMA
+  },
+  required: ['styleGuidelines', 'styleGuide'],
+  additionalProperties: false
+};
 
-// Using shared OpenAI client; no local response parsing needed
+// Strict mode guarantees the shape, not the content (hex codes, list sizes): check both so the
+// repair loop can send bad colours back to the model instead of dropping the whole guide
+const styleResponseValidator = {
+  safeParse(value) {
+    const issues = validateJsonSchema(STYLE_RESPONSE_SCHEMA, value)
+      .map(issue => ({ path: issue.path.split('.'), message: issue.message }));
+    if (issues.length > 0) return { success: false, error: { issues } };
+    const guide = validateStyleGuide(value.styleGuide);
+    if (!guide.valid) {
+      return { success: false, error: { issues: guide.errors.map(message => ({ path: ['styleGuide'], message })) } };
+    }
+    if (!value.styleGuidelines.trim()) {
+      return { success: false, error: { issues: [{ path: ['styleGuidelines'], message: 'must not be empty' }] } };
+    }
+    return { success: true, data: { styleGuidelines: value.styleGuidelines, styleGuide: guide.value } };
+  }
+};
 
 // Build a flattened recommendations list from the structured response fields
 const buildRecommendations = (p) => {
@@ -21,33 +52,21 @@ const buildRecommendations = (p) => {
     }
   }
 
-  // 2) Color palette normalization
-  if (p.colorPalette && typeof p.colorPalette === 'object') {
-    const cp = p.colorPalette;
-    const colorKeys = ['primary','secondary','accent','neutral','background'];
-    for (const k of colorKeys) {
-      if (typeof cp[k] === 'string' && cp[k].trim()) {
-        items.push(`Color ${k}: ${cp[k].trim()}`);
-      }
+  // 2) Structured guide, one line per filled field
+  const guide = p.styleGuide;
+  if (guide) {
+    for (const role of PALETTE_ROLES) {
+      if (guide.palette[role]) items.push(`Color ${role}: ${guide.palette[role]}`);
     }
-  }
-
-  // 3) Typography normalization
-  if (p.typography && typeof p.typography === 'object') {
-    const ty = p.typography;
-    if (typeof ty.headingFont === 'string' && ty.headingFont.trim()) {
-      items.push(`Heading font: ${ty.headingFont.trim()}`);
-    }
-    if (typeof ty.bodyFont === 'string' && ty.bodyFont.trim()) {
-      items.push(`Body font: ${ty.bodyFont.trim()}`);
-    }
-    if (ty.fontSizes && typeof ty.fontSizes === 'object') {
-      const fs = ty.fontSizes;
-      if (typeof fs.h1 === 'string' && fs.h1.trim()) items.push(`Font size H1: ${fs.h1.trim()}`);
-      if (typeof fs.h2 === 'string' && fs.h2.trim()) items.push(`Font size H2: ${fs.h2.trim()}`);
-      if (typeof fs.h3 === 'string' && fs.h3.trim()) items.push(`Font size H3: ${fs.h3.trim()}`);
-      if (typeof fs.body === 'string' && fs.body.trim()) items.push(`Font size body: ${fs.body.trim()}`);
+    if (guide.typography.headingFont) items.push(`Heading font: ${guide.typography.headingFont}`);
+    if (guide.typography.bodyFont) items.push(`Body font: ${guide.typography.bodyFont}`);
+    for (const level of FONT_SIZE_LEVELS) {
+      if (guide.typography.sizes[level]) items.push(`Font size ${level.toUpperCase()}: ${guide.typography.sizes[level]}`);
     }
+    items.push(`Spacing: ${guide.spacing.density}`);
+    items.push(...guide.imagery.map(rule => `Imagery: ${rule}`));
+    items.push(...guide.dos.map(rule => `Do: ${rule}`));
+    items.push(...guide.donts.map(rule => `Don't: ${rule}`));
   }
 
   // Deduplicate while preserving order
@@ -70,6 +89,9 @@ interface SuggestStyleRequest {
   projectName: string;
   projectDescription: string;
   existingStyleDescription?: string;
+  existingStyleGuide?: unknown;
+  // Set when editing a saved deck, so the cost is attributed to it
+  infographicId?: string;
 }
 
 const corsHeaders = {
@@ -95,15 +117,16 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    if (!OPENAI_API_KEY) {
-      console.error('OpenAI API key not configured');
-      return new Response(JSON.stringify({ error: 'OpenAI API key not configured' }), {
+    const llmConfigError = getLLMConfigError();
+    if (llmConfigError) {
+      console.error(llmConfigError);
+      return new Response(JSON.stringify({ error: llmConfigError }), {
         status: 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    const { projectName, projectDescription, existingStyleDescription }: SuggestStyleRequest = await req.json();
+    const { projectName, projectDescription, existingStyleDescription, existingStyleGuide, infographicId }: SuggestStyleRequest = await req.json();
 
     if (!projectName || !projectDescription) {
       return new Response(
@@ -112,7 +135,15 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const prompt = existingStyleDescription 
+    const admission = await admitAIHelperRequest(req, 'suggest_style', corsHeaders);
+    if (admission.response) return admission.response;
+    const { user } = admission;
+
+    // An invalid saved guide is ignored rather than rejected: the user is asking for a new one anyway
+    const savedGuide = validateStyleGuide(existingStyleGuide);
+    const existingStyle = buildStylePrompt(savedGuide.valid ? savedGuide.value : null, existingStyleDescription);
+
+    const prompt = existingStyle
       ? `You are an expert UI/UX designer specializing in infographic design. Review and improve the existing style guidelines for this project.
 
 Project Details:
@@ -120,11 +151,11 @@ Project Details:
 - Description: ${projectDescription}
 
 Current Style Guidelines:
-${existingStyleDescription}
+${existingStyle}
 
 Please provide improved and more detailed style guidelines that will help AI generate beautiful, consistent infographic pages. Focus on:
 
-1. Color Palette, provide hex codes for primary, secondary, accent, neutral, and background
+1. Color Palette, provide hex codes for primary, secondary, accent, neutral, background and text
 2. Typography, recommend font families, sizes, weights, and hierarchy
 3. Layout and Spacing, define grid systems, margins, padding, and spacing rules
 4. Visual Elements, describe icons, charts, graphics, and visual treatments
@@ -132,6 +163,8 @@ Please provide improved and more detailed style guidelines that will help AI gen
 6. Responsive Design, guidelines for different screen sizes
 7. Accessibility, color contrast and readability considerations
 
+Fill the structured styleGuide field-by-field (imagery rules, do and don't lists as short imperative sentences) and keep styleGuidelines for anything that does not fit a field.
+
 Provide actionable, specific guidelines that an AI can follow.`
       : `You are an expert UI/UX designer specializing in infographic design. Create comprehensive style guidelines for this project.
 
@@ -141,64 +174,33 @@ Project Details:
 
 Create detailed style guidelines that help AI generate beautiful, consistent infographic pages. Include:
 
-1. Color Palette, hex codes for primary, secondary, accent, neutral, background based on the theme
+1. Color Palette, hex codes for primary, secondary, accent, neutral, background and text based on the theme
 2. Typography, font families, sizes, weights, and hierarchy
 3. Layout and Spacing, grid systems, margins, padding, spacing rules
 4. Visual Elements, icons, charts, graphics, visual treatment styles
 5. Brand Personality, visual tone and mood
 6. Responsive Design, guidelines by breakpoint
-7. Accessibility, color contrast and readability`;
+7. Accessibility, color contrast and readability
+
+Fill the structured styleGuide field-by-field (imagery rules, do and don't lists as short imperative sentences) and keep styleGuidelines for anything that does not fit a field.`;
 
     let parsedResponse;
+    let diagnostics;
     try {
-      const client = new OpenAIJsonClient({ apiKey: OPENAI_API_KEY, defaultModel: OPENAI_ANALYSIS_MODEL });
-      parsedResponse = await client.generateJSON({
+      const onCall = await createCallerLLMCallRecorder(user, {
+        purpose: 'suggest_style',
+        infographicId: typeof infographicId === 'string' && infographicId ? infographicId : null,
+      });
+      const llm = createLLMProvider('analysis', DEFAULT_ANALYSIS_MODEL, { onCall });
+      ({ data: parsedResponse, diagnostics } = await llm.generateJSON({
         system:
           'You are an expert UI/UX designer who creates comprehensive, actionable style guidelines for infographic projects. Always provide specific, detailed recommendations.',
         user: prompt,
         schemaName: 'style_guidelines',
-        schema: {
-          type: 'object',
-          properties: {
-            styleGuidelines: { type: 'string', description: 'Comprehensive style guidelines for the infographic project' },
-            colorPalette: {
-              type: 'object',
-              properties: {
-                primary: { type: 'string', description: 'Primary color hex code' },
-                secondary: { type: 'string', description: 'Secondary color hex code' },
-                accent: { type: 'string', description: 'Accent color hex code' },
-                neutral: { type: 'string', description: 'Neutral color hex code' },
-                background: { type: 'string', description: 'Background color hex code' }
-              },
-              required: ['primary', 'secondary', 'accent', 'neutral', 'background'],
-              additionalProperties: false
-            },
-            typography: {
-              type: 'object',
-              properties: {
-                headingFont: { type: 'string', description: 'Font family for headings' },
-                bodyFont: { type: 'string', description: 'Font family for body text' },
-                fontSizes: {
-                  type: 'object',
-                  properties: {
-                    h1: { type: 'string', description: 'H1 font size' },
-                    h2: { type: 'string', description: 'H2 font size' },
-                    h3: { type: 'string', description: 'H3 font size' },
-                    body: { type: 'string', description: 'Body text font size' }
-                  },
-                  required: ['h1', 'h2', 'h3', 'body'],
-                  additionalProperties: false
-                }
-              },
-              required: ['headingFont', 'bodyFont', 'fontSizes'],
-              additionalProperties: false
-            }
-          },
-          required: ['styleGuidelines', 'colorPalette', 'typography'],
-          additionalProperties: false
-        },
+        schema: STYLE_RESPONSE_SCHEMA,
         maxOutputTokens: 4000,
-      });
+        validator: styleResponseValidator,
+      }));
     } catch (parseError) {
       return new Response(
         JSON.stringify({
@@ -209,18 +211,13 @@ Create detailed style guidelines that help AI generate beautiful, consistent inf
       );
     }
 
-    if (!parsedResponse || !parsedResponse.styleGuidelines) {
-      return new Response(
-        JSON.stringify({ error: 'No style guidelines generated by AI' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Build flattened recommendations
     const { items, text } = buildRecommendations(parsedResponse);
 
     const finalPayload = {
-      ...parsedResponse,
+      styleGuidelines: parsedResponse.styleGuidelines,
+      styleGuide: parsedResponse.styleGuide,
+      diagnostics,
       recommendations: items,            // Array<string>
       recommendationsText: text          // Single concatenated string
     };
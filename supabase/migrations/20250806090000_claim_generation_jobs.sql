@@ -0,0 +1,38 @@
+/*
+  # Atomic job claiming for the generation queue
+
+  1. Schema Changes
+    - Add `claimed_by` to `generation_queue` (identifier of the worker that owns a processing row)
+
+  2. Functions
+    - `claim_next_generation_job(p_worker_id)` locks the oldest pending row with
+      `FOR UPDATE SKIP LOCKED`, flips it to `processing` and returns it in a single
+      statement, so concurrent workers never pick up the same job.
+
+  3. Security
+    - Only the service role (used by the queue worker) may claim jobs
+*/
+
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS claimed_by text;
+
+CREATE OR REPLACE FUNCTION claim_next_generation_job(p_worker_id text DEFAULT NULL)
+RETURNS SETOF generation_queue
+LANGUAGE sql
+AS $$
+  UPDATE generation_queue
+  SET status = 'processing',
+      processed_at = now(),
+      claimed_by = p_worker_id
+  WHERE id = (
+    SELECT id
+    FROM generation_queue
+    WHERE status = 'pending'
+    ORDER BY requested_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING generation_queue.*;
+$$;
+
+REVOKE ALL ON FUNCTION claim_next_generation_job(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_generation_job(text) TO service_role;
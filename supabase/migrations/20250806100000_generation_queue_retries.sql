@@ -0,0 +1,69 @@
+/*
+  # Retry policy and dead-letter state for the generation queue
+
+  1. Schema Changes
+    - `generation_queue.attempt_count` (integer, attempts started so far)
+    - `generation_queue.max_attempts` (integer, attempts allowed before dead-lettering)
+    - `generation_queue.next_attempt_at` (timestamp, earliest time the job may be claimed again)
+    - `generation_queue.error_history` (jsonb, one entry per failed attempt)
+    - `status` now also accepts `dead_letter` (retries exhausted, terminal)
+
+  2. Functions
+    - `claim_next_generation_job` skips rows whose backoff has not elapsed and
+      increments `attempt_count` when it claims a row
+    - `cleanup_old_generation_requests` also removes old dead-lettered rows
+*/
+
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS attempt_count integer NOT NULL DEFAULT 0;
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS max_attempts integer NOT NULL DEFAULT 3;
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz NOT NULL DEFAULT now();
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS error_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE generation_queue DROP CONSTRAINT IF EXISTS generation_queue_status_check;
+ALTER TABLE generation_queue
+  ADD CONSTRAINT generation_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'dead_letter'));
+
+ALTER TABLE generation_queue DROP CONSTRAINT IF EXISTS generation_queue_max_attempts_check;
+ALTER TABLE generation_queue
+  ADD CONSTRAINT generation_queue_max_attempts_check
+  CHECK (max_attempts >= 1);
+
+CREATE INDEX IF NOT EXISTS generation_queue_pending_next_attempt_idx
+  ON generation_queue (next_attempt_at, requested_at)
+  WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION claim_next_generation_job(p_worker_id text DEFAULT NULL)
+RETURNS SETOF generation_queue
+LANGUAGE sql
+AS $$
+  UPDATE generation_queue
+  SET status = 'processing',
+      processed_at = now(),
+      claimed_by = p_worker_id,
+      attempt_count = attempt_count + 1
+  WHERE id = (
+    SELECT id
+    FROM generation_queue
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+    ORDER BY requested_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING generation_queue.*;
+$$;
+
+REVOKE ALL ON FUNCTION claim_next_generation_job(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_generation_job(text) TO service_role;
+
+CREATE OR REPLACE FUNCTION cleanup_old_generation_requests()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM generation_queue
+  WHERE status IN ('completed', 'failed', 'dead_letter')
+    AND processed_at < now() - interval '7 days';
+END;
+$$;
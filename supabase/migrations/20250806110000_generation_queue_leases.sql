@@ -0,0 +1,119 @@
+/*
+  # Leases and stale job recovery for the generation queue
+
+  1. Schema Changes
+    - `generation_queue.heartbeat_at` (timestamp, last heartbeat sent by the owning worker)
+    - `generation_queue.lease_expires_at` (timestamp, the job is considered stalled after this)
+
+  2. Functions
+    - `claim_next_generation_job(p_worker_id, p_lease_seconds)` also grants the first lease
+    - `renew_generation_lease(p_queue_id, p_worker_id, p_lease_seconds)` extends the lease while
+      the worker still owns the job; returns false once ownership was lost
+    - `reap_expired_generation_jobs()` moves processing rows with an expired lease back to
+      `pending` (recording the lost attempt) or to `dead_letter` once attempts are exhausted.
+      Rows claimed before leases existed fall back to `processed_at + 15 minutes`.
+
+  3. Security
+    - Claiming and renewing stay restricted to the service role
+    - Reaping only touches expired leases, so authenticated users may trigger it too
+*/
+
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS heartbeat_at timestamptz;
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS lease_expires_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS generation_queue_processing_lease_idx
+  ON generation_queue (lease_expires_at)
+  WHERE status = 'processing';
+
+DROP FUNCTION IF EXISTS claim_next_generation_job(text);
+
+CREATE OR REPLACE FUNCTION claim_next_generation_job(
+  p_worker_id text DEFAULT NULL,
+  p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF generation_queue
+LANGUAGE sql
+AS $$
+  UPDATE generation_queue
+  SET status = 'processing',
+      processed_at = now(),
+      claimed_by = p_worker_id,
+      attempt_count = attempt_count + 1,
+      heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = (
+    SELECT id
+    FROM generation_queue
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+    ORDER BY requested_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING generation_queue.*;
+$$;
+
+CREATE OR REPLACE FUNCTION renew_generation_lease(
+  p_queue_id uuid,
+  p_worker_id text,
+  p_lease_seconds integer DEFAULT 120
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE generation_queue
+  SET heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_queue_id
+    AND status = 'processing'
+    AND claimed_by IS NOT DISTINCT FROM p_worker_id;
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reap_expired_generation_jobs()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reaped integer;
+BEGIN
+  WITH expired AS (
+    SELECT id
+    FROM generation_queue
+    WHERE status = 'processing'
+      AND COALESCE(lease_expires_at, processed_at + interval '15 minutes') < now()
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE generation_queue AS q
+  SET status = CASE WHEN q.attempt_count < q.max_attempts THEN 'pending' ELSE 'dead_letter' END,
+      next_attempt_at = now(),
+      processed_at = now(),
+      claimed_by = NULL,
+      error_message = 'Worker stopped sending heartbeats (lease expired)',
+      error_history = q.error_history || jsonb_build_array(jsonb_build_object(
+        'attempt', q.attempt_count,
+        'message', 'Worker stopped sending heartbeats (lease expired)',
+        'failed_at', now(),
+        'next_attempt_at', CASE WHEN q.attempt_count < q.max_attempts THEN now() ELSE NULL END,
+        'worker_id', q.claimed_by
+      ))
+  FROM expired
+  WHERE q.id = expired.id;
+
+  GET DIAGNOSTICS reaped = ROW_COUNT;
+  RETURN reaped;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION claim_next_generation_job(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_generation_job(text, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION renew_generation_lease(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION renew_generation_lease(uuid, text, integer) TO service_role;
+
+REVOKE ALL ON FUNCTION reap_expired_generation_jobs() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reap_expired_generation_jobs() TO authenticated, service_role;
@@ -0,0 +1,109 @@
+/*
+  # Cancellation and priorities for the generation queue
+
+  1. Schema Changes
+    - `generation_queue.priority` (integer, higher is claimed first, -100..100, default 0)
+    - `status` now also accepts `cancelled` (stopped by the user, terminal)
+
+  2. Functions
+    - `claim_next_generation_job` orders by `priority DESC, requested_at ASC`
+    - `cancel_generation_job(p_queue_id)` cancels a pending or processing job of the caller;
+      a worker still busy with it loses its lease and discards the result
+    - `reprioritize_generation_job(p_queue_id, p_priority)` changes the priority of a pending
+      job of the caller
+    - `cleanup_old_generation_requests` also removes old cancelled rows
+
+  3. Security
+    - Cancel/reprioritize run as definer but only match rows owned by `auth.uid()`
+*/
+
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS priority integer NOT NULL DEFAULT 0;
+
+ALTER TABLE generation_queue DROP CONSTRAINT IF EXISTS generation_queue_priority_check;
+ALTER TABLE generation_queue
+  ADD CONSTRAINT generation_queue_priority_check
+  CHECK (priority BETWEEN -100 AND 100);
+
+ALTER TABLE generation_queue DROP CONSTRAINT IF EXISTS generation_queue_status_check;
+ALTER TABLE generation_queue
+  ADD CONSTRAINT generation_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'dead_letter', 'cancelled'));
+
+DROP INDEX IF EXISTS generation_queue_pending_next_attempt_idx;
+CREATE INDEX IF NOT EXISTS generation_queue_pending_priority_idx
+  ON generation_queue (priority DESC, requested_at, next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION claim_next_generation_job(
+  p_worker_id text DEFAULT NULL,
+  p_lease_seconds integer DEFAULT 120
+)
+RETURNS SETOF generation_queue
+LANGUAGE sql
+AS $$
+  UPDATE generation_queue
+  SET status = 'processing',
+      processed_at = now(),
+      claimed_by = p_worker_id,
+      attempt_count = attempt_count + 1,
+      heartbeat_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = (
+    SELECT id
+    FROM generation_queue
+    WHERE status = 'pending'
+      AND next_attempt_at <= now()
+    ORDER BY priority DESC, requested_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING generation_queue.*;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_generation_job(p_queue_id uuid)
+RETURNS SETOF generation_queue
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE generation_queue
+  SET status = 'cancelled',
+      processed_at = now(),
+      claimed_by = NULL,
+      lease_expires_at = NULL
+  WHERE id = p_queue_id
+    AND user_id = auth.uid()
+    AND status IN ('pending', 'processing')
+  RETURNING generation_queue.*;
+$$;
+
+CREATE OR REPLACE FUNCTION reprioritize_generation_job(p_queue_id uuid, p_priority integer)
+RETURNS SETOF generation_queue
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE generation_queue
+  SET priority = p_priority
+  WHERE id = p_queue_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+  RETURNING generation_queue.*;
+$$;
+
+REVOKE ALL ON FUNCTION cancel_generation_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_generation_job(uuid) TO authenticated;
+
+REVOKE ALL ON FUNCTION reprioritize_generation_job(uuid, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reprioritize_generation_job(uuid, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cleanup_old_generation_requests()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM generation_queue
+  WHERE status IN ('completed', 'failed', 'dead_letter', 'cancelled')
+    AND processed_at < now() - interval '7 days';
+END;
+$$;
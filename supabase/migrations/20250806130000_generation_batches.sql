@@ -0,0 +1,183 @@
+/*
+  # Batch generation jobs
+
+  1. New Tables
+    - `generation_batches`
+      - `id` (uuid, primary key)
+      - `infographic_id` (uuid, deck the batch was started from)
+      - `user_id` (uuid, owner)
+      - `status` (text, running | completed | cancelled)
+      - `total_count` (integer, number of queue rows in the batch)
+      - `completed_count`, `failed_count`, `cancelled_count` (integer, rows that reached a terminal state)
+      - `started_at`, `finished_at` (timestamps)
+
+  2. Schema Changes
+    - `generation_queue.batch_id` (uuid, optional link to the batch that enqueued the row)
+
+  3. Functions
+    - Trigger `update_generation_batch_counts` bumps the batch counters whenever a queue row
+      reaches a terminal state (`failed` and `dead_letter` both count as failed) and closes the
+      batch once every row is accounted for
+    - `enqueue_generation_batch(p_infographic_id, p_page_ids)` creates the batch and its queue rows in
+      one transaction, skipping pages that already have an active job; a refused insert (quota) leaves
+      no batch behind
+    - `cancel_generation_batch(p_batch_id)` cancels every pending/processing row of the batch
+
+  4. Security
+    - Enable RLS on `generation_batches`; users can read and create their own batches
+    - `enqueue_generation_batch` only queues pages of a deck owned by the caller
+    - Counters are only written by the definer trigger
+*/
+
+CREATE TABLE IF NOT EXISTS generation_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  infographic_id uuid NOT NULL REFERENCES infographics(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  total_count integer NOT NULL DEFAULT 0 CHECK (total_count >= 0),
+  completed_count integer NOT NULL DEFAULT 0,
+  failed_count integer NOT NULL DEFAULT 0,
+  cancelled_count integer NOT NULL DEFAULT 0,
+  started_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE generation_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS generation_batches_infographic_started_idx
+  ON generation_batches (infographic_id, started_at DESC);
+
+CREATE POLICY "Users can read their own generation batches"
+  ON generation_batches
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own generation batches"
+  ON generation_batches
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE generation_queue
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES generation_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS generation_queue_batch_id_idx
+  ON generation_queue (batch_id)
+  WHERE batch_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION update_generation_batch_counts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.batch_id IS NULL
+    OR NEW.status = OLD.status
+    OR OLD.status IN ('completed', 'failed', 'dead_letter', 'cancelled')
+    OR NEW.status NOT IN ('completed', 'failed', 'dead_letter', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE generation_batches
+  SET completed_count = completed_count + (NEW.status = 'completed')::integer,
+      failed_count = failed_count + (NEW.status IN ('failed', 'dead_letter'))::integer,
+      cancelled_count = cancelled_count + (NEW.status = 'cancelled')::integer
+  WHERE id = NEW.batch_id;
+
+  UPDATE generation_batches
+  SET status = CASE WHEN status = 'running' THEN 'completed' ELSE status END,
+      finished_at = COALESCE(finished_at, now())
+  WHERE id = NEW.batch_id
+    AND completed_count + failed_count + cancelled_count >= total_count;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS generation_queue_batch_counts ON generation_queue;
+CREATE TRIGGER generation_queue_batch_counts
+  AFTER UPDATE OF status ON generation_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_generation_batch_counts();
+
+CREATE OR REPLACE FUNCTION cancel_generation_batch(p_batch_id uuid)
+RETURNS SETOF generation_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE generation_batches
+  SET status = 'cancelled',
+      finished_at = COALESCE(finished_at, now())
+  WHERE id = p_batch_id
+    AND user_id = auth.uid()
+    AND status = 'running';
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE generation_queue
+  SET status = 'cancelled',
+      processed_at = now(),
+      claimed_by = NULL,
+      lease_expires_at = NULL
+  WHERE batch_id = p_batch_id
+    AND status IN ('pending', 'processing');
+
+  RETURN QUERY SELECT * FROM generation_batches WHERE id = p_batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_generation_batch(p_infographic_id uuid, p_page_ids uuid[])
+RETURNS SETOF generation_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_page_ids uuid[];
+  v_batch generation_batches;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM infographics WHERE id = p_infographic_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Deck not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT array_agg(page.id ORDER BY page.page_order)
+  INTO v_page_ids
+  FROM infographic_pages page
+  WHERE page.infographic_id = p_infographic_id
+    AND page.id = ANY (p_page_ids)
+    AND NOT EXISTS (
+      SELECT 1 FROM generation_queue queue
+      WHERE queue.infographic_page_id = page.id
+        AND queue.status IN ('pending', 'processing')
+    );
+
+  IF v_page_ids IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Created with its final total so progress never overshoots while the rows are inserted
+  INSERT INTO generation_batches (infographic_id, user_id, total_count)
+  VALUES (p_infographic_id, auth.uid(), cardinality(v_page_ids))
+  RETURNING * INTO v_batch;
+
+  -- The quota trigger may refuse the insert: the whole call rolls back, batch included
+  INSERT INTO generation_queue (infographic_page_id, user_id, user_comment, status, batch_id)
+  SELECT page_id, auth.uid(), '', 'pending', v_batch.id
+  FROM unnest(v_page_ids) AS page_id;
+
+  RETURN NEXT v_batch;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_generation_batch(uuid, uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_generation_batch(uuid, uuid[]) TO authenticated;
+
+REVOKE ALL ON FUNCTION cancel_generation_batch(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_generation_batch(uuid) TO authenticated;
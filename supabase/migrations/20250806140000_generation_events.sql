@@ -0,0 +1,61 @@
+/*
+  # Generation stage events
+
+  1. New Tables
+    - `generation_events`
+      - `id` (uuid, primary key)
+      - `queue_id` (uuid, queue row the event belongs to)
+      - `infographic_id` (uuid, deck of the page, used as the realtime filter)
+      - `infographic_page_id` (uuid, page being generated)
+      - `user_id` (uuid, owner of the queue row)
+      - `stage` (text, fetching_context | generating | validating | repairing | saving | completed | failed | cancelled)
+      - `detail` (jsonb, stage specific data such as `{ "iteration": 2, "max_iterations": 5 }`)
+      - `created_at` (timestamp)
+
+  2. Realtime
+    - Add `generation_events` to the `supabase_realtime` publication so the editor can
+      subscribe to stage changes instead of polling
+
+  3. Security
+    - Enable RLS; users can read the events of their own jobs
+    - Events are written by the queue worker with the service role
+    - Events are removed together with their queue row
+*/
+
+CREATE TABLE IF NOT EXISTS generation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  queue_id uuid NOT NULL REFERENCES generation_queue(id) ON DELETE CASCADE,
+  infographic_id uuid NOT NULL REFERENCES infographics(id) ON DELETE CASCADE,
+  infographic_page_id uuid NOT NULL REFERENCES infographic_pages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  stage text NOT NULL CHECK (stage IN (
+    'fetching_context', 'generating', 'validating', 'repairing', 'saving', 'completed', 'failed', 'cancelled'
+  )),
+  detail jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE generation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS generation_events_queue_id_idx
+  ON generation_events (queue_id, created_at);
+
+CREATE INDEX IF NOT EXISTS generation_events_infographic_id_idx
+  ON generation_events (infographic_id, created_at DESC);
+
+CREATE POLICY "Users can read their own generation events"
+  ON generation_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = 'generation_events'
+    ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE generation_events;
+  END IF;
+END $$;
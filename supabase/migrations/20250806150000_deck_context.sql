@@ -0,0 +1,10 @@
+/*
+  # Opt-in deck context for page generation
+
+  1. Schema Changes
+    - `infographics.use_deck_context` (boolean, default false). When enabled the queue worker
+      gives the generator the deck outline, the page position and a design-token summary of the
+      already generated sibling pages so every slide follows the same visual system.
+*/
+
+ALTER TABLE infographics ADD COLUMN IF NOT EXISTS use_deck_context boolean NOT NULL DEFAULT false;
@@ -0,0 +1,13 @@
+/*
+  # Deck design system
+
+  1. Schema Changes
+    - `infographics.design_system` (jsonb, nullable) design tokens extracted from an anchor slide
+      and edited in the editor's theme panel: CSS variables, palette, fonts, heading/body classes,
+      spacing scale and footer markup. The queue worker enforces it as a hard constraint.
+    - `infographics.design_anchor_page_id` (uuid, nullable) page the tokens were extracted from
+*/
+
+ALTER TABLE infographics ADD COLUMN IF NOT EXISTS design_system jsonb;
+ALTER TABLE infographics
+  ADD COLUMN IF NOT EXISTS design_anchor_page_id uuid REFERENCES infographic_pages(id) ON DELETE SET NULL;
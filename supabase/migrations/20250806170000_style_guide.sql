@@ -0,0 +1,18 @@
+/*
+  # Structured style guide
+
+  1. Schema Changes
+    - `infographics.style_guide` (jsonb, nullable) typed style guide edited field by field in the
+      project form: palette roles, heading/body fonts and sizes, spacing, imagery rules and
+      do/don't lists. Generation prompts are built from it; `style_description` is kept as a
+      free-text override appended after the guide.
+    - Check constraint keeping the column a JSON object (detailed validation lives in
+      `_shared/style-guide.ts`, shared by the editor and the edge functions)
+*/
+
+ALTER TABLE infographics ADD COLUMN IF NOT EXISTS style_guide jsonb;
+
+ALTER TABLE infographics DROP CONSTRAINT IF EXISTS infographics_style_guide_check;
+ALTER TABLE infographics
+  ADD CONSTRAINT infographics_style_guide_check
+  CHECK (style_guide IS NULL OR jsonb_typeof(style_guide) = 'object');
@@ -0,0 +1,133 @@
+/*
+  # LLM call accounting
+
+  1. New Tables
+    - `llm_calls`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, user the call was made for)
+      - `infographic_id` (uuid, deck the call belongs to; null for style suggestions on an unsaved deck)
+      - `infographic_page_id` (uuid, page the call belongs to, if any)
+      - `queue_id` (uuid, generation job that made the call, if any)
+      - `purpose` (text, generation | repair | rewrite | suggest_hints | suggest_style)
+      - `repair_iteration` (integer, validation pass that triggered a repair call)
+      - `provider`, `model` (text, backend and model that answered)
+      - `input_tokens`, `output_tokens` (integer, null when the server did not report usage)
+      - `latency_ms` (integer, wall time of the HTTP call)
+      - `cost_usd` (numeric, estimate from the edge function price table; null when unknown)
+      - `success` (boolean) and `error_message` (text) for calls that failed
+      - `created_at` (timestamp)
+    - Deck, page and queue links are set to null on delete so spend survives deleting a deck
+
+  2. Views
+    - `llm_usage_by_infographic`: per deck and purpose totals
+    - `llm_usage_by_user`: per user and purpose totals
+    - Both are security invoker views, so they only ever aggregate the caller's own rows
+
+  3. Security
+    - Enable RLS; users can read their own calls
+    - The queue worker records generation and repair calls with the service role
+    - The analysis functions record with the service role too, after dropping deck and page ids the
+      caller does not own; the caller policy below only serves deployments without that key
+*/
+
+CREATE TABLE IF NOT EXISTS llm_calls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  infographic_id uuid REFERENCES infographics(id) ON DELETE SET NULL,
+  infographic_page_id uuid REFERENCES infographic_pages(id) ON DELETE SET NULL,
+  queue_id uuid REFERENCES generation_queue(id) ON DELETE SET NULL,
+  purpose text NOT NULL CHECK (purpose IN ('generation', 'repair', 'rewrite', 'suggest_hints', 'suggest_style')),
+  repair_iteration integer CHECK (repair_iteration IS NULL OR repair_iteration >= 1),
+  provider text NOT NULL,
+  model text NOT NULL,
+  input_tokens integer CHECK (input_tokens IS NULL OR input_tokens >= 0),
+  output_tokens integer CHECK (output_tokens IS NULL OR output_tokens >= 0),
+  latency_ms integer NOT NULL DEFAULT 0 CHECK (latency_ms >= 0),
+  cost_usd numeric(12, 6) CHECK (cost_usd IS NULL OR cost_usd >= 0),
+  success boolean NOT NULL DEFAULT true,
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE llm_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS llm_calls_user_created_idx
+  ON llm_calls (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS llm_calls_infographic_idx
+  ON llm_calls (infographic_id, purpose)
+  WHERE infographic_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS llm_calls_queue_id_idx
+  ON llm_calls (queue_id)
+  WHERE queue_id IS NOT NULL;
+
+CREATE POLICY "Users can read their own LLM calls"
+  ON llm_calls
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own analysis LLM calls"
+  ON llm_calls
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND purpose IN ('rewrite', 'suggest_hints', 'suggest_style')
+    AND queue_id IS NULL
+    AND (
+      infographic_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM infographics
+        WHERE infographics.id = llm_calls.infographic_id
+          AND infographics.user_id = auth.uid()
+      )
+    )
+    AND (
+      infographic_page_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM infographic_pages
+        JOIN infographics ON infographics.id = infographic_pages.infographic_id
+        WHERE infographic_pages.id = llm_calls.infographic_page_id
+          AND infographics.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE OR REPLACE VIEW llm_usage_by_infographic
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  infographic_id,
+  purpose,
+  count(*)::integer AS call_count,
+  count(*) FILTER (WHERE NOT success)::integer AS failed_count,
+  COALESCE(sum(input_tokens), 0)::bigint AS input_tokens,
+  COALESCE(sum(output_tokens), 0)::bigint AS output_tokens,
+  COALESCE(sum(cost_usd), 0)::numeric(14, 6) AS cost_usd,
+  count(*) FILTER (WHERE cost_usd IS NULL)::integer AS unpriced_count,
+  COALESCE(sum(latency_ms), 0)::bigint AS latency_ms,
+  max(created_at) AS last_call_at
+FROM llm_calls
+WHERE infographic_id IS NOT NULL
+GROUP BY user_id, infographic_id, purpose;
+
+CREATE OR REPLACE VIEW llm_usage_by_user
+WITH (security_invoker = true) AS
+SELECT
+  user_id,
+  purpose,
+  count(*)::integer AS call_count,
+  count(*) FILTER (WHERE NOT success)::integer AS failed_count,
+  COALESCE(sum(input_tokens), 0)::bigint AS input_tokens,
+  COALESCE(sum(output_tokens), 0)::bigint AS output_tokens,
+  COALESCE(sum(cost_usd), 0)::numeric(14, 6) AS cost_usd,
+  count(*) FILTER (WHERE cost_usd IS NULL)::integer AS unpriced_count,
+  COALESCE(sum(latency_ms), 0)::bigint AS latency_ms,
+  max(created_at) AS last_call_at
+FROM llm_calls
+GROUP BY user_id, purpose;
+
+GRANT SELECT ON llm_usage_by_infographic TO authenticated;
+GRANT SELECT ON llm_usage_by_user TO authenticated;
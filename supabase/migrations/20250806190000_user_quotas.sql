@@ -0,0 +1,227 @@
+/*
+  # Per-user daily quotas
+
+  1. New Tables
+    - `quota_defaults` (single row)
+      - `daily_generations` (integer, generation_queue rows a user may enqueue per UTC day)
+      - `daily_rewrites` (integer, rewrite-page requests per UTC day)
+      - `daily_tokens` (bigint, input + output tokens recorded in `llm_calls` per UTC day)
+      - A null limit means unlimited
+    - `user_quotas`
+      - `user_id` (uuid, primary key)
+      - Same three columns; null inherits the default. Set a large value to lift a limit for one user
+    - `ai_helper_requests`
+      - `id`, `user_id`, `purpose` (rewrite | suggest_hints | suggest_style), `created_at`
+      - Ledger the AI helper functions insert into before calling the model; the insert is the quota check
+
+  2. Functions
+    - `quota_status_for(p_user_id)` returns limits, usage and `resets_at` for every quota kind
+    - `enforce_quota(p_user_id, p_kinds)` raises SQLSTATE `PT429` (HTTP 429 through PostgREST) with a
+      JSON detail `{ kind, limit, used, resets_at }` when one of the quotas is used up
+    - BEFORE INSERT triggers on `generation_queue` (generations + tokens) and `ai_helper_requests`
+      (rewrites + tokens for rewrites, tokens for suggestions)
+
+  3. Security
+    - Enable RLS; users can read the defaults, their own overrides and their own ledger rows
+    - Users can only insert ledger rows for themselves; limits are changed with the service role
+    - The quota functions are not callable directly
+    - The triggers stamp `requested_at` / `created_at` themselves: usage is counted on them, so a
+      backdated insert must not slip past the daily limit
+    - Drop the open "System can update generation requests" policy: a client could set a row back to
+      pending (or move `requested_at`) and re-run generations without an insert. The worker uses the
+      service role, and cancel / reprioritize go through SECURITY DEFINER functions
+*/
+
+CREATE TABLE IF NOT EXISTS quota_defaults (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  daily_generations integer CHECK (daily_generations IS NULL OR daily_generations >= 0),
+  daily_rewrites integer CHECK (daily_rewrites IS NULL OR daily_rewrites >= 0),
+  daily_tokens bigint CHECK (daily_tokens IS NULL OR daily_tokens >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO quota_defaults (id, daily_generations, daily_rewrites, daily_tokens)
+VALUES (true, 100, 50, 2000000)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS user_quotas (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  daily_generations integer CHECK (daily_generations IS NULL OR daily_generations >= 0),
+  daily_rewrites integer CHECK (daily_rewrites IS NULL OR daily_rewrites >= 0),
+  daily_tokens bigint CHECK (daily_tokens IS NULL OR daily_tokens >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ai_helper_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  purpose text NOT NULL CHECK (purpose IN ('rewrite', 'suggest_hints', 'suggest_style')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE quota_defaults ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_helper_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS ai_helper_requests_user_created_idx
+  ON ai_helper_requests (user_id, purpose, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS generation_queue_user_requested_idx
+  ON generation_queue (user_id, requested_at DESC);
+
+DROP POLICY IF EXISTS "System can update generation requests" ON generation_queue;
+
+CREATE POLICY "Users can read the default quotas"
+  ON quota_defaults
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read their own quotas"
+  ON user_quotas
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can read their own AI helper requests"
+  ON ai_helper_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own AI helper requests"
+  ON ai_helper_requests
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION quota_status_for(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_day_start timestamptz := date_trunc('day', now(), 'UTC');
+  -- Volatile on purpose: called from row triggers, it must see rows inserted earlier by the same statement
+  v_generations integer;
+  v_rewrites integer;
+  v_tokens bigint;
+BEGIN
+  SELECT
+    COALESCE(uq.daily_generations, d.daily_generations),
+    COALESCE(uq.daily_rewrites, d.daily_rewrites),
+    COALESCE(uq.daily_tokens, d.daily_tokens)
+  INTO v_generations, v_rewrites, v_tokens
+  FROM (SELECT 1) AS one
+  LEFT JOIN quota_defaults d ON d.id
+  LEFT JOIN user_quotas uq ON uq.user_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'resets_at', v_day_start + interval '1 day',
+    'generations', jsonb_build_object(
+      'limit', v_generations,
+      'used', (
+        SELECT count(*) FROM generation_queue
+        WHERE user_id = p_user_id AND requested_at >= v_day_start
+      )
+    ),
+    'rewrites', jsonb_build_object(
+      'limit', v_rewrites,
+      'used', (
+        SELECT count(*) FROM ai_helper_requests
+        WHERE user_id = p_user_id AND purpose = 'rewrite' AND created_at >= v_day_start
+      )
+    ),
+    'tokens', jsonb_build_object(
+      'limit', v_tokens,
+      'used', (
+        SELECT COALESCE(sum(COALESCE(input_tokens, 0) + COALESCE(output_tokens, 0)), 0) FROM llm_calls
+        WHERE user_id = p_user_id AND created_at >= v_day_start
+      )
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_quota(p_user_id uuid, p_kinds text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status jsonb;
+  v_kind text;
+  v_limit bigint;
+  v_used bigint;
+BEGIN
+  -- Serialise concurrent inserts of one user so two requests cannot both take the last unit
+  PERFORM pg_advisory_xact_lock(hashtext('quota:' || p_user_id::text));
+  v_status := quota_status_for(p_user_id);
+
+  FOREACH v_kind IN ARRAY p_kinds LOOP
+    v_limit := (v_status -> v_kind ->> 'limit')::bigint;
+    v_used := (v_status -> v_kind ->> 'used')::bigint;
+    IF v_limit IS NOT NULL AND v_used >= v_limit THEN
+      RAISE EXCEPTION USING
+        ERRCODE = 'PT429',
+        MESSAGE = format('Daily %s quota reached', v_kind),
+        DETAIL = jsonb_build_object(
+          'kind', v_kind,
+          'limit', v_limit,
+          'used', v_used,
+          'resets_at', v_status ->> 'resets_at'
+        )::text,
+        HINT = 'quota_exceeded';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_generation_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.requested_at := now();
+  PERFORM enforce_quota(NEW.user_id, ARRAY['generations', 'tokens']);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_ai_helper_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_at := now();
+  IF NEW.purpose = 'rewrite' THEN
+    PERFORM enforce_quota(NEW.user_id, ARRAY['rewrites', 'tokens']);
+  ELSE
+    PERFORM enforce_quota(NEW.user_id, ARRAY['tokens']);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS generation_queue_enforce_quota ON generation_queue;
+CREATE TRIGGER generation_queue_enforce_quota
+  BEFORE INSERT ON generation_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_generation_quota();
+
+DROP TRIGGER IF EXISTS ai_helper_requests_enforce_quota ON ai_helper_requests;
+CREATE TRIGGER ai_helper_requests_enforce_quota
+  BEFORE INSERT ON ai_helper_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_ai_helper_quota();
+
+REVOKE ALL ON FUNCTION quota_status_for(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION enforce_quota(uuid, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION enforce_generation_quota() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION enforce_ai_helper_quota() FROM PUBLIC, anon, authenticated;
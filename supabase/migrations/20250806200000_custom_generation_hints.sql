@@ -0,0 +1,91 @@
+/*
+  # Custom generation hints
+
+  1. New Tables
+    - `custom_generation_hints`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner)
+      - `infographic_id` (uuid, nullable) deck the hint belongs to; null makes it available in every
+        deck of the owner
+      - `slug` (text) referenced from `infographic_pages.generation_hints` as `custom:<slug>`
+      - `label`, `description` (text) shown in the editor and given to suggest-hints
+      - `prompt` (text) instruction the queue worker adds to the generation prompt
+      - `created_at`, `updated_at`
+    - A slug is unique per owner and scope; a deck-level hint overrides a user-level one with the
+      same slug. Length limits are mirrored in `_shared/generation-hints.ts`
+
+  2. Security
+    - Enable RLS; users manage their own hints, attached to decks they own
+*/
+
+CREATE TABLE IF NOT EXISTS custom_generation_hints (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  infographic_id uuid REFERENCES infographics(id) ON DELETE CASCADE,
+  slug text NOT NULL CHECK (slug ~ '^[a-z0-9]+(_[a-z0-9]+)*$' AND char_length(slug) <= 40),
+  label text NOT NULL CHECK (char_length(btrim(label)) BETWEEN 1 AND 60),
+  description text NOT NULL DEFAULT '' CHECK (char_length(description) <= 300),
+  prompt text NOT NULL CHECK (char_length(btrim(prompt)) BETWEEN 1 AND 1000),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE custom_generation_hints ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS custom_generation_hints_user_slug_idx
+  ON custom_generation_hints (user_id, slug)
+  WHERE infographic_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS custom_generation_hints_deck_slug_idx
+  ON custom_generation_hints (infographic_id, slug)
+  WHERE infographic_id IS NOT NULL;
+
+CREATE POLICY "Users can read their own custom hints"
+  ON custom_generation_hints
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create custom hints for their own decks"
+  ON custom_generation_hints
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      infographic_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM infographics
+        WHERE infographics.id = custom_generation_hints.infographic_id
+          AND infographics.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update their own custom hints"
+  ON custom_generation_hints
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      infographic_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM infographics
+        WHERE infographics.id = custom_generation_hints.infographic_id
+          AND infographics.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own custom hints"
+  ON custom_generation_hints
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_custom_generation_hints_updated_at ON custom_generation_hints;
+CREATE TRIGGER update_custom_generation_hints_updated_at
+  BEFORE UPDATE ON custom_generation_hints
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,72 @@
+/*
+  # Page layout templates
+
+  1. New Tables
+    - `page_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner; templates are shared by all decks of their owner)
+      - `name`, `description` (text)
+      - `html` (text) skeleton whose content elements carry `data-slot="<name>"`
+      - `slots` (text[]) slot names in document order, derived from `html` by the editor
+      - `source_page_id` (uuid, nullable) page the template was saved from
+      - `created_at`, `updated_at`
+    - Limits are mirrored in `_shared/page-templates.ts`
+
+  2. Schema Changes
+    - `infographic_pages.template_id` (uuid, nullable) template the queue worker fills in for this
+      page; cleared when the template is deleted
+
+  3. Security
+    - Enable RLS; users manage their own templates
+    - The queue worker only applies a template owned by the deck owner
+*/
+
+CREATE TABLE IF NOT EXISTS page_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 80),
+  description text NOT NULL DEFAULT '',
+  html text NOT NULL CHECK (char_length(html) BETWEEN 1 AND 60000),
+  slots text[] NOT NULL DEFAULT ARRAY[]::text[],
+  source_page_id uuid REFERENCES infographic_pages(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE page_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS page_templates_user_name_idx
+  ON page_templates (user_id, name);
+
+ALTER TABLE infographic_pages
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES page_templates(id) ON DELETE SET NULL;
+
+CREATE POLICY "Users can read their own templates"
+  ON page_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own templates"
+  ON page_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own templates"
+  ON page_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own templates"
+  ON page_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_page_templates_updated_at ON page_templates;
+CREATE TRIGGER update_page_templates_updated_at
+  BEFORE UPDATE ON page_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
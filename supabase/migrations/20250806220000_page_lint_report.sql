@@ -0,0 +1,11 @@
+/*
+  # Slide lint report on pages
+
+  1. Schema Changes
+    - `infographic_pages.lint_report` (jsonb, nullable) result of the slide lint rules
+      (`_shared/slide-lint.ts`) on the saved `generated_html`: `{ valid, errors, rules }`
+    - Written by the queue worker after the repair loop and by the editor when a version is restored;
+      null for pages generated before the rules existed
+*/
+
+ALTER TABLE infographic_pages ADD COLUMN IF NOT EXISTS lint_report jsonb;
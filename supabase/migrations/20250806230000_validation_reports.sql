@@ -0,0 +1,17 @@
+/*
+  # Validation reports per generation
+
+  1. Schema Changes
+    - `generation_queue.validation_report` (jsonb, nullable) history of the repair loop of the job: errors
+      found by every validation pass (markup, slide lint, runtime), the diff each repair applied and the
+      outcome (`passed`, `repaired`, `max_iterations`, `stalled`, `skipped`)
+    - `infographic_pages.validation_report` (jsonb, nullable) report of the generation that produced the
+      current `generated_html`
+    - `infographic_pages_history.validation_report` (jsonb, nullable) copied from the page when its HTML is
+      snapshotted, so every version keeps the report it was generated with
+    - Shape documented in `_shared/validation-report.ts`; null for HTML generated before reports existed
+*/
+
+ALTER TABLE generation_queue ADD COLUMN IF NOT EXISTS validation_report jsonb;
+ALTER TABLE infographic_pages ADD COLUMN IF NOT EXISTS validation_report jsonb;
+ALTER TABLE infographic_pages_history ADD COLUMN IF NOT EXISTS validation_report jsonb;
@@ -0,0 +1,125 @@
+/*
+  # Deck image assets
+
+  1. New Tables
+    - `deck_assets`
+      - `id` (uuid, primary key)
+      - `infographic_id` (uuid, deck the image belongs to; removed with the deck)
+      - `user_id` (uuid, owner)
+      - `storage_path` (text, unique) object path in the `deck-assets` bucket,
+        `<owner>/<deck>/<asset id>-<file name>`
+      - `file_name`, `alt_text` (text)
+      - `width`, `height` (integer, nullable) pixel size measured by the editor on upload
+      - `content_type` (text), `size_bytes` (integer)
+      - `created_at`, `updated_at`
+    - Limits are mirrored in `_shared/deck-assets.ts`
+
+  2. Storage
+    - Public `deck-assets` bucket (10 MB per file, PNG/JPEG/WebP/GIF/AVIF); public so generated slides,
+      shared decks and exports can load the images without a token
+
+  3. Security
+    - Enable RLS; users manage the assets of their own decks
+    - A new row must point into the owner's folder of that deck. No URL is stored: the editor and the edge
+      functions build the public URL from `storage_path` (`deckAssetPublicUrl`), so lint and the worker
+      only ever trust images of this project's bucket
+    - Users can only update the metadata columns (`alt_text`, `file_name`, `width`, `height`), never
+      `storage_path` or the deck
+    - Storage objects can only be written, replaced or removed under the caller's own folder
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'deck-assets',
+  'deck-assets',
+  true,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'image/avif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS deck_assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  infographic_id uuid NOT NULL REFERENCES infographics(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path text NOT NULL UNIQUE,
+  file_name text NOT NULL,
+  alt_text text NOT NULL DEFAULT '' CHECK (char_length(alt_text) <= 300),
+  width integer CHECK (width > 0),
+  height integer CHECK (height > 0),
+  content_type text NOT NULL,
+  size_bytes integer NOT NULL CHECK (size_bytes >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE deck_assets ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS deck_assets_infographic_idx
+  ON deck_assets (infographic_id, created_at);
+
+CREATE POLICY "Users can read their own deck assets"
+  ON deck_assets
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add assets to their own decks"
+  ON deck_assets
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM infographics
+      WHERE infographics.id = deck_assets.infographic_id
+        AND infographics.user_id = auth.uid()
+    )
+    AND starts_with(storage_path, auth.uid()::text || '/' || infographic_id::text || '/')
+    AND storage_path !~ '(^|/)\.\.(/|$)'
+  );
+
+CREATE POLICY "Users can update their own deck assets"
+  ON deck_assets
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE UPDATE ON deck_assets FROM anon, authenticated;
+GRANT UPDATE (alt_text, file_name, width, height) ON deck_assets TO authenticated;
+
+CREATE POLICY "Users can delete their own deck assets"
+  ON deck_assets
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_deck_assets_updated_at ON deck_assets;
+CREATE TRIGGER update_deck_assets_updated_at
+  BEFORE UPDATE ON deck_assets
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE POLICY "Users can upload deck assets to their own folder"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'deck-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can read deck assets in their own folder"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'deck-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace deck assets in their own folder"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'deck-assets' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete deck assets in their own folder"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'deck-assets' AND (storage.foldername(name))[1] = auth.uid()::text);